@@ -11,22 +11,66 @@ export type {
   EditMode,
   HelperMode,
   FileMode,
+  FileFormat,
+  BuiltInFileFormat,
+  FileFormatDefinition,
+  FileFormatReadResult,
+  FileFormatRegistration,
+  FileFormatWriteData,
+  ImportMode,
+  ImportOptions,
+  SaveOptions,
+  ImportIssue,
+  ImportIssueCode,
+  ImportFeatureReport,
+  ImportValidationReport,
   ToolbarPosition,
   ToolbarOrientation,
   SelectedFeature,
   ScaleOptions,
   SimplifyOptions,
   CopyOptions,
+  PasteMode,
+  PasteOptions,
   SplitOptions,
+  SplitTool,
+  BufferOptions,
+  BufferCapStyle,
+  BufferJoinStyle,
+  BufferSide,
+  BufferUnits,
   UnionOptions,
+  LineMergeOptions,
   DifferenceOptions,
+  IntersectOptions,
+  XorOptions,
   LassoOptions,
   SplitResult,
+  BufferResult,
   UnionResult,
+  LineMergeResult,
+  ExplodeResult,
   DifferenceResult,
+  IntersectResult,
+  XorResult,
+  ClipResult,
   SimplifyResult,
   LassoResult,
+  SnapType,
+  SnapTarget,
+  MapEventAdjuster,
+  AngleReference,
+  VertexPath,
+  VertexEditAction,
+  Measurement,
+  MeasurementUnits,
+  SegmentMeasurement,
+  TopologyIssue,
+  TopologyIssueType,
+  TopologyValidationOptions,
   GeoJsonLoadResult,
+  GeoJsonLoadProgress,
+  GeoJsonLoadCancel,
   GeoJsonSaveResult,
   ScaleHandle,
   ScaleHandlePosition,
@@ -51,14 +95,39 @@ export {
   SimplifyFeature,
   UnionFeature,
   DifferenceFeature,
+  IntersectFeature,
+  XorFeature,
   ScaleFeature,
   LassoFeature,
   SplitFeature,
+  BufferFeature,
+  SnappingFeature,
+  AngleConstraintFeature,
+  MeasurementFeature,
 } from './lib/features';
 
+// Measurement formatting
+export {
+  measureFeature,
+  formatLength,
+  formatArea,
+} from './lib/core/measurements';
+
+// Angle constraints and squaring
+export { constrainToAngle, orthogonalize } from './lib/core/orthogonal';
+
+// Vertex editing on GeoJSON features
+export { insertVertex, removeVertex, moveVertex } from './lib/core/vertices';
+
+// Buffers and offset curves
+export { bufferFeature } from './lib/core/buffer';
+
 // Utility exports
 export * from './lib/utils';
 
+// File format exports
+export * from './lib/formats';
+
 // Constants
 export {
   DEFAULT_DRAW_MODES,
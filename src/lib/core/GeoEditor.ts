@@ -12,7 +12,9 @@ import type {
   Feature,
   FeatureCollection,
   Polygon,
+  MultiPolygon,
   LineString,
+  MultiLineString,
   Point,
   Position,
   GeoJsonProperties,
@@ -27,13 +29,36 @@ import type {
   GeomanInstance,
   GeomanFeatureData,
   SplitResult,
+  SplitTool,
+  BufferOptions,
+  BufferResult,
   UnionResult,
+  LineMergeResult,
+  ExplodeResult,
   DifferenceResult,
+  ClipResult,
   SimplifyResult,
   LassoResult,
+  AngleReference,
+  VertexEditAction,
+  VertexPath,
+  Measurement,
+  MeasurementUnits,
   ScaleHandlePosition,
   GeoJsonLoadResult,
   GeoJsonSaveResult,
+  ImportMode,
+  ImportOptions,
+  ImportValidationReport,
+  PasteOptions,
+  SaveOptions,
+  SnapTarget,
+  MapEventAdjuster,
+  TopologyIssue,
+  TopologyValidationOptions,
+  FileFormat,
+  FileFormatDefinition,
+  FileFormatRegistration,
   HistoryState,
   AttributeFieldDefinition,
   AttributeSchema,
@@ -41,11 +66,24 @@ import type {
 } from "./types";
 import { HistoryManager } from "./HistoryManager";
 import { resolveImportedCount, type GeomanImportResult } from "./importResult";
+import { ImportIndex, type ImportPlan } from "./importMerge";
 import {
+  isSupportedGeometry,
+  validateImportFeatures,
+} from "./importValidation";
+import {
+  connectLineNetwork,
+  isLineFeature,
   isPolygonFeature,
-  propagateSharedVertexMoves,
+  propagateNetworkVertexMoves,
+  propagateSharedEdgeEdits,
   removePolygonOverlaps,
+  repairCoverageSeams,
 } from "./topology";
+import {
+  fixTopologyIssue as computeTopologyFix,
+  validateTopology as findTopologyIssues,
+} from "./topologyValidation";
 import {
   CreateFeatureCommand,
   EditFeatureCommand,
@@ -53,6 +91,13 @@ import {
   CompositeCommand,
 } from "./commands";
 import type { CommandContext } from "./commands";
+import { parseCogoInput, resolveCogoInput } from "./cogo";
+import {
+  findVertexAnchor,
+  orthogonalize,
+  type AngleAnchor,
+} from "./orthogonal";
+import { insertVertex, moveVertex, removeVertex } from "./vertices";
 import {
   DEFAULT_OPTIONS,
   CSS_PREFIX,
@@ -64,14 +109,105 @@ import {
   SimplifyFeature,
   UnionFeature,
   DifferenceFeature,
+  IntersectFeature,
+  XorFeature,
   ScaleFeature,
   RotateFeature,
   LassoFeature,
   SplitFeature,
+  BufferFeature,
   FreehandFeature,
+  SnappingFeature,
+  AngleConstraintFeature,
+  MeasurementFeature,
 } from "../features";
 import { getPolygonFeatures } from "../utils/selectionUtils";
-import { isPolygon, isLine } from "../utils/geometryUtils";
+import { isPolygon, isLine, generateFeatureId } from "../utils/geometryUtils";
+import {
+  BUILTIN_FILE_FORMATS,
+  FormatRegistry,
+  createGeoJsonCrs,
+  parseFeatureText,
+  readGeoJsonCrs,
+  readGeoJsonMembers,
+  reprojectFromWgs84,
+  reprojectToWgs84,
+  requireProjection,
+  streamGeoJson,
+} from "../formats";
+import type { FeatureFileWriteResult, Projection } from "../formats";
+
+/** A feature before and after a topology change */
+interface TopologyEdit {
+  oldFeature: Feature;
+  newFeature: Feature;
+}
+
+/** Features a draw produced once topology was applied */
+interface CreatedFeatures {
+  /** The drawn feature, or the parts it was split into */
+  features: Feature[];
+  /** Existing features replaced by their parts */
+  deleted: Feature[];
+  neighbourEdits: TopologyEdit[];
+}
+
+/** The features an operation added, or why geoman could not take them */
+type ReplacedFeatures<T extends Feature> =
+  | { success: true; features: T[] }
+  | { success: false; error: string };
+
+/** A save with its format and filename resolved, ready to be written */
+interface PreparedSave {
+  featureCollection: FeatureCollection;
+  format: FileFormat;
+  filename: string;
+  /** Layer/document name for the written file */
+  name: string;
+  /** CRS the GeoJSON is written in, if not WGS84 */
+  crs?: string;
+}
+
+/**
+ * An import plan as carried out by geoman
+ */
+interface AppliedImport extends ImportPlan {
+  /** The added features as created by geoman (with their editor ids) */
+  created: Feature[];
+  /** Number of features geoman reported as added */
+  importedCount: number;
+}
+
+const isAbortError = (error: unknown): boolean =>
+  (error as { name?: unknown } | null)?.name === "AbortError";
+
+/** Mouse events geoman and our modes take positions from */
+const ADJUSTED_MAP_EVENTS = new Set([
+  "mousedown",
+  "mouseup",
+  "mousemove",
+  "click",
+  "dblclick",
+  "contextmenu",
+]);
+
+const isAdjustableEvent = (event: unknown): event is MapMouseEvent =>
+  !!event &&
+  typeof event === "object" &&
+  ADJUSTED_MAP_EVENTS.has((event as { type?: string }).type ?? "") &&
+  "lngLat" in event;
+
+/**
+ * A map mouse event whose position can be changed without touching the event
+ * its caller fired. Everything else is read from the original, and
+ * preventDefault() is passed on to it so MapLibre's handlers still see it.
+ */
+const copyMouseEvent = (event: MapMouseEvent): MapMouseEvent => {
+  const copy = Object.create(event) as MapMouseEvent;
+  copy.lngLat = new LngLat(event.lngLat.lng, event.lngLat.lat);
+  copy.preventDefault = () => event.preventDefault();
+  return copy;
+};
 
 /**
  * GeoEditor - Advanced geometry editing control for MapLibre GL
@@ -89,14 +225,25 @@ export class GeoEditor implements IControl {
   private simplifyFeature: SimplifyFeature;
   private unionFeature: UnionFeature;
   private differenceFeature: DifferenceFeature;
+  private intersectFeature: IntersectFeature;
+  private xorFeature: XorFeature;
   private scaleFeature: ScaleFeature;
   private rotateFeature: RotateFeature;
   private lassoFeature: LassoFeature;
   private splitFeature: SplitFeature;
+  private bufferFeature: BufferFeature;
   private freehandFeature: FreehandFeature;
+  private snappingFeature: SnappingFeature;
+  private angleConstraintFeature: AngleConstraintFeature;
+  private measurementFeature: MeasurementFeature;
+  private mapEventAdjusters: MapEventAdjuster[] = [];
+  private hookedFire: MapLibreMap["fire"] | null = null;
+  private unhookFire: (() => void) | null = null;
 
   // Event listeners
   private boundKeyHandler: ((e: KeyboardEvent) => void) | null = null;
+  private boundPasteHandler: ((e: ClipboardEvent) => void) | null = null;
+  private boundCursorTracker: ((e: MapMouseEvent) => void) | null = null;
   private boundClickHandler: ((e: MapMouseEvent) => void) | null = null;
   // Finish an in-progress polygon/line draw on double-click or right-click.
   private boundDrawFinishDblClick: ((e: MapMouseEvent) => void) | null = null;
@@ -113,12 +260,26 @@ export class GeoEditor implements IControl {
   private isSelectMode: boolean = false;
 
   // Interactive selection mode for union/difference
-  private pendingOperation: "union" | "difference" | null = null;
+  private pendingOperation:
+    | "union"
+    | "difference"
+    | "intersect"
+    | "xor"
+    | "clip"
+    | null = null;
 
   // Snapping state (independent of other modes)
   private snappingEnabled: boolean = false;
   // Topology state (boundary reuse + shared-node editing)
   private topologyEnabled: boolean = false;
+  // Live measurement labels while drawing and editing
+  private measurementsEnabled: boolean = false;
+  // Box next to the cursor for typing vertices while drawing
+  private precisionInputEnabled: boolean = false;
+  private precisionInput: HTMLElement | null = null;
+  private boundPrecisionInputMove: ((e: MapMouseEvent) => void) | null = null;
+  // Where the segment of the vertex dragged in change mode starts
+  private vertexDragAnchor: AngleAnchor | null = null;
   // Prevent geometry updates made by topology handling from being reprocessed.
   private applyingTopology: boolean = false;
 
@@ -156,6 +317,30 @@ export class GeoEditor implements IControl {
   // Hidden file input for file dialog
   private fileInput: HTMLInputElement | null = null;
 
+  // Overlay and listeners for dropping files onto the map
+  private dropOverlay: HTMLDivElement | null = null;
+  private dropDragDepth: number = 0;
+  private boundDragEnter: ((e: DragEvent) => void) | null = null;
+  private boundDragOver: ((e: DragEvent) => void) | null = null;
+  private boundDragLeave: ((e: DragEvent) => void) | null = null;
+  private boundDrop: ((e: DragEvent) => void) | null = null;
+
+  // Aborts the file loads in progress (see cancelImport)
+  private importControllers = new Set<AbortController>();
+
+  // File formats available to the open/save tools
+  private formatRegistry = new FormatRegistry(BUILTIN_FILE_FORMATS);
+
+  // Save-format menu shown when more than one save format is enabled
+  private saveMenu: HTMLDivElement | null = null;
+  private boundSaveMenuOutsideClick: ((e: MouseEvent) => void) | null = null;
+
+  // Text last written to the system clipboard by a copy
+  private lastClipboardText: string | null = null;
+  // Map position under the mouse and whether the pending paste goes there
+  private cursorLngLat: [number, number] | null = null;
+  private pasteAtCursor: boolean = false;
+
   // Feature properties popup
   private propertiesPopup: Popup | null = null;
 
@@ -175,6 +360,10 @@ export class GeoEditor implements IControl {
   private isNewFeature: boolean = false;
   private originalProperties: Record<string, unknown> | null = null;
 
+  // Topology check panel
+  private topologyPanel: HTMLDivElement | null = null;
+  private topologyIssues: TopologyIssue[] = [];
+
   // Style data listener for modifying Geoman's vertex markers
   private boundStyleDataHandler: (() => void) | null = null;
 
@@ -200,25 +389,57 @@ export class GeoEditor implements IControl {
     // Initialize snapping from options
     this.snappingEnabled = this.options.snappingEnabled;
     this.topologyEnabled = this.options.topologyEnabled;
+    this.measurementsEnabled = this.options.measurementsEnabled;
+    this.precisionInputEnabled = this.options.precisionInputEnabled;
 
     // Initialize feature handlers
-    this.copyFeature = new CopyFeature();
+    this.copyFeature = new CopyFeature({
+      offsetMeters: this.options.pasteOffsetMeters,
+    });
     this.simplifyFeature = new SimplifyFeature({
       tolerance: this.options.simplifyTolerance,
     });
     this.unionFeature = new UnionFeature();
     this.differenceFeature = new DifferenceFeature();
+    this.intersectFeature = new IntersectFeature();
+    this.xorFeature = new XorFeature();
     this.scaleFeature = new ScaleFeature();
     this.rotateFeature = new RotateFeature();
     this.lassoFeature = new LassoFeature();
-    this.splitFeature = new SplitFeature();
+    this.splitFeature = new SplitFeature({ tool: this.options.splitTool });
+    this.bufferFeature = new BufferFeature(this.options.bufferOptions);
     this.freehandFeature = new FreehandFeature();
+    this.snappingFeature = new SnappingFeature({
+      tolerance: this.options.snappingTolerance,
+      types: this.options.snapTo,
+      getFeatures: () => this.getFeatures().features,
+      // Shift-constrained positions win over snapped ones
+      isActive: () =>
+        this.isSnappingModeActive() &&
+        !this.angleConstraintFeature.isConstraining(),
+    });
+    this.angleConstraintFeature = new AngleConstraintFeature({
+      step: this.options.angleConstraintStep,
+      reference: this.options.angleConstraintReference,
+      getAnchor: () => this.getAngleConstraintAnchor(),
+    });
+    this.measurementFeature = new MeasurementFeature({
+      units: this.options.measurementUnits,
+      getFeatures: () => this.getMeasuredFeatures(),
+      onChange: (measurements) =>
+        this.emitEvent("gm:measure", {
+          measurements,
+          units: this.measurementFeature.getUnits(),
+        }),
+    });
 
     // Initialize history manager if enabled
     if (this.options.enableHistory !== false) {
       this.historyManager = new HistoryManager(
         this.options.maxHistorySize,
         (canUndo, canRedo) => {
+          // Undo and redo change features outside the record methods
+          this.snappingFeature.invalidate();
           this.updateHistoryButtonStates(canUndo, canRedo);
           this.options.onHistoryChange?.(canUndo, canRedo);
         },
@@ -236,7 +457,21 @@ export class GeoEditor implements IControl {
     this.scaleFeature.init(map);
     this.lassoFeature.init(map);
     this.splitFeature.init(map);
+    this.bufferFeature.init(map);
     this.freehandFeature.init(map);
+    this.copyFeature.init(map);
+    this.snappingFeature.init(map);
+    this.angleConstraintFeature.init(map);
+    this.measurementFeature.init(map);
+    this.measurementFeature.setEnabled(this.measurementsEnabled);
+    // Shift constrains the raw position, which snapping may then move onto
+    // a feature; measurements follow once geoman has handled the event
+    this.mapEventAdjusters = [
+      this.angleConstraintFeature,
+      this.snappingFeature,
+      this.measurementFeature,
+    ];
+    this.hookMapEvents();
 
     // Create container
     this.container = document.createElement("div");
@@ -248,6 +483,11 @@ export class GeoEditor implements IControl {
     // Setup file input for file dialog
     this.setupFileInput();
 
+    // Setup dropping files onto the map
+    if (this.options.enableFileDrop) {
+      this.setupFileDrop();
+    }
+
     // Setup keyboard shortcuts
     this.setupKeyboardShortcuts();
 
@@ -277,6 +517,47 @@ export class GeoEditor implements IControl {
     return this.container;
   }
 
+  /**
+   * Wrap `map.fire` once so the event adjusters see the mouse events geoman
+   * and our modes take positions from. They are adjusted in fire() itself:
+   * listeners run in the order they were added, and geoman adds and removes
+   * its own as modes change. Adjusters work on a copy, so the caller's event
+   * is left as it was, and every other event is passed straight through.
+   * `onRemove` puts the original fire() back.
+   */
+  private hookMapEvents(): void {
+    const map = this.map;
+    const originalFire = map.fire;
+    const hooked = ((event: unknown, properties?: unknown) => {
+      // Once unhooked, a wrapper added on top of this one still calls it
+      if (this.hookedFire !== hooked || !isAdjustableEvent(event)) {
+        return originalFire.call(map, event as never, properties as never);
+      }
+      const adjusted = copyMouseEvent(event);
+      const adjusters = this.mapEventAdjusters;
+      adjusters.forEach((adjuster) => adjuster.beforeFire?.(adjusted));
+      const result = originalFire.call(
+        map,
+        adjusted as never,
+        properties as never,
+      );
+      adjusters.forEach((adjuster) => adjuster.afterFire?.(adjusted));
+      return result;
+    }) as MapLibreMap["fire"];
+    this.hookedFire = hooked;
+    map.fire = hooked;
+    this.unhookFire = () => {
+      // Leave wrappers added after ours (e.g. by another plugin) in place
+      if (map.fire === hooked) map.fire = originalFire;
+    };
+  }
+
+  private unhookMapEvents(): void {
+    this.unhookFire?.();
+    this.unhookFire = null;
+    this.hookedFire = null;
+  }
+
   /**
    * Called when the control is removed from the map
    */
@@ -295,14 +576,25 @@ export class GeoEditor implements IControl {
     this.closeRotatePopup();
     this.hideAttributePanel();
     this.removeAttributePanel();
+    this.hideTopologyPanel();
+    this.removeTopologyPanel();
+    this.removePrecisionInput();
 
     // Cleanup feature handlers
     this.scaleFeature.destroy();
     this.lassoFeature.destroy();
     this.splitFeature.destroy();
+    this.bufferFeature.destroy();
     this.freehandFeature.destroy();
-
-    // Cleanup file input
+    this.unhookMapEvents();
+    this.measurementFeature.destroy();
+    this.angleConstraintFeature.destroy();
+    this.snappingFeature.destroy();
+
+    // Cleanup file input and drop target
+    this.cancelImport();
+    this.removeFileDrop();
+    this.closeSaveMenu();
     if (this.fileInput && this.fileInput.parentNode) {
       this.fileInput.parentNode.removeChild(this.fileInput);
       this.fileInput = null;
@@ -393,7 +685,7 @@ export class GeoEditor implements IControl {
    */
   private setupSelectionHandler(): void {
     this.boundClickHandler = (e: MapMouseEvent) => {
-      // Handle both select mode and pending operation mode (union/difference)
+      // Handle both select mode and pending operation mode (union/difference/intersect/xor/clip)
       if (!this.isSelectMode && !this.pendingOperation) {
         return;
       }
@@ -408,16 +700,23 @@ export class GeoEditor implements IControl {
 
       if (result) {
         const { feature, geomanData } = result;
+        // In clip mode the clicked polygon is the mask for the selection
+        if (this.pendingOperation === "clip") {
+          if (isPolygon(feature)) {
+            this.clipSelected(feature as Feature<Polygon | MultiPolygon>);
+          }
+          return;
+        }
         // For union/difference mode, always add to selection (multi-select)
         if (this.pendingOperation) {
-          // Only add polygons for union/difference
+          // Only add polygons for difference; union also merges lines
           if (
-            feature.geometry.type === "Polygon" ||
-            feature.geometry.type === "MultiPolygon"
+            isPolygon(feature) ||
+            (this.pendingOperation === "union" && isLine(feature))
           ) {
             this.addToSelection(feature, geomanData);
           }
-          // Silently ignore non-polygon clicks in union/difference mode
+          // Silently ignore other clicks in union/difference mode
         } else if (e.originalEvent.shiftKey) {
           this.toggleFeatureSelection(feature, geomanData);
         } else {
@@ -1370,6 +1669,7 @@ export class GeoEditor implements IControl {
     this.state.isDrawing = true;
     this.options.onModeChange?.(mode);
     this.updateToolbarState();
+    this.updatePrecisionInput();
   }
 
   /**
@@ -1529,6 +1829,8 @@ export class GeoEditor implements IControl {
     this.closeRotatePopup();
     this.lassoFeature.disable();
     this.splitFeature.cancelSplit();
+    this.bufferFeature.cancelBuffer();
+    this.copyFeature.cancelPlacement();
     this.disableFreehandMode();
     this.disableSelectMode();
     this.restoreScaleDragPan();
@@ -1553,6 +1855,7 @@ export class GeoEditor implements IControl {
     this.state.isDrawing = false;
     this.state.isEditing = false;
     this.updateToolbarState();
+    this.updatePrecisionInput();
 
     // Note: snapping state is NOT reset here - it's independent.
     if (
@@ -1640,20 +1943,12 @@ export class GeoEditor implements IControl {
    * @returns true when a shape was finished, false otherwise.
    */
   private finishActiveLineOrPolygonDraw(): boolean {
-    const mode =
-      this.state.activeDrawMode === "massing"
-        ? "polygon"
-        : this.state.activeDrawMode;
-    if (mode !== "polygon" && mode !== "line") return false;
-    if (!this.geoman) return false;
+    const active = this.getActiveLineDrawer();
+    if (!active) return false;
+    const { mode, instance, drawer } = active;
 
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const instances = (this.geoman as any).actionInstances;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const instance = instances?.[`draw__${mode}`] as any;
-      const drawer = instance?.lineDrawer;
-      if (!drawer || typeof drawer.getMarkerClickEventData !== "function") {
+      if (typeof drawer.getMarkerClickEventData !== "function") {
         return false;
       }
 
@@ -1700,33 +1995,60 @@ export class GeoEditor implements IControl {
     }
   }
 
+  /**
+   * Geoman's line drawer for the line or polygon being drawn, if any. Geoman's
+   * draw internals are not part of the public API, so callers feature-detect
+   * the drawer methods they use.
+   */
+  private getActiveLineDrawer(): {
+    mode: "line" | "polygon";
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    instance: any;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    drawer: any;
+  } | null {
+    const mode =
+      this.state.activeDrawMode === "massing"
+        ? "polygon"
+        : this.state.activeDrawMode;
+    if (mode !== "polygon" && mode !== "line") return null;
+    if (!this.geoman) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const instances = (this.geoman as any).actionInstances;
+    const instance = instances?.[`draw__${mode}`];
+    const drawer = instance?.lineDrawer;
+    return drawer ? { mode, instance, drawer } : null;
+  }
+
   /**
    * Compare two Geoman vertices for equality. Geoman stores vertices as either
    * `[lng, lat]` tuples or MapLibre `LngLat` objects, so normalize both forms.
    */
   private lngLatsEqual(a: unknown, b: unknown): boolean {
-    const toPair = (p: unknown): [number, number] | null => {
-      if (
-        Array.isArray(p) &&
-        typeof p[0] === "number" &&
-        typeof p[1] === "number"
-      ) {
-        return [p[0], p[1]];
-      }
-      if (p && typeof p === "object") {
-        const o = p as { lng?: unknown; lat?: unknown };
-        if (typeof o.lng === "number" && typeof o.lat === "number") {
-          return [o.lng, o.lat];
-        }
-      }
-      return null;
-    };
-    const pa = toPair(a);
-    const pb = toPair(b);
+    const pa = this.toLngLatPair(a);
+    const pb = this.toLngLatPair(b);
     if (!pa || !pb) return false;
     return Math.abs(pa[0] - pb[0]) < 1e-9 && Math.abs(pa[1] - pb[1]) < 1e-9;
   }
 
+  private toLngLatPair(p: unknown): [number, number] | null {
+    if (
+      Array.isArray(p) &&
+      typeof p[0] === "number" &&
+      typeof p[1] === "number"
+    ) {
+      return [p[0], p[1]];
+    }
+    if (p && typeof p === "object") {
+      const o = p as { lng?: unknown; lat?: unknown };
+      if (typeof o.lng === "number" && typeof o.lat === "number") {
+        return [o.lng, o.lat];
+      }
+    }
+    return null;
+  }
+
   /**
    * Enable an advanced edit mode
    */
@@ -1750,9 +2072,27 @@ export class GeoEditor implements IControl {
       case "difference":
         this.enableDifferenceMode();
         break;
+      case "intersect":
+        this.enableIntersectMode();
+        break;
+      case "xor":
+        this.enableXorMode();
+        break;
+      case "clip":
+        this.enableClipMode();
+        break;
       case "simplify":
         this.executeSimplify();
         break;
+      case "orthogonalize":
+        this.orthogonalizeSelected();
+        break;
+      case "buffer":
+        this.enableBufferMode();
+        break;
+      case "explode":
+        this.explodeSelected();
+        break;
       case "lasso":
         this.enableLassoMode();
         break;
@@ -1760,12 +2100,14 @@ export class GeoEditor implements IControl {
   }
 
   /**
-   * Enable union mode (interactive polygon selection)
+   * Enable union mode (interactive polygon or line selection)
    */
   private enableUnionMode(): void {
     const selected = this.getSelectedFeatures();
-    const polygons = getPolygonFeatures(selected);
-    if (polygons.length >= 2) {
+    if (
+      getPolygonFeatures(selected).length >= 2 ||
+      selected.filter(isLine).length >= 2
+    ) {
       this.executeUnion();
       return;
     }
@@ -1789,6 +2131,50 @@ export class GeoEditor implements IControl {
     this.map.getCanvas().style.cursor = "pointer";
   }
 
+  /**
+   * Enable intersect mode (interactive polygon selection)
+   */
+  private enableIntersectMode(): void {
+    const selected = this.getSelectedFeatures();
+    const polygons = getPolygonFeatures(selected);
+    if (polygons.length >= 2) {
+      this.executeIntersect();
+      return;
+    }
+
+    this.pendingOperation = "intersect";
+    this.map.getCanvas().style.cursor = "pointer";
+  }
+
+  /**
+   * Enable symmetric difference mode (interactive polygon selection)
+   */
+  private enableXorMode(): void {
+    const selected = this.getSelectedFeatures();
+    const polygons = getPolygonFeatures(selected);
+    if (polygons.length >= 2) {
+      this.executeXor();
+      return;
+    }
+
+    this.pendingOperation = "xor";
+    this.map.getCanvas().style.cursor = "pointer";
+  }
+
+  /**
+   * Enable clip mode: the next polygon clicked is the mask the selected
+   * features are clipped to
+   */
+  private enableClipMode(): void {
+    if (this.getSelectedFeatures().length === 0) {
+      console.warn("Select the features to clip, then click the mask polygon");
+      return;
+    }
+
+    this.pendingOperation = "clip";
+    this.map.getCanvas().style.cursor = "crosshair";
+  }
+
   /**
    * Execute the pending operation (union/difference)
    */
@@ -1799,6 +2185,13 @@ export class GeoEditor implements IControl {
       this.executeUnion();
     } else if (this.pendingOperation === "difference") {
       this.executeDifference();
+    } else if (this.pendingOperation === "intersect") {
+      this.executeIntersect();
+    } else if (this.pendingOperation === "xor") {
+      this.executeXor();
+    } else if (this.pendingOperation === "clip") {
+      // Clip waits for the mask to be clicked
+      return;
     }
 
     this.pendingOperation = null;
@@ -2813,7 +3206,7 @@ export class GeoEditor implements IControl {
    * Enable copy mode
    */
   private enableCopyMode(): void {
-    this.copySelectedFeatures();
+    void this.copySelectedFeatures();
   }
 
   /**
@@ -2826,20 +3219,126 @@ export class GeoEditor implements IControl {
       return;
     }
 
-    const feature = selected[0];
-    if (!isPolygon(feature) && !isLine(feature)) {
+    // One line splits every selected polygon and line it crosses
+    const targets = selected.filter(
+      (feature) => isPolygon(feature) || isLine(feature),
+    );
+    if (targets.length === 0) {
       console.warn("Can only split polygons and lines");
       return;
     }
+    if (this.splitFeature.getTool() === "point" && !targets.some(isLine)) {
+      console.warn("Select a line to split at a point");
+      return;
+    }
 
     this.splitFeature.startSplit(
-      feature as Feature<Polygon | LineString>,
-      (result: SplitResult) => {
-        this.handleSplitResult(result);
+      targets as SplitResult["original"][],
+      (results: SplitResult[]) => {
+        this.handleSplitResults(results);
       },
     );
   }
 
+  /**
+   * Set what split mode draws: a cut line, a point to split lines at, or a
+   * polygon that splits polygons into the pieces inside and outside it
+   */
+  setSplitTool(tool: SplitTool): void {
+    this.splitFeature.setTool(tool);
+    if (this.state.activeEditMode === "split") {
+      this.enableEditMode("split");
+    }
+  }
+
+  getSplitTool(): SplitTool {
+    return this.splitFeature.getTool();
+  }
+
+  /**
+   * Split the selected polygons and lines with a line, a polygon, or (lines
+   * only) a point, as one undoable operation
+   *
+   * @returns The results for the selected features, in selection order
+   */
+  splitSelected(
+    splitter: Feature<
+      LineString | MultiLineString | Polygon | MultiPolygon | Point
+    >,
+  ): SplitResult[] {
+    const targets = this.getSelectedFeatures().filter(
+      (feature) => isPolygon(feature) || isLine(feature),
+    ) as SplitResult["original"][];
+    const results = this.splitFeature.splitFeatures(targets, splitter);
+    this.handleSplitResults(results);
+    return results;
+  }
+
+  /**
+   * Divide each selected polygon into `count` parts of equal area, with
+   * parallel cuts running along `bearing` (degrees clockwise from north), as
+   * one undoable operation
+   *
+   * @returns The results for the selected polygons, in selection order
+   */
+  splitSelectedEqually(count: number, bearing: number = 0): SplitResult[] {
+    const results = this.getSelectedFeatures()
+      .filter(isPolygon)
+      .map((feature) =>
+        this.splitFeature.splitPolygonEqually(
+          feature as Feature<Polygon | MultiPolygon>,
+          count,
+          bearing,
+        ),
+      );
+    this.handleSplitResults(results);
+    return results;
+  }
+
+  /**
+   * Enable buffer mode: the selected features are previewed with their
+   * buffers, and dragging the handle sets the distance
+   */
+  private enableBufferMode(): void {
+    const targets = this.getSelectedFeatures().filter(
+      (feature) => feature.geometry,
+    );
+    if (targets.length === 0) {
+      console.warn("Select points, lines or polygons to buffer");
+      return;
+    }
+
+    this.bufferFeature.startBuffer(targets, (results: BufferResult[]) => {
+      this.handleBufferResults(results);
+    });
+  }
+
+  /**
+   * Buffer the selected features and add the buffers (or offset curves) as
+   * new features, as one undoable operation. The selected features are kept.
+   *
+   * @returns The results for the selected features, in selection order
+   */
+  bufferSelected(options: BufferOptions = {}): BufferResult[] {
+    const results = this.bufferFeature.bufferFeatures(
+      this.getSelectedFeatures(),
+      options,
+    );
+    this.handleBufferResults(results);
+    return results;
+  }
+
+  /**
+   * Set the distance, units, segments and cap/join style of buffers
+   */
+  setBufferOptions(options: BufferOptions): void {
+    this.bufferFeature.setOptions(options);
+  }
+
+  getBufferOptions(): Required<BufferOptions> {
+    return this.bufferFeature.getOptions();
+  }
+
   /**
    * Enable lasso selection mode
    */
@@ -2850,19 +3349,91 @@ export class GeoEditor implements IControl {
   }
 
   /**
-   * Execute union on selected polygons
+   * Execute union on selected polygons, or merge selected lines when fewer
+   * than 2 polygons are selected
    */
   private executeUnion(): void {
     const selected = this.getSelectedFeatures();
     const polygons = getPolygonFeatures(selected);
 
-    if (polygons.length < 2) {
-      console.warn("Select at least 2 polygons to merge");
-      return;
+    if (polygons.length >= 2) {
+      const result = this.unionFeature.union(polygons);
+      this.handleUnionResult(result);
+    } else if (selected.filter(isLine).length >= 2) {
+      this.mergeSelectedLines();
+    } else {
+      console.warn("Select at least 2 polygons or lines to merge");
+    }
+  }
+
+  /**
+   * Join the selected lines end to end into one LineString, snapping ends
+   * closer than the tolerance (meters, default `lineMergeTolerance`).
+   * Lines that do not connect become parts of a MultiLineString.
+   */
+  mergeSelectedLines(
+    tolerance: number = this.options.lineMergeTolerance ?? 0,
+  ): LineMergeResult {
+    const result = this.unionFeature.mergeLines(
+      this.getSelectedFeatures().filter(isLine) as Feature<
+        LineString | MultiLineString
+      >[],
+      { tolerance },
+    );
+    if (!result.success || !result.result) {
+      console.warn("Line merge failed:", result.error);
+      return result;
+    }
+
+    const replaced = this.replaceFeatures(
+      result.originals,
+      [result.result],
+      "Merge Lines",
+    );
+    if (!replaced.success) {
+      console.warn("Line merge failed:", replaced.error);
+      return { ...result, success: false, error: replaced.error };
+    }
+    [result.result] = replaced.features;
+    this.emitEvent("gm:linemerge", result);
+    this.disableAllModes();
+    return result;
+  }
+
+  /**
+   * Split each selected MultiLineString or MultiPolygon into one feature per
+   * part. All features are exploded as one undoable operation.
+   */
+  explodeSelected(): ExplodeResult[] {
+    const results = this.getSelectedFeatures()
+      .map((feature) => this.unionFeature.explode(feature))
+      .filter((result) => result.success);
+    if (results.length === 0) {
+      console.warn("Explode: select multi-part features");
+      return [];
     }
 
-    const result = this.unionFeature.union(polygons);
-    this.handleUnionResult(result);
+    const replaced = this.replaceFeatures(
+      results.map((result) => result.original),
+      results.flatMap((result) => result.parts),
+      "Explode",
+    );
+    if (!replaced.success) {
+      console.warn("Explode failed:", replaced.error);
+      return results.map((result) => ({
+        ...result,
+        success: false,
+        error: replaced.error,
+      }));
+    }
+    const parts = replaced.features;
+    let partIndex = 0;
+    results.forEach((result) => {
+      result.parts = result.parts.map(() => parts[partIndex++]);
+      this.emitEvent("gm:explode", result);
+    });
+    this.disableAllModes();
+    return results;
   }
 
   /**
@@ -2884,6 +3455,80 @@ export class GeoEditor implements IControl {
     this.handleDifferenceResult(result);
   }
 
+  /**
+   * Execute intersect on selected polygons
+   */
+  private executeIntersect(): void {
+    const polygons = getPolygonFeatures(this.getSelectedFeatures());
+
+    if (polygons.length < 2) {
+      console.warn("Select at least 2 polygons to intersect");
+      return;
+    }
+
+    const result = this.intersectFeature.intersect(polygons);
+    if (!result.success || !result.result) {
+      console.warn("Intersect failed:", result.error);
+      return;
+    }
+    const replaced = this.replaceFeatures(
+      result.originals,
+      [result.result],
+      "Intersect",
+    );
+    if (!replaced.success) {
+      console.warn("Intersect failed:", replaced.error);
+      return;
+    }
+    [result.result] = replaced.features;
+    this.emitEvent("gm:intersect", result);
+    this.disableAllModes();
+  }
+
+  /**
+   * Execute symmetric difference on selected polygons
+   */
+  private executeXor(): void {
+    const polygons = getPolygonFeatures(this.getSelectedFeatures());
+
+    if (polygons.length < 2) {
+      console.warn("Select at least 2 polygons for a symmetric difference");
+      return;
+    }
+
+    const result = this.xorFeature.xor(polygons);
+    if (!result.success || !result.result) {
+      console.warn("Symmetric difference failed:", result.error);
+      return;
+    }
+    const replaced = this.replaceFeatures(
+      result.originals,
+      [result.result],
+      "XOR",
+    );
+    if (!replaced.success) {
+      console.warn("Symmetric difference failed:", replaced.error);
+      return;
+    }
+    [result.result] = replaced.features;
+    this.emitEvent("gm:xor", result);
+    this.disableAllModes();
+  }
+
+  /**
+   * Clip every selected feature (except the mask itself) to a mask polygon:
+   * the parts outside it are removed, and features entirely outside it are
+   * deleted. Recorded as one undoable operation.
+   */
+  clipSelected(mask: Feature<Polygon | MultiPolygon>): ClipResult {
+    const targets = this.getSelectedFeatures().filter(
+      (feature) => mask.id === undefined || feature.id !== mask.id,
+    );
+    const result = this.intersectFeature.clip(targets, mask);
+    this.handleClipResult(result);
+    return result;
+  }
+
   /**
    * Execute simplify on selected features
    */
@@ -2951,44 +3596,222 @@ export class GeoEditor implements IControl {
   // ============================================================================
 
   /**
-   * Copy selected features to clipboard
+   * Copy selected features to clipboard.
+   *
+   * The features are kept for `pasteFeatures` and also written to the system
+   * clipboard as text in a registered text format, so they can be pasted into
+   * other applications. Failing to reach the system clipboard (no permission,
+   * insecure context) only logs a warning.
+   *
+   * @param format - Text format for the system clipboard, or `false` to skip
+   *   it (default: the `clipboardFormat` option)
    */
-  copySelectedFeatures(): void {
+  async copySelectedFeatures(
+    format: FileFormat | false = this.options.clipboardFormat,
+  ): Promise<void> {
     const selected = this.getSelectedFeatures();
     if (selected.length === 0) {
       console.warn("No features selected to copy");
       return;
     }
 
-    this.state.clipboard = this.copyFeature.copyMultiple(selected);
+    // Keep exact copies; the paste mode decides where pasted features go
+    this.state.clipboard = this.copyFeature.copyMultiple(selected, [0, 0]);
     this.emitEvent("gm:copy", { features: selected });
+
+    if (format) {
+      await this.writeSystemClipboard(selected, format);
+    }
   }
 
   /**
-   * Paste features from clipboard
+   * Write features to the system clipboard as text
    */
-  pasteFeatures(): void {
-    if (this.state.clipboard.length === 0) {
-      console.warn("Clipboard is empty");
+  private async writeSystemClipboard(
+    features: Feature[],
+    format: FileFormat,
+  ): Promise<void> {
+    if (typeof navigator === "undefined" || !navigator.clipboard?.writeText) {
       return;
     }
 
-    const pasted = this.copyFeature.copyMultiple(this.state.clipboard);
+    try {
+      const { data } = await this.formatRegistry.write(
+        { type: "FeatureCollection", features },
+        format,
+      );
+      if (typeof data !== "string") {
+        throw new Error(`File format "${format}" is not a text format`);
+      }
+      await navigator.clipboard.writeText(data);
+      this.lastClipboardText = data;
+    } catch (error) {
+      console.warn("GeoEditor: Failed to copy to the system clipboard:", error);
+    }
+  }
 
-    // Add features to the map
-    if (this.geoman) {
-      pasted.forEach((feature) => {
-        this.geoman?.features.importGeoJsonFeature(feature);
-        this.options.onFeatureCreate?.(feature);
-        this.lastCreatedFeature = feature;
-      });
+  /**
+   * Paste features from clipboard.
+   *
+   * Where the copies go depends on the paste mode: offset from the originals
+   * ('offset'), on top of them ('in-place'), or wherever the user clicks after
+   * a preview has followed the mouse ('cursor'). `options.at` centers them on
+   * a position instead. The paste is one undoable history entry.
+   *
+   * @param options - Paste mode or position
+   * @returns The pasted features; empty in 'cursor' mode, where they are
+   *   added (and `gm:paste` fires) once the user clicks
+   */
+  pasteFeatures(options: PasteOptions = {}): Feature[] {
+    if (this.state.clipboard.length === 0) {
+      console.warn("Clipboard is empty");
+      return [];
     }
 
-    this.emitEvent("gm:paste", { features: pasted });
+    const mode = options.mode ?? this.options.pasteMode;
+    if (!options.at && mode !== "cursor") {
+      return this.addPastedFeatures(
+        this.copyFeature.copyMultiple(
+          this.state.clipboard,
+          mode === "in-place" ? [0, 0] : undefined,
+        ),
+      );
+    }
+    return this.placePastedFeatures(this.state.clipboard, options);
   }
 
   /**
-   * Delete a feature by ID
+   * Paste GeoJSON, WKT or a WKT/lat-lon table copied from another application.
+   *
+   * The features land at their own coordinates, or centered on `options.at`
+   * or where the user clicks in 'cursor' mode; 'offset' mode pastes them in
+   * place.
+   * They are validated like imported files; invalid ones are repaired when
+   * `repairOnImport` is set and skipped otherwise.
+   *
+   * @param text - Clipboard text
+   * @param options - Where to paste
+   * @returns The pasted features
+   * @throws When the text holds no GeoJSON or WKT features
+   */
+  pasteText(text: string, options: PasteOptions = {}): Feature[] {
+    const collection = parseFeatureText(text);
+    if (!collection) {
+      throw new Error("No GeoJSON or WKT features found in the pasted text");
+    }
+
+    const { features, report } = validateImportFeatures(
+      collection.features,
+      { repair: this.options.repairOnImport },
+    );
+    if (report.rejected.length > 0) {
+      console.warn(
+        `GeoEditor: Skipped ${report.rejected.length} invalid pasted features`,
+        report.rejected,
+      );
+    }
+    if (features.length === 0) return [];
+
+    return this.placePastedFeatures(features, options);
+  }
+
+  /**
+   * Paste from the system clipboard, falling back to features copied in the
+   * editor when it holds no features.
+   *
+   * Reading the clipboard needs the browser's permission; the keyboard
+   * shortcut uses the paste event instead and needs none.
+   *
+   * @param options - Where to paste
+   * @returns The pasted features
+   */
+  async pasteFromClipboard(options: PasteOptions = {}): Promise<Feature[]> {
+    let text = "";
+    try {
+      text = (await navigator.clipboard?.readText?.()) ?? "";
+    } catch (error) {
+      console.warn("GeoEditor: Failed to read the system clipboard:", error);
+    }
+    return this.pasteClipboardText(text, options);
+  }
+
+  /**
+   * Paste system clipboard text if it holds features from another
+   * application, otherwise the editor's own clipboard
+   */
+  private pasteClipboardText(text: string, options: PasteOptions): Feature[] {
+    // Text written by our own copy pastes like an in-editor copy
+    if (text && text !== this.lastClipboardText && parseFeatureText(text)) {
+      return this.pasteText(text, options);
+    }
+    return this.pasteFeatures(options);
+  }
+
+  /**
+   * Paste features centered on `options.at`, at a position the user picks
+   * with the mouse ('cursor' mode), or as they are
+   */
+  private placePastedFeatures(
+    features: Feature[],
+    options: PasteOptions,
+  ): Feature[] {
+    if (options.at) {
+      return this.addPastedFeatures(
+        this.copyFeature.copyToLocation(features, options.at),
+      );
+    }
+
+    if ((options.mode ?? this.options.pasteMode) === "cursor") {
+      void this.disableAllModes();
+      const center = this.map.getCenter();
+      this.copyFeature.startPlacement(
+        features,
+        (placed) => this.addPastedFeatures(placed),
+        this.cursorLngLat ?? [center.lng, center.lat],
+      );
+      return [];
+    }
+
+    return this.addPastedFeatures(features);
+  }
+
+  /**
+   * Add pasted features through geoman as one undoable operation
+   */
+  private addPastedFeatures(features: Feature[]): Feature[] {
+    if (!this.geoman || features.length === 0) return [];
+
+    // History and geoman need a unique id per feature
+    const usedIds = new Set(
+      this.getFeatures().features.map((feature) => String(feature.id)),
+    );
+    const pasted = features.map((feature) => {
+      if (feature.id !== undefined && !usedIds.has(String(feature.id))) {
+        usedIds.add(String(feature.id));
+        return feature;
+      }
+      return { ...feature, id: generateFeatureId() };
+    });
+
+    this.recordCompositeOperation([], pasted, "Paste");
+
+    this.isPerformingCompositeOperation = true;
+    try {
+      pasted.forEach((feature) => {
+        this.geoman?.features.importGeoJsonFeature(feature);
+        this.options.onFeatureCreate?.(feature);
+        this.lastCreatedFeature = feature;
+      });
+    } finally {
+      this.isPerformingCompositeOperation = false;
+    }
+
+    this.emitEvent("gm:paste", { features: pasted });
+    return pasted;
+  }
+
+  /**
+   * Delete a feature by ID
    */
   private deleteFeatureById(featureId: string): void {
     if (!this.geoman) return;
@@ -3112,38 +3935,60 @@ export class GeoEditor implements IControl {
   // Result Handlers
   // ============================================================================
 
-  private handleSplitResult(result: SplitResult): void {
-    if (!result.success) {
-      console.warn("Split failed:", result.error);
+  private handleSplitResults(results: SplitResult[]): void {
+    const split = results.filter((result) => result.success);
+    if (split.length === 0) {
+      console.warn("Split failed:", results[0]?.error ?? "nothing selected");
+      return;
+    }
+
+    const replaced = this.replaceFeatures(
+      split.map((result) => result.original),
+      split.flatMap((result) => result.parts),
+      "Split",
+    );
+    if (!replaced.success) {
+      console.warn("Split failed:", replaced.error);
+      return;
+    }
+    const parts = replaced.features;
+    let partIndex = 0;
+    split.forEach((result) => {
+      result.parts = result.parts.map(() => parts[partIndex++]);
+    });
+
+    split.forEach((result) => this.emitEvent("gm:split", result));
+    this.disableAllModes();
+  }
+
+  private handleBufferResults(results: BufferResult[]): void {
+    const buffered = results.filter((result) => result.success);
+    if (buffered.length === 0) {
+      console.warn("Buffer failed:", results[0]?.error ?? "nothing selected");
       return;
     }
 
-    // Record composite operation before making changes
-    this.recordCompositeOperation([result.original], result.parts, "Split");
+    const created = buffered.map((result) => result.result as Feature);
+    this.recordCompositeOperation([], created, "Buffer");
 
     // Set flag to prevent individual operations from being recorded
     this.isPerformingCompositeOperation = true;
 
     try {
-      // Remove original feature using provided result data
-      this.deleteGeomanFeatures([result.original]);
-      this.clearGeomanTemporaryFeatures();
-      this.clearSelection();
-
-      // Add new parts
       if (this.geoman) {
-        result.parts.forEach((part) => {
-          this.geoman?.features.importGeoJsonFeature(part);
-          this.options.onFeatureCreate?.(part);
-          this.lastCreatedFeature = part;
-          this.logSelectedFeatureCollection("created", part);
+        created.forEach((feature) => {
+          this.geoman?.features.importGeoJsonFeature(feature);
+          this.options.onFeatureCreate?.(feature);
+          this.lastCreatedFeature = feature;
+          this.logSelectedFeatureCollection("created", feature);
         });
       }
     } finally {
       this.isPerformingCompositeOperation = false;
     }
 
-    this.emitEvent("gm:split", result);
+    this.snappingFeature.invalidate();
+    buffered.forEach((result) => this.emitEvent("gm:buffer", result));
     this.disableAllModes();
   }
 
@@ -3153,30 +3998,120 @@ export class GeoEditor implements IControl {
       return;
     }
 
-    // Record composite operation before making changes
-    this.recordCompositeOperation(result.originals, [result.result], "Union");
+    const replaced = this.replaceFeatures(
+      result.originals,
+      [result.result],
+      "Union",
+    );
+    if (!replaced.success) {
+      console.warn("Union failed:", replaced.error);
+      return;
+    }
+    [result.result] = replaced.features;
+    this.emitEvent("gm:union", result);
+    this.disableAllModes();
+  }
+
+  /**
+   * Replace features with the result of an operation, fitted back into the
+   * coverage, as one undoable operation. If geoman cannot hold a result the
+   * originals are left (or put back) as they were.
+   *
+   * @returns The created features as added
+   */
+  private replaceFeatures<T extends Feature>(
+    originals: Feature[],
+    created: T[],
+    description: string,
+  ): ReplacedFeatures<T> {
+    // Geoman drops what it cannot hold, so check before deleting anything
+    const unsupported = created.find(
+      (feature) => !isSupportedGeometry(feature.geometry),
+    );
+    if (unsupported) {
+      return {
+        success: false,
+        error: `${unsupported.geometry.type} geometries are not supported`,
+      };
+    }
+
+    const fitted = this.fitToCoverage(originals, created);
 
     // Set flag to prevent individual operations from being recorded
     this.isPerformingCompositeOperation = true;
 
     try {
-      // Remove original features using provided result data
-      this.deleteGeomanFeatures(result.originals);
+      this.deleteGeomanFeatures(originals);
       this.clearGeomanTemporaryFeatures();
       this.clearSelection();
 
-      // Add merged feature
       if (this.geoman) {
-        this.geoman.features.importGeoJsonFeature(result.result);
-        this.options.onFeatureCreate?.(result.result);
-        this.lastCreatedFeature = result.result;
-        this.logSelectedFeatureCollection("created", result.result);
+        const added: Feature[] = [];
+        for (const feature of fitted.features) {
+          const imported = this.getGeomanFeature(
+            this.geoman.features.importGeoJsonFeature(feature),
+          );
+          if (!imported) {
+            this.revertChanges(originals, added, `Revert ${description}`);
+            return {
+              success: false,
+              error: `Failed to add the ${feature.geometry.type} result`,
+            };
+          }
+          added.push(imported);
+        }
+        fitted.features.forEach((feature) => {
+          this.options.onFeatureCreate?.(feature);
+          this.lastCreatedFeature = feature;
+          this.logSelectedFeatureCollection("created", feature);
+        });
       }
+      this.applyTopologyEdits(fitted.neighbourEdits);
     } finally {
       this.isPerformingCompositeOperation = false;
     }
 
-    this.emitEvent("gm:union", result);
+    this.recordCompositeOperation(
+      originals,
+      fitted.features,
+      description,
+      fitted.neighbourEdits,
+    );
+    this.snappingFeature.invalidate();
+    return { success: true, features: fitted.features };
+  }
+
+  private handleClipResult(result: ClipResult): void {
+    if (!result.success) {
+      console.warn("Clip failed:", result.error);
+      return;
+    }
+
+    // Features entirely inside the mask stay as they are
+    const changed = result.originals
+      .map((original, index) => ({ original, clipped: result.results[index] }))
+      .filter(({ original, clipped }) => clipped !== original);
+    if (changed.length > 0) {
+      const replaced = this.replaceFeatures(
+        changed.map(({ original }) => original),
+        changed.flatMap(({ clipped }) => (clipped ? [clipped] : [])),
+        "Clip",
+      );
+      if (!replaced.success) {
+        console.warn("Clip failed:", replaced.error);
+        result.success = false;
+        result.error = replaced.error;
+        return;
+      }
+      let createdIndex = 0;
+      result.results = result.results.map((clipped, index) =>
+        clipped && clipped !== result.originals[index]
+          ? replaced.features[createdIndex++]
+          : clipped,
+      );
+    }
+
+    this.emitEvent("gm:clip", result);
     this.disableAllModes();
   }
 
@@ -3186,35 +4121,17 @@ export class GeoEditor implements IControl {
       return;
     }
 
-    // Record composite operation before making changes
-    const deletedFeatures = [result.base, ...result.subtracted];
-    const createdFeatures = result.result ? [result.result] : [];
-    this.recordCompositeOperation(
-      deletedFeatures,
-      createdFeatures,
+    // A complete subtraction leaves no result
+    const replaced = this.replaceFeatures(
+      [result.base, ...result.subtracted],
+      result.result ? [result.result] : [],
       "Difference",
     );
-
-    // Set flag to prevent individual operations from being recorded
-    this.isPerformingCompositeOperation = true;
-
-    try {
-      // Remove original features using provided result data
-      this.deleteGeomanFeatures([result.base, ...result.subtracted]);
-      this.clearGeomanTemporaryFeatures();
-      this.clearSelection();
-
-      // Add result if not null (complete subtraction)
-      if (result.result && this.geoman) {
-        this.geoman.features.importGeoJsonFeature(result.result);
-        this.options.onFeatureCreate?.(result.result);
-        this.lastCreatedFeature = result.result;
-        this.logSelectedFeatureCollection("created", result.result);
-      }
-    } finally {
-      this.isPerformingCompositeOperation = false;
+    if (!replaced.success) {
+      console.warn("Difference failed:", replaced.error);
+      return;
     }
-
+    result.result = replaced.features[0] ?? null;
     this.emitEvent("gm:difference", result);
     this.disableAllModes();
   }
@@ -3348,7 +4265,10 @@ export class GeoEditor implements IControl {
     // Helper tools group
     if (
       this.options.helperModes.includes("snapping") ||
-      this.options.helperModes.includes("topology")
+      this.options.helperModes.includes("topology") ||
+      this.options.helperModes.includes("validation") ||
+      this.options.helperModes.includes("measurements") ||
+      this.options.helperModes.includes("precision")
     ) {
       const helperGroup = this.createHelperToolsGroup();
       toolsWrapper.appendChild(helperGroup);
@@ -3539,6 +4459,59 @@ export class GeoEditor implements IControl {
       buttons.appendChild(topologyBtn);
     }
 
+    if (this.options.helperModes.includes("validation")) {
+      const validationBtn = document.createElement("button");
+      validationBtn.className = `${CSS_PREFIX}-tool-button`;
+      validationBtn.dataset.helper = "validation";
+      validationBtn.title =
+        "Check Topology (overlaps, gaps, slivers, dangles, self-intersections)";
+      validationBtn.innerHTML =
+        '<svg viewBox="0 0 24 24" width="18" height="18"><path d="M3 3h8v8H3V3zm2 2v4h4V5H5zm8-2h8v8h-8V3zM3 13h8v8H3v-8zm14.5 8.5-4-4 1.4-1.4 2.6 2.6 4.6-4.6 1.4 1.4-6 6z" fill="currentColor"/></svg>';
+      validationBtn.addEventListener("click", (e) => {
+        e.stopPropagation();
+        this.toggleTopologyPanel();
+      });
+      buttons.appendChild(validationBtn);
+    }
+
+    if (this.options.helperModes.includes("measurements")) {
+      const measurementsBtn = document.createElement("button");
+      measurementsBtn.className = `${CSS_PREFIX}-tool-button`;
+      measurementsBtn.dataset.helper = "measurements";
+      measurementsBtn.title =
+        "Toggle Measurements (segment lengths, area and perimeter)";
+      measurementsBtn.innerHTML =
+        '<svg viewBox="0 0 24 24" width="18" height="18"><path d="M2 8h20v8H2V8zm2 2v4h16v-4h-2v2h-1.5v-2h-2v3H13v-3h-2v2H9.5v-2h-2v3H6v-3H4z" fill="currentColor"/></svg>';
+      measurementsBtn.classList.toggle(
+        `${CSS_PREFIX}-tool-button--active`,
+        this.measurementsEnabled,
+      );
+      measurementsBtn.addEventListener("click", (e) => {
+        e.stopPropagation();
+        this.toggleMeasurements();
+      });
+      buttons.appendChild(measurementsBtn);
+    }
+
+    if (this.options.helperModes.includes("precision")) {
+      const precisionBtn = document.createElement("button");
+      precisionBtn.className = `${CSS_PREFIX}-tool-button`;
+      precisionBtn.dataset.helper = "precision";
+      precisionBtn.title =
+        "Toggle Precision Input (type distances, bearings and coordinates while drawing)";
+      precisionBtn.innerHTML =
+        '<svg viewBox="0 0 24 24" width="18" height="18"><path d="M3 6h18v12H3V6zm2 2v8h14V8H5zm1 1h2v2H6V9zm3 0h2v2H9V9zm3 0h2v2h-2V9zm3 0h3v2h-3V9zM6 13h12v2H6v-2z" fill="currentColor"/></svg>';
+      precisionBtn.classList.toggle(
+        `${CSS_PREFIX}-tool-button--active`,
+        this.precisionInputEnabled,
+      );
+      precisionBtn.addEventListener("click", (e) => {
+        e.stopPropagation();
+        this.togglePrecisionInput();
+      });
+      buttons.appendChild(precisionBtn);
+    }
+
     group.appendChild(buttons);
     return group;
   }
@@ -3607,32 +4580,152 @@ export class GeoEditor implements IControl {
       const saveBtn = document.createElement("button");
       saveBtn.className = `${CSS_PREFIX}-tool-button`;
       saveBtn.dataset.file = "save";
-      saveBtn.title = "Save GeoJSON file";
+      saveBtn.title = "Save file";
       saveBtn.innerHTML =
         '<svg viewBox="0 0 24 24" width="18" height="18"><path d="M17 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V7l-4-4zm2 16H5V5h11.17L19 7.83V19zm-7-7c-1.66 0-3 1.34-3 3s1.34 3 3 3 3-1.34 3-3-1.34-3-3-3zM6 6h9v4H6V6z" fill="currentColor"/></svg>';
-      saveBtn.addEventListener("click", () => this.saveGeoJson());
+      saveBtn.addEventListener("click", (e) => {
+        e.stopPropagation();
+        const formats = this.getSaveFormats();
+        if (formats.length > 1) {
+          this.toggleSaveMenu(saveBtn);
+        } else if (formats.length === 1) {
+          this.saveFromToolbar(formats[0].id);
+        }
+      });
       buttons.appendChild(saveBtn);
     }
 
+    // Clear all button
+    if (this.options.fileModes.includes("clear")) {
+      const clearBtn = document.createElement("button");
+      clearBtn.className = `${CSS_PREFIX}-tool-button`;
+      clearBtn.dataset.file = "clear";
+      clearBtn.title = "Clear all features (undoable)";
+      clearBtn.innerHTML =
+        '<svg viewBox="0 0 24 24" width="18" height="18"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zm2-10h8v10H8V9zm7.5-5l-1-1h-5l-1 1H5v2h14V4h-3.5z" fill="currentColor"/></svg>';
+      clearBtn.addEventListener("click", () => {
+        this.clearAllFeatures().catch((error) => {
+          console.error("GeoEditor: Failed to clear features:", error);
+        });
+      });
+      buttons.appendChild(clearBtn);
+    }
+
     group.appendChild(buttons);
     return group;
   }
 
+  /**
+   * Save from the toolbar, logging failures instead of rejecting
+   */
+  private saveFromToolbar(format: FileFormat): void {
+    this.saveFile(undefined, format).catch((error) => {
+      console.error("GeoEditor: Failed to save file:", error);
+    });
+  }
+
+  /**
+   * Show or hide the save-format menu next to the save button
+   */
+  private toggleSaveMenu(anchor: HTMLElement): void {
+    if (this.saveMenu) {
+      this.closeSaveMenu();
+      return;
+    }
+
+    const menu = document.createElement("div");
+    menu.className = `${CSS_PREFIX}-file-menu`;
+    for (const format of this.getSaveFormats()) {
+      const item = document.createElement("button");
+      item.className = `${CSS_PREFIX}-file-menu-item`;
+      item.dataset.format = format.id;
+      item.textContent = `${format.label ?? format.id} (${format.extensions[0]})`;
+      item.addEventListener("click", (e) => {
+        e.stopPropagation();
+        this.closeSaveMenu();
+        this.saveFromToolbar(format.id);
+      });
+      menu.appendChild(item);
+    }
+
+    const rect = anchor.getBoundingClientRect();
+    menu.style.top = `${rect.top}px`;
+    menu.style.left = `${rect.right + 4}px`;
+    document.body.appendChild(menu);
+    this.saveMenu = menu;
+
+    this.boundSaveMenuOutsideClick = (e: MouseEvent) => {
+      if (!menu.contains(e.target as Node)) this.closeSaveMenu();
+    };
+    document.addEventListener("click", this.boundSaveMenuOutsideClick);
+  }
+
+  /**
+   * Close the save-format menu if it is open
+   */
+  private closeSaveMenu(): void {
+    if (this.boundSaveMenuOutsideClick) {
+      document.removeEventListener("click", this.boundSaveMenuOutsideClick);
+      this.boundSaveMenuOutsideClick = null;
+    }
+    if (this.saveMenu) {
+      this.saveMenu.remove();
+      this.saveMenu = null;
+    }
+  }
+
+  /**
+   * Writable formats offered by the save button, limited to `saveFormats`
+   * when that option is set
+   */
+  private getSaveFormats(): FileFormatDefinition[] {
+    const writable = this.formatRegistry.writable();
+    const allowed = this.options.saveFormats;
+    if (!allowed) return writable;
+    return allowed
+      .map((id) => writable.find((format) => format.id === id))
+      .filter((format): format is FileFormatDefinition => Boolean(format));
+  }
+
+  /**
+   * Register a file format for the open/save tools.
+   *
+   * The format's extensions and MIME types are added to the file dialog, its
+   * contents are recognized by `loadGeoJson`, and writable formats appear in
+   * the save-format menu. Registering an existing id (including a built-in
+   * one such as `"geojson"`) replaces that format; without an id the format
+   * is registered under its first extension.
+   *
+   * @param format - The format definition
+   */
+  registerFormat(format: FileFormatRegistration): void {
+    this.formatRegistry.register(format);
+    if (this.fileInput) {
+      this.fileInput.accept = this.formatRegistry.acceptList();
+    }
+  }
+
+  /**
+   * Get all registered file formats
+   */
+  getFileFormats(): FileFormatDefinition[] {
+    return this.formatRegistry.list();
+  }
+
   /**
    * Setup hidden file input for file dialog
    */
   private setupFileInput(): void {
     this.fileInput = document.createElement("input");
     this.fileInput.type = "file";
-    this.fileInput.accept =
-      ".geojson,.json,application/geo+json,application/json";
+    this.fileInput.accept = this.formatRegistry.acceptList();
     this.fileInput.style.display = "none";
     this.fileInput.addEventListener("change", (e) => this.handleFileSelect(e));
     document.body.appendChild(this.fileInput);
   }
 
   /**
-   * Open file dialog to select GeoJSON file
+   * Open file dialog to select a file in any registered format
    */
   openFileDialog(): void {
     if (this.fileInput) {
@@ -3649,29 +4742,201 @@ export class GeoEditor implements IControl {
 
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      try {
-        const content = e.target?.result as string;
-        const geoJson = JSON.parse(content);
-        await this.loadGeoJson(geoJson, file.name);
-      } catch (error) {
-        console.error("GeoEditor: Failed to load GeoJSON file:", error);
+    void this.loadFiles([file]);
+
+    // Reset the input so the same file can be selected again
+    input.value = "";
+  }
+
+  /**
+   * Setup the map container as a drop target for files
+   */
+  private setupFileDrop(): void {
+    const target = this.map.getContainer();
+
+    this.dropOverlay = document.createElement("div");
+    this.dropOverlay.className = `${CSS_PREFIX}-drop-overlay`;
+    const label = document.createElement("div");
+    label.className = `${CSS_PREFIX}-drop-overlay-label`;
+    label.textContent = "Drop files to import";
+    this.dropOverlay.appendChild(label);
+    target.appendChild(this.dropOverlay);
+
+    const hasFiles = (e: DragEvent) =>
+      Array.from(e.dataTransfer?.types ?? []).includes("Files");
+
+    // dragenter/dragleave fire for every child element, so count the depth
+    this.boundDragEnter = (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      this.dropDragDepth++;
+      this.setDropOverlayVisible(true);
+    };
+    this.boundDragOver = (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = "copy";
+    };
+    this.boundDragLeave = (e) => {
+      if (!hasFiles(e)) return;
+      this.dropDragDepth = Math.max(0, this.dropDragDepth - 1);
+      if (this.dropDragDepth === 0) this.setDropOverlayVisible(false);
+    };
+    this.boundDrop = (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      this.dropDragDepth = 0;
+      this.setDropOverlayVisible(false);
+      const files = Array.from(e.dataTransfer?.files ?? []);
+      if (files.length > 0) void this.loadFiles(files);
+    };
+
+    target.addEventListener("dragenter", this.boundDragEnter);
+    target.addEventListener("dragover", this.boundDragOver);
+    target.addEventListener("dragleave", this.boundDragLeave);
+    target.addEventListener("drop", this.boundDrop);
+  }
+
+  /**
+   * Remove the drop target listeners and overlay
+   */
+  private removeFileDrop(): void {
+    const target = this.map?.getContainer();
+    if (target) {
+      if (this.boundDragEnter) {
+        target.removeEventListener("dragenter", this.boundDragEnter);
+      }
+      if (this.boundDragOver) {
+        target.removeEventListener("dragover", this.boundDragOver);
+      }
+      if (this.boundDragLeave) {
+        target.removeEventListener("dragleave", this.boundDragLeave);
+      }
+      if (this.boundDrop) {
+        target.removeEventListener("drop", this.boundDrop);
+      }
+    }
+    this.boundDragEnter = null;
+    this.boundDragOver = null;
+    this.boundDragLeave = null;
+    this.boundDrop = null;
+    this.dropOverlay?.remove();
+    this.dropOverlay = null;
+    this.dropDragDepth = 0;
+  }
+
+  private setDropOverlayVisible(visible: boolean): void {
+    this.dropOverlay?.classList.toggle(
+      `${CSS_PREFIX}-drop-overlay--active`,
+      visible,
+    );
+  }
+
+  /**
+   * Load files (from the file dialog or a drop) one after another.
+   *
+   * Each file is a separate import with its own history entry, load result
+   * and `onGeoJsonLoad` callback. Files that fail to load emit
+   * `gm:geojsonloaderror` and do not stop the remaining files. In `replace`
+   * mode only the first file replaces the existing features; the others are
+   * appended so a multi-file drop keeps every file.
+   *
+   * GeoJSON files of at least `streamingImportThreshold` bytes are read in
+   * chunks and imported in batches, emitting `gm:geojsonloadprogress`. Such an
+   * import can be cancelled with `cancelImport()` or `options.signal`; the
+   * cancelled file is rolled back, `gm:geojsonloadcancel` is emitted and the
+   * remaining files are skipped.
+   *
+   * @param files - Files to load
+   * @param options - Import options applied to every file
+   * @returns Results of the files that loaded successfully
+   */
+  async loadFiles(
+    files: File[] | FileList,
+    options: ImportOptions = {},
+  ): Promise<GeoJsonLoadResult[]> {
+    const results: GeoJsonLoadResult[] = [];
+    const mode = options.mode ?? this.options.importMode;
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) abort();
+    options.signal?.addEventListener("abort", abort);
+    this.importControllers.add(controller);
+
+    try {
+      for (const [index, file] of Array.from(files).entries()) {
+        if (controller.signal.aborted) break;
 
-        const errorInfo = {
-          filename: file.name,
-          message: error instanceof Error ? error.message : String(error),
-          error,
+        const fileOptions: ImportOptions = {
+          ...options,
+          mode: index > 0 && mode === "replace" ? "append" : mode,
+          signal: controller.signal,
         };
+        try {
+          if (await this.shouldStreamFile(file)) {
+            results.push(await this.streamGeoJsonFile(file, fileOptions));
+            continue;
+          }
+
+          // Read raw bytes and let loadGeoJson detect the format, since
+          // shapefiles and KMZ are zip archives rather than text.
+          const data = await this.readFile(file);
+          results.push(await this.loadGeoJson(data, file.name, fileOptions));
+        } catch (error) {
+          if (isAbortError(error)) break;
+
+          console.error("GeoEditor: Failed to load file:", error);
+
+          const errorInfo = {
+            filename: file.name,
+            message: error instanceof Error ? error.message : String(error),
+            error,
+          };
 
-        // Emit an event so applications can provide user-facing error feedback
-        this.emitEvent("gm:geojsonloaderror", errorInfo);
+          // Emit an event so applications can provide user-facing error feedback
+          this.emitEvent("gm:geojsonloaderror", errorInfo);
+        }
       }
-    };
-    reader.readAsText(file);
+    } finally {
+      options.signal?.removeEventListener("abort", abort);
+      this.importControllers.delete(controller);
+    }
 
-    // Reset the input so the same file can be selected again
-    input.value = "";
+    return results;
+  }
+
+  /**
+   * Cancel the file loads in progress.
+   *
+   * Large GeoJSON files stop between batches and their partly imported
+   * features are removed again; files not started yet are skipped.
+   */
+  cancelImport(): void {
+    this.importControllers.forEach((controller) => controller.abort());
+  }
+
+  /**
+   * Whether a file is large GeoJSON that should be imported in batches
+   */
+  private async shouldStreamFile(file: File): Promise<boolean> {
+    if (file.size < this.options.streamingImportThreshold) return false;
+
+    const head = await this.readFile(file.slice(0, 4096));
+    return this.formatRegistry.detect(head, file.name)?.id === "geojson";
+  }
+
+  /**
+   * Read a file's raw bytes
+   */
+  private readFile(file: Blob): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () =>
+        reject(reader.error ?? new Error("Failed to read file"));
+      reader.readAsArrayBuffer(file);
+    });
   }
 
   /**
@@ -3683,21 +4948,333 @@ export class GeoEditor implements IControl {
    * clear, and lets the returned `count` reflect the actual import result rather
    * than a not-yet-resolved promise.
    *
-   * @param geoJson - FeatureCollection or Feature to load
-   * @param filename - Optional filename for logging
+   * Raw file contents (text or bytes) go through format detection first, so
+   * a file in any registered format (GeoJSON, KML, KMZ, GPX, zipped shapefile
+   * and formats added with `registerFormat`) can be passed as read from disk.
+   *
+   * The features replace, are appended to or are merged into the existing
+   * features depending on the import mode. The whole load is recorded as one
+   * history entry.
+   *
+   * @param geoJson - FeatureCollection or Feature to load, or raw file contents
+   * @param filename - Optional filename for logging and format detection
+   * @param options - Import mode (default: the `importMode` option)
    * @returns Result of the load operation
    */
   async loadGeoJson(
-    geoJson: FeatureCollection | Feature,
+    geoJson: FeatureCollection | Feature | string | ArrayBuffer | Uint8Array,
     filename: string = "loaded.geojson",
+    options: ImportOptions = {},
   ): Promise<GeoJsonLoadResult> {
+    if (
+      typeof geoJson === "string" ||
+      geoJson instanceof ArrayBuffer ||
+      geoJson instanceof Uint8Array
+    ) {
+      const file = await this.formatRegistry.read(geoJson, filename);
+      file.warnings.forEach((warning) => console.warn(`GeoEditor: ${warning}`));
+      if (this.options.importAttributeFields) {
+        this.mergeAttributeFields(file.fields);
+      }
+      return this.importFeatureCollection(
+        file.featureCollection,
+        filename,
+        file.format,
+        options,
+      );
+    }
+
+    // Normalize to FeatureCollection
+    let featureCollection: FeatureCollection;
+    if (geoJson.type === "Feature") {
+      featureCollection = {
+        type: "FeatureCollection",
+        features: [geoJson as Feature],
+      };
+    } else if (geoJson.type === "FeatureCollection") {
+      featureCollection = geoJson as FeatureCollection;
+    } else {
+      throw new Error("Invalid GeoJSON: expected Feature or FeatureCollection");
+    }
+
+    return this.importFeatureCollection(
+      featureCollection,
+      filename,
+      "geojson",
+      options,
+    );
+  }
+
+  /**
+   * Add imported fields to the attribute schema, keeping existing definitions
+   */
+  private mergeAttributeFields(fields: AttributeFieldDefinition[]): void {
+    const schema = this.options.attributeSchema ?? {};
+    const known = new Set(
+      [
+        ...(schema.polygon ?? []),
+        ...(schema.line ?? []),
+        ...(schema.point ?? []),
+        ...(schema.common ?? []),
+      ].map((field) => field.name),
+    );
+    const added = fields.filter((field) => !known.has(field.name));
+    if (added.length === 0) return;
+
+    this.setAttributeSchema({
+      ...schema,
+      common: [...(schema.common ?? []), ...added],
+    });
+  }
+
+  /**
+   * Combine an imported collection with the editor's features and record the
+   * change as one composite history entry
+   */
+  private async importFeatureCollection(
+    featureCollection: FeatureCollection,
+    filename: string,
+    format: FileFormat,
+    options: ImportOptions,
+  ): Promise<GeoJsonLoadResult> {
+    await this.waitForGeomanReady();
+
+    // GeoJSON may declare a projected CRS in a legacy `crs` member; a CRS
+    // passed by the caller wins, so a file with a wrong member can be fixed
+    let crs: string | undefined;
+    if (format === "geojson") {
+      crs =
+        options.crs ??
+        readGeoJsonCrs(featureCollection) ??
+        this.options.importCrs;
+    }
+    if (crs) {
+      featureCollection = reprojectToWgs84(
+        featureCollection,
+        this.resolveImportProjection(crs, filename),
+      );
+    }
+
+    // Reject (or repair) features geoman would drop or import broken
+    const validation = validateImportFeatures(featureCollection.features, {
+      repair: options.repair ?? this.options.repairOnImport,
+    });
+
+    const mode = options.mode ?? this.options.importMode;
+    this.clearSelection();
+    const applied = await this.applyImport(
+      new ImportIndex(
+        this.getFeatures().features,
+        options.idProperty ?? this.options.importIdProperty,
+      ),
+      validation.features,
+      mode,
+    );
+    this.recordImport(applied, filename);
+
+    return this.completeImport({
+      features: validation.features,
+      count: applied.importedCount + applied.updated.length,
+      filename,
+      format,
+      mode,
+      added: applied.importedCount,
+      updated: applied.updated.length,
+      removed: applied.removed.length,
+      validation: validation.report,
+      ...(crs ? { crs } : {}),
+    });
+  }
+
+  /**
+   * Import a large GeoJSON file in batches while it is being read.
+   *
+   * Each batch is reprojected, validated and handed to geoman as soon as it
+   * has been parsed, and `gm:geojsonloadprogress` reports how far the import
+   * got. The load is still one history entry. Unless `options.crs` is set,
+   * the file's root members are read first, so a `crs` member is honoured
+   * wherever it appears; that read stops as soon as it finds one.
+   *
+   * When `options.signal` aborts, the features loaded so far are removed, the
+   * previous features are restored and `gm:geojsonloadcancel` is emitted
+   * before the promise rejects with an `AbortError`.
+   */
+  private async streamGeoJsonFile(
+    file: File,
+    options: ImportOptions,
+  ): Promise<GeoJsonLoadResult> {
+    await this.waitForGeomanReady();
+
+    const filename = file.name;
+    const mode = options.mode ?? this.options.importMode;
+    const repair = options.repair ?? this.options.repairOnImport;
+    const idProperty = options.idProperty ?? this.options.importIdProperty;
+
+    const applied: AppliedImport = {
+      removed: [],
+      updated: [],
+      added: [],
+      created: [],
+      importedCount: 0,
+    };
+    const features: Feature[] = [];
+    const report: ImportValidationReport = {
+      accepted: [],
+      repaired: [],
+      rejected: [],
+    };
+    const existing = this.getFeatures().features;
+    // Existing features are removed up front in replace mode
+    const index = new ImportIndex(
+      mode === "replace" ? [] : existing,
+      idProperty,
+    );
+    let crs: string | undefined;
+    let projection: Projection | null = null;
+    let processed = 0;
+
+    // Features created or updated by an earlier batch can be merged again by a
+    // later one; fold those into the earlier entry so undo stays consistent
+    const createdIndex = new Map<Feature, number>();
+    const updateByNewFeature = new Map<
+      Feature,
+      { oldFeature: Feature; newFeature: Feature }
+    >();
+
+    const importBatch = async (batch: unknown[]) => {
+      if (projection) {
+        batch = reprojectToWgs84(
+          { type: "FeatureCollection", features: batch as Feature[] },
+          projection,
+        ).features;
+      }
+
+      const validation = validateImportFeatures(batch, { repair });
+      for (const key of ["accepted", "repaired", "rejected"] as const) {
+        validation.report[key].forEach((entry) =>
+          report[key].push({ ...entry, index: entry.index + processed }),
+        );
+      }
+      processed += batch.length;
+      validation.features.forEach((feature) => features.push(feature));
+
+      const step = await this.applyImport(
+        index,
+        validation.features,
+        mode === "replace" ? "append" : mode,
+      );
+      applied.importedCount += step.importedCount;
+      step.created.forEach((feature) => {
+        createdIndex.set(feature, applied.created.length);
+        applied.created.push(feature);
+      });
+      step.updated.forEach((update) => {
+        const index = createdIndex.get(update.oldFeature);
+        const earlier = updateByNewFeature.get(update.oldFeature);
+        if (index !== undefined) {
+          applied.created[index] = update.newFeature;
+          createdIndex.set(update.newFeature, index);
+        } else if (earlier) {
+          earlier.newFeature = update.newFeature;
+          updateByNewFeature.set(update.newFeature, earlier);
+        } else {
+          const entry = { ...update };
+          applied.updated.push(entry);
+          updateByNewFeature.set(update.newFeature, entry);
+        }
+      });
+
+      step.updated.forEach((u) => index.replace(u.oldFeature, u.newFeature));
+      index.add(step.created);
+    };
+
+    const reportProgress = (bytesRead: number) =>
+      this.emitEvent("gm:geojsonloadprogress", {
+        filename,
+        featuresProcessed: processed,
+        bytesRead,
+        totalBytes: file.size,
+      });
+
+    this.clearSelection();
+    try {
+      crs =
+        options.crs ??
+        readGeoJsonCrs(
+          await readGeoJsonMembers(file, {
+            signal: options.signal,
+            until: (members) => "crs" in members,
+          }),
+        ) ??
+        this.options.importCrs;
+      projection = crs ? this.resolveImportProjection(crs, filename) : null;
+
+      if (mode === "replace") {
+        applied.removed = existing;
+        this.isPerformingCompositeOperation = true;
+        try {
+          await this.removeAllGeomanFeatures();
+        } finally {
+          this.isPerformingCompositeOperation = false;
+        }
+      }
+
+      const members = await streamGeoJson(file, {
+        batchSize: this.options.importBatchSize,
+        signal: options.signal,
+        onBatch: async (batch, progress) => {
+          await importBatch(batch);
+          reportProgress(progress.bytesRead);
+        },
+      });
+
+      if (members.type === "Feature") {
+        await importBatch([members]);
+        reportProgress(file.size);
+      } else if (members.type !== "FeatureCollection") {
+        throw new Error(
+          "Invalid GeoJSON: expected Feature or FeatureCollection",
+        );
+      }
+    } catch (error) {
+      this.revertImport(applied);
+      if (isAbortError(error)) {
+        this.emitEvent("gm:geojsonloadcancel", {
+          filename,
+          featuresProcessed: processed,
+        });
+      }
+      throw error;
+    }
+
+    this.recordImport(applied, filename);
+
+    return this.completeImport({
+      features,
+      count: applied.importedCount + applied.updated.length,
+      filename,
+      format: "geojson",
+      mode,
+      added: applied.importedCount,
+      updated: applied.updated.length,
+      removed: applied.removed.length,
+      validation: report,
+      ...(crs ? { crs } : {}),
+    });
+  }
+
+  /**
+   * Wait until geoman can import features.
+   *
+   * Geoman initializes its feature sources asynchronously; importing before it
+   * is ready fails with "Missing source for feature creation" and silently
+   * drops the features. Wait for readiness when the running geoman exposes it.
+   */
+  private async waitForGeomanReady(): Promise<void> {
     if (!this.geoman) {
       throw new Error("Geoman not initialized");
     }
 
-    // Geoman initializes its feature sources asynchronously; importing before it
-    // is ready fails with "Missing source for feature creation" and silently
-    // drops the features. Wait for readiness when the running geoman exposes it.
     const geoman = this.geoman as {
       loaded?: boolean;
       waitForGeomanLoaded?: () => Promise<unknown>;
@@ -3709,55 +5286,187 @@ export class GeoEditor implements IControl {
       try {
         await geoman.waitForGeomanLoaded();
       } catch {
-        /* best effort; the import below will surface a real failure */
+        /* best effort; the import will surface a real failure */
       }
     }
+  }
+
+  private resolveImportProjection(crs: string, filename: string): Projection {
+    return requireProjection(crs, filename);
+  }
+
+  /**
+   * Combine imported features with the `existing` ones in geoman without
+   * recording history. If geoman fails part way, the features are put back as
+   * they were and the error is rethrown.
+   */
+  private async applyImport(
+    existing: ImportIndex,
+    incoming: Feature[],
+    mode: ImportMode,
+  ): Promise<AppliedImport> {
+    const plan = existing.plan(incoming, mode);
+    // What has been done so far, for reverting a failed import
+    const done: AppliedImport = {
+      removed: [],
+      updated: [],
+      added: [],
+      created: [],
+      importedCount: 0,
+    };
+
+    // Features geoman has now that it had neither before nor as merges
+    const importedSoFar = (): Feature[] => {
+      const removed = new Set(
+        done.removed.map((feature) => String(feature.id)),
+      );
+      return this.getFeatures().features.filter((feature) => {
+        const id = String(feature.id);
+        return !existing.features.has(id) || removed.has(id);
+      });
+    };
 
-    // Clear existing features (await so a reload cannot race the new import)
+    this.isPerformingCompositeOperation = true;
+    let importResult: GeomanImportResult | undefined;
+    let created: Feature[] = [];
     try {
-      await this.geoman.features.deleteAll();
-    } catch {
-      // Fallback: delete features one by one
-      this.geoman.features.forEach((fd) => {
-        try {
-          fd.delete();
-        } catch {
-          /* ignore */
+      if (mode === "replace") {
+        // Await so a reload cannot race the import
+        await this.removeAllGeomanFeatures();
+        done.removed = [...plan.removed];
+      }
+
+      // Merged features keep the id of the feature they replace
+      for (const update of plan.updated) {
+        this.deleteGeomanFeatureData(
+          this.findGeomanDataForFeature(update.oldFeature),
+          this.getGeomanIdFromFeature(update.oldFeature) ?? undefined,
+        );
+        // Until its replacement is in, a revert has to put it back
+        done.removed.push(update.oldFeature);
+        const data = await this.geoman?.features.importGeoJsonFeature(
+          update.newFeature,
+        );
+        const newFeature = this.getGeomanFeature(data);
+        if (!newFeature) {
+          throw new Error(
+            `GeoEditor: Failed to import merged feature ${String(update.newFeature.id)}`,
+          );
         }
-      });
-    }
-    this.clearSelection();
+        done.removed.pop();
+        done.updated.push({ ...update, newFeature });
+      }
 
-    // Normalize to FeatureCollection
-    let featureCollection: FeatureCollection;
-    if (geoJson.type === "Feature") {
-      featureCollection = {
+      // Import the features and wait for completion before reading the count.
+      importResult = (await this.geoman?.features.importGeoJson({
         type: "FeatureCollection",
-        features: [geoJson as Feature],
-      };
-    } else if (geoJson.type === "FeatureCollection") {
-      featureCollection = geoJson as FeatureCollection;
-    } else {
-      throw new Error("Invalid GeoJSON: expected Feature or FeatureCollection");
+        features: plan.added,
+      })) as GeomanImportResult;
+
+      // Record the features with the ids geoman assigned so undo finds them;
+      // older geoman builds do not return the added features
+      const addedData = importResult?.addedFeatures as
+        | GeomanFeatureData[]
+        | undefined;
+      created = addedData
+        ? addedData
+            .map((fd) => this.getGeomanFeature(fd))
+            .filter((feature): feature is Feature => Boolean(feature))
+        : importedSoFar();
+      if (created.length !== plan.added.length) {
+        throw new Error(
+          `GeoEditor: Imported ${created.length} of ${plan.added.length} features`,
+        );
+      }
+    } catch (error) {
+      done.created = importedSoFar();
+      this.revertImport(done);
+      throw error;
+    } finally {
+      this.isPerformingCompositeOperation = false;
     }
 
-    // Import the features and wait for completion before reading the count.
-    const importResult = (await this.geoman.features.importGeoJson(
-      featureCollection,
-    )) as GeomanImportResult;
-
-    const result: GeoJsonLoadResult = {
-      features: featureCollection.features,
-      count: resolveImportedCount(
-        importResult,
-        featureCollection.features.length,
-      ),
-      filename,
+    return {
+      ...plan,
+      updated: done.updated,
+      created,
+      importedCount: resolveImportedCount(importResult, plan.added.length),
     };
+  }
+
+  private recordImport(applied: AppliedImport, filename: string): void {
+    const deleted = [
+      ...applied.removed,
+      ...applied.updated.map((u) => u.oldFeature),
+    ];
+    const created = [
+      ...applied.updated.map((u) => u.newFeature),
+      ...applied.created,
+    ];
+    if (deleted.length + created.length > 0) {
+      this.recordCompositeOperation(deleted, created, `Import ${filename}`);
+    }
+  }
+
+  /**
+   * Undo a partly applied import without recording history
+   */
+  private revertImport(applied: AppliedImport): void {
+    this.revertChanges(
+      [...applied.removed, ...applied.updated.map((u) => u.oldFeature)],
+      [...applied.updated.map((u) => u.newFeature), ...applied.created],
+      "Revert import",
+    );
+  }
+
+  /**
+   * Put back deleted features and remove created ones without recording
+   * history
+   */
+  private revertChanges(
+    deleted: Feature[],
+    created: Feature[],
+    description: string,
+  ): void {
+    const context = this.getCommandContext();
+    if (!context) return;
+
+    const commands = [
+      ...deleted.map((feature) => new DeleteFeatureCommand(feature, context)),
+      ...created.map((feature) => new CreateFeatureCommand(feature, context)),
+    ];
+
+    this.isPerformingCompositeOperation = true;
+    try {
+      new CompositeCommand(commands, description).undo();
+    } finally {
+      this.isPerformingCompositeOperation = false;
+    }
+    this.snappingFeature.invalidate();
+  }
+
+  /**
+   * Report a finished import: warn about rejected features, fit the map to
+   * the loaded features, then notify the callback and listeners
+   */
+  private completeImport(result: GeoJsonLoadResult): GeoJsonLoadResult {
+    // Also without history, which would otherwise do this
+    this.snappingFeature.invalidate();
+
+    const { rejected } = result.validation;
+    if (rejected.length > 0) {
+      console.warn(
+        `GeoEditor: Rejected ${rejected.length} invalid features from ${result.filename}`,
+        rejected,
+      );
+    }
 
     // Fit bounds to show all features
-    if (this.options.fitBoundsOnLoad && featureCollection.features.length > 0) {
-      this.fitBoundsToFeatures(featureCollection);
+    if (this.options.fitBoundsOnLoad && result.features.length > 0) {
+      this.fitBoundsToFeatures({
+        type: "FeatureCollection",
+        features: result.features,
+      });
     }
 
     // Call callback
@@ -3766,11 +5475,57 @@ export class GeoEditor implements IControl {
     // Emit event
     this.emitEvent("gm:geojsonload", result);
 
-    console.log(`GeoEditor: Loaded ${result.count} features from ${filename}`);
+    console.log(
+      `GeoEditor: Loaded ${result.count} features from ${result.filename}`,
+    );
 
     return result;
   }
 
+  /**
+   * Remove every feature from the editor as one undoable operation.
+   *
+   * @returns The removed features
+   */
+  async clearAllFeatures(): Promise<Feature[]> {
+    if (!this.geoman) return [];
+
+    const features = this.getFeatures().features;
+    if (features.length === 0) return [];
+
+    this.clearSelection();
+    this.isPerformingCompositeOperation = true;
+    try {
+      await this.removeAllGeomanFeatures();
+    } finally {
+      this.isPerformingCompositeOperation = false;
+    }
+    this.recordCompositeOperation(features, [], "Clear all features");
+
+    this.emitEvent("gm:clear", { features });
+    return features;
+  }
+
+  /**
+   * Delete every geoman feature without recording history
+   */
+  private async removeAllGeomanFeatures(): Promise<void> {
+    if (!this.geoman) return;
+
+    try {
+      await this.geoman.features.deleteAll();
+    } catch {
+      // Fallback: delete features one by one
+      this.geoman.features.forEach((fd) => {
+        try {
+          fd.delete();
+        } catch {
+          /* ignore */
+        }
+      });
+    }
+  }
+
   /**
    * Fit the map bounds to show all features in a FeatureCollection
    */
@@ -3815,154 +5570,1016 @@ export class GeoEditor implements IControl {
   }
 
   /**
-   * Check if a bounding box is valid
+   * Check if a bounding box is valid
+   */
+  private isValidBBox(bbox: [number, number, number, number]): boolean {
+    return (
+      bbox.every((v) => isFinite(v) && !isNaN(v)) &&
+      bbox[0] <= bbox[2] && // west <= east
+      bbox[1] <= bbox[3] // south <= north
+    );
+  }
+
+  /**
+   * Fit the map to show all current features
+   */
+  fitToAllFeatures(): void {
+    const featureCollection = this.getFeatures();
+    if (featureCollection.features.length === 0) {
+      console.warn("GeoEditor: No features to fit bounds to");
+      return;
+    }
+    this.fitBoundsToFeatures(featureCollection);
+  }
+
+  /**
+   * Save current features as a file download
+   * @param filename - Optional filename for download
+   * @param format - Id of a registered output format; inferred from the
+   * filename extension when omitted, otherwise GeoJSON. Formats whose `write`
+   * is asynchronous are saved with `saveFile()`.
+   * @param options - Target CRS for GeoJSON (default: the `saveCrs` option)
+   * @returns Result of the save operation
+   */
+  saveGeoJson(
+    filename?: string,
+    format?: FileFormat,
+    options: SaveOptions = {},
+  ): GeoJsonSaveResult {
+    const save = this.prepareSave(filename, format, options);
+    return this.downloadSave(
+      save,
+      this.formatRegistry.write(save.featureCollection, save.format, save.name),
+    );
+  }
+
+  /**
+   * Save current features as a file download in any registered format,
+   * including formats whose `write` is asynchronous
+   * @param filename - Optional filename for download
+   * @param format - Id of a registered output format; inferred from the
+   * filename extension when omitted, otherwise GeoJSON
+   * @param options - Target CRS for GeoJSON (default: the `saveCrs` option)
+   * @returns Result of the save operation, once the format has written the file
+   */
+  async saveFile(
+    filename?: string,
+    format?: FileFormat,
+    options: SaveOptions = {},
+  ): Promise<GeoJsonSaveResult> {
+    const save = this.prepareSave(filename, format, options);
+    return this.downloadSave(
+      save,
+      await this.formatRegistry.writeAsync(
+        save.featureCollection,
+        save.format,
+        save.name,
+      ),
+    );
+  }
+
+  /**
+   * Resolve the format and filename of a save and reproject the features
+   */
+  private prepareSave(
+    filename: string | undefined,
+    format: FileFormat | undefined,
+    options: SaveOptions,
+  ): PreparedSave {
+    let featureCollection = this.getFeatures();
+    const saveFormat: FileFormat =
+      format ??
+      (filename ? this.formatRegistry.formatFromFilename(filename)?.id : null) ??
+      "geojson";
+    const definition = this.formatRegistry.get(saveFormat);
+    let saveFilename =
+      filename || this.options.saveFilename || "features.geojson";
+    if (
+      definition &&
+      !definition.extensions.some((ext) =>
+        saveFilename.toLowerCase().endsWith(ext),
+      )
+    ) {
+      saveFilename = saveFilename.replace(
+        /(\.[^.]*)?$/,
+        definition.extensions[0],
+      );
+    }
+
+    // Only GeoJSON can declare a CRS; the other formats are always WGS84
+    const crs = options.crs ?? this.options.saveCrs;
+    if (crs && saveFormat === "geojson") {
+      const projection = requireProjection(crs);
+      const crsMember = createGeoJsonCrs(crs);
+      featureCollection = {
+        ...reprojectFromWgs84(featureCollection, projection),
+        ...(crsMember ? { crs: crsMember } : {}),
+      } as FeatureCollection;
+    } else if (crs) {
+      console.warn(`GeoEditor: ${saveFormat} is always saved in WGS84`);
+    }
+
+    return {
+      featureCollection,
+      format: saveFormat,
+      filename: saveFilename,
+      // Shapefile layers and KML/GPX documents are named after the file
+      name: saveFilename.replace(/\.[^.]*$/, "") || "features",
+      crs: crs && saveFormat === "geojson" ? crs : undefined,
+    };
+  }
+
+  /**
+   * Download written features and report the save
+   */
+  private downloadSave(
+    save: PreparedSave,
+    { data, mimeType }: FeatureFileWriteResult,
+  ): GeoJsonSaveResult {
+    const blob =
+      data instanceof Blob
+        ? data
+        : new Blob([data as BlobPart], { type: mimeType });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = save.filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    const result: GeoJsonSaveResult = {
+      featureCollection: save.featureCollection,
+      count: save.featureCollection.features.length,
+      filename: save.filename,
+      format: save.format,
+      mimeType,
+      ...(save.crs ? { crs: save.crs } : {}),
+    };
+
+    // Call callback
+    this.options.onGeoJsonSave?.(result);
+
+    // Emit event
+    this.emitEvent("gm:geojsonsave", result);
+
+    console.log(
+      `GeoEditor: Saved ${result.count} features to ${save.filename}`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Toggle snapping on/off (independent of other modes).
+   * While on, drawing, editing, dragging, splitting and freehand drawing snap
+   * the mouse to vertices, intersections, midpoints and edges of existing
+   * features within `snappingTolerance` pixels.
+   */
+  toggleSnapping(): void {
+    this.snappingEnabled = !this.snappingEnabled;
+
+    this.applySnappingState();
+  }
+
+  /**
+   * Check if snapping is enabled
+   */
+  isSnappingEnabled(): boolean {
+    return this.snappingEnabled;
+  }
+
+  /**
+   * Set snapping state
+   */
+  setSnapping(enabled: boolean): void {
+    this.snappingEnabled = enabled;
+    this.applySnappingState();
+    this.container
+      ?.querySelector<HTMLElement>('[data-helper="snapping"]')
+      ?.classList.toggle(
+        `${CSS_PREFIX}-tool-button--active`,
+        this.snappingEnabled,
+      );
+  }
+
+  /**
+   * Find what a position would snap to, whatever mode is active
+   *
+   * @param lngLat - Position to snap
+   * @returns The snap target, or null when nothing is within the tolerance
+   */
+  getSnapTarget(lngLat: [number, number]): SnapTarget | null {
+    return this.snappingFeature.snap(lngLat);
+  }
+
+  /**
+   * Whether the active mode takes positions from the mouse and snaps them
+   */
+  private isSnappingModeActive(): boolean {
+    const editMode = this.state.activeEditMode;
+    return (
+      this.state.activeDrawMode !== null ||
+      editMode === "drag" ||
+      editMode === "change" ||
+      editMode === "cut" ||
+      editMode === "split"
+    );
+  }
+
+  isTopologyEnabled(): boolean {
+    return this.topologyEnabled;
+  }
+
+  setTopology(enabled: boolean): void {
+    this.topologyEnabled = enabled;
+    if (enabled && !this.snappingEnabled) {
+      this.setSnapping(true);
+    }
+    this.container
+      ?.querySelector<HTMLElement>('[data-helper="topology"]')
+      ?.classList.toggle(
+        `${CSS_PREFIX}-tool-button--active`,
+        this.topologyEnabled,
+      );
+  }
+
+  private applySnappingState(): void {
+    this.snappingFeature.setEnabled(this.snappingEnabled);
+  }
+
+  // ============================================================================
+  // Measurements
+  // ============================================================================
+
+  isMeasurementsEnabled(): boolean {
+    return this.measurementsEnabled;
+  }
+
+  /**
+   * Show or hide live measurements. While on, lines and polygons being drawn
+   * or vertex-edited are labelled with their segment lengths, total length,
+   * and area and perimeter, and `gm:measure` reports the values as they change.
+   */
+  setMeasurements(enabled: boolean): void {
+    this.measurementsEnabled = enabled;
+    this.measurementFeature.setEnabled(enabled);
+    this.setHelperButtonActive("measurements", enabled);
+  }
+
+  toggleMeasurements(): void {
+    this.setMeasurements(!this.measurementsEnabled);
+  }
+
+  /**
+   * Set the unit system of the measurement labels
+   */
+  setMeasurementUnits(units: MeasurementUnits): void {
+    this.measurementFeature.setUnits(units);
+  }
+
+  getMeasurementUnits(): MeasurementUnits {
+    return this.measurementFeature.getUnits();
+  }
+
+  /**
+   * Measurements of the shapes currently being drawn or edited, in meters and
+   * square meters
+   */
+  getMeasurements(): Measurement[] {
+    return this.measurementFeature.getMeasurements();
+  }
+
+  // ============================================================================
+  // Precision Input
+  // ============================================================================
+
+  isPrecisionInputEnabled(): boolean {
+    return this.precisionInputEnabled;
+  }
+
+  /**
+   * Show or hide the precision input: while a line or polygon is drawn, a box
+   * next to the cursor takes typed vertices (see {@link addPrecisionVertex}).
+   * Enter on an empty box finishes the shape.
+   */
+  setPrecisionInput(enabled: boolean): void {
+    this.precisionInputEnabled = enabled;
+    this.setHelperButtonActive("precision", enabled);
+    this.updatePrecisionInput();
+  }
+
+  togglePrecisionInput(): void {
+    this.setPrecisionInput(!this.precisionInputEnabled);
+  }
+
+  /**
+   * Add a vertex to the line or polygon being drawn; the first vertex starts
+   * the shape.
+   *
+   * @returns false when no line or polygon is being drawn
+   */
+  addDrawVertex(lngLat: [number, number]): boolean {
+    const drawer = this.getActiveLineDrawer()?.drawer;
+    if (!drawer) return false;
+
+    try {
+      if (drawer.featureData && this.getDrawVertices().length > 0) {
+        if (typeof drawer.addPoint !== "function") return false;
+        drawer.addPoint(lngLat, { index: -1, path: null });
+      } else {
+        if (typeof drawer.startShape !== "function") return false;
+        drawer.startShape(lngLat);
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Add a typed vertex to the line or polygon being drawn: a distance and
+   * bearing (`100 N45E`, `100 @45`), a distance and an angle turned from the
+   * previous segment (`100 <90`), or coordinates in decimal degrees or DMS
+   * (`13.4, 52.5`, `52°30'N 13°24'E`). Distances without a unit are in the
+   * unit system of `measurementUnits`.
+   *
+   * @returns false when the text is not understood, the shape has no vertex
+   *   to measure from yet, or no line or polygon is being drawn
+   */
+  addPrecisionVertex(text: string): boolean {
+    const input = parseCogoInput(text, this.measurementFeature.getUnits());
+    if (!input) return false;
+    const lngLat = resolveCogoInput(input, this.getDrawVertices());
+    return lngLat ? this.addDrawVertex(lngLat) : false;
+  }
+
+  /**
+   * Vertices placed so far in the line or polygon being drawn
+   */
+  private getDrawVertices(): [number, number][] {
+    const vertices = this.getActiveLineDrawer()?.drawer.shapeLngLats;
+    if (!Array.isArray(vertices)) return [];
+    return vertices
+      .map((vertex) => this.toLngLatPair(vertex))
+      .filter((vertex): vertex is [number, number] => vertex !== null);
+  }
+
+  /**
+   * Show the precision input while a line or polygon is drawn, else remove it
+   */
+  private updatePrecisionInput(): void {
+    const mode = this.state.activeDrawMode;
+    const drawing = mode === "line" || mode === "polygon" || mode === "massing";
+    if (!this.precisionInputEnabled || !drawing) {
+      this.removePrecisionInput();
+      return;
+    }
+    if (this.precisionInput || !this.map) return;
+
+    const box = document.createElement("div");
+    box.className = `${CSS_PREFIX}-precision-input`;
+    const input = document.createElement("input");
+    input.type = "text";
+    input.placeholder = "100 N45E, 100 <90 or lng, lat";
+    input.setAttribute("aria-label", "Next vertex");
+    const hint = document.createElement("div");
+    hint.className = `${CSS_PREFIX}-precision-input-hint`;
+    hint.textContent = "Enter adds a vertex; Enter on empty finishes";
+    box.append(input, hint);
+
+    const showError = (message: string): void => {
+      box.classList.add(`${CSS_PREFIX}-precision-input--invalid`);
+      hint.textContent = message;
+    };
+    input.addEventListener("input", () => {
+      box.classList.remove(`${CSS_PREFIX}-precision-input--invalid`);
+    });
+    // Keep keystrokes away from the map shortcuts; Escape on an empty box
+    // falls through and ends drawing
+    input.addEventListener("keydown", (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !input.value) {
+        input.blur();
+        return;
+      }
+      e.stopPropagation();
+      if (e.key === "Escape") {
+        input.value = "";
+      } else if (e.key === "Enter") {
+        e.preventDefault();
+        const text = input.value.trim();
+        if (!text) {
+          if (!this.finishActiveLineOrPolygonDraw()) {
+            showError("Not enough vertices to finish");
+          }
+        } else if (!parseCogoInput(text)) {
+          showError(`Not understood: ${text}`);
+        } else if (this.addPrecisionVertex(text)) {
+          input.value = "";
+        } else {
+          showError("Place a vertex first to measure from");
+        }
+      }
+    });
+
+    this.boundPrecisionInputMove = (e: MapMouseEvent) => {
+      box.style.left = `${e.point.x + 16}px`;
+      box.style.top = `${e.point.y + 16}px`;
+    };
+    this.map.on("mousemove", this.boundPrecisionInputMove);
+    this.map.getContainer().appendChild(box);
+    this.precisionInput = box;
+  }
+
+  private removePrecisionInput(): void {
+    if (this.boundPrecisionInputMove) {
+      this.map?.off("mousemove", this.boundPrecisionInputMove);
+      this.boundPrecisionInputMove = null;
+    }
+    this.precisionInput?.remove();
+    this.precisionInput = null;
+  }
+
+  // ============================================================================
+  // Vertex Editing
+  // ============================================================================
+
+  /**
+   * Insert a vertex before `index` on a line or ring of a feature; an index
+   * equal to the vertex count appends it. Like editing in change mode, the
+   * edit reaches topologically connected features and is one undo step.
+   *
+   * @param featureId - Id of the feature to edit
+   * @param ringPath - Which line or ring the vertex goes on (see `VertexPath`)
+   * @param index - Vertex index, not counting the closing position of rings
+   * @param position - [lng, lat] of the new vertex
+   * @returns The edited feature, or null when the feature, path or index does
+   *   not exist
+   */
+  insertVertex(
+    featureId: string,
+    ringPath: VertexPath,
+    index: number,
+    position: Position,
+  ): Feature | null {
+    return this.editVertex(featureId, "insert", ringPath, index, (feature) =>
+      insertVertex(feature, ringPath, index, position),
+    );
+  }
+
+  /**
+   * Remove a vertex from a line or ring of a feature. Lines keep at least two
+   * vertices and rings at least three.
+   *
+   * @returns The edited feature, or null when the vertex does not exist or
+   *   cannot be removed
+   */
+  removeVertex(
+    featureId: string,
+    ringPath: VertexPath,
+    index: number,
+  ): Feature | null {
+    return this.editVertex(featureId, "remove", ringPath, index, (feature) =>
+      removeVertex(feature, ringPath, index),
+    );
+  }
+
+  /**
+   * Move a vertex of a feature to a new position. A point has one vertex, at
+   * the empty path and index 0.
+   *
+   * @returns The edited feature, or null when the vertex does not exist
+   */
+  moveVertex(
+    featureId: string,
+    ringPath: VertexPath,
+    index: number,
+    position: Position,
+  ): Feature | null {
+    return this.editVertex(featureId, "move", ringPath, index, (feature) =>
+      moveVertex(feature, ringPath, index, position),
+    );
+  }
+
+  /**
+   * Apply a vertex edit to a feature in geoman, propagate it through the
+   * topology and record it in history
+   */
+  private editVertex(
+    featureId: string,
+    action: VertexEditAction,
+    path: VertexPath,
+    index: number,
+    edit: (feature: Feature) => Feature | null,
+  ): Feature | null {
+    const feature = this.getFeatures().features.find(
+      (candidate) => this.getGeomanIdFromFeature(candidate) === featureId,
+    );
+    const edited = feature ? edit(feature) : null;
+    if (!edited) {
+      console.warn(`Cannot ${action} vertex ${index} of feature ${featureId}`);
+      return null;
+    }
+
+    this.isPerformingCompositeOperation = true;
+    let applied: TopologyEdit | undefined;
+    let topologyEdits: TopologyEdit[] = [];
+    try {
+      [applied] = this.applyTopologyEdits([
+        { oldFeature: edited, newFeature: edited },
+      ]);
+      if (applied) {
+        topologyEdits = this.applyTopologyToEditedFeature(
+          applied.oldFeature,
+          applied.newFeature,
+        );
+      }
+    } finally {
+      this.isPerformingCompositeOperation = false;
+    }
+    if (!applied) return null;
+
+    if (topologyEdits.length > 0) {
+      this.recordTopologyEditOperation(
+        applied.oldFeature,
+        edited,
+        topologyEdits,
+      );
+    } else {
+      this.recordEditOperation(applied.oldFeature, edited);
+    }
+
+    this.refreshSelectedFeatures([
+      edited,
+      ...topologyEdits.map((topologyEdit) => topologyEdit.newFeature),
+    ]);
+    this.lastEditedFeature = edited;
+    this.snappingFeature.invalidate();
+    this.emitEvent("gm:vertexedit", {
+      feature: edited,
+      action,
+      path,
+      index,
+    });
+    return edited;
+  }
+
+  /**
+   * Replace selected features with their updated versions and redraw the
+   * selection
+   */
+  private refreshSelectedFeatures(updated: Feature[]): void {
+    this.state.selectedFeatures = this.state.selectedFeatures.map(
+      (selected) => {
+        const id = this.getGeomanIdFromFeature(selected.feature);
+        const feature = updated.find(
+          (candidate) => this.getGeomanIdFromFeature(candidate) === id,
+        );
+        return feature ? { ...selected, feature } : selected;
+      },
+    );
+    this.updateSelectionHighlight();
+  }
+
+  // ============================================================================
+  // Angle Constraints and Orthogonalize
+  // ============================================================================
+
+  /**
+   * Set the angle, in degrees, that Shift constrains drawn and dragged
+   * segments to multiples of
+   */
+  setAngleConstraintStep(step: number): void {
+    this.angleConstraintFeature.setStep(step);
+  }
+
+  getAngleConstraintStep(): number {
+    return this.angleConstraintFeature.getStep();
+  }
+
+  /**
+   * Measure constrained angles from the previous segment or from true north
+   */
+  setAngleConstraintReference(reference: AngleReference): void {
+    this.angleConstraintFeature.setReference(reference);
+  }
+
+  getAngleConstraintReference(): AngleReference {
+    return this.angleConstraintFeature.getReference();
+  }
+
+  /**
+   * Square the corners of the selected polygons (or the last created one):
+   * corners within `orthogonalizeThreshold` degrees of 90° become right
+   * angles and nearly straight vertices are straightened. Recorded as one
+   * undoable edit.
+   *
+   * @returns The squared polygons
+   */
+  orthogonalizeSelected(): Feature[] {
+    let targets = this.getSelectedFeatures();
+    if (targets.length === 0 && this.lastCreatedFeature) {
+      targets = [this.lastCreatedFeature];
+    }
+
+    const edits: TopologyEdit[] = [];
+    targets.forEach((feature) => {
+      const squared = orthogonalize(feature, {
+        threshold: this.options.orthogonalizeThreshold,
+      });
+      if (squared) edits.push({ oldFeature: feature, newFeature: squared });
+    });
+    if (edits.length === 0) {
+      console.warn("Orthogonalize: select polygons with corners near 90°");
+      return [];
+    }
+
+    this.isPerformingCompositeOperation = true;
+    let applied: TopologyEdit[];
+    try {
+      applied = this.applyTopologyEdits(edits);
+    } finally {
+      this.isPerformingCompositeOperation = false;
+    }
+    if (applied.length === 1) {
+      this.recordEditOperation(applied[0].oldFeature, applied[0].newFeature);
+    } else if (applied.length > 1) {
+      this.recordCompositeOperation([], [], "Orthogonalize", applied);
+    }
+
+    const squared = applied.map((edit) => edit.newFeature);
+    this.refreshSelectedFeatures(squared);
+    if (squared.length > 0) {
+      this.lastEditedFeature = squared[squared.length - 1];
+      this.snappingFeature.invalidate();
+      this.emitEvent("gm:orthogonalize", { features: squared });
+    }
+    return squared;
+  }
+
+  /**
+   * Where the segment being drawn, or the vertex being dragged in change
+   * mode, is constrained from
+   */
+  private getAngleConstraintAnchor(): AngleAnchor | null {
+    if (this.getActiveLineDrawer()) {
+      const vertices = this.getDrawVertices();
+      if (vertices.length === 0) return null;
+      return {
+        origin: vertices[vertices.length - 1],
+        previous: vertices[vertices.length - 2],
+      };
+    }
+    return this.state.activeEditMode === "change"
+      ? this.vertexDragAnchor
+      : null;
+  }
+
+  /**
+   * Shapes being drawn or edited: geoman keeps them in its temporary source.
+   * A polygon being drawn is a line until it is finished, so it is closed here
+   * to measure its area.
+   */
+  private getMeasuredFeatures(): Feature[] {
+    if (typeof this.geoman?.features.tmpForEach !== "function") return [];
+
+    const closeRing =
+      this.state.activeDrawMode === "polygon" ||
+      this.state.activeDrawMode === "massing";
+    const features: Feature[] = [];
+    this.geoman.features.tmpForEach((fd) => {
+      const feature = this.getGeomanFeature(fd);
+      if (!feature?.geometry) return;
+      if (
+        closeRing &&
+        feature.geometry.type === "LineString" &&
+        feature.geometry.coordinates.length >= 3
+      ) {
+        const ring = feature.geometry.coordinates;
+        features.push({
+          ...feature,
+          geometry: { type: "Polygon", coordinates: [[...ring, ring[0]]] },
+        });
+        return;
+      }
+      features.push(feature);
+    });
+    return features;
+  }
+
+  // ============================================================================
+  // Topology Validation
+  // ============================================================================
+
+  /**
+   * Check all features for overlaps, gaps, slivers, dangling line ends and
+   * self-intersections. The topology panel, when open, lists the result.
+   *
+   * @param options - Thresholds (default: the `topologyValidation` option)
+   * @returns The issues found
+   */
+  validateTopology(options: TopologyValidationOptions = {}): TopologyIssue[] {
+    this.topologyIssues = findTopologyIssues(this.getFeatures().features, {
+      ...this.options.topologyValidation,
+      ...options,
+    });
+    this.renderTopologyPanel();
+    this.emitEvent("gm:topologyvalidate", { issues: this.topologyIssues });
+    return this.topologyIssues;
+  }
+
+  /**
+   * Repair a topology issue found by `validateTopology`, as one history entry.
+   * Overlaps are cut from the first feature listed, gaps and slivers merged
+   * into the neighbour sharing most boundary, dangling ends moved onto the
+   * nearest line and self-intersecting polygons split at the crossings.
+   *
+   * @returns Whether the issue was fixed
+   */
+  fixTopologyIssue(issue: TopologyIssue): boolean {
+    const fix = computeTopologyFix(
+      issue,
+      this.getFeatures().features,
+      this.options.topologyValidation,
+    );
+    if (!fix) return false;
+
+    this.isPerformingCompositeOperation = true;
+    let applied: TopologyEdit[];
+    try {
+      this.deleteGeomanFeatures(fix.deleted);
+      applied = this.applyTopologyEdits(fix.edits);
+    } finally {
+      this.isPerformingCompositeOperation = false;
+    }
+    // Record only the edits geoman could apply, so undo replays what happened
+    if (fix.deleted.length + applied.length === 0) return false;
+    this.recordCompositeOperation(
+      fix.deleted,
+      [],
+      `Fix ${issue.type}`,
+      applied,
+    );
+    this.snappingFeature.invalidate();
+    this.showTopologyIssue(null);
+
+    this.emitEvent("gm:topologyfix", {
+      issue,
+      features: applied.map((edit) => edit.newFeature),
+    });
+    if (this.isTopologyPanelVisible()) {
+      this.validateTopology();
+    }
+    return true;
+  }
+
+  /**
+   * Zoom to a topology issue and outline it on the map
    */
-  private isValidBBox(bbox: [number, number, number, number]): boolean {
-    return (
-      bbox.every((v) => isFinite(v) && !isNaN(v)) &&
-      bbox[0] <= bbox[2] && // west <= east
-      bbox[1] <= bbox[3] // south <= north
+  zoomToTopologyIssue(issue: TopologyIssue): void {
+    const [west, south, east, north] = issue.bbox;
+    this.map.fitBounds(
+      [
+        [west, south],
+        [east, north],
+      ],
+      { padding: 80, maxZoom: 19 },
     );
+    this.showTopologyIssue(issue);
   }
 
   /**
-   * Fit the map to show all current features
+   * Show the topology panel and run a check
    */
-  fitToAllFeatures(): void {
-    const featureCollection = this.getFeatures();
-    if (featureCollection.features.length === 0) {
-      console.warn("GeoEditor: No features to fit bounds to");
-      return;
+  showTopologyPanel(): void {
+    if (!this.topologyPanel) this.createTopologyPanel();
+    this.topologyPanel?.classList.remove(
+      `${CSS_PREFIX}-attribute-panel--hidden`,
+    );
+    this.setHelperButtonActive("validation", true);
+    this.validateTopology();
+  }
+
+  hideTopologyPanel(): void {
+    this.topologyPanel?.classList.add(`${CSS_PREFIX}-attribute-panel--hidden`);
+    this.setHelperButtonActive("validation", false);
+    this.showTopologyIssue(null);
+  }
+
+  toggleTopologyPanel(): void {
+    if (this.isTopologyPanelVisible()) {
+      this.hideTopologyPanel();
+    } else {
+      this.showTopologyPanel();
     }
-    this.fitBoundsToFeatures(featureCollection);
+  }
+
+  isTopologyPanelVisible(): boolean {
+    return (
+      !!this.topologyPanel &&
+      !this.topologyPanel.classList.contains(
+        `${CSS_PREFIX}-attribute-panel--hidden`,
+      )
+    );
+  }
+
+  private setHelperButtonActive(helper: string, active: boolean): void {
+    this.container
+      ?.querySelector<HTMLElement>(`[data-helper="${helper}"]`)
+      ?.classList.toggle(`${CSS_PREFIX}-tool-button--active`, active);
   }
 
   /**
-   * Save current features as GeoJSON file download
-   * @param filename - Optional filename for download
-   * @returns Result of the save operation
+   * Create the topology panel; it shares its frame with the attribute panel
    */
-  saveGeoJson(filename?: string): GeoJsonSaveResult {
-    const featureCollection = this.getFeatures();
-    const saveFilename =
-      filename || this.options.saveFilename || "features.geojson";
+  private createTopologyPanel(): void {
+    const position = this.options.attributePanelPosition;
+    const panel = document.createElement("div");
+    panel.className = `${CSS_PREFIX}-attribute-panel ${CSS_PREFIX}-attribute-panel--${position} ${CSS_PREFIX}-topology-panel ${CSS_PREFIX}-attribute-panel--hidden`;
+    panel.style.width = `${this.options.attributePanelWidth}px`;
+    const maxHeight = this.options.attributePanelMaxHeight;
+    panel.style.maxHeight =
+      typeof maxHeight === "number" ? `${maxHeight}px` : maxHeight;
+    panel.style.top = `${this.options.attributePanelTop}px`;
+    panel.style[position] = `${this.options.attributePanelSideOffset}px`;
 
-    // Create blob and download
-    const blob = new Blob([JSON.stringify(featureCollection, null, 2)], {
-      type: "application/geo+json",
-    });
+    const header = document.createElement("div");
+    header.className = `${CSS_PREFIX}-attribute-panel-header`;
 
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = saveFilename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const title = document.createElement("h3");
+    title.className = `${CSS_PREFIX}-attribute-panel-title`;
+    title.textContent = "Topology Check";
+    header.appendChild(title);
 
-    const result: GeoJsonSaveResult = {
-      featureCollection,
-      count: featureCollection.features.length,
-      filename: saveFilename,
-    };
+    const actions = document.createElement("div");
+    actions.className = `${CSS_PREFIX}-topology-panel-actions`;
 
-    // Call callback
-    this.options.onGeoJsonSave?.(result);
+    const refreshBtn = document.createElement("button");
+    refreshBtn.className = `${CSS_PREFIX}-attribute-panel-close`;
+    refreshBtn.title = "Check again";
+    refreshBtn.innerHTML =
+      '<svg viewBox="0 0 24 24" width="16" height="16"><path d="M17.65 6.35A7.96 7.96 0 0 0 12 4a8 8 0 1 0 7.73 10h-2.08A6 6 0 1 1 12 6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z" fill="currentColor"/></svg>';
+    refreshBtn.addEventListener("click", () => this.validateTopology());
+    actions.appendChild(refreshBtn);
 
-    // Emit event
-    this.emitEvent("gm:geojsonsave", result);
+    const closeBtn = document.createElement("button");
+    closeBtn.className = `${CSS_PREFIX}-attribute-panel-close`;
+    closeBtn.title = "Close";
+    closeBtn.innerHTML =
+      '<svg viewBox="0 0 24 24" width="16" height="16"><path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" fill="currentColor"/></svg>';
+    closeBtn.addEventListener("click", () => this.hideTopologyPanel());
+    actions.appendChild(closeBtn);
 
-    console.log(`GeoEditor: Saved ${result.count} features to ${saveFilename}`);
+    header.appendChild(actions);
+    panel.appendChild(header);
 
-    return result;
+    const body = document.createElement("div");
+    body.className = `${CSS_PREFIX}-attribute-panel-body`;
+    body.setAttribute("data-panel-body", "true");
+    panel.appendChild(body);
+
+    this.map.getContainer().appendChild(panel);
+    this.topologyPanel = panel;
   }
 
   /**
-   * Toggle snapping on/off (independent of other modes)
-   * Note: Snapping functionality requires Geoman Pro. In the free version,
-   * this toggle tracks state but does not enable actual vertex snapping.
+   * List the current topology issues in the panel
    */
-  toggleSnapping(): void {
-    this.snappingEnabled = !this.snappingEnabled;
+  private renderTopologyPanel(): void {
+    const body = this.topologyPanel?.querySelector("[data-panel-body]");
+    if (!body) return;
+    body.innerHTML = "";
 
-    this.applySnappingState();
+    const summary = document.createElement("div");
+    summary.className = `${CSS_PREFIX}-topology-summary`;
+    const count = this.topologyIssues.length;
+    summary.textContent =
+      count === 0
+        ? "No topology issues found"
+        : `${count} topology issue${count === 1 ? "" : "s"}`;
+    body.appendChild(summary);
+
+    const list = document.createElement("ul");
+    list.className = `${CSS_PREFIX}-topology-issues`;
+    this.topologyIssues.forEach((issue) => {
+      const item = document.createElement("li");
+      item.className = `${CSS_PREFIX}-topology-issue`;
+      item.dataset.issueId = issue.id;
+      item.title = "Zoom to issue";
+      item.addEventListener("click", () => this.zoomToTopologyIssue(issue));
+
+      const type = document.createElement("span");
+      type.className = `${CSS_PREFIX}-topology-issue-type ${CSS_PREFIX}-topology-issue-type--${issue.type}`;
+      type.textContent = issue.type.replace("-", " ");
+      item.appendChild(type);
+
+      const message = document.createElement("span");
+      message.className = `${CSS_PREFIX}-topology-issue-message`;
+      message.textContent = issue.message;
+      item.appendChild(message);
+
+      if (issue.fixable) {
+        const fixBtn = document.createElement("button");
+        fixBtn.className = `${CSS_PREFIX}-topology-issue-fix`;
+        fixBtn.textContent = "Fix";
+        fixBtn.addEventListener("click", (e) => {
+          e.stopPropagation();
+          if (!this.fixTopologyIssue(issue)) {
+            fixBtn.disabled = true;
+            fixBtn.title = "This issue could not be fixed automatically";
+          }
+        });
+        item.appendChild(fixBtn);
+      }
+
+      list.appendChild(item);
+    });
+    body.appendChild(list);
   }
 
   /**
-   * Check if snapping is enabled
+   * Remove the topology panel and issue outline
    */
-  isSnappingEnabled(): boolean {
-    return this.snappingEnabled;
+  private removeTopologyPanel(): void {
+    this.topologyPanel?.remove();
+    this.topologyPanel = null;
+    [
+      INTERNAL_IDS.TOPOLOGY_ISSUE_FILL_LAYER,
+      INTERNAL_IDS.TOPOLOGY_ISSUE_LINE_LAYER,
+      INTERNAL_IDS.TOPOLOGY_ISSUE_CIRCLE_LAYER,
+    ].forEach((id) => {
+      if (this.map.getLayer(id)) this.map.removeLayer(id);
+    });
+    if (this.map.getSource(INTERNAL_IDS.TOPOLOGY_ISSUE_SOURCE)) {
+      this.map.removeSource(INTERNAL_IDS.TOPOLOGY_ISSUE_SOURCE);
+    }
   }
 
   /**
-   * Set snapping state
+   * Outline a topology issue on the map, or clear the outline
    */
-  setSnapping(enabled: boolean): void {
-    this.snappingEnabled = enabled;
-    this.applySnappingState();
-    this.container
-      ?.querySelector<HTMLElement>('[data-helper="snapping"]')
-      ?.classList.toggle(
-        `${CSS_PREFIX}-tool-button--active`,
-        this.snappingEnabled,
-      );
-  }
-
-  isTopologyEnabled(): boolean {
-    return this.topologyEnabled;
-  }
-
-  setTopology(enabled: boolean): void {
-    this.topologyEnabled = enabled;
-    if (enabled && !this.snappingEnabled) {
-      this.setSnapping(true);
-    }
-    this.container
-      ?.querySelector<HTMLElement>('[data-helper="topology"]')
-      ?.classList.toggle(
-        `${CSS_PREFIX}-tool-button--active`,
-        this.topologyEnabled,
-      );
-  }
+  private showTopologyIssue(issue: TopologyIssue | null): void {
+    if (!this.map) return;
 
-  private applySnappingState(): void {
-    if (!this.geoman) {
-      return;
+    if (issue && !this.map.getSource(INTERNAL_IDS.TOPOLOGY_ISSUE_SOURCE)) {
+      this.map.addSource(INTERNAL_IDS.TOPOLOGY_ISSUE_SOURCE, {
+        type: "geojson",
+        data: turf.featureCollection([]),
+      });
+      this.map.addLayer({
+        id: INTERNAL_IDS.TOPOLOGY_ISSUE_FILL_LAYER,
+        type: "fill",
+        source: INTERNAL_IDS.TOPOLOGY_ISSUE_SOURCE,
+        filter: [
+          "match",
+          ["geometry-type"],
+          ["Polygon", "MultiPolygon"],
+          true,
+          false,
+        ],
+        paint: { "fill-color": "#e53935", "fill-opacity": 0.35 },
+      });
+      this.map.addLayer({
+        id: INTERNAL_IDS.TOPOLOGY_ISSUE_LINE_LAYER,
+        type: "line",
+        source: INTERNAL_IDS.TOPOLOGY_ISSUE_SOURCE,
+        filter: [
+          "match",
+          ["geometry-type"],
+          ["Polygon", "MultiPolygon"],
+          true,
+          false,
+        ],
+        paint: { "line-color": "#e53935", "line-width": 2 },
+      });
+      this.map.addLayer({
+        id: INTERNAL_IDS.TOPOLOGY_ISSUE_CIRCLE_LAYER,
+        type: "circle",
+        source: INTERNAL_IDS.TOPOLOGY_ISSUE_SOURCE,
+        filter: [
+          "match",
+          ["geometry-type"],
+          ["Point", "MultiPoint"],
+          true,
+          false,
+        ],
+        paint: {
+          "circle-radius": 8,
+          "circle-color": "rgba(229, 57, 53, 0.2)",
+          "circle-stroke-color": "#e53935",
+          "circle-stroke-width": 2,
+        },
+      });
     }
 
-    try {
-      if (typeof this.geoman.enableMode === "function") {
-        if (this.snappingEnabled) {
-          this.geoman.enableMode("helper", "snapping");
-        } else {
-          this.geoman.disableMode("helper", "snapping");
-        }
-        return;
-      }
-
-      // Fallback for older APIs
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const gm = this.geoman as any;
-      if (typeof gm.setGlobalOptions === "function") {
-        gm.setGlobalOptions({ snapping: this.snappingEnabled });
-      } else if (
-        typeof gm.enableSnapping === "function" &&
-        this.snappingEnabled
-      ) {
-        gm.enableSnapping();
-      } else if (
-        typeof gm.disableSnapping === "function" &&
-        !this.snappingEnabled
-      ) {
-        gm.disableSnapping();
-      }
-    } catch {
-      console.info(
-        "Snapping toggle: Geoman version does not support snapping.",
-      );
-    }
+    const source = this.map.getSource(INTERNAL_IDS.TOPOLOGY_ISSUE_SOURCE) as
+      | GeoJSONSource
+      | undefined;
+    source?.setData(
+      turf.featureCollection(issue ? [turf.feature(issue.geometry)] : []),
+    );
   }
 
   /**
@@ -4050,6 +6667,8 @@ export class GeoEditor implements IControl {
         } else if (mode === "difference") {
           // Difference is active when in pending difference mode
           isActive = this.pendingOperation === "difference";
+        } else if (mode === "intersect" || mode === "xor" || mode === "clip") {
+          isActive = this.pendingOperation === mode;
         } else {
           isActive = mode === this.state.activeEditMode;
         }
@@ -4098,9 +6717,15 @@ export class GeoEditor implements IControl {
       scale: "Scale",
       copy: "Copy",
       split: "Split",
-      union: "Union (select 2+ polygons)",
+      union: "Union (select 2+ polygons or lines)",
       difference: "Difference (select 2+ polygons)",
+      intersect: "Intersect (select 2+ polygons)",
+      xor: "Symmetric Difference (select 2+ polygons)",
+      clip: "Clip to Mask (click the mask polygon)",
       simplify: "Simplify",
+      orthogonalize: "Orthogonalize (square corners)",
+      buffer: "Buffer / Offset (drag the handle)",
+      explode: "Explode (split multi-part features)",
       lasso: "Lasso Select",
     };
     return labels[mode] || mode;
@@ -4142,8 +6767,18 @@ export class GeoEditor implements IControl {
         '<svg viewBox="0 0 24 24" width="18" height="18"><path d="M4 4h7v7H4V4zm9 0h7v7h-7V4zm-9 9h7v7H4v-7zm9 0h7v7h-7v-7z" fill="currentColor"/></svg>',
       difference:
         '<svg viewBox="0 0 24 24" width="18" height="18"><rect x="4" y="4" width="10" height="10" fill="none" stroke="currentColor" stroke-width="2"/><rect x="10" y="10" width="10" height="10" fill="none" stroke="currentColor" stroke-width="2"/><path d="M13 7h6v2h-6z" fill="currentColor"/></svg>',
+      intersect:
+        '<svg viewBox="0 0 24 24" width="18" height="18"><rect x="4" y="4" width="10" height="10" fill="none" stroke="currentColor" stroke-width="2"/><rect x="10" y="10" width="10" height="10" fill="none" stroke="currentColor" stroke-width="2"/><rect x="10" y="10" width="4" height="4" fill="currentColor"/></svg>',
+      xor: '<svg viewBox="0 0 24 24" width="18" height="18"><path d="M4 4h10v6h-4v4H4V4zm10 6h6v10H10v-6h4v-4z" fill="currentColor"/><rect x="4" y="4" width="10" height="10" fill="none" stroke="currentColor" stroke-width="2"/><rect x="10" y="10" width="10" height="10" fill="none" stroke="currentColor" stroke-width="2"/></svg>',
+      clip: '<svg viewBox="0 0 24 24" width="18" height="18"><rect x="3" y="3" width="18" height="18" fill="none" stroke="currentColor" stroke-width="2" stroke-dasharray="4 2"/><path d="M7 17l4-9 6 9H7z" fill="currentColor"/></svg>',
       simplify:
         '<svg viewBox="0 0 24 24" width="18" height="18"><path d="M4 17l5-5 3 3 6-6" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/><path d="M5 6h14" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round"/></svg>',
+      orthogonalize:
+        '<svg viewBox="0 0 24 24" width="18" height="18"><path d="M4 4h16v16H4V4z" fill="none" stroke="currentColor" stroke-width="2"/><path d="M4 14h6v6" fill="none" stroke="currentColor" stroke-width="2"/></svg>',
+      buffer:
+        '<svg viewBox="0 0 24 24" width="18" height="18"><rect x="8" y="8" width="8" height="8" fill="currentColor"/><rect x="3" y="3" width="18" height="18" rx="5" fill="none" stroke="currentColor" stroke-width="2" stroke-dasharray="4 2"/></svg>',
+      explode:
+        '<svg viewBox="0 0 24 24" width="18" height="18"><rect x="3" y="3" width="7" height="7" fill="currentColor"/><rect x="14" y="14" width="7" height="7" fill="currentColor"/><path d="M12 12l2-2m-4 4l-2 2m6-6l2-2m-8 8l-2 2" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round"/></svg>',
       lasso:
         '<svg viewBox="0 0 24 24" width="18" height="18"><ellipse cx="12" cy="10" rx="8" ry="6" fill="none" stroke="currentColor" stroke-width="2" stroke-dasharray="4 2"/><circle cx="12" cy="18" r="3" fill="currentColor"/></svg>',
       freehand:
@@ -4170,6 +6805,19 @@ export class GeoEditor implements IControl {
         e.target instanceof HTMLTextAreaElement ||
         (e.target instanceof HTMLElement && e.target.isContentEditable);
 
+      // Typing while drawing goes to the precision input
+      if (
+        this.precisionInput &&
+        !isInputField &&
+        e.key.length === 1 &&
+        !e.ctrlKey &&
+        !e.metaKey &&
+        !e.altKey
+      ) {
+        this.precisionInput.querySelector("input")?.focus();
+        return;
+      }
+
       // Ctrl/Cmd + Z - Undo
       if ((e.ctrlKey || e.metaKey) && e.key === "z" && !e.shiftKey) {
         this.undo();
@@ -4189,13 +6837,13 @@ export class GeoEditor implements IControl {
       }
       // Ctrl/Cmd + C
       if ((e.ctrlKey || e.metaKey) && e.key === "c") {
-        this.copySelectedFeatures();
+        void this.copySelectedFeatures();
         e.preventDefault();
       }
-      // Ctrl/Cmd + V
-      if ((e.ctrlKey || e.metaKey) && e.key === "v") {
-        this.pasteFeatures();
-        e.preventDefault();
+      // Ctrl/Cmd + V (Shift pastes at the cursor). The paste itself happens
+      // in the paste event, which carries the system clipboard text.
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "v") {
+        this.pasteAtCursor = e.shiftKey;
       }
       // Delete
       if (
@@ -4210,7 +6858,7 @@ export class GeoEditor implements IControl {
         e.preventDefault();
       }
 
-      // Enter - execute pending operation (union/difference)
+      // Enter - execute pending operation (union/difference/intersect/xor)
       if (e.key === "Enter" && this.pendingOperation) {
         this.executePendingOperation();
         e.preventDefault();
@@ -4227,6 +6875,36 @@ export class GeoEditor implements IControl {
     };
 
     document.addEventListener("keydown", this.boundKeyHandler);
+
+    this.boundPasteHandler = (e: ClipboardEvent) => {
+      const target = e.target;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLElement && target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const at =
+        this.pasteAtCursor && this.cursorLngLat ? this.cursorLngLat : undefined;
+      this.pasteAtCursor = false;
+      try {
+        this.pasteClipboardText(
+          e.clipboardData?.getData("text/plain") ?? "",
+          { at },
+        );
+      } catch (error) {
+        console.warn("GeoEditor: Failed to paste:", error);
+      }
+      e.preventDefault();
+    };
+    document.addEventListener("paste", this.boundPasteHandler);
+
+    this.boundCursorTracker = (e: MapMouseEvent) => {
+      this.cursorLngLat = [e.lngLat.lng, e.lngLat.lat];
+    };
+    this.map.on("mousemove", this.boundCursorTracker);
   }
 
   private removeKeyboardShortcuts(): void {
@@ -4234,6 +6912,14 @@ export class GeoEditor implements IControl {
       document.removeEventListener("keydown", this.boundKeyHandler);
       this.boundKeyHandler = null;
     }
+    if (this.boundPasteHandler) {
+      document.removeEventListener("paste", this.boundPasteHandler);
+      this.boundPasteHandler = null;
+    }
+    if (this.boundCursorTracker) {
+      this.map?.off("mousemove", this.boundCursorTracker);
+      this.boundCursorTracker = null;
+    }
   }
 
   // ============================================================================
@@ -4243,15 +6929,16 @@ export class GeoEditor implements IControl {
   /**
    * Clip a new polygon to the uncovered area. This turns a roughly overlapping
    * stand boundary into an exact shared boundary with the polygons already in
-   * the editor.
+   * the editor; neighbours get the vertices where the new boundary meets
+   * theirs.
    */
-  private applyTopologyToCreatedFeature(feature: Feature): Feature | null {
+  private applyTopologyToCreatedFeature(feature: Feature): CreatedFeatures {
     if (
       !this.topologyEnabled ||
       this.applyingTopology ||
       !isPolygonFeature(feature)
     ) {
-      return feature;
+      return { features: [feature], deleted: [], neighbourEdits: [] };
     }
 
     const featureId = this.getGeomanIdFromFeature(feature);
@@ -4263,14 +6950,18 @@ export class GeoEditor implements IControl {
         JSON.stringify(candidate.geometry) !== JSON.stringify(feature.geometry)
       );
     });
-    const topological = removePolygonOverlaps(feature, existing);
+    const clipped = removePolygonOverlaps(feature, existing);
     const featureData = this.findGeomanDataForFeature(feature);
+    const seams = clipped
+      ? repairCoverageSeams([clipped], existing)
+      : { features: [], neighbours: [] };
+    const topological = seams.features[0];
 
     this.applyingTopology = true;
     try {
       if (!topological) {
         featureData?.delete();
-        return null;
+        return { features: [], deleted: [], neighbourEdits: [] };
       }
       if (
         JSON.stringify(topological.geometry) !==
@@ -4282,25 +6973,87 @@ export class GeoEditor implements IControl {
           featureData?.updateGeoJsonGeometry?.(topological.geometry);
         }
       }
-      return topological;
     } finally {
       this.applyingTopology = false;
     }
+    return {
+      features: [topological],
+      deleted: [],
+      neighbourEdits: this.applyTopologyEdits(seams.neighbours),
+    };
   }
 
   /**
-   * Move matching vertices in adjacent polygons after a shared node is edited.
+   * Connect a drawn line to the lines it meets (see `connectLineNetwork`):
+   * with topology on, junctions become shared nodes, and with
+   * `splitLinesAtIntersections` the new and the existing lines are split
+   * there and where they cross.
    */
-  private applyTopologyToEditedFeature(
-    oldFeature: Feature,
-    newFeature: Feature,
-  ): Array<{ oldFeature: Feature; newFeature: Feature }> {
+  private applyNetworkToCreatedLine(feature: Feature): CreatedFeatures {
+    const split = this.options.splitLinesAtIntersections;
     if (
-      !this.topologyEnabled ||
+      (!this.topologyEnabled && !split) ||
       this.applyingTopology ||
-      !isPolygonFeature(oldFeature) ||
-      !isPolygonFeature(newFeature)
+      !isLineFeature(feature)
     ) {
+      return { features: [feature], deleted: [], neighbourEdits: [] };
+    }
+
+    const featureId = this.getGeomanIdFromFeature(feature);
+    const existing = this.getFeatures().features.filter(
+      (candidate) =>
+        candidate !== feature &&
+        !(featureId && this.getGeomanIdFromFeature(candidate) === featureId),
+    );
+    const network = connectLineNetwork(feature, existing, { split });
+    const deleted = network.splits.map(({ original }) => original);
+    const splitParts = network.splits.flatMap(({ parts }) => parts);
+
+    const featureData = this.findGeomanDataForFeature(feature);
+    this.applyingTopology = true;
+    this.isPerformingCompositeOperation = true;
+    try {
+      if (network.features.length > 1) {
+        featureData?.delete();
+        network.features.forEach((part) =>
+          this.geoman?.features.importGeoJsonFeature(part),
+        );
+      } else if (
+        JSON.stringify(network.features[0].geometry) !==
+        JSON.stringify(feature.geometry)
+      ) {
+        if (featureData?.updateGeometry) {
+          featureData.updateGeometry(network.features[0].geometry);
+        } else {
+          featureData?.updateGeoJsonGeometry?.(network.features[0].geometry);
+        }
+      }
+      this.deleteGeomanFeatures(deleted);
+      splitParts.forEach((part) =>
+        this.geoman?.features.importGeoJsonFeature(part),
+      );
+    } finally {
+      this.applyingTopology = false;
+      this.isPerformingCompositeOperation = false;
+    }
+
+    return {
+      features: [...network.features, ...splitParts],
+      deleted,
+      neighbourEdits: this.applyTopologyEdits(network.edits),
+    };
+  }
+
+  /**
+   * Carry vertex moves, insertions and deletions on shared edges and nodes
+   * over to the adjacent polygons, and moves of line vertices over to the
+   * lines and points that meet there.
+   */
+  private applyTopologyToEditedFeature(
+    oldFeature: Feature,
+    newFeature: Feature,
+  ): TopologyEdit[] {
+    if (!this.topologyEnabled || this.applyingTopology) {
       return [];
     }
 
@@ -4310,33 +7063,77 @@ export class GeoEditor implements IControl {
       const candidateId = this.getGeomanIdFromFeature(candidate);
       return !(editedId && candidateId === editedId);
     });
-    const changed = propagateSharedVertexMoves(oldFeature, newFeature, targets);
+    const changed = isLineFeature(newFeature)
+      ? propagateNetworkVertexMoves(oldFeature, newFeature, targets)
+      : propagateSharedEdgeEdits(oldFeature, newFeature, targets);
+
+    return this.applyTopologyEdits(
+      changed.map((updated) => ({ oldFeature: updated, newFeature: updated })),
+    );
+  }
+
+  /**
+   * Fit polygons created by split, union or difference to the polygons
+   * around them (see `repairCoverageSeams`)
+   *
+   * @param removed - Features the operation replaces
+   * @param created - Features the operation adds
+   * @returns The fitted features and the neighbour edits to apply
+   */
+  private fitToCoverage<T extends Feature>(
+    removed: Feature[],
+    created: T[],
+  ): { features: T[]; neighbourEdits: TopologyEdit[] } {
+    if (!this.topologyEnabled || !created.some(isPolygonFeature)) {
+      return { features: created, neighbourEdits: [] };
+    }
+
+    const replaced = new Set(
+      [...removed, ...created]
+        .map((feature) => this.getGeomanIdFromFeature(feature))
+        .filter((id): id is string => id !== null),
+    );
+    const neighbours = this.getFeatures().features.filter((feature) => {
+      const id = this.getGeomanIdFromFeature(feature);
+      return !(id && replaced.has(id));
+    });
+    const seams = repairCoverageSeams(created, neighbours);
+    return { features: seams.features, neighbourEdits: seams.neighbours };
+  }
 
+  /**
+   * Update neighbouring polygons in geoman for a topology change
+   *
+   * @returns The edits made, with the geoman features before them
+   */
+  private applyTopologyEdits(edits: TopologyEdit[]): TopologyEdit[] {
     this.applyingTopology = true;
-    const edits: Array<{ oldFeature: Feature; newFeature: Feature }> = [];
+    const applied: TopologyEdit[] = [];
     try {
-      for (const updated of changed) {
-        const featureData = this.findGeomanDataForFeature(updated);
+      for (const { newFeature } of edits) {
+        const featureData = this.findGeomanDataForFeature(newFeature);
         const original = this.getGeomanFeature(featureData);
         if (!featureData || !original) continue;
         if (featureData.updateGeometry) {
-          featureData.updateGeometry(updated.geometry);
+          featureData.updateGeometry(newFeature.geometry);
         } else {
-          featureData.updateGeoJsonGeometry?.(updated.geometry);
+          featureData.updateGeoJsonGeometry?.(newFeature.geometry);
         }
-        this.options.onFeatureEdit?.(updated, original);
-        edits.push({ oldFeature: original, newFeature: updated });
+        this.options.onFeatureEdit?.(newFeature, original);
+        applied.push({ oldFeature: original, newFeature });
       }
     } finally {
       this.applyingTopology = false;
     }
-    return edits;
+    return applied;
   }
 
   private setupGeomanEvents(): void {
     if (!this.geoman) return;
 
     this.geoman.setGlobalEventsListener((event) => {
+      this.measurementFeature.afterGeomanEvent(event);
+
       const eventName =
         (event as { name?: string; type?: string }).name ?? event.type ?? "";
       const eventFeature = this.extractFeatureFromEvent(
@@ -4364,16 +7161,41 @@ export class GeoEditor implements IControl {
             this.updateFeatureProperties(geomanData, eventFeature.properties);
           }
         }
-        const createdFeature = this.applyTopologyToCreatedFeature(eventFeature);
-        if (!createdFeature) return;
-        this.lastCreatedFeature = createdFeature;
-        this.options.onFeatureCreate?.(createdFeature);
-        this.logSelectedFeatureCollection("created", createdFeature);
+        const {
+          features: createdFeatures,
+          deleted,
+          neighbourEdits,
+        } = isLineFeature(eventFeature)
+          ? this.applyNetworkToCreatedLine(eventFeature)
+          : this.applyTopologyToCreatedFeature(eventFeature);
+        if (createdFeatures.length === 0) return;
+        createdFeatures.forEach((created) => {
+          this.lastCreatedFeature = created;
+          this.options.onFeatureCreate?.(created);
+          this.logSelectedFeatureCollection("created", created);
+        });
         // Record create operation in history
-        this.recordCreateOperation(createdFeature);
+        if (
+          createdFeatures.length > 1 ||
+          deleted.length > 0 ||
+          neighbourEdits.length > 0
+        ) {
+          this.recordCompositeOperation(
+            deleted,
+            createdFeatures,
+            "Create",
+            neighbourEdits,
+          );
+        } else {
+          this.recordCreateOperation(createdFeatures[0]);
+        }
 
         // Show attribute panel for newly created feature
-        if (this.options.enableAttributeEditing) {
+        const [createdFeature] = createdFeatures;
+        if (
+          this.options.enableAttributeEditing &&
+          createdFeatures.length === 1
+        ) {
           this.applyDefaultValues(createdFeature);
           const geomanData = this.findGeomanDataForFeature(createdFeature);
           this.showAttributePanel(
@@ -4387,14 +7209,25 @@ export class GeoEditor implements IControl {
       // Handle feature edit start - store pre-edit state
       if (eventAction === "feature_edit_start" && eventFeature) {
         this.pendingEditFeature = turf.clone(eventFeature);
+        // Shift constrains the dragged vertex relative to its neighbour
+        if (this.state.activeEditMode === "change" && this.cursorLngLat) {
+          this.vertexDragAnchor = findVertexAnchor(
+            eventFeature,
+            this.cursorLngLat,
+          );
+        }
+        // Don't snap the edited feature to itself
+        if (eventFeature.id !== undefined) {
+          this.snappingFeature.exclude(eventFeature.id);
+        }
       }
 
       // Handle feature edit end
       if (eventAction === "feature_edit_end" && eventFeature) {
-        let topologyEdits: Array<{
-          oldFeature: Feature;
-          newFeature: Feature;
-        }> = [];
+        this.vertexDragAnchor = null;
+        this.snappingFeature.exclude(null);
+        this.snappingFeature.invalidate();
+        let topologyEdits: TopologyEdit[] = [];
         if (this.pendingEditFeature) {
           topologyEdits = this.applyTopologyToEditedFeature(
             this.pendingEditFeature,
@@ -4518,9 +7351,11 @@ export class GeoEditor implements IControl {
   }
 
   /**
-   * Record a create operation in history.
+   * Record a create operation in history. Every change passes through one
+   * of these record methods, so they also clear the cached snap candidates.
    */
   private recordCreateOperation(feature: Feature): void {
+    this.snappingFeature.invalidate();
     if (
       !this.historyManager ||
       this.historyManager.isExecutingCommand() ||
@@ -4542,6 +7377,7 @@ export class GeoEditor implements IControl {
    * Record an edit operation in history.
    */
   private recordEditOperation(oldFeature: Feature, newFeature: Feature): void {
+    this.snappingFeature.invalidate();
     if (
       !this.historyManager ||
       this.historyManager.isExecutingCommand() ||
@@ -4566,11 +7402,9 @@ export class GeoEditor implements IControl {
   private recordTopologyEditOperation(
     oldFeature: Feature,
     newFeature: Feature,
-    propagatedEdits: Array<{
-      oldFeature: Feature;
-      newFeature: Feature;
-    }>,
+    propagatedEdits: TopologyEdit[],
   ): void {
+    this.snappingFeature.invalidate();
     if (
       !this.historyManager ||
       this.historyManager.isExecutingCommand() ||
@@ -4598,6 +7432,7 @@ export class GeoEditor implements IControl {
    * Record a delete operation in history.
    */
   private recordDeleteOperation(feature: Feature): void {
+    this.snappingFeature.invalidate();
     if (
       !this.historyManager ||
       this.historyManager.isExecutingCommand() ||
@@ -4622,7 +7457,9 @@ export class GeoEditor implements IControl {
     deletedFeatures: Feature[],
     createdFeatures: Feature[],
     description: string,
+    edits: TopologyEdit[] = [],
   ): void {
+    this.snappingFeature.invalidate();
     if (!this.historyManager || this.historyManager.isExecutingCommand()) {
       return;
     }
@@ -4632,7 +7469,11 @@ export class GeoEditor implements IControl {
       return;
     }
 
-    const commands: (DeleteFeatureCommand | CreateFeatureCommand)[] = [];
+    const commands: (
+      | DeleteFeatureCommand
+      | CreateFeatureCommand
+      | EditFeatureCommand
+    )[] = [];
 
     // Add delete commands for original features
     for (const feature of deletedFeatures) {
@@ -4644,6 +7485,13 @@ export class GeoEditor implements IControl {
       commands.push(new CreateFeatureCommand(feature, context));
     }
 
+    // Add edits of neighbouring features (topology)
+    for (const edit of edits) {
+      commands.push(
+        new EditFeatureCommand(edit.oldFeature, edit.newFeature, context),
+      );
+    }
+
     const composite = new CompositeCommand(commands, description);
     this.historyManager.record(composite);
   }
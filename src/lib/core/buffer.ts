@@ -0,0 +1,499 @@
+import type {
+  Feature,
+  Geometry,
+  LineString,
+  MultiLineString,
+  MultiPolygon,
+  Polygon,
+  Position,
+} from "geojson";
+import * as turf from "@turf/turf";
+import type { BufferOptions } from "./types";
+import { BUFFER_DEFAULTS } from "./constants";
+
+/** Geometry a buffer produces: polygons, or lines for one-sided offsets */
+export type BufferGeometry =
+  | Polygon
+  | MultiPolygon
+  | LineString
+  | MultiLineString;
+
+type Vector = [number, number];
+
+interface Outline {
+  distance: number;
+  steps: number;
+  cap: Required<BufferOptions>["cap"];
+  join: Required<BufferOptions>["join"];
+  mitreLimit: number;
+}
+
+const METERS_PER_DEGREE = (Math.PI / 180) * 6371008.8;
+const EPSILON = 1e-9;
+
+/**
+ * Fill in the defaults for options that are not set
+ */
+export function resolveBufferOptions(
+  options: BufferOptions = {},
+): Required<BufferOptions> {
+  return {
+    distance: options.distance ?? BUFFER_DEFAULTS.distance,
+    units: options.units ?? BUFFER_DEFAULTS.units,
+    steps: options.steps ?? BUFFER_DEFAULTS.steps,
+    cap: options.cap ?? BUFFER_DEFAULTS.cap,
+    join: options.join ?? BUFFER_DEFAULTS.join,
+    mitreLimit: options.mitreLimit ?? BUFFER_DEFAULTS.mitreLimit,
+    side: options.side ?? BUFFER_DEFAULTS.side,
+  };
+}
+
+/**
+ * Buffer a point, line or polygon: the area within `distance` of it, with
+ * line ends shaped by `cap` and corners by `join`. A negative distance insets
+ * polygons and leaves nothing of points and lines. With `side` set to 'left'
+ * or 'right', lines are offset to that side instead, giving a parallel line
+ * (a negative distance offsets to the other side).
+ *
+ * The buffer is built in a local metric frame around the feature, so it is
+ * accurate for features up to a few hundred kilometers across.
+ *
+ * @returns The buffer with the feature's properties, or null when it is empty
+ *   (a zero distance, a flat-capped point, a negative distance around points
+ *   or both sides of lines, or an inset that swallows the polygon)
+ */
+export function bufferFeature(
+  feature: Feature,
+  options: BufferOptions = {},
+): Feature<BufferGeometry> | null {
+  const settings = resolveBufferOptions(options);
+  const geometry = feature.geometry;
+  if (!geometry) return null;
+
+  const distance = turf.convertLength(
+    Math.abs(settings.distance),
+    settings.units,
+    "meters",
+  );
+  if (!(distance > 0)) return null;
+  const outline: Outline = {
+    distance,
+    steps: Math.max(1, Math.round(settings.steps)),
+    cap: settings.cap,
+    join: settings.join,
+    mitreLimit: Math.max(1, settings.mitreLimit),
+  };
+
+  const [minX, minY, maxX, maxY] = turf.bbox(feature);
+  const lng0 = (minX + maxX) / 2;
+  const lat0 = (minY + maxY) / 2;
+  const scaleX = METERS_PER_DEGREE * Math.cos((lat0 * Math.PI) / 180);
+  const toLocal = ([lng, lat]: Position): Vector => [
+    (lng - lng0) * scaleX,
+    (lat - lat0) * METERS_PER_DEGREE,
+  ];
+  const fromLocal = ([x, y]: Vector): Position => [
+    lng0 + x / scaleX,
+    lat0 + y / METERS_PER_DEGREE,
+  ];
+
+  let local: Geometry | null = null;
+  switch (geometry.type) {
+    case "Point":
+    case "MultiPoint": {
+      if (settings.distance < 0) return null;
+      const points =
+        geometry.type === "Point"
+          ? [geometry.coordinates]
+          : geometry.coordinates;
+      local = unionRings(
+        points.flatMap((point) => pointPieces(toLocal(point), outline)),
+      );
+      break;
+    }
+    case "LineString":
+    case "MultiLineString": {
+      const lines = (
+        geometry.type === "LineString"
+          ? [geometry.coordinates]
+          : geometry.coordinates
+      ).map((line) => dedupe(line.map(toLocal)));
+      if (settings.side !== "both") {
+        const left =
+          settings.side === "left"
+            ? settings.distance > 0
+            : settings.distance < 0;
+        const offsets = lines
+          .filter((line) => line.length >= 2)
+          .map((line) => offsetLine(line, left ? 1 : -1, outline));
+        if (offsets.length === 0) return null;
+        local =
+          geometry.type === "LineString"
+            ? { type: "LineString", coordinates: offsets[0] }
+            : { type: "MultiLineString", coordinates: offsets };
+      } else {
+        // Lines have no inside to inset
+        if (settings.distance < 0) return null;
+        local = unionRings(lines.flatMap((line) => linePieces(line, outline)));
+      }
+      break;
+    }
+    case "Polygon":
+    case "MultiPolygon": {
+      const polygons = (
+        geometry.type === "Polygon"
+          ? [geometry.coordinates]
+          : geometry.coordinates
+      ).map((polygon) => polygon.map((ring) => dedupe(ring.map(toLocal))));
+      // The band along every ring: added outwards, cut away inwards
+      const band = polygons.flatMap((polygon) =>
+        polygon.flatMap((ring) => ringPieces(ring, outline)),
+      );
+      const shapes = polygons.map((polygon) =>
+        turf.polygon(polygon.map(closeRing)),
+      );
+      if (settings.distance > 0) {
+        local = union([...shapes, ...band.map(ringPolygon)]);
+      } else {
+        const inside = union(shapes);
+        const boundary = union(band.map(ringPolygon));
+        local =
+          inside && boundary
+            ? (turf.difference(
+                turf.featureCollection([
+                  turf.feature(inside as Polygon | MultiPolygon),
+                  turf.feature(boundary as Polygon | MultiPolygon),
+                ]),
+              )?.geometry ?? null)
+            : inside;
+      }
+      break;
+    }
+    default:
+      return null;
+  }
+  if (!local) return null;
+
+  return turf.feature(mapGeometry(local, fromLocal) as BufferGeometry, {
+    ...feature.properties,
+  });
+}
+
+/** Pieces covering the buffer of a single point: its cap */
+function pointPieces(point: Vector, outline: Outline): Vector[][] {
+  const d = outline.distance;
+  switch (outline.cap) {
+    case "round":
+      return [circle(point, d, outline.steps)];
+    case "square":
+      return [
+        [
+          [point[0] - d, point[1] - d],
+          [point[0] + d, point[1] - d],
+          [point[0] + d, point[1] + d],
+          [point[0] - d, point[1] + d],
+        ],
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Pieces whose union is the buffer of an open line: a rectangle along every
+ * segment, a join at every vertex and a cap at both ends
+ */
+function linePieces(line: Vector[], outline: Outline): Vector[][] {
+  if (line.length < 2) return pointPieces(line[0], outline);
+
+  const d = outline.distance;
+  const pieces = segmentPieces(line, d);
+  for (let i = 1; i < line.length - 1; i++) {
+    pieces.push(...joinPieces(line[i - 1], line[i], line[i + 1], outline));
+  }
+
+  const start = direction(line[0], line[1]);
+  const end = direction(line[line.length - 2], line[line.length - 1]);
+  if (outline.cap === "round") {
+    pieces.push(circle(line[0], d, outline.steps));
+    pieces.push(circle(line[line.length - 1], d, outline.steps));
+  } else if (outline.cap === "square") {
+    pieces.push(squareCap(line[0], [-start[0], -start[1]], d));
+    pieces.push(squareCap(line[line.length - 1], end, d));
+  }
+  return pieces;
+}
+
+/** Pieces whose union is the band within the buffer distance of a ring */
+function ringPieces(ring: Vector[], outline: Outline): Vector[][] {
+  const vertices = ring.slice(0, -1);
+  const count = vertices.length;
+  if (count < 3) return [];
+
+  const pieces = segmentPieces(ring, outline.distance);
+  vertices.forEach((vertex, i) => {
+    pieces.push(
+      ...joinPieces(
+        vertices[(i - 1 + count) % count],
+        vertex,
+        vertices[(i + 1) % count],
+        outline,
+      ),
+    );
+  });
+  return pieces;
+}
+
+function segmentPieces(line: Vector[], d: number): Vector[][] {
+  const pieces: Vector[][] = [];
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = line[i];
+    const b = line[i + 1];
+    const n = normal(direction(a, b));
+    pieces.push([
+      [a[0] - n[0] * d, a[1] - n[1] * d],
+      [b[0] - n[0] * d, b[1] - n[1] * d],
+      [b[0] + n[0] * d, b[1] + n[1] * d],
+      [a[0] + n[0] * d, a[1] + n[1] * d],
+    ]);
+  }
+  return pieces;
+}
+
+/**
+ * The piece filling the outside of the corner at `vertex`, between the
+ * rectangles of the segments meeting there
+ */
+function joinPieces(
+  previous: Vector,
+  vertex: Vector,
+  next: Vector,
+  outline: Outline,
+): Vector[][] {
+  const d = outline.distance;
+  if (outline.join === "round") return [circle(vertex, d, outline.steps)];
+
+  const incoming = direction(previous, vertex);
+  const outgoing = direction(vertex, next);
+  const turn = cross(incoming, outgoing);
+  if (Math.abs(turn) < EPSILON) return [];
+
+  // The outside of a left turn is on the right
+  const side = turn > 0 ? -1 : 1;
+  const n1 = scale(normal(incoming), side * d);
+  const n2 = scale(normal(outgoing), side * d);
+  const p1 = add(vertex, n1);
+  const p2 = add(vertex, n2);
+  if (outline.join === "bevel") return [[vertex, p1, p2]];
+
+  return [[vertex, ...mitre(vertex, p1, p2, n1, n2, outline)]];
+}
+
+/**
+ * The outer corner of a mitre join from `p1` to `p2` (the offset ends of the
+ * segments meeting at `vertex`), cut off at the mitre limit
+ */
+function mitre(
+  vertex: Vector,
+  p1: Vector,
+  p2: Vector,
+  n1: Vector,
+  n2: Vector,
+  outline: Outline,
+): Vector[] {
+  const d = outline.distance;
+  const cosine = Math.max(-1, Math.min(1, dot(n1, n2) / (d * d)));
+  const half = Math.sqrt((1 + cosine) / 2);
+  // A line doubling back has no mitre: bevel it
+  if (half < EPSILON) return [p1, p2];
+
+  const tip = add(vertex, scale(unit(add(n1, n2)), d / half));
+  if (1 / half <= outline.mitreLimit) return [p1, tip, p2];
+
+  // Cut the mitre off where it reaches the limit along the bisector
+  const t = (outline.mitreLimit - half) / (1 / half - half);
+  return [p1, lerp(p1, tip, t), lerp(p2, tip, t), p2];
+}
+
+function squareCap(end: Vector, outward: Vector, d: number): Vector[] {
+  const n = normal(outward);
+  const ahead = add(end, scale(outward, d));
+  return [
+    add(end, scale(n, -d)),
+    add(ahead, scale(n, -d)),
+    add(ahead, scale(n, d)),
+    add(end, scale(n, d)),
+  ];
+}
+
+/**
+ * A line parallel to `line` at the buffer distance, on its left (side 1) or
+ * right (side -1). Inner corners are trimmed where the offset segments meet;
+ * outer corners are filled with the join style.
+ */
+function offsetLine(line: Vector[], side: number, outline: Outline): Vector[] {
+  const d = side * outline.distance;
+  const shift = (point: Vector, along: Vector) =>
+    add(point, scale(normal(along), d));
+
+  const first = direction(line[0], line[1]);
+  const result: Vector[] = [shift(line[0], first)];
+  for (let i = 1; i < line.length - 1; i++) {
+    const vertex = line[i];
+    const incoming = direction(line[i - 1], vertex);
+    const outgoing = direction(vertex, line[i + 1]);
+    const p1 = shift(vertex, incoming);
+    const p2 = shift(vertex, outgoing);
+    const turn = cross(incoming, outgoing);
+
+    if (Math.abs(turn) < EPSILON && dot(incoming, outgoing) > 0) {
+      result.push(p1);
+    } else if (side * turn > 0) {
+      // Turning towards the offset side: the offset segments cross
+      result.push(intersectLines(p1, incoming, p2, outgoing) ?? p1);
+    } else if (outline.join === "round") {
+      result.push(...arc(vertex, p1, p2, outline.steps));
+    } else if (outline.join === "mitre") {
+      const n1: Vector = [p1[0] - vertex[0], p1[1] - vertex[1]];
+      const n2: Vector = [p2[0] - vertex[0], p2[1] - vertex[1]];
+      result.push(...mitre(vertex, p1, p2, n1, n2, outline));
+    } else {
+      result.push(p1, p2);
+    }
+  }
+  const last = direction(line[line.length - 2], line[line.length - 1]);
+  result.push(shift(line[line.length - 1], last));
+  return result;
+}
+
+/** Points on the circle around `center` from `from` to `to`, the short way */
+function arc(
+  center: Vector,
+  from: Vector,
+  to: Vector,
+  steps: number,
+): Vector[] {
+  const a = [from[0] - center[0], from[1] - center[1]] as Vector;
+  const b = [to[0] - center[0], to[1] - center[1]] as Vector;
+  const start = Math.atan2(a[1], a[0]);
+  const sweep = Math.atan2(cross(a, b), dot(a, b));
+  const radius = Math.hypot(...a);
+  const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2 / steps)));
+  const points: Vector[] = [];
+  for (let i = 0; i <= count; i++) {
+    const angle = start + (sweep * i) / count;
+    points.push([
+      center[0] + radius * Math.cos(angle),
+      center[1] + radius * Math.sin(angle),
+    ]);
+  }
+  return points;
+}
+
+function circle(center: Vector, radius: number, steps: number): Vector[] {
+  const count = 4 * steps;
+  return Array.from({ length: count }, (_, i): Vector => {
+    const angle = (2 * Math.PI * i) / count;
+    return [
+      center[0] + radius * Math.cos(angle),
+      center[1] + radius * Math.sin(angle),
+    ];
+  });
+}
+
+function intersectLines(
+  p: Vector,
+  u: Vector,
+  q: Vector,
+  v: Vector,
+): Vector | null {
+  const denominator = cross(u, v);
+  if (Math.abs(denominator) < EPSILON) return null;
+  const t = cross([q[0] - p[0], q[1] - p[1]], v) / denominator;
+  return add(p, scale(u, t));
+}
+
+function unionRings(rings: Vector[][]): Geometry | null {
+  return union(rings.map(ringPolygon));
+}
+
+function union(polygons: Feature<Polygon | MultiPolygon>[]): Geometry | null {
+  if (polygons.length === 0) return null;
+  if (polygons.length === 1) return polygons[0].geometry;
+  return turf.union(turf.featureCollection(polygons))?.geometry ?? null;
+}
+
+/** A polygon from an open ring of either orientation */
+function ringPolygon(ring: Vector[]): Feature<Polygon> {
+  const area = ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + x1 * y2 - x2 * y1;
+  }, 0);
+  const ccw = area < 0 ? [...ring].reverse() : ring;
+  return turf.polygon([closeRing(ccw)]);
+}
+
+function closeRing(ring: Vector[]): Vector[] {
+  const [first] = ring;
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+/** Drop repeated consecutive positions */
+function dedupe(points: Vector[]): Vector[] {
+  return points.filter(
+    (point, i) =>
+      i === 0 ||
+      Math.hypot(point[0] - points[i - 1][0], point[1] - points[i - 1][1]) >
+        EPSILON,
+  );
+}
+
+function mapGeometry(
+  geometry: Geometry,
+  transform: (point: Vector) => Position,
+): Geometry {
+  const map = (value: unknown): unknown =>
+    typeof (value as number[])[0] === "number"
+      ? transform(value as Vector)
+      : (value as unknown[]).map(map);
+  if (geometry.type === "GeometryCollection") return geometry;
+  return {
+    type: geometry.type,
+    coordinates: map(geometry.coordinates),
+  } as Geometry;
+}
+
+function direction(from: Vector, to: Vector): Vector {
+  return unit([to[0] - from[0], to[1] - from[1]]);
+}
+
+/** Unit vector to the left of a direction */
+function normal([x, y]: Vector): Vector {
+  return [-y, x];
+}
+
+function unit([x, y]: Vector): Vector {
+  const length = Math.hypot(x, y);
+  return length === 0 ? [0, 0] : [x / length, y / length];
+}
+
+function add(a: Vector, b: Vector): Vector {
+  return [a[0] + b[0], a[1] + b[1]];
+}
+
+function scale([x, y]: Vector, factor: number): Vector {
+  return [x * factor, y * factor];
+}
+
+function lerp(a: Vector, b: Vector, t: number): Vector {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+}
+
+function dot(a: Vector, b: Vector): number {
+  return a[0] * b[0] + a[1] * b[1];
+}
+
+function cross(a: Vector, b: Vector): number {
+  return a[0] * b[1] - a[1] * b[0];
+}
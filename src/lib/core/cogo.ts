@@ -0,0 +1,223 @@
+import type { Position } from "geojson";
+import * as turf from "@turf/turf";
+import type { MeasurementUnits } from "./types";
+
+/**
+ * A vertex typed while drawing: absolute coordinates, or a distance (in
+ * meters) along an azimuth or at an angle to the previous segment.
+ */
+export type CogoInput =
+  | { type: "coordinate"; lngLat: [number, number] }
+  | { type: "bearing"; distance: number; bearing: number }
+  | { type: "angle"; distance: number; angle: number };
+
+/** Meters per distance unit accepted after a distance */
+const DISTANCE_UNITS: Record<string, number> = {
+  m: 1,
+  km: 1000,
+  ft: 0.3048,
+  mi: 1609.344,
+  nm: 1852,
+};
+
+/** Distance unit assumed when none is typed, per measurement unit system */
+const DEFAULT_DISTANCE_UNITS: Record<MeasurementUnits, string> = {
+  metric: "m",
+  imperial: "ft",
+  nautical: "nm",
+};
+
+const NUMBER = String.raw`\d+(?:\.\d+)?`;
+
+/** Decimal degrees, or degrees with minutes and seconds ("45°30'15\"", "45d30m15s") */
+const ANGLE = new RegExp(
+  String.raw`^([+-]?${NUMBER})(?:\s*[°d]\s*(?:(${NUMBER})\s*['′m]\s*)?(?:(${NUMBER})\s*(?:["″s]|''))?)?$`,
+  "i",
+);
+
+/** Degrees, minutes and optional seconds separated by spaces ("45 30 15") */
+const SPACED_ANGLE = new RegExp(
+  String.raw`^([+-]?${NUMBER})\s+(${NUMBER})(?:\s+(${NUMBER}))?$`,
+);
+
+const DISTANCE_AND_DIRECTION = new RegExp(
+  String.raw`^(?<distance>${NUMBER})\s*(?<unit>km|mi|ft|nm|m)?\s+(?<direction>.+)$`,
+  "i",
+);
+
+/** A quadrant bearing, `@`/`az` azimuth or turned angle before the distance */
+const DIRECTION_AND_DISTANCE = new RegExp(
+  String.raw`^(?<direction>(?:[NS@<]|az\b).*?)\s+(?<distance>${NUMBER})\s*(?<unit>km|mi|ft|nm|m)?$`,
+  "i",
+);
+
+/**
+ * Parse an angle in decimal degrees or degrees, minutes and seconds, with
+ * symbols or separated by spaces.
+ *
+ * @returns Degrees, or null when the text is not an angle
+ */
+export function parseAngle(text: string): number | null {
+  const trimmed = text.trim();
+  const match = ANGLE.exec(trimmed) ?? SPACED_ANGLE.exec(trimmed);
+  if (!match) return null;
+  const degrees = parseFloat(match[1]);
+  const minutes = match[2] ? parseFloat(match[2]) : 0;
+  const seconds = match[3] ? parseFloat(match[3]) : 0;
+  if (minutes >= 60 || seconds >= 60) return null;
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  return match[1].startsWith("-") ? -magnitude : magnitude;
+}
+
+/**
+ * Parse a typed vertex. Accepted forms:
+ *
+ * - `100 N45°30'E` - distance and quadrant bearing
+ * - `100 @45` or `100 az 45.5` - distance and azimuth (clockwise from north,
+ *   0-360); a bare angle after the distance is an azimuth as well
+ * - `100 <90` - distance and angle turned from the previous segment,
+ *   clockwise; `<90L` or `<-90` turns left
+ * - `S 45 W 100`, `@45 100` or `<90 100` - the same with the direction first;
+ *   a bare azimuth must come after the distance
+ * - `13.4, 52.5` - longitude and latitude in decimal degrees
+ * - `52°30'N, 13°24'E` or `52.5N 13.4E` - coordinates with hemispheres, in
+ *   either order
+ *
+ * Angles are decimal degrees or degrees, minutes and seconds, either marked
+ * (`45°30'15"`, `45d30m15s`) or separated by spaces (`45 30 15`). Distances
+ * take an optional unit (m, km, ft, mi, nm); without one they are in the
+ * default unit of `units` (m, ft or nm).
+ *
+ * @returns The parsed input, or null when the text is not understood
+ */
+export function parseCogoInput(
+  text: string,
+  units: MeasurementUnits = "metric",
+): CogoInput | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  for (const pattern of [DISTANCE_AND_DIRECTION, DIRECTION_AND_DISTANCE]) {
+    const groups = pattern.exec(trimmed)?.groups;
+    const measured = groups && parseMeasured(groups, units);
+    if (measured) return measured;
+  }
+
+  const lngLat = parseCoordinates(trimmed);
+  return lngLat ? { type: "coordinate", lngLat } : null;
+}
+
+/**
+ * Where a typed vertex goes, given the vertices placed so far.
+ *
+ * @returns The [lng, lat] position, or null when the input needs a previous
+ *   vertex (a bearing) or segment (an angle) that is not there yet
+ */
+export function resolveCogoInput(
+  input: CogoInput,
+  previous: Position[],
+): [number, number] | null {
+  if (input.type === "coordinate") return input.lngLat;
+
+  const last = previous[previous.length - 1];
+  if (!last) return null;
+
+  let bearing: number;
+  if (input.type === "bearing") {
+    bearing = input.bearing;
+  } else {
+    const before = previous[previous.length - 2];
+    if (!before) return null;
+    bearing = turf.bearing(before, last, { final: true }) + input.angle;
+  }
+
+  const [lng, lat] = turf.destination(last, input.distance, bearing, {
+    units: "meters",
+  }).geometry.coordinates;
+  return [lng, lat];
+}
+
+function parseMeasured(
+  groups: Record<string, string | undefined>,
+  units: MeasurementUnits,
+): CogoInput | null {
+  const unit = (groups.unit ?? DEFAULT_DISTANCE_UNITS[units]).toLowerCase();
+  const distance = parseFloat(groups.distance ?? "") * DISTANCE_UNITS[unit];
+  const direction = parseDirection((groups.direction ?? "").trim());
+  if (!direction || !(distance > 0)) return null;
+  return direction.type === "bearing"
+    ? { type: "bearing", distance, bearing: direction.value }
+    : { type: "angle", distance, angle: direction.value };
+}
+
+function parseDirection(
+  text: string,
+): { type: "bearing" | "angle"; value: number } | null {
+  if (text.startsWith("<")) {
+    const turn = /^<\s*(.+?)\s*([LR])?$/i.exec(text);
+    const angle = turn ? parseAngle(turn[1]) : null;
+    if (angle === null || !turn) return null;
+    return {
+      type: "angle",
+      value: turn[2]?.toUpperCase() === "L" ? -angle : angle,
+    };
+  }
+
+  const quadrant = /^([NS])\s*(.+?)\s*([EW])$/i.exec(text);
+  if (quadrant) {
+    const angle = parseAngle(quadrant[2]);
+    if (angle === null || angle < 0 || angle > 90) return null;
+    const north = quadrant[1].toUpperCase() === "N";
+    const east = quadrant[3].toUpperCase() === "E";
+    const bearing = north
+      ? east
+        ? angle
+        : 360 - angle
+      : east
+        ? 180 - angle
+        : 180 + angle;
+    return { type: "bearing", value: bearing % 360 };
+  }
+
+  const azimuth = parseAngle(text.replace(/^(?:@|az\b)\s*/i, ""));
+  if (azimuth === null || azimuth < 0 || azimuth > 360) return null;
+  return { type: "bearing", value: azimuth % 360 };
+}
+
+function parseCoordinates(text: string): [number, number] | null {
+  const parts = text.includes(",")
+    ? text.split(",")
+    : (/^(.+?[NSEW])\s+(.+)$/i.exec(text)?.slice(1) ?? []);
+  if (parts.length !== 2) return null;
+
+  const [first, second] = parts.map(parseCoordinate);
+  if (!first || !second) return null;
+
+  let lng: number;
+  let lat: number;
+  if (first.axis === "lat" || second.axis === "lng") {
+    if (first.axis === "lng" || second.axis === "lat") return null;
+    [lat, lng] = [first.value, second.value];
+  } else {
+    [lng, lat] = [first.value, second.value];
+  }
+  if (Math.abs(lng) > 180 || Math.abs(lat) > 90) return null;
+  return [lng, lat];
+}
+
+function parseCoordinate(
+  text: string,
+): { value: number; axis?: "lat" | "lng" } | null {
+  const match = /^([NSEW])?\s*(.+?)\s*([NSEW])?$/i.exec(text.trim());
+  if (!match || (match[1] && match[3])) return null;
+  const value = parseAngle(match[2]);
+  if (value === null) return null;
+
+  const hemisphere = (match[1] ?? match[3])?.toUpperCase();
+  if (!hemisphere) return { value };
+  if (value < 0) return null;
+  return {
+    value: hemisphere === "S" || hemisphere === "W" ? -value : value,
+    axis: hemisphere === "N" || hemisphere === "S" ? "lat" : "lng",
+  };
+}
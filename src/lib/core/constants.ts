@@ -48,7 +48,13 @@ export const ADVANCED_EDIT_MODES: EditMode[] = [
   "split",
   "union",
   "difference",
+  "intersect",
+  "xor",
+  "clip",
   "simplify",
+  "orthogonalize",
+  "buffer",
+  "explode",
   "lasso",
 ];
 
@@ -79,13 +85,38 @@ export const DEFAULT_OPTIONS: GeoEditorOptionsRequired = {
   toolbarOrientation: "vertical",
   showLabels: false,
   simplifyTolerance: 0.001,
+  splitTool: "line",
   snappingEnabled: true,
+  snappingTolerance: 12,
+  snapTo: ["vertex", "intersection", "midpoint", "edge"],
   topologyEnabled: false,
+  splitLinesAtIntersections: false,
+  topologyValidation: {},
   measurementsEnabled: false,
+  measurementUnits: "metric",
+  precisionInputEnabled: false,
+  angleConstraintStep: 45,
+  angleConstraintReference: "segment",
+  orthogonalizeThreshold: 13,
+  lineMergeTolerance: 1,
+  bufferOptions: {},
   hideGeomanControl: true,
   massingHeightProperty: "height",
   massingDefaultHeight: 10,
   saveFilename: "features.geojson",
+  saveFormats: undefined,
+  importMode: "replace",
+  importIdProperty: undefined,
+  repairOnImport: false,
+  importAttributeFields: false,
+  importCrs: undefined,
+  saveCrs: undefined,
+  pasteMode: "offset",
+  pasteOffsetMeters: undefined,
+  clipboardFormat: "geojson",
+  enableFileDrop: true,
+  streamingImportThreshold: 10 * 1024 * 1024,
+  importBatchSize: 1000,
   onFeatureCreate: () => {},
   onFeatureEdit: () => {},
   onFeatureDelete: () => {},
@@ -133,6 +164,23 @@ export const INTERNAL_IDS = {
   FREEHAND_SOURCE: "geo-editor-freehand-source",
   FREEHAND_FILL_LAYER: "geo-editor-freehand-fill-layer",
   FREEHAND_LINE_LAYER: "geo-editor-freehand-line-layer",
+  SNAP_INDICATOR_SOURCE: "geo-editor-snap-indicator-source",
+  SNAP_INDICATOR_LAYER: "geo-editor-snap-indicator-layer",
+  PASTE_PREVIEW_SOURCE: "geo-editor-paste-preview-source",
+  PASTE_PREVIEW_FILL_LAYER: "geo-editor-paste-preview-fill-layer",
+  PASTE_PREVIEW_LINE_LAYER: "geo-editor-paste-preview-line-layer",
+  PASTE_PREVIEW_CIRCLE_LAYER: "geo-editor-paste-preview-circle-layer",
+  TOPOLOGY_ISSUE_SOURCE: "geo-editor-topology-issue-source",
+  TOPOLOGY_ISSUE_FILL_LAYER: "geo-editor-topology-issue-fill-layer",
+  TOPOLOGY_ISSUE_LINE_LAYER: "geo-editor-topology-issue-line-layer",
+  TOPOLOGY_ISSUE_CIRCLE_LAYER: "geo-editor-topology-issue-circle-layer",
+  MEASUREMENT_SOURCE: "geo-editor-measurement-source",
+  MEASUREMENT_LAYER: "geo-editor-measurement-layer",
+  BUFFER_PREVIEW_SOURCE: "geo-editor-buffer-preview-source",
+  BUFFER_PREVIEW_FILL_LAYER: "geo-editor-buffer-preview-fill-layer",
+  BUFFER_PREVIEW_LINE_LAYER: "geo-editor-buffer-preview-line-layer",
+  BUFFER_HANDLE_SOURCE: "geo-editor-buffer-handle-source",
+  BUFFER_HANDLE_LAYER: "geo-editor-buffer-handle-layer",
 } as const;
 
 /**
@@ -156,6 +204,19 @@ export const SIMPLIFY_DEFAULTS = {
   mutate: false,
 };
 
+/**
+ * Default buffer options
+ */
+export const BUFFER_DEFAULTS = {
+  distance: 10,
+  units: "meters",
+  steps: 8,
+  cap: "round",
+  join: "round",
+  mitreLimit: 5,
+  side: "both",
+} as const;
+
 /**
  * Default copy options
  */
@@ -0,0 +1,149 @@
+import type { Feature } from "geojson";
+import type { ImportMode } from "./types";
+
+/**
+ * Changes needed to combine imported features with the editor's features.
+ */
+export interface ImportPlan {
+  /** Existing features to remove */
+  removed: Feature[];
+  /** Existing features replaced by an imported feature with the same id */
+  updated: Array<{ oldFeature: Feature; newFeature: Feature }>;
+  /** Imported features to add */
+  added: Feature[];
+}
+
+/**
+ * Key that identifies a feature across imports: the `idProperty` value when
+ * given, otherwise the feature id, then an `id` property.
+ */
+export function getImportKey(
+  feature: Feature,
+  idProperty?: string,
+): string | null {
+  const props = feature.properties as Record<string, unknown> | null;
+  const raw = idProperty
+    ? props?.[idProperty]
+    : (feature.id ?? (props?.id as string | number | undefined));
+  return raw !== undefined && raw !== null && raw !== "" ? String(raw) : null;
+}
+
+/**
+ * Work out how an import changes the editor's features.
+ *
+ * In `merge-by-id` mode an updated feature takes over the existing feature's
+ * id so it is replaced in place. Added features whose id is already taken in
+ * the editor lose their id so the editor assigns a fresh one.
+ *
+ * @param existing - Features currently in the editor (with editor ids)
+ * @param incoming - Features being imported
+ * @param mode - Import mode
+ * @param idProperty - Property matching features in `merge-by-id` mode
+ */
+export function planImport(
+  existing: Feature[],
+  incoming: Feature[],
+  mode: ImportMode,
+  idProperty?: string,
+): ImportPlan {
+  if (mode === "replace") {
+    return { removed: existing, updated: [], added: incoming };
+  }
+  return new ImportIndex(existing, idProperty).plan(incoming, mode);
+}
+
+/**
+ * The editor's features indexed by id and import key for planning imports.
+ * A streamed import keeps one index up to date across its batches, so each
+ * batch is planned without going over every feature again.
+ */
+export class ImportIndex {
+  /** Features in the editor by id */
+  readonly features = new Map<string, Feature>();
+  /** Ids in use, including those given to planned additions */
+  private readonly usedIds = new Set<string>();
+  /** Features by import key, for `merge-by-id` */
+  private readonly byKey = new Map<string, Feature>();
+
+  /**
+   * @param existing - Features currently in the editor (with editor ids)
+   * @param idProperty - Property matching features in `merge-by-id` mode
+   */
+  constructor(
+    existing: Feature[] = [],
+    private readonly idProperty?: string,
+  ) {
+    this.add(existing);
+  }
+
+  /**
+   * Index features added to the editor
+   */
+  add(features: Feature[]): void {
+    features.forEach((feature) => {
+      if (feature.id !== undefined) {
+        this.features.set(String(feature.id), feature);
+        this.usedIds.add(String(feature.id));
+      }
+      const key = getImportKey(feature, this.idProperty);
+      if (key !== null && !this.byKey.has(key)) this.byKey.set(key, feature);
+    });
+  }
+
+  /**
+   * Index the feature that replaced an indexed one under the same id
+   */
+  replace(oldFeature: Feature, newFeature: Feature): void {
+    if (newFeature.id !== undefined) {
+      this.features.set(String(newFeature.id), newFeature);
+    }
+    const key = getImportKey(oldFeature, this.idProperty);
+    if (key !== null && this.byKey.get(key) === oldFeature) {
+      this.byKey.set(key, newFeature);
+    }
+  }
+
+  /**
+   * Work out how an import changes the indexed features; see `planImport`
+   */
+  plan(incoming: Feature[], mode: ImportMode): ImportPlan {
+    if (mode === "replace") {
+      return {
+        removed: [...this.features.values()],
+        updated: [],
+        added: incoming,
+      };
+    }
+
+    const updates = new Map<Feature, Feature>();
+    const added: Feature[] = [];
+    incoming.forEach((feature) => {
+      const key =
+        mode === "merge-by-id" ? getImportKey(feature, this.idProperty) : null;
+      const match = key !== null ? this.byKey.get(key) : undefined;
+      if (match) {
+        // A later duplicate in the same file wins
+        updates.set(match, { ...feature, id: match.id });
+        return;
+      }
+
+      if (feature.id !== undefined && this.usedIds.has(String(feature.id))) {
+        const copy = { ...feature };
+        delete copy.id;
+        added.push(copy);
+      } else {
+        if (feature.id !== undefined) this.usedIds.add(String(feature.id));
+        added.push(feature);
+      }
+    });
+
+    return {
+      removed: [],
+      updated: [...updates].map(([oldFeature, newFeature]) => ({
+        oldFeature,
+        newFeature,
+      })),
+      added,
+    };
+  }
+}
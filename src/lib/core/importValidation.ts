@@ -0,0 +1,404 @@
+import type {
+  Feature,
+  Geometry,
+  MultiPolygon,
+  Polygon,
+  Position,
+} from "geojson";
+import * as turf from "@turf/turf";
+import type {
+  ImportFeatureReport,
+  ImportIssue,
+  ImportIssueCode,
+  ImportValidationReport,
+} from "./types";
+
+/** Geometry types geoman can import */
+const SUPPORTED_GEOMETRIES = new Set<Geometry["type"]>([
+  "Point",
+  "LineString",
+  "MultiLineString",
+  "Polygon",
+  "MultiPolygon",
+]);
+
+/**
+ * Whether geoman can hold a feature with this geometry
+ */
+export function isSupportedGeometry(geometry: Geometry | null): boolean {
+  return geometry !== null && SUPPORTED_GEOMETRIES.has(geometry.type);
+}
+
+export interface ImportValidation {
+  /** Features that can be imported: accepted and repaired ones */
+  features: Feature[];
+  report: ImportValidationReport;
+}
+
+/**
+ * Issues found in one geometry. `geometry` is the repaired geometry, or null
+ * when the problems cannot be repaired (or repair is off).
+ */
+interface GeometryCheck {
+  geometry: Geometry | null;
+  issues: Map<ImportIssueCode, string>;
+}
+
+/**
+ * Check imported features for problems geoman would otherwise drop silently
+ * or import in a broken state: missing or unsupported geometries,
+ * GeometryCollections, NaN or out-of-range coordinates, degenerate or
+ * unclosed polygon rings and self-intersecting polygons.
+ *
+ * With `repair`, fixable problems are corrected: rings are closed, invalid
+ * positions and degenerate holes are dropped, self-intersecting polygons are
+ * split at their kinks, and GeometryCollections and MultiPoints are split into
+ * separate features. Out-of-range coordinates are never repaired because they
+ * usually mean the file is in a projected coordinate system.
+ *
+ * @param features - Features from the imported file
+ * @param options - Validation options
+ */
+export function validateImportFeatures(
+  features: unknown[],
+  options: { repair?: boolean } = {},
+): ImportValidation {
+  const repair = options.repair ?? false;
+  const report: ImportValidationReport = {
+    accepted: [],
+    repaired: [],
+    rejected: [],
+  };
+  const valid: Feature[] = [];
+
+  const accept = (
+    index: number,
+    feature: Feature,
+    issues: Map<ImportIssueCode, string>,
+  ) => {
+    const entry = createEntry(index, feature, issues);
+    (issues.size > 0 ? report.repaired : report.accepted).push(entry);
+    valid.push(feature);
+  };
+  const reject = (
+    index: number,
+    feature: Feature,
+    issues: Map<ImportIssueCode, string>,
+  ) => report.rejected.push(createEntry(index, feature, issues));
+
+  features.forEach((candidate, index) => {
+    const feature = candidate as Feature;
+    if (!isFeature(candidate)) {
+      reject(index, feature, issue("invalid-feature", "Not a GeoJSON Feature"));
+      return;
+    }
+    if (!feature.geometry) {
+      reject(
+        index,
+        feature,
+        issue("missing-geometry", "Feature has no geometry"),
+      );
+      return;
+    }
+
+    // Geometries geoman cannot import as one feature are split when repairing
+    const parts = splitGeometry(feature.geometry);
+    if (parts) {
+      const splitIssues = issue(parts.code, parts.message);
+      if (!repair) {
+        reject(index, feature, splitIssues);
+        return;
+      }
+      parts.geometries.forEach((geometry) => {
+        const part: Feature = { ...feature, geometry };
+        if (part.id !== undefined) delete part.id;
+        const check = checkGeometry(geometry, repair);
+        const issues = new Map([...splitIssues, ...check.issues]);
+        if (check.geometry) {
+          accept(index, { ...part, geometry: check.geometry }, issues);
+        } else {
+          reject(index, part, issues);
+        }
+      });
+      return;
+    }
+
+    if (!isSupportedGeometry(feature.geometry)) {
+      reject(
+        index,
+        feature,
+        issue(
+          "unsupported-geometry",
+          `${String(feature.geometry.type)} geometries are not supported`,
+        ),
+      );
+      return;
+    }
+
+    const check = checkGeometry(feature.geometry, repair);
+    if (!check.geometry) {
+      reject(index, feature, check.issues);
+    } else if (check.issues.size > 0) {
+      accept(index, { ...feature, geometry: check.geometry }, check.issues);
+    } else {
+      accept(index, feature, check.issues);
+    }
+  });
+
+  return { features: valid, report };
+}
+
+function isFeature(candidate: unknown): candidate is Feature {
+  return (
+    typeof candidate === "object" &&
+    candidate !== null &&
+    (candidate as Feature).type === "Feature"
+  );
+}
+
+function issue(
+  code: ImportIssueCode,
+  message: string,
+): Map<ImportIssueCode, string> {
+  return new Map([[code, message]]);
+}
+
+function createEntry(
+  index: number,
+  feature: Feature,
+  issues: Map<ImportIssueCode, string>,
+): ImportFeatureReport {
+  const list: ImportIssue[] = [...issues].map(([code, message]) => ({
+    code,
+    message,
+  }));
+  return {
+    index,
+    feature,
+    issues: list,
+    reason: list.map((i) => i.message).join("; "),
+  };
+}
+
+/**
+ * Members of a geometry that has to become several features
+ */
+function splitGeometry(geometry: Geometry): {
+  code: ImportIssueCode;
+  message: string;
+  geometries: Geometry[];
+} | null {
+  if (geometry.type === "GeometryCollection") {
+    return {
+      code: "geometry-collection",
+      message: "GeometryCollections are not supported",
+      geometries: (geometry.geometries ?? []).flatMap(
+        (member) => splitGeometry(member)?.geometries ?? [member],
+      ),
+    };
+  }
+  if (geometry.type === "MultiPoint") {
+    return {
+      code: "unsupported-geometry",
+      message: "MultiPoint geometries are not supported",
+      geometries: (geometry.coordinates ?? []).map((coordinates) => ({
+        type: "Point",
+        coordinates,
+      })),
+    };
+  }
+  return null;
+}
+
+function checkGeometry(geometry: Geometry, repair: boolean): GeometryCheck {
+  const issues = new Map<ImportIssueCode, string>();
+  const fail = (): GeometryCheck => ({ geometry: null, issues });
+
+  switch (geometry.type) {
+    case "Point": {
+      const position = cleanPositions([geometry.coordinates], false, issues);
+      return position?.length ? { geometry, issues } : fail();
+    }
+    case "LineString": {
+      const line = checkLine(geometry.coordinates, repair, issues);
+      if (!line) return fail();
+      return { geometry: { ...geometry, coordinates: line }, issues };
+    }
+    case "MultiLineString": {
+      const lines = checkParts(geometry.coordinates, repair, (part) =>
+        checkLine(part, repair, issues),
+      );
+      if (!lines) return fail();
+      return { geometry: { ...geometry, coordinates: lines }, issues };
+    }
+    case "Polygon":
+    case "MultiPolygon": {
+      const polygons = checkParts(
+        geometry.type === "Polygon"
+          ? [geometry.coordinates]
+          : geometry.coordinates,
+        repair,
+        (part) => checkPolygon(part, repair, issues),
+      );
+      if (!polygons) return fail();
+
+      let repaired: Polygon | MultiPolygon =
+        geometry.type === "Polygon"
+          ? { type: "Polygon", coordinates: polygons[0] }
+          : { type: "MultiPolygon", coordinates: polygons };
+
+      if (hasKinks(repaired)) {
+        issues.set("self-intersection", "Polygon is self-intersecting");
+        const unkinked = repair ? unkink(repaired) : null;
+        if (!unkinked) return fail();
+        repaired = unkinked;
+      }
+      return { geometry: repaired, issues };
+    }
+    default:
+      issues.set(
+        "unsupported-geometry",
+        `${geometry.type} geometries are not supported`,
+      );
+      return fail();
+  }
+}
+
+/**
+ * Validate the parts of a multi-geometry. When repairing, parts that cannot
+ * be repaired are dropped as long as one part is left.
+ */
+function checkParts<T>(
+  parts: T[],
+  repair: boolean,
+  check: (part: T) => T | null,
+): T[] | null {
+  if (!Array.isArray(parts)) return null;
+  const checked = parts.map(check);
+  if (checked.some((part) => part === null) && !repair) return null;
+  const kept = checked.filter((part): part is T & {} => part !== null);
+  return kept.length > 0 ? kept : null;
+}
+
+function checkLine(
+  coordinates: Position[],
+  repair: boolean,
+  issues: Map<ImportIssueCode, string>,
+): Position[] | null {
+  const line = cleanPositions(coordinates, repair, issues);
+  if (!line) return null;
+  if (line.length < 2) {
+    issues.set("too-few-positions", "Line needs at least 2 positions");
+    return null;
+  }
+  return line;
+}
+
+function checkPolygon(
+  rings: Position[][],
+  repair: boolean,
+  issues: Map<ImportIssueCode, string>,
+): Position[][] | null {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    issues.set("too-few-positions", "Polygon has no rings");
+    return null;
+  }
+
+  const checked: Position[][] = [];
+  for (const [ringIndex, coordinates] of rings.entries()) {
+    let ring = cleanPositions(coordinates, repair, issues);
+    if (!ring) return null;
+
+    if (ring.length > 0 && !samePosition(ring[0], ring[ring.length - 1])) {
+      issues.set("unclosed-ring", "Polygon ring is not closed");
+      if (!repair) return null;
+      ring = [...ring, ring[0]];
+    }
+
+    if (ring.length < 4) {
+      issues.set(
+        "too-few-positions",
+        "Polygon ring needs at least 4 positions",
+      );
+      // A degenerate hole can be dropped; a degenerate shell cannot
+      if (ringIndex === 0 || !repair) return null;
+      continue;
+    }
+    checked.push(ring);
+  }
+  return checked;
+}
+
+/**
+ * Check positions for non-numeric and out-of-range values. When repairing,
+ * non-numeric positions are dropped; out-of-range positions always fail.
+ */
+function cleanPositions(
+  positions: Position[],
+  repair: boolean,
+  issues: Map<ImportIssueCode, string>,
+): Position[] | null {
+  if (!Array.isArray(positions)) {
+    issues.set("invalid-coordinates", "Coordinates are not an array");
+    return null;
+  }
+
+  const cleaned: Position[] = [];
+  for (const position of positions) {
+    if (
+      !Array.isArray(position) ||
+      position.length < 2 ||
+      !position.every((value) => typeof value === "number" && isFinite(value))
+    ) {
+      issues.set(
+        "invalid-coordinates",
+        "Coordinates contain NaN or non-numeric values",
+      );
+      if (!repair) return null;
+      continue;
+    }
+    if (Math.abs(position[0]) > 180 || Math.abs(position[1]) > 90) {
+      issues.set(
+        "out-of-range",
+        "Coordinates are outside the longitude/latitude range; the file may use a projected CRS",
+      );
+      return null;
+    }
+    cleaned.push(position);
+  }
+  return cleaned.length > 0 || positions.length === 0 ? cleaned : null;
+}
+
+function samePosition(left: Position, right: Position): boolean {
+  return left[0] === right[0] && left[1] === right[1];
+}
+
+function hasKinks(geometry: Polygon | MultiPolygon): boolean {
+  try {
+    return turf.kinks(geometry).features.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Split a self-intersecting polygon at its kinks
+ */
+export function unkink(geometry: Polygon | MultiPolygon): MultiPolygon | null {
+  try {
+    const polygons =
+      geometry.type === "Polygon"
+        ? [geometry.coordinates]
+        : geometry.coordinates;
+    const coordinates = polygons.flatMap((polygon) =>
+      turf
+        .unkinkPolygon(turf.polygon(polygon))
+        .features.map((part) => part.geometry.coordinates),
+    );
+    return coordinates.length > 0
+      ? { type: "MultiPolygon", coordinates }
+      : null;
+  } catch {
+    return null;
+  }
+}
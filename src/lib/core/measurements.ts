@@ -0,0 +1,176 @@
+import type {
+  Feature,
+  Geometry,
+  MultiPolygon,
+  Point,
+  Polygon,
+  Position,
+} from "geojson";
+import * as turf from "@turf/turf";
+import { calculateArea, calculateLength } from "../utils/turfOperations";
+import type {
+  Measurement,
+  MeasurementUnits,
+  SegmentMeasurement,
+} from "./types";
+
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_NAUTICAL_MILE = 1852;
+const SQUARE_METERS_PER_ACRE = 4046.8564224;
+
+/**
+ * Measure the segments, length, area and perimeter of a line or polygon.
+ *
+ * Zero-length segments, such as a vertex placed twice by a double-click, are
+ * left out.
+ *
+ * @returns The measurement, or null for points and empty geometries
+ */
+export function measureFeature(feature: Feature): Measurement | null {
+  if (!feature?.geometry) return null;
+  const lines = linesOf(feature.geometry);
+  if (lines.length === 0) return null;
+
+  const segments: SegmentMeasurement[] = [];
+  lines.forEach((line) => {
+    for (let i = 1; i < line.length; i++) {
+      const start = line[i - 1];
+      const end = line[i];
+      const length = calculateLength(turf.lineString([start, end])) * 1000;
+      if (length > 0) {
+        segments.push({
+          start: [start[0], start[1]],
+          end: [end[0], end[1]],
+          length,
+        });
+      }
+    }
+  });
+  if (segments.length === 0) return null;
+
+  const length = segments.reduce((sum, segment) => sum + segment.length, 0);
+  const measurement: Measurement = { featureId: feature.id, segments, length };
+  if (isAreal(feature.geometry)) {
+    measurement.area = calculateArea(
+      feature as Feature<Polygon | MultiPolygon>,
+    );
+    measurement.perimeter = length;
+  }
+  return measurement;
+}
+
+/**
+ * Format a length in meters, switching to the larger unit of the unit system
+ * once it reads better (km, mi).
+ */
+export function formatLength(
+  meters: number,
+  units: MeasurementUnits = "metric",
+): string {
+  switch (units) {
+    case "imperial":
+      return meters < METERS_PER_MILE
+        ? `${formatNumber(meters / METERS_PER_FOOT)} ft`
+        : `${formatNumber(meters / METERS_PER_MILE)} mi`;
+    case "nautical":
+      return `${formatNumber(meters / METERS_PER_NAUTICAL_MILE)} NM`;
+    default:
+      return meters < 1000
+        ? `${formatNumber(meters)} m`
+        : `${formatNumber(meters / 1000)} km`;
+  }
+}
+
+/**
+ * Format an area in square meters, switching to larger units as it grows
+ * (ha and km², or acres and mi²).
+ */
+export function formatArea(
+  squareMeters: number,
+  units: MeasurementUnits = "metric",
+): string {
+  switch (units) {
+    case "imperial": {
+      const acres = squareMeters / SQUARE_METERS_PER_ACRE;
+      if (acres < 1) {
+        return `${formatNumber(squareMeters / METERS_PER_FOOT ** 2)} ft²`;
+      }
+      return acres < 640
+        ? `${formatNumber(acres)} ac`
+        : `${formatNumber(squareMeters / METERS_PER_MILE ** 2)} mi²`;
+    }
+    case "nautical":
+      return `${formatNumber(squareMeters / METERS_PER_NAUTICAL_MILE ** 2)} NM²`;
+    default:
+      if (squareMeters < 10_000) return `${formatNumber(squareMeters)} m²`;
+      return squareMeters < 1_000_000
+        ? `${formatNumber(squareMeters / 10_000)} ha`
+        : `${formatNumber(squareMeters / 1_000_000)} km²`;
+  }
+}
+
+/**
+ * Label points for a measured feature: one per segment at its midpoint, and a
+ * summary with the total length at the end of a line (when it has more than
+ * one segment) or the area and perimeter at the centre of a polygon.
+ *
+ * Labels carry `label` (the text) and `kind` ("segment" or "total").
+ */
+export function buildMeasurementLabels(
+  feature: Feature,
+  measurement: Measurement,
+  units: MeasurementUnits = "metric",
+): Feature<Point>[] {
+  const labels = measurement.segments.map((segment) =>
+    turf.point(turf.midpoint(segment.start, segment.end).geometry.coordinates, {
+      label: formatLength(segment.length, units),
+      kind: "segment",
+    }),
+  );
+
+  if (measurement.area !== undefined) {
+    labels.push(
+      turf.point(turf.centroid(feature).geometry.coordinates, {
+        label: `${formatArea(measurement.area, units)}\n${formatLength(
+          measurement.perimeter ?? measurement.length,
+          units,
+        )}`,
+        kind: "total",
+      }),
+    );
+  } else if (measurement.segments.length > 1) {
+    const last = measurement.segments[measurement.segments.length - 1];
+    labels.push(
+      turf.point(last.end, {
+        label: formatLength(measurement.length, units),
+        kind: "total",
+      }),
+    );
+  }
+
+  return labels;
+}
+
+function formatNumber(value: number): string {
+  const digits = value < 10 ? 2 : value < 100 ? 1 : 0;
+  return value.toFixed(digits);
+}
+
+function isAreal(geometry: Geometry): boolean {
+  return geometry.type === "Polygon" || geometry.type === "MultiPolygon";
+}
+
+function linesOf(geometry: Geometry): Position[][] {
+  switch (geometry.type) {
+    case "LineString":
+      return [geometry.coordinates];
+    case "MultiLineString":
+    case "Polygon":
+      return geometry.coordinates;
+    case "MultiPolygon":
+      return geometry.coordinates.flat();
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,287 @@
+import type { Feature, Geometry, Position } from "geojson";
+import * as turf from "@turf/turf";
+import type { AngleReference } from "./types";
+
+/** Where a constrained segment starts, and the vertex before that */
+export interface AngleAnchor {
+  origin: Position;
+  previous?: Position;
+}
+
+/**
+ * Move a position onto the nearest direction from `origin` that is a multiple
+ * of `step` degrees, measured from true north or from the direction of the
+ * previous segment (`previous` to `origin`). Without a previous vertex the
+ * angle is measured from north.
+ *
+ * @returns The position on the constrained direction closest to `position`
+ */
+export function constrainToAngle(
+  anchor: AngleAnchor,
+  position: Position,
+  step: number,
+  reference: AngleReference = "segment",
+): [number, number] {
+  const { origin, previous } = anchor;
+  const distance = turf.distance(origin, position, { units: "meters" });
+  if (distance === 0 || step <= 0) return [position[0], position[1]];
+
+  const base =
+    reference === "segment" && previous && !samePosition(previous, origin)
+      ? turf.bearing(previous, origin, { final: true })
+      : 0;
+  const bearing = turf.bearing(origin, position);
+  const turned = Math.round((bearing - base) / step) * step;
+  const constrained = base + turned;
+  const along = distance * Math.cos(((bearing - constrained) * Math.PI) / 180);
+  if (along <= 0) return [origin[0], origin[1]];
+
+  const [lng, lat] = turf.destination(origin, along, constrained, {
+    units: "meters",
+  }).geometry.coordinates;
+  return [lng, lat];
+}
+
+/**
+ * Anchor for dragging the vertex of `feature` nearest to `position`: the
+ * vertex before it along the line or ring, and the one before that. The first
+ * vertex of a line is measured from the vertices after it instead.
+ */
+export function findVertexAnchor(
+  feature: Feature,
+  position: Position,
+): AngleAnchor | null {
+  let anchor: AngleAnchor | null = null;
+  let nearest = Infinity;
+
+  for (const { coordinates, closed } of linesOf(feature.geometry)) {
+    const vertices = closed ? coordinates.slice(0, -1) : coordinates;
+    const count = vertices.length;
+    if (count < 2) continue;
+
+    vertices.forEach((vertex, index) => {
+      const distance = Math.hypot(
+        vertex[0] - position[0],
+        vertex[1] - position[1],
+      );
+      if (distance >= nearest) return;
+      nearest = distance;
+      if (closed) {
+        anchor = {
+          origin: vertices[(index - 1 + count) % count],
+          previous: vertices[(index - 2 + count) % count],
+        };
+      } else if (index > 0) {
+        anchor = { origin: vertices[index - 1], previous: vertices[index - 2] };
+      } else {
+        anchor = { origin: vertices[1], previous: vertices[2] };
+      }
+    });
+  }
+
+  return anchor;
+}
+
+export interface OrthogonalizeOptions {
+  /** Corners within this many degrees of 90° are squared, and vertices within it of 180° straightened (default: 13) */
+  threshold?: number;
+}
+
+type Vector = [number, number];
+
+const METERS_PER_DEGREE = (Math.PI / 180) * 6371008.8;
+const MAX_ITERATIONS = 1000;
+const EPSILON = 1e-12;
+
+/**
+ * Square the corners of a polygon: corners close to 90° become right angles
+ * and vertices close to 180° end up on a straight edge between them.
+ *
+ * Rings with a corner that is neither close to 90° nor to 180°, or with fewer
+ * than four corners, are left as they are.
+ *
+ * @returns The squared feature, or null when no ring could be squared or all
+ *   of them already are
+ */
+export function orthogonalize<T extends Feature>(
+  feature: T,
+  options: OrthogonalizeOptions = {},
+): T | null {
+  const threshold = options.threshold ?? 13;
+  const geometry = feature.geometry;
+  if (geometry?.type !== "Polygon" && geometry?.type !== "MultiPolygon") {
+    return null;
+  }
+
+  const [lng0, lat0] = turf.centroid(feature).geometry.coordinates;
+  const scaleX = METERS_PER_DEGREE * Math.cos((lat0 * Math.PI) / 180);
+  const toLocal = ([lng, lat]: Position): Vector => [
+    (lng - lng0) * scaleX,
+    (lat - lat0) * METERS_PER_DEGREE,
+  ];
+  const fromLocal = ([x, y]: Vector): Position => [
+    lng0 + x / scaleX,
+    lat0 + y / METERS_PER_DEGREE,
+  ];
+
+  let changed = false;
+  const squareRing = (ring: Position[]): Position[] => {
+    const squared = squareLocalRing(ring.slice(0, -1).map(toLocal), threshold);
+    if (!squared) return ring;
+    const result = squared.map(fromLocal);
+    result.push(result[0]);
+    if (
+      result.some(
+        (position, index) =>
+          Math.abs(position[0] - ring[index][0]) > 1e-12 ||
+          Math.abs(position[1] - ring[index][1]) > 1e-12,
+      )
+    ) {
+      changed = true;
+    }
+    return result;
+  };
+
+  const coordinates =
+    geometry.type === "Polygon"
+      ? geometry.coordinates.map(squareRing)
+      : geometry.coordinates.map((polygon) => polygon.map(squareRing));
+  if (!changed) return null;
+
+  return {
+    ...feature,
+    geometry: { type: geometry.type, coordinates } as Geometry,
+  };
+}
+
+/**
+ * Square an open ring in local meters by repeatedly nudging each corner along
+ * its bisector until every corner is a right angle.
+ */
+function squareLocalRing(points: Vector[], threshold: number): Vector[] | null {
+  const count = points.length;
+  if (count < 4) return null;
+
+  const lower = Math.cos(((90 - threshold) * Math.PI) / 180);
+  const upper = Math.cos((threshold * Math.PI) / 180);
+  const corners: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const dot = cornerDot(
+      points[(i - 1 + count) % count],
+      points[i],
+      points[(i + 1) % count],
+    );
+    if (dot <= -upper) continue;
+    if (Math.abs(dot) >= lower) return null;
+    corners.push(i);
+  }
+  if (corners.length < 4) return null;
+
+  let squared = corners.map((index): Vector => [...points[index]]);
+  const n = squared.length;
+  const score = (ring: Vector[]) =>
+    ring.reduce(
+      (sum, point, i) =>
+        sum + cornerDot(ring[(i - 1 + n) % n], point, ring[(i + 1) % n]) ** 2,
+      0,
+    );
+  let best = squared;
+  let bestScore = score(squared);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    if (bestScore < EPSILON) break;
+    squared = squared.map((point, i) => {
+      const motion = cornerMotion(
+        squared[(i - 1 + n) % n],
+        point,
+        squared[(i + 1) % n],
+      );
+      return [point[0] + motion[0], point[1] + motion[1]];
+    });
+    const current = score(squared);
+    if (current < bestScore) {
+      best = squared;
+      bestScore = current;
+    }
+  }
+
+  // Straight vertices go onto the squared edge between their corners
+  const result: Vector[] = new Array(count);
+  corners.forEach((index, i) => (result[index] = best[i]));
+  corners.forEach((start, i) => {
+    const end = corners[(i + 1) % n];
+    for (let index = (start + 1) % count; index !== end; ) {
+      result[index] = projectOntoLine(
+        points[index],
+        best[i],
+        best[(i + 1) % n],
+      );
+      index = (index + 1) % count;
+    }
+  });
+  return result;
+}
+
+/** Cosine of the corner angle at `b` */
+function cornerDot(a: Vector, b: Vector, c: Vector): number {
+  const p = normalize([a[0] - b[0], a[1] - b[1]]);
+  const q = normalize([c[0] - b[0], c[1] - b[1]]);
+  return Math.max(-1, Math.min(1, p[0] * q[0] + p[1] * q[1]));
+}
+
+function cornerMotion(a: Vector, b: Vector, c: Vector): Vector {
+  const p: Vector = [a[0] - b[0], a[1] - b[1]];
+  const q: Vector = [c[0] - b[0], c[1] - b[1]];
+  const scale = 2 * Math.min(Math.hypot(...p), Math.hypot(...q));
+  const dot = cornerDot(a, b, c);
+  const pn = normalize(p);
+  const qn = normalize(q);
+  const bisector = normalize([pn[0] + qn[0], pn[1] + qn[1]]);
+  const length = 0.1 * dot * scale;
+  return [bisector[0] * length, bisector[1] * length];
+}
+
+function normalize([x, y]: Vector): Vector {
+  const length = Math.hypot(x, y);
+  return length === 0 ? [0, 0] : [x / length, y / length];
+}
+
+function projectOntoLine(point: Vector, a: Vector, b: Vector): Vector {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return a;
+  const t = ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSquared;
+  return [a[0] + t * dx, a[1] + t * dy];
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+function linesOf(
+  geometry: Geometry | null,
+): Array<{ coordinates: Position[]; closed: boolean }> {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case "LineString":
+      return [{ coordinates: geometry.coordinates, closed: false }];
+    case "MultiLineString":
+      return geometry.coordinates.map((coordinates) => ({
+        coordinates,
+        closed: false,
+      }));
+    case "Polygon":
+      return geometry.coordinates.map((coordinates) => ({
+        coordinates,
+        closed: true,
+      }));
+    case "MultiPolygon":
+      return geometry.coordinates.flat().map((coordinates) => ({
+        coordinates,
+        closed: true,
+      }));
+    default:
+      return [];
+  }
+}
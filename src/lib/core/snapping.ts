@@ -0,0 +1,317 @@
+import type { Feature, Position } from "geojson";
+import type { SnapTarget, SnapType } from "./types";
+
+/** [x, y] screen position in pixels */
+export type ScreenPoint = [number, number];
+
+/** Converts between map and screen positions (usually `map.project`) */
+export interface SnapProjection {
+  project: (lngLat: [number, number]) => ScreenPoint;
+  unproject: (point: ScreenPoint) => [number, number];
+}
+
+/**
+ * Vertices and segments of one feature, prepared once for repeated queries.
+ */
+export interface SnapCandidate {
+  featureId: string | number | undefined;
+  /** [west, south, east, north] */
+  bbox: [number, number, number, number];
+  vertices: Position[];
+  segments: Array<[Position, Position]>;
+}
+
+/** Snap types in priority order: a closer edge loses to a vertex in range */
+export const SNAP_TYPES: SnapType[] = [
+  "vertex",
+  "intersection",
+  "midpoint",
+  "edge",
+];
+
+/**
+ * Break features into the vertices and segments they can be snapped to.
+ */
+export function buildSnapCandidates(features: Feature[]): SnapCandidate[] {
+  const candidates: SnapCandidate[] = [];
+
+  features.forEach((feature) => {
+    if (!feature?.geometry) return;
+    const vertices: Position[] = [];
+    const segments: Array<[Position, Position]> = [];
+    collectParts(feature.geometry, vertices, segments);
+    if (vertices.length === 0) return;
+
+    const bbox: [number, number, number, number] = [
+      Infinity,
+      Infinity,
+      -Infinity,
+      -Infinity,
+    ];
+    vertices.forEach(([x, y]) => {
+      bbox[0] = Math.min(bbox[0], x);
+      bbox[1] = Math.min(bbox[1], y);
+      bbox[2] = Math.max(bbox[2], x);
+      bbox[3] = Math.max(bbox[3], y);
+    });
+
+    candidates.push({ featureId: feature.id, bbox, vertices, segments });
+  });
+
+  return candidates;
+}
+
+function collectParts(
+  geometry: Feature["geometry"],
+  vertices: Position[],
+  segments: Array<[Position, Position]>,
+): void {
+  const addLine = (line: Position[]) => {
+    line.forEach((position, index) => {
+      vertices.push(position);
+      if (index > 0) segments.push([line[index - 1], position]);
+    });
+  };
+
+  switch (geometry.type) {
+    case "Point":
+      if (geometry.coordinates.length >= 2) vertices.push(geometry.coordinates);
+      break;
+    case "MultiPoint":
+      vertices.push(...geometry.coordinates);
+      break;
+    case "LineString":
+      addLine(geometry.coordinates);
+      break;
+    case "MultiLineString":
+    case "Polygon":
+      geometry.coordinates.forEach(addLine);
+      break;
+    case "MultiPolygon":
+      geometry.coordinates.forEach((polygon) => polygon.forEach(addLine));
+      break;
+    case "GeometryCollection":
+      geometry.geometries.forEach((part) =>
+        collectParts(part, vertices, segments),
+      );
+      break;
+  }
+}
+
+/**
+ * Find the snap target for a screen position.
+ *
+ * Vertices, intersections between segments, segment midpoints and the
+ * nearest point on a segment are considered, in that order of priority: the
+ * nearest target of the first type found within `tolerance` pixels wins.
+ * Vertices are returned with their exact coordinates so shared vertices stay
+ * identical; the other targets are computed on screen.
+ *
+ * @param candidates - From {@link buildSnapCandidates}
+ * @param point - Cursor position on screen
+ * @param projection - Map projection
+ * @param tolerance - Snap distance in pixels
+ * @param types - Snap types to consider (default: all)
+ * @returns The snap target, or null when nothing is in range
+ */
+export function findSnapTarget(
+  candidates: SnapCandidate[],
+  point: ScreenPoint,
+  projection: SnapProjection,
+  tolerance: number,
+  types: SnapType[] = SNAP_TYPES,
+): SnapTarget | null {
+  const bounds = screenBounds(point, projection, tolerance);
+  const best = new Map<SnapType, SnapTarget>();
+  const offer = (target: SnapTarget) => {
+    const current = best.get(target.type);
+    if (
+      target.distance <= tolerance &&
+      (!current || target.distance < current.distance)
+    ) {
+      best.set(target.type, target);
+    }
+  };
+  const nearSegments: Array<{
+    a: ScreenPoint;
+    b: ScreenPoint;
+    ends: [Position, Position];
+    featureId: SnapCandidate["featureId"];
+  }> = [];
+
+  for (const candidate of candidates) {
+    if (!overlaps(candidate.bbox, bounds)) continue;
+
+    if (types.includes("vertex")) {
+      for (const vertex of candidate.vertices) {
+        if (!contains(bounds, vertex)) continue;
+        offer({
+          type: "vertex",
+          lngLat: [vertex[0], vertex[1]],
+          distance: distance(point, projection.project([vertex[0], vertex[1]])),
+          featureId: candidate.featureId,
+        });
+      }
+    }
+
+    for (const [start, end] of candidate.segments) {
+      if (!overlaps(segmentBounds(start, end), bounds)) continue;
+      const a = projection.project([start[0], start[1]]);
+      const b = projection.project([end[0], end[1]]);
+      const nearest = nearestOnSegment(point, a, b);
+      if (distance(point, nearest) > tolerance) continue;
+
+      nearSegments.push({
+        a,
+        b,
+        ends: [start, end],
+        featureId: candidate.featureId,
+      });
+      if (types.includes("edge")) {
+        offer({
+          type: "edge",
+          lngLat: projection.unproject(nearest),
+          distance: distance(point, nearest),
+          featureId: candidate.featureId,
+        });
+      }
+      if (types.includes("midpoint")) {
+        const middle: ScreenPoint = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+        offer({
+          type: "midpoint",
+          lngLat: projection.unproject(middle),
+          distance: distance(point, middle),
+          featureId: candidate.featureId,
+        });
+      }
+    }
+  }
+
+  if (types.includes("intersection")) {
+    for (let i = 0; i < nearSegments.length; i++) {
+      for (let j = i + 1; j < nearSegments.length; j++) {
+        const first = nearSegments[i];
+        const second = nearSegments[j];
+        // Segments meeting at a shared vertex are covered by vertex snapping
+        if (
+          first.ends.some((end) =>
+            second.ends.some((other) => samePosition(end, other)),
+          )
+        ) {
+          continue;
+        }
+        const crossing = intersect(first.a, first.b, second.a, second.b);
+        if (!crossing) continue;
+        offer({
+          type: "intersection",
+          lngLat: projection.unproject(crossing),
+          distance: distance(point, crossing),
+          featureId: first.featureId,
+        });
+      }
+    }
+  }
+
+  for (const type of SNAP_TYPES) {
+    const target = best.get(type);
+    if (target) return target;
+  }
+  return null;
+}
+
+/**
+ * Map bounds of the square `tolerance` pixels around a screen position
+ */
+function screenBounds(
+  [x, y]: ScreenPoint,
+  projection: SnapProjection,
+  tolerance: number,
+): [number, number, number, number] {
+  const corners = [
+    projection.unproject([x - tolerance, y - tolerance]),
+    projection.unproject([x + tolerance, y + tolerance]),
+  ];
+  return [
+    Math.min(corners[0][0], corners[1][0]),
+    Math.min(corners[0][1], corners[1][1]),
+    Math.max(corners[0][0], corners[1][0]),
+    Math.max(corners[0][1], corners[1][1]),
+  ];
+}
+
+function segmentBounds(
+  start: Position,
+  end: Position,
+): [number, number, number, number] {
+  return [
+    Math.min(start[0], end[0]),
+    Math.min(start[1], end[1]),
+    Math.max(start[0], end[0]),
+    Math.max(start[1], end[1]),
+  ];
+}
+
+function overlaps(
+  a: [number, number, number, number],
+  b: [number, number, number, number],
+): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+}
+
+function contains(
+  bounds: [number, number, number, number],
+  position: Position,
+): boolean {
+  return (
+    position[0] >= bounds[0] &&
+    position[0] <= bounds[2] &&
+    position[1] >= bounds[1] &&
+    position[1] <= bounds[3]
+  );
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+function distance(a: ScreenPoint, b: ScreenPoint): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
+
+function nearestOnSegment(
+  point: ScreenPoint,
+  a: ScreenPoint,
+  b: ScreenPoint,
+): ScreenPoint {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return a;
+  const t = Math.max(
+    0,
+    Math.min(
+      1,
+      ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSquared,
+    ),
+  );
+  return [a[0] + t * dx, a[1] + t * dy];
+}
+
+function intersect(
+  a: ScreenPoint,
+  b: ScreenPoint,
+  c: ScreenPoint,
+  d: ScreenPoint,
+): ScreenPoint | null {
+  const denominator =
+    (b[0] - a[0]) * (d[1] - c[1]) - (b[1] - a[1]) * (d[0] - c[0]);
+  if (denominator === 0) return null;
+  const t =
+    ((c[0] - a[0]) * (d[1] - c[1]) - (c[1] - a[1]) * (d[0] - c[0])) /
+    denominator;
+  const u =
+    ((c[0] - a[0]) * (b[1] - a[1]) - (c[1] - a[1]) * (b[0] - a[0])) /
+    denominator;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+  return [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+}
@@ -1,10 +1,14 @@
 import type {
   Feature,
+  Geometry,
+  LineString,
+  MultiLineString,
   MultiPolygon,
   Polygon,
   Position,
 } from "geojson";
 import * as turf from "@turf/turf";
+import { generateFeatureId } from "../utils/geometryUtils";
 
 export type PolygonFeature = Feature<Polygon | MultiPolygon>;
 
@@ -52,64 +56,884 @@ export function removePolygonOverlaps(
   return result;
 }
 
+// ============================================================================
+// Planar topology
+// ============================================================================
+
+/**
+ * A point where three or more boundary edges meet, or where a boundary
+ * changes neighbours. Rings that touch nothing get one node to start from.
+ */
+export interface TopologyNode {
+  id: number;
+  position: Position;
+}
+
+/**
+ * A run of boundary between two nodes, stored once however many polygons
+ * use it.
+ */
+export interface TopologyEdge {
+  id: number;
+  start: number;
+  end: number;
+  coordinates: Position[];
+  /** Faces bounded by this edge: one on the outer boundary, two when shared */
+  faces: Array<string | number>;
+}
+
+/**
+ * An edge used by a ring, in the ring's direction when not `reversed`.
+ */
+export interface TopologyEdgeRef {
+  edge: number;
+  reversed: boolean;
+  /** Index in the (unclosed) ring where the edge starts */
+  start: number;
+}
+
+/**
+ * A polygon feature as rings of edges, grouped per polygon part.
+ */
+export interface TopologyFace {
+  id: string | number;
+  feature: PolygonFeature;
+  polygons: TopologyEdgeRef[][][];
+}
+
+export interface PlanarTopology {
+  nodes: TopologyNode[];
+  edges: TopologyEdge[];
+  faces: TopologyFace[];
+}
+
+const positionKey = (position: Position): string =>
+  `${position[0]},${position[1]}`;
+
+const polygonsOf = (feature: PolygonFeature): Position[][][] =>
+  feature.geometry.type === "Polygon"
+    ? [feature.geometry.coordinates]
+    : feature.geometry.coordinates;
+
+/** Ring without its closing position */
+const openRing = (ring: Position[]): Position[] =>
+  ring.length > 1 && positionKey(ring[0]) === positionKey(ring[ring.length - 1])
+    ? ring.slice(0, -1)
+    : ring;
+
+const closeRing = (ring: Position[]): Position[] =>
+  ring.length > 0 ? [...ring, [...ring[0]]] : ring;
+
 /**
- * Apply vertex moves from one edited polygon to other polygons that shared the
- * original vertex. Rings must retain their vertex order, which is how ordinary
- * vertex editing behaves. Structural operations such as split and union are
- * deliberately ignored because they do not describe unambiguous node moves.
+ * Build the node/edge/face structure of a polygon coverage.
+ *
+ * Positions are matched exactly, so polygons must share vertices (as drawn
+ * with snapping or topology enabled) for their common boundary to become a
+ * shared edge. Features that are not polygons are ignored; faces are keyed by
+ * feature id, or by index for features without one.
  */
-export function propagateSharedVertexMoves(
+export function buildTopology(features: Feature[]): PlanarTopology {
+  const rings: Array<{ face: number; polygon: number; ring: Position[] }> = [];
+  const faces: TopologyFace[] = [];
+
+  features.forEach((feature, index) => {
+    if (!isPolygonFeature(feature)) return;
+    const face = faces.length;
+    const polygons = polygonsOf(feature);
+    faces.push({
+      id: feature.id ?? index,
+      feature,
+      polygons: polygons.map((polygon) => polygon.map(() => [])),
+    });
+    polygons.forEach((polygon, polygonIndex) =>
+      polygon.forEach((ring) =>
+        rings.push({ face, polygon: polygonIndex, ring: openRing(ring) }),
+      ),
+    );
+  });
+
+  // A vertex is a node unless exactly two distinct neighbours meet there
+  const neighbours = new Map<string, Set<string>>();
+  rings.forEach(({ ring }) =>
+    ring.forEach((position, index) => {
+      const key = positionKey(position);
+      const set = neighbours.get(key) ?? new Set<string>();
+      set.add(positionKey(ring[(index + ring.length - 1) % ring.length]));
+      set.add(positionKey(ring[(index + 1) % ring.length]));
+      neighbours.set(key, set);
+    }),
+  );
+  const isNode = (position: Position) =>
+    neighbours.get(positionKey(position))?.size !== 2;
+
+  const nodes: TopologyNode[] = [];
+  const nodeIds = new Map<string, number>();
+  const nodeFor = (position: Position): number => {
+    const key = positionKey(position);
+    let id = nodeIds.get(key);
+    if (id === undefined) {
+      id = nodes.length;
+      nodes.push({ id, position });
+      nodeIds.set(key, id);
+    }
+    return id;
+  };
+
+  const edges: TopologyEdge[] = [];
+  const edgeIds = new Map<string, number>();
+
+  rings.forEach(({ face, polygon, ring }) => {
+    if (ring.length < 3) return;
+    const refs: TopologyEdgeRef[] = [];
+
+    // Rings without nodes start at their smallest position, so a ring shared
+    // by two faces (an island filling a hole) is walked the same way twice
+    let start = ring.findIndex(isNode);
+    if (start < 0) {
+      start = 0;
+      ring.forEach((position, index) => {
+        if (positionKey(position) < positionKey(ring[start])) start = index;
+      });
+    }
+
+    let chain = [ring[start]];
+    let chainStart = start;
+    for (let step = 1; step <= ring.length; step++) {
+      const index = (start + step) % ring.length;
+      chain.push(ring[index]);
+      if (step < ring.length && !isNode(ring[index])) continue;
+
+      const forward = chain.map(positionKey).join(";");
+      const backward = [...chain].reverse().map(positionKey).join(";");
+      const key = forward < backward ? forward : backward;
+      let id = edgeIds.get(key);
+      if (id === undefined) {
+        id = edges.length;
+        const coordinates = forward <= backward ? chain : [...chain].reverse();
+        edges.push({
+          id,
+          start: nodeFor(coordinates[0]),
+          end: nodeFor(coordinates[coordinates.length - 1]),
+          coordinates,
+          faces: [],
+        });
+        edgeIds.set(key, id);
+      }
+      const edge = edges[id];
+      if (!edge.faces.includes(faces[face].id)) edge.faces.push(faces[face].id);
+      refs.push({
+        edge: id,
+        reversed: forward !== backward && key !== forward,
+        start: chainStart,
+      });
+
+      chain = [ring[index]];
+      chainStart = index;
+    }
+
+    faces[face].polygons[polygon].push(refs);
+  });
+
+  // Drop the placeholder ring lists created for skipped rings
+  faces.forEach((face) => {
+    face.polygons = face.polygons.map((polygon) =>
+      polygon.filter((ring) => ring.length > 0),
+    );
+  });
+
+  return { nodes, edges, faces };
+}
+
+/**
+ * Rebuild a face's geometry from its edges.
+ */
+function faceGeometry(
+  face: TopologyFace,
+  chainFor: (edge: TopologyEdge) => Position[],
+  edges: TopologyEdge[],
+): PolygonFeature["geometry"] {
+  const polygons = face.polygons.map((polygon) =>
+    polygon.map((refs) => {
+      const ring: Position[] = [];
+      refs.forEach((ref) => {
+        const chain = chainFor(edges[ref.edge]);
+        const oriented = ref.reversed ? [...chain].reverse() : chain;
+        ring.push(...oriented.slice(0, -1));
+      });
+      return closeRing(ring);
+    }),
+  );
+  return face.feature.geometry.type === "Polygon"
+    ? { type: "Polygon", coordinates: polygons[0] }
+    : { type: "MultiPolygon", coordinates: polygons };
+}
+
+/**
+ * Match the vertices of a ring before and after a single-vertex edit.
+ *
+ * Common leading and trailing positions match one to one; in between, the
+ * first positions pair up as moves and the rest are insertions or deletions.
+ *
+ * @returns For every old index, the new index, or -1 when it was removed
+ */
+function alignRing(before: Position[], after: Position[]): number[] {
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    positionKey(before[prefix]) === positionKey(after[prefix])
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    positionKey(before[before.length - 1 - suffix]) ===
+      positionKey(after[after.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const paired = Math.min(
+    before.length - prefix - suffix,
+    after.length - prefix - suffix,
+  );
+  return before.map((_, index) => {
+    if (index < prefix) return index;
+    if (index >= before.length - suffix) {
+      return index - before.length + after.length;
+    }
+    return index - prefix < paired ? index : -1;
+  });
+}
+
+const EDITED_FACE = "__edited__";
+
+/**
+ * Carry an edit of one polygon over to the polygons it shares edges or nodes
+ * with.
+ *
+ * Each shared edge of the old polygon is replaced, in every neighbour, by the
+ * run of the new polygon between the same two nodes, so moving, inserting or
+ * deleting a vertex on a shared edge changes both sides. Moving a node moves
+ * it in every polygon that meets there. Edits that change the number of rings
+ * or parts, or that delete a node, are not carried over.
+ *
+ * @returns The neighbours that changed, with their new geometry
+ */
+export function propagateSharedEdgeEdits(
   oldFeature: Feature,
   newFeature: Feature,
   targetFeatures: Feature[],
-  tolerance = 1e-10,
 ): PolygonFeature[] {
   if (!isPolygonFeature(oldFeature) || !isPolygonFeature(newFeature)) return [];
 
-  const before = positions(oldFeature);
-  const after = positions(newFeature);
-  if (before.length !== after.length) return [];
+  const oldPolygons = polygonsOf(oldFeature);
+  const newPolygons = polygonsOf(newFeature);
+  if (
+    oldPolygons.length !== newPolygons.length ||
+    oldPolygons.some(
+      (polygon, index) => polygon.length !== newPolygons[index].length,
+    )
+  ) {
+    return [];
+  }
+
+  const targets = targetFeatures.filter(isPolygonFeature);
+  const topology = buildTopology([
+    { ...oldFeature, id: EDITED_FACE },
+    ...targets,
+  ]);
+  const [edited, ...neighbourFaces] = topology.faces;
+  const nodeKeys = new Set(
+    topology.edges.flatMap((edge) =>
+      [edge.start, edge.end].map((id) =>
+        positionKey(topology.nodes[id].position),
+      ),
+    ),
+  );
+
+  const newChains = new Map<number, Position[]>();
+  const nodeMoves = new Map<string, Position>();
+
+  edited.polygons.forEach((polygon, polygonIndex) =>
+    polygon.forEach((refs, ringIndex) => {
+      const before = openRing(oldPolygons[polygonIndex][ringIndex]);
+      const after = openRing(newPolygons[polygonIndex][ringIndex]);
+      const alignment = alignRing(before, after);
+
+      before.forEach((position, index) => {
+        const key = positionKey(position);
+        const moved = alignment[index];
+        if (
+          nodeKeys.has(key) &&
+          moved >= 0 &&
+          positionKey(after[moved]) !== key
+        ) {
+          nodeMoves.set(key, after[moved]);
+        }
+      });
+
+      refs.forEach((ref) => {
+        const edge = topology.edges[ref.edge];
+        if (edge.faces.length < 2) return;
+
+        const length = edge.coordinates.length - 1;
+        const from = alignment[ref.start];
+        const to = alignment[(ref.start + length) % before.length];
+        if (from < 0 || to < 0) return;
+
+        let span = (to - from + after.length) % after.length;
+        if (span === 0) span = after.length;
+        const chain = Array.from(
+          { length: span + 1 },
+          (_, step) => after[(from + step) % after.length],
+        );
+        newChains.set(edge.id, ref.reversed ? chain.reverse() : chain);
+      });
+    }),
+  );
+
+  if (newChains.size === 0 && nodeMoves.size === 0) return [];
+
+  const chainFor = (edge: TopologyEdge): Position[] => {
+    const replaced = newChains.get(edge.id);
+    if (replaced) return replaced;
+    const moveEnd = (position: Position) =>
+      nodeMoves.get(positionKey(position)) ?? position;
+    const coordinates = [...edge.coordinates];
+    coordinates[0] = moveEnd(coordinates[0]);
+    coordinates[coordinates.length - 1] = moveEnd(
+      coordinates[coordinates.length - 1],
+    );
+    return coordinates;
+  };
+
+  const changed: PolygonFeature[] = [];
+  neighbourFaces.forEach((face) => {
+    const geometry = faceGeometry(face, chainFor, topology.edges);
+    if (JSON.stringify(geometry) !== JSON.stringify(face.feature.geometry)) {
+      changed.push({ ...face.feature, geometry } as PolygonFeature);
+    }
+  });
+  return changed;
+}
+
+// ============================================================================
+// Coverage repair
+// ============================================================================
+
+/**
+ * Make new polygons fit their neighbours exactly.
+ *
+ * Vertices of `features` within `tolerance` degrees of a neighbour vertex take
+ * that vertex's exact position, and vertices of either side lying on the
+ * other side's boundary are inserted there. Afterwards every shared boundary
+ * has the same vertices on both sides, so polygons produced by split, union,
+ * difference or clipping leave no gaps, slivers or dangling nodes.
+ *
+ * @param features - New or changed polygons
+ * @param neighbours - Polygons around them, left as they are unless a vertex
+ *   has to be inserted
+ * @param tolerance - Snap distance in degrees
+ * @returns The fitted features (same order) and the neighbours that changed
+ */
+export function repairCoverageSeams<T extends Feature>(
+  features: T[],
+  neighbours: Feature[],
+  tolerance = 1e-9,
+): {
+  features: T[];
+  neighbours: Array<{ oldFeature: PolygonFeature; newFeature: PolygonFeature }>;
+} {
+  const polygons = features.filter(isPolygonFeature);
+  if (polygons.length === 0) return { features, neighbours: [] };
+
+  const area = turf.bbox(turf.featureCollection(polygons));
+  const near = neighbours.filter(isPolygonFeature).filter((neighbour) => {
+    const [west, south, east, north] = turf.bbox(neighbour);
+    return (
+      west <= area[2] + tolerance &&
+      east >= area[0] - tolerance &&
+      south <= area[3] + tolerance &&
+      north >= area[1] - tolerance
+    );
+  });
+  if (near.length === 0) return { features, neighbours: [] };
 
-  const moves = before.flatMap((from, index) =>
-    samePosition(from, after[index], tolerance)
+  const neighbourVertices = near.flatMap(positions);
+  const neighbourSegments = near.flatMap((neighbour) =>
+    polygonsOf(neighbour).flatMap((polygon) =>
+      polygon.flatMap((ring) =>
+        ring.slice(1).map((end, index) => [ring[index], end] as const),
+      ),
+    ),
+  );
+  // Take a neighbour vertex in range, or else the nearest point on an edge
+  const snap = (position: Position): Position => {
+    const vertex = neighbourVertices.find((candidate) =>
+      samePosition(candidate, position, tolerance),
+    );
+    if (vertex) return [...vertex];
+    for (const [a, b] of neighbourSegments) {
+      const t = segmentParameter(position, a, b, tolerance);
+      if (t !== null) {
+        return [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+      }
+    }
+    return position;
+  };
+
+  const fitted = features.map((feature) => {
+    if (!isPolygonFeature(feature)) return feature;
+    const snapped = mapRings(feature, (ring) => ring.map(snap));
+    return insertVerticesOnBoundary(
+      snapped,
+      neighbourVertices,
+      tolerance,
+    ) as Feature as T;
+  });
+
+  const fittedVertices = (fitted as Feature[])
+    .filter(isPolygonFeature)
+    .flatMap(positions);
+  const changed = near.flatMap((neighbour) => {
+    const updated = insertVerticesOnBoundary(
+      neighbour,
+      fittedVertices,
+      tolerance,
+    );
+    return updated === neighbour
       ? []
-      : [{ from, to: after[index] }],
+      : [{ oldFeature: neighbour, newFeature: updated }];
+  });
+
+  return { features: fitted, neighbours: changed };
+}
+
+function mapRings(
+  feature: PolygonFeature,
+  map: (ring: Position[]) => Position[],
+): PolygonFeature {
+  const geometry =
+    feature.geometry.type === "Polygon"
+      ? {
+          ...feature.geometry,
+          coordinates: feature.geometry.coordinates.map(map),
+        }
+      : {
+          ...feature.geometry,
+          coordinates: feature.geometry.coordinates.map((polygon) =>
+            polygon.map(map),
+          ),
+        };
+  return { ...feature, geometry } as PolygonFeature;
+}
+
+/**
+ * Insert vertices that lie on a polygon's segments (but are not already
+ * vertices) into those segments.
+ *
+ * @returns The same feature when nothing was inserted
+ */
+function insertVerticesOnBoundary(
+  feature: PolygonFeature,
+  vertices: Position[],
+  tolerance: number,
+): PolygonFeature {
+  const [west, south, east, north] = turf.bbox(feature);
+  const candidates = vertices.filter(
+    ([x, y]) =>
+      x >= west - tolerance &&
+      x <= east + tolerance &&
+      y >= south - tolerance &&
+      y <= north + tolerance,
   );
+  if (candidates.length === 0) return feature;
+
+  let inserted = false;
+  const result = mapRings(feature, (ring) => {
+    const output: Position[] = [ring[0]];
+    for (let index = 1; index < ring.length; index++) {
+      const a = ring[index - 1];
+      const b = ring[index];
+      const onSegment = candidates
+        .map((vertex) => ({
+          vertex,
+          t: segmentParameter(vertex, a, b, tolerance),
+        }))
+        .filter(({ t }) => t !== null)
+        .sort((left, right) => left.t! - right.t!);
+
+      let previous = a;
+      onSegment.forEach(({ vertex }) => {
+        if (samePosition(vertex, previous, 0)) return;
+        output.push([...vertex]);
+        previous = vertex;
+        inserted = true;
+      });
+      output.push(b);
+    }
+    return output;
+  });
+
+  return inserted ? result : feature;
+}
+
+/**
+ * Where along segment a-b a vertex lies, strictly between the ends and within
+ * `tolerance` of the segment; null otherwise
+ */
+function segmentParameter(
+  vertex: Position,
+  a: Position,
+  b: Position,
+  tolerance: number,
+): number | null {
+  if (
+    samePosition(vertex, a, tolerance) ||
+    samePosition(vertex, b, tolerance)
+  ) {
+    return null;
+  }
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return null;
+  const t = ((vertex[0] - a[0]) * dx + (vertex[1] - a[1]) * dy) / lengthSquared;
+  if (t <= 0 || t >= 1) return null;
+  const distance = Math.hypot(
+    a[0] + t * dx - vertex[0],
+    a[1] + t * dy - vertex[1],
+  );
+  return distance <= tolerance ? t : null;
+}
+
+// ============================================================================
+// Line networks
+// ============================================================================
+
+export type LineFeature = Feature<LineString | MultiLineString>;
+
+const isLineFeature = (feature: Feature): feature is LineFeature =>
+  feature.geometry?.type === "LineString" ||
+  feature.geometry?.type === "MultiLineString";
+
+const linesOf = (feature: LineFeature): Position[][] =>
+  feature.geometry.type === "LineString"
+    ? [feature.geometry.coordinates]
+    : feature.geometry.coordinates;
+
+const withLines = (feature: LineFeature, lines: Position[][]): LineFeature =>
+  ({
+    ...feature,
+    geometry:
+      feature.geometry.type === "LineString"
+        ? { ...feature.geometry, coordinates: lines[0] }
+        : { ...feature.geometry, coordinates: lines },
+  }) as LineFeature;
+
+/** Network nodes closer than this many degrees (about 1 cm) are the same */
+const NETWORK_TOLERANCE = 1e-7;
+
+/**
+ * Carry vertex moves of an edited line over to the lines and points that
+ * share those vertices, so junctions and shared endpoints stay connected.
+ *
+ * Vertices are matched by index when the vertex count is unchanged; when a
+ * vertex was inserted or deleted, only a single vertex that moved at the same
+ * time is carried over.
+ *
+ * @returns The lines and points that changed, with their new geometry
+ */
+export function propagateNetworkVertexMoves(
+  oldFeature: Feature,
+  newFeature: Feature,
+  targetFeatures: Feature[],
+  tolerance = 1e-9,
+): Feature[] {
+  if (!isLineFeature(oldFeature) || !isLineFeature(newFeature)) return [];
+
+  const oldLines = linesOf(oldFeature);
+  const newLines = linesOf(newFeature);
+  if (oldLines.length !== newLines.length) return [];
+
+  const moves: Array<[Position, Position]> = [];
+  oldLines.forEach((before, part) => {
+    const after = newLines[part];
+    if (before.length === after.length) {
+      before.forEach((position, index) => {
+        if (!samePosition(position, after[index], 0)) {
+          moves.push([position, after[index]]);
+        }
+      });
+      return;
+    }
+    const missing = (from: Position[], to: Position[]) =>
+      from.filter((a) => !to.some((b) => samePosition(a, b, 0)));
+    const removed = missing(before, after);
+    const added = missing(after, before);
+    if (removed.length === 1 && added.length === 1) {
+      moves.push([removed[0], added[0]]);
+    }
+  });
   if (moves.length === 0) return [];
 
-  const changed: PolygonFeature[] = [];
-  for (const target of targetFeatures) {
-    if (!isPolygonFeature(target)) continue;
+  const move = (position: Position): Position => {
+    const found = moves.find(([from]) =>
+      samePosition(from, position, tolerance),
+    );
+    return found ? [...found[1]] : position;
+  };
+
+  return targetFeatures.flatMap((target) => {
+    const geometry = moveNetworkPositions(target.geometry, move);
+    return geometry ? [{ ...target, geometry }] : [];
+  });
+}
+
+/**
+ * Move the positions of a line or point geometry
+ *
+ * @returns The moved geometry, or null when nothing moved or the geometry is
+ *   not part of a network
+ */
+function moveNetworkPositions(
+  geometry: Geometry | null,
+  move: (position: Position) => Position,
+): Geometry | null {
+  let moved = false;
+  const map = (position: Position) => {
+    const next = move(position);
+    if (next !== position) moved = true;
+    return next;
+  };
 
-    let didChange = false;
-    const replace = (position: Position): Position => {
-      const move = moves.find(({ from }) =>
-        samePosition(position, from, tolerance),
+  let result: Geometry;
+  switch (geometry?.type) {
+    case "Point":
+      result = { ...geometry, coordinates: map(geometry.coordinates) };
+      break;
+    case "MultiPoint":
+    case "LineString":
+      result = { ...geometry, coordinates: geometry.coordinates.map(map) };
+      break;
+    case "MultiLineString":
+      result = {
+        ...geometry,
+        coordinates: geometry.coordinates.map((line) => line.map(map)),
+      };
+      break;
+    default:
+      return null;
+  }
+  return moved ? result : null;
+}
+
+export interface LineNetworkChange {
+  /** The new line, or its parts when it was split */
+  features: LineFeature[];
+  /** Existing lines that gained a node where the new line meets them */
+  edits: Array<{ oldFeature: LineFeature; newFeature: LineFeature }>;
+  /** Existing lines split where the new line meets or crosses them */
+  splits: Array<{ original: LineFeature; parts: LineFeature[] }>;
+}
+
+/**
+ * Connect a new line to a line network.
+ *
+ * Where the new line meets another line - a vertex on the other line's
+ * vertex or segment, or the other way round - both lines get a vertex at the
+ * exact same position, so the junction is a node the two share. With
+ * `split`, lines are also noded where they cross, and both the new line and
+ * the lines it meets are split at every node into separate features.
+ *
+ * @param feature - The new line
+ * @param existing - Features already on the map; only lines are considered
+ * @param options - `split` at junctions and crossings; node `tolerance` in
+ *   degrees (default: about 1 cm)
+ */
+export function connectLineNetwork(
+  feature: LineFeature,
+  existing: Feature[],
+  options: { split?: boolean; tolerance?: number } = {},
+): LineNetworkChange {
+  const tolerance = options.tolerance ?? NETWORK_TOLERANCE;
+  const [west, south, east, north] = turf.bbox(feature);
+  const near = existing.filter(isLineFeature).filter((line) => {
+    if (line.id !== undefined && line.id === feature.id) return false;
+    const bounds = turf.bbox(line);
+    return (
+      bounds[0] <= east + tolerance &&
+      bounds[2] >= west - tolerance &&
+      bounds[1] <= north + tolerance &&
+      bounds[3] >= south - tolerance
+    );
+  });
+
+  let lines = linesOf(feature).map((line) => line.map((p) => [...p]));
+  const allNodes: Position[] = [];
+  const edits: LineNetworkChange["edits"] = [];
+  const splits: LineNetworkChange["splits"] = [];
+
+  near.forEach((other) => {
+    const otherLines = linesOf(other);
+    const otherVertices = otherLines.flat();
+    const otherSegments = segmentsOf(otherLines);
+    const nodes: Position[] = [];
+
+    // Snap to the other line's vertices so shared nodes are identical
+    lines = lines.map((line) =>
+      line.map((position) => {
+        const vertex = otherVertices.find((candidate) =>
+          samePosition(candidate, position, tolerance),
+        );
+        if (vertex) {
+          nodes.push(vertex);
+          return [...vertex];
+        }
+        if (
+          otherSegments.some(
+            ([a, b]) => segmentParameter(position, a, b, tolerance) !== null,
+          )
+        ) {
+          nodes.push(position);
+        }
+        return position;
+      }),
+    );
+    const segments = segmentsOf(lines);
+    otherVertices.forEach((vertex) => {
+      if (
+        segments.some(
+          ([a, b]) => segmentParameter(vertex, a, b, tolerance) !== null,
+        )
+      ) {
+        nodes.push(vertex);
+      }
+    });
+    if (options.split) {
+      segments.forEach(([a, b]) =>
+        otherSegments.forEach(([c, d]) => {
+          const crossing = segmentCrossing(a, b, c, d, tolerance);
+          if (crossing) nodes.push(crossing);
+        }),
       );
-      if (!move) return position;
-      didChange = true;
-      return [...move.to];
-    };
-
-    const geometry =
-      target.geometry.type === "Polygon"
-        ? {
-            ...target.geometry,
-            coordinates: target.geometry.coordinates.map((ring) =>
-              ring.map(replace),
-            ),
-          }
-        : {
-            ...target.geometry,
-            coordinates: target.geometry.coordinates.map((polygon) =>
-              polygon.map((ring) => ring.map(replace)),
-            ),
-          };
-
-    if (didChange) changed.push({ ...target, geometry } as PolygonFeature);
+    }
+    if (nodes.length === 0) return;
+    allNodes.push(...nodes);
+
+    const noded = otherLines.map((line) => insertNodes(line, nodes, tolerance));
+    if (options.split) {
+      const parts = noded.flatMap((line) => cutAtNodes(line, nodes));
+      if (parts.length > otherLines.length) {
+        splits.push({ original: other, parts: parts.map(lineFrom(other)) });
+        return;
+      }
+    }
+    if (JSON.stringify(noded) !== JSON.stringify(otherLines)) {
+      edits.push({ oldFeature: other, newFeature: withLines(other, noded) });
+    }
+  });
+
+  lines = lines.map((line) => insertNodes(line, allNodes, tolerance));
+  const parts = options.split
+    ? lines.flatMap((line) => cutAtNodes(line, allNodes))
+    : lines;
+  const features =
+    parts.length > lines.length
+      ? parts.map(lineFrom(feature))
+      : [withLines(feature, lines)];
+
+  return { features, edits, splits };
+}
+
+function segmentsOf(lines: Position[][]): Array<[Position, Position]> {
+  return lines.flatMap((line) =>
+    line
+      .slice(1)
+      .map((end, index) => [line[index], end] as [Position, Position]),
+  );
+}
+
+/**
+ * Insert the nodes that lie on a line's segments into the line
+ */
+function insertNodes(
+  line: Position[],
+  nodes: Position[],
+  tolerance: number,
+): Position[] {
+  const output: Position[] = [line[0]];
+  for (let index = 1; index < line.length; index++) {
+    const a = line[index - 1];
+    const b = line[index];
+    nodes
+      .map((node) => ({ node, t: segmentParameter(node, a, b, tolerance) }))
+      .filter(({ t }) => t !== null)
+      .sort((left, right) => left.t! - right.t!)
+      .forEach(({ node }) => {
+        if (!samePosition(node, output[output.length - 1], 0)) {
+          output.push([...node]);
+        }
+      });
+    output.push(b);
   }
+  return output;
+}
 
-  return changed;
+/**
+ * Cut a line at the interior vertices that are nodes
+ */
+function cutAtNodes(line: Position[], nodes: Position[]): Position[][] {
+  const parts: Position[][] = [];
+  let current: Position[] = [line[0]];
+  line.slice(1).forEach((position, index) => {
+    current.push(position);
+    const interior = index + 1 < line.length - 1;
+    if (interior && nodes.some((node) => samePosition(node, position, 0))) {
+      parts.push(current);
+      current = [position];
+    }
+  });
+  parts.push(current);
+  return parts.filter((part) => part.length >= 2);
 }
 
-export { isPolygonFeature };
+/**
+ * Where segments a-b and c-d cross, away from all four ends
+ */
+function segmentCrossing(
+  a: Position,
+  b: Position,
+  c: Position,
+  d: Position,
+  tolerance: number,
+): Position | null {
+  const denominator =
+    (b[0] - a[0]) * (d[1] - c[1]) - (b[1] - a[1]) * (d[0] - c[0]);
+  if (denominator === 0) return null;
+  const t =
+    ((c[0] - a[0]) * (d[1] - c[1]) - (c[1] - a[1]) * (d[0] - c[0])) /
+    denominator;
+  const u =
+    ((c[0] - a[0]) * (b[1] - a[1]) - (c[1] - a[1]) * (b[0] - a[0])) /
+    denominator;
+  if (t <= 0 || t >= 1 || u <= 0 || u >= 1) return null;
+  const crossing = [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+  return [a, b, c, d].some((end) => samePosition(end, crossing, tolerance))
+    ? null
+    : crossing;
+}
+
+const lineFrom =
+  (source: LineFeature) =>
+  (coordinates: Position[]): LineFeature => ({
+    type: "Feature",
+    id: generateFeatureId(),
+    properties: { ...source.properties },
+    geometry: { type: "LineString", coordinates },
+  });
+
+export { isPolygonFeature, isLineFeature };
@@ -0,0 +1,502 @@
+import type {
+  Feature,
+  LineString,
+  MultiPoint,
+  MultiPolygon,
+  Point,
+  Polygon,
+  Position,
+} from "geojson";
+import * as turf from "@turf/turf";
+import type {
+  TopologyIssue,
+  TopologyIssueType,
+  TopologyValidationOptions,
+} from "./types";
+import { unkink } from "./importValidation";
+import { isPolygonFeature, type PolygonFeature } from "./topology";
+
+/** Defaults for {@link TopologyValidationOptions} */
+export const TOPOLOGY_VALIDATION_DEFAULTS: Required<TopologyValidationOptions> =
+  {
+    gapMaxArea: 1000,
+    sliverThinness: 0.05,
+    dangleTolerance: 0.01,
+    dangleSnapDistance: 10,
+  };
+
+/** Overlaps smaller than this many square meters are rounding noise */
+const MIN_AREA = 1e-4;
+
+/** Changes that repair a topology issue */
+export interface TopologyFix {
+  edits: Array<{ oldFeature: Feature; newFeature: Feature }>;
+  deleted: Feature[];
+}
+
+interface LinePart {
+  feature: Feature;
+  key: string | number;
+  part: number;
+  line: Feature<LineString>;
+}
+
+type Bounds = [number, number, number, number];
+
+const keyOf = (feature: Feature, index: number): string | number =>
+  feature.id ?? index;
+
+const polygonsOf = (feature: PolygonFeature): Position[][][] =>
+  feature.geometry.type === "Polygon"
+    ? [feature.geometry.coordinates]
+    : feature.geometry.coordinates;
+
+const boundsOf = (feature: Feature): Bounds => turf.bbox(feature) as Bounds;
+
+const overlaps = (a: Bounds, b: Bounds, margin = 0): boolean =>
+  a[0] <= b[2] + margin &&
+  a[2] >= b[0] - margin &&
+  a[1] <= b[3] + margin &&
+  a[3] >= b[1] - margin;
+
+/** Perimeter in meters */
+const perimeter = (feature: Feature): number =>
+  turf.length(feature, { units: "meters" });
+
+const round = (value: number): string =>
+  value >= 10 ? Math.round(value).toLocaleString() : value.toPrecision(2);
+
+/**
+ * Check features for topology problems:
+ *
+ * - `overlap`: two polygons covering the same area
+ * - `gap`: a hole between polygons of at most `gapMaxArea` square meters;
+ *   holes bordered by a single polygon are part of its shape
+ * - `sliver`: a polygon (or part of one) whose thinness 4πA/P² is below
+ *   `sliverThinness`, i.e. much longer than it is wide
+ * - `dangle`: a line end that touches no other line
+ * - `self-intersection`: a line or polygon boundary crossing itself
+ *
+ * @param features - Features to check
+ * @param options - Thresholds (see {@link TOPOLOGY_VALIDATION_DEFAULTS})
+ * @returns The issues found, grouped by type
+ */
+export function validateTopology(
+  features: Feature[],
+  options: TopologyValidationOptions = {},
+): TopologyIssue[] {
+  const settings = { ...TOPOLOGY_VALIDATION_DEFAULTS, ...options };
+  const polygons = features
+    .map((feature, index) => ({ feature, key: keyOf(feature, index) }))
+    .filter(
+      (entry): entry is { feature: PolygonFeature; key: string | number } =>
+        isPolygonFeature(entry.feature),
+    )
+    .map((entry) => ({ ...entry, bounds: boundsOf(entry.feature) }));
+  const issues: TopologyIssue[] = [];
+  const add = (
+    type: TopologyIssueType,
+    issue: Omit<TopologyIssue, "id" | "type" | "bbox">,
+  ) =>
+    issues.push({
+      id: `${type}-${issues.filter((i) => i.type === type).length + 1}`,
+      type,
+      bbox: turf.bbox(issue.geometry) as Bounds,
+      ...issue,
+    });
+
+  // Overlaps between pairs of polygons
+  polygons.forEach((first, i) => {
+    polygons.slice(i + 1).forEach((second) => {
+      if (!overlaps(first.bounds, second.bounds)) return;
+      const overlap = intersect(first.feature, second.feature);
+      if (!overlap) return;
+      const area = turf.area(overlap);
+      if (area < MIN_AREA) return;
+      add("overlap", {
+        message: `Features ${first.key} and ${second.key} overlap by ${round(area)} m²`,
+        featureIds: [second.key, first.key],
+        geometry: overlap.geometry,
+        area,
+        fixable: true,
+      });
+    });
+  });
+
+  // Gaps: holes in the union of all polygons bordered by two or more of them
+  const union =
+    polygons.length > 1
+      ? safely(() =>
+          turf.union(turf.featureCollection(polygons.map((p) => p.feature))),
+        )
+      : null;
+  if (union) {
+    polygonsOf(union as PolygonFeature).forEach((polygon) =>
+      polygon.slice(1).forEach((hole) => {
+        const gap = turf.polygon([hole]);
+        const area = turf.area(gap);
+        if (area < MIN_AREA || area > settings.gapMaxArea) return;
+        const neighbours = touching(gap, polygons);
+        if (neighbours.length < 2) return;
+        add("gap", {
+          message: `Gap of ${round(area)} m² between features ${neighbours
+            .map((n) => n.key)
+            .join(", ")}`,
+          featureIds: neighbours.map((n) => n.key),
+          geometry: gap.geometry,
+          area,
+          fixable: true,
+        });
+      }),
+    );
+  }
+
+  // Slivers: long, thin polygons or polygon parts
+  polygons.forEach(({ feature, key }) => {
+    polygonsOf(feature).forEach((coordinates) => {
+      const part = turf.polygon(coordinates);
+      const area = turf.area(part);
+      const length = perimeter(part);
+      if (length === 0) return;
+      const thinness = (4 * Math.PI * area) / (length * length);
+      if (thinness >= settings.sliverThinness) return;
+      const neighbours = touching(part, polygons).filter((n) => n.key !== key);
+      add("sliver", {
+        message: `Feature ${key} has a sliver of ${round(area)} m²`,
+        featureIds: [key, ...neighbours.map((n) => n.key)],
+        geometry: part.geometry,
+        area,
+        fixable: neighbours.length > 0,
+      });
+    });
+  });
+
+  // Dangling line ends
+  const lines = lineParts(features);
+  lines.forEach((entry, index) => {
+    const coordinates = entry.line.geometry.coordinates;
+    if (samePosition(coordinates[0], coordinates[coordinates.length - 1])) {
+      return;
+    }
+    const others = lines.filter((_, other) => other !== index);
+    [coordinates[0], coordinates[coordinates.length - 1]].forEach((end) => {
+      const nearest = nearestLine(end, others);
+      if (nearest && nearest.distance <= settings.dangleTolerance) return;
+      add("dangle", {
+        message: `Line ${entry.key} has a dangling end`,
+        featureIds: [entry.key],
+        geometry: { type: "Point", coordinates: end },
+        fixable:
+          nearest !== null && nearest.distance <= settings.dangleSnapDistance,
+      });
+    });
+  });
+
+  // Self-intersections
+  features.forEach((feature, index) => {
+    const type = feature.geometry?.type;
+    if (
+      type !== "Polygon" &&
+      type !== "MultiPolygon" &&
+      type !== "LineString" &&
+      type !== "MultiLineString"
+    ) {
+      return;
+    }
+    const crossings = safely(() =>
+      turf
+        .kinks(feature as Feature<Polygon>)
+        .features.map((kink) => kink.geometry.coordinates),
+    );
+    if (!crossings || crossings.length === 0) return;
+    const key = keyOf(feature, index);
+    const geometry: Point | MultiPoint =
+      crossings.length === 1
+        ? { type: "Point", coordinates: crossings[0] }
+        : { type: "MultiPoint", coordinates: crossings };
+    add("self-intersection", {
+      message: `Feature ${key} crosses itself ${crossings.length === 1 ? "once" : `${crossings.length} times`}`,
+      featureIds: [key],
+      geometry,
+      fixable: isPolygonFeature(feature),
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Work out the changes that repair a topology issue:
+ *
+ * - overlaps are cut out of the first feature listed
+ * - gaps are merged into the bordering polygon they share most boundary with
+ * - slivers are merged into the neighbour they share most boundary with and
+ *   removed from their feature, deleting it when nothing is left
+ * - dangling ends are moved onto the nearest line
+ * - self-intersecting polygons are split at the crossings
+ *
+ * @param issue - From {@link validateTopology}
+ * @param features - The current features, which the issue was found in
+ * @param options - Thresholds used for the validation
+ * @returns The changes, or null when the issue cannot be fixed (any more)
+ */
+export function fixTopologyIssue(
+  issue: TopologyIssue,
+  features: Feature[],
+  options: TopologyValidationOptions = {},
+): TopologyFix | null {
+  if (!issue.fixable) return null;
+  const settings = { ...TOPOLOGY_VALIDATION_DEFAULTS, ...options };
+  const byKey = (key: string | number) =>
+    features.find((feature, index) => keyOf(feature, index) === key);
+  const target = byKey(issue.featureIds[0]);
+  if (!target?.geometry) return null;
+  const edit = (newGeometry: Feature["geometry"] | null): TopologyFix | null =>
+    newGeometry
+      ? {
+          edits: [
+            {
+              oldFeature: target,
+              newFeature: { ...target, geometry: newGeometry },
+            },
+          ],
+          deleted: [],
+        }
+      : null;
+
+  switch (issue.type) {
+    case "overlap": {
+      if (!isPolygonFeature(target)) return null;
+      const trimmed = safely(() =>
+        turf.difference(
+          turf.featureCollection([
+            target,
+            turf.feature(issue.geometry as Polygon | MultiPolygon),
+          ]),
+        ),
+      );
+      return edit(trimmed?.geometry ?? null);
+    }
+
+    case "gap": {
+      const area = turf.feature(issue.geometry) as PolygonFeature;
+      const neighbours = issue.featureIds
+        .map(byKey)
+        .filter((f): f is PolygonFeature => !!f && isPolygonFeature(f));
+      const neighbour = longestSharedBoundary(area, neighbours);
+      if (!neighbour) return null;
+      const merged = mergeInto(neighbour, area);
+      return merged
+        ? {
+            edits: [{ oldFeature: neighbour, newFeature: merged }],
+            deleted: [],
+          }
+        : null;
+    }
+
+    case "sliver": {
+      if (!isPolygonFeature(target)) return null;
+      const sliver = turf.feature(issue.geometry) as PolygonFeature;
+      const neighbours = issue.featureIds
+        .slice(1)
+        .map(byKey)
+        .filter((f): f is PolygonFeature => !!f && isPolygonFeature(f));
+      const neighbour = longestSharedBoundary(sliver, neighbours);
+      if (!neighbour) return null;
+      const merged = mergeInto(neighbour, sliver);
+      if (!merged) return null;
+
+      const mergedEdit = {
+        oldFeature: neighbour as Feature,
+        newFeature: merged,
+      };
+      const remaining = polygonsOf(target).filter(
+        (polygon) =>
+          JSON.stringify(polygon) !==
+          JSON.stringify(issue.geometry.coordinates),
+      );
+      if (remaining.length === 0) {
+        return { edits: [mergedEdit], deleted: [target] };
+      }
+      const rest: Feature = {
+        ...target,
+        geometry:
+          remaining.length === 1
+            ? { type: "Polygon", coordinates: remaining[0] }
+            : { type: "MultiPolygon", coordinates: remaining },
+      };
+      return {
+        edits: [{ oldFeature: target, newFeature: rest }, mergedEdit],
+        deleted: [],
+      };
+    }
+
+    case "dangle": {
+      const end = (issue.geometry as Point).coordinates;
+      const lines = lineParts(features);
+      const own = lines.filter(
+        (entry) =>
+          entry.key === issue.featureIds[0] &&
+          [0, entry.line.geometry.coordinates.length - 1].some((index) =>
+            samePosition(entry.line.geometry.coordinates[index], end),
+          ),
+      )[0];
+      if (!own) return null;
+      const nearest = nearestLine(
+        end,
+        lines.filter((entry) => entry !== own),
+      );
+      if (!nearest || nearest.distance > settings.dangleSnapDistance) {
+        return null;
+      }
+      const moveEnd = (line: Position[]) =>
+        line.map((position, index) =>
+          (index === 0 || index === line.length - 1) &&
+          samePosition(position, end)
+            ? nearest.position
+            : position,
+        );
+      const geometry = own.feature.geometry;
+      if (geometry.type === "LineString") {
+        return edit({
+          ...geometry,
+          coordinates: moveEnd(geometry.coordinates),
+        });
+      }
+      if (geometry.type === "MultiLineString") {
+        return edit({
+          ...geometry,
+          coordinates: geometry.coordinates.map((line, part) =>
+            part === own.part ? moveEnd(line) : line,
+          ),
+        });
+      }
+      return null;
+    }
+
+    case "self-intersection": {
+      if (!isPolygonFeature(target)) return null;
+      const parts = unkink(target.geometry);
+      if (!parts) return null;
+      return edit(
+        parts.coordinates.length === 1
+          ? { type: "Polygon", coordinates: parts.coordinates[0] }
+          : parts,
+      );
+    }
+  }
+}
+
+function safely<T>(operation: () => T): T | null {
+  try {
+    return operation();
+  } catch {
+    return null;
+  }
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+function intersect(
+  first: PolygonFeature,
+  second: PolygonFeature,
+): PolygonFeature | null {
+  return safely(
+    () =>
+      turf.intersect(
+        turf.featureCollection([first, second]),
+      ) as PolygonFeature | null,
+  );
+}
+
+/**
+ * Polygons whose area or boundary touches `area`
+ */
+function touching<T extends { feature: PolygonFeature; bounds: Bounds }>(
+  area: Feature<Polygon>,
+  polygons: T[],
+): T[] {
+  const bounds = boundsOf(area);
+  return polygons.filter(
+    (polygon) =>
+      overlaps(bounds, polygon.bounds) &&
+      safely(() => turf.booleanIntersects(area, polygon.feature)) === true,
+  );
+}
+
+/**
+ * The polygon sharing the longest boundary with `area`; the shared length is
+ * half of what the perimeters lose when the two are merged
+ */
+function longestSharedBoundary(
+  area: PolygonFeature,
+  candidates: PolygonFeature[],
+): PolygonFeature | null {
+  let best: PolygonFeature | null = null;
+  let bestLength = 0;
+  candidates.forEach((candidate) => {
+    const merged = mergeInto(candidate, area);
+    if (!merged) return;
+    const shared =
+      (perimeter(area) + perimeter(candidate) - perimeter(merged)) / 2;
+    if (shared > bestLength) {
+      best = candidate;
+      bestLength = shared;
+    }
+  });
+  return best;
+}
+
+function mergeInto(
+  feature: PolygonFeature,
+  area: PolygonFeature,
+): PolygonFeature | null {
+  const merged = safely(() =>
+    turf.union(turf.featureCollection([feature, area])),
+  );
+  return merged ? { ...feature, geometry: merged.geometry } : null;
+}
+
+function lineParts(features: Feature[]): LinePart[] {
+  return features.flatMap((feature, index) => {
+    const geometry = feature.geometry;
+    const key = keyOf(feature, index);
+    const lines =
+      geometry?.type === "LineString"
+        ? [geometry.coordinates]
+        : geometry?.type === "MultiLineString"
+          ? geometry.coordinates
+          : [];
+    return lines
+      .map((coordinates, part) => ({
+        feature,
+        key,
+        part,
+        line: turf.lineString(coordinates),
+      }))
+      .filter(({ line }) => line.geometry.coordinates.length >= 2);
+  });
+}
+
+/**
+ * The nearest point on any of `lines`, with its distance in meters
+ */
+function nearestLine(
+  position: Position,
+  lines: LinePart[],
+): { position: Position; distance: number } | null {
+  let nearest: { position: Position; distance: number } | null = null;
+  const point = turf.point(position);
+  lines.forEach(({ line }) => {
+    const found = turf.nearestPointOnLine(line, point, { units: "meters" });
+    if (!nearest || found.properties.dist < nearest.distance) {
+      nearest = {
+        position: found.geometry.coordinates,
+        distance: found.properties.dist,
+      };
+    }
+  });
+  return nearest;
+}
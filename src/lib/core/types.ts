@@ -6,6 +6,7 @@ import type {
   LineString,
   MultiLineString,
   Point,
+  MultiPoint,
   Position,
   FeatureCollection,
   GeoJsonProperties,
@@ -47,12 +48,36 @@ export type EditMode =
   | "split"
   | "union"
   | "difference"
+  | "intersect"
+  | "xor"
+  | "clip"
   | "simplify"
+  | "orthogonalize"
+  | "buffer"
+  | "explode"
   | "lasso";
 
-export type HelperMode = "snapping" | "topology" | "measurements";
+export type HelperMode =
+  | "snapping"
+  | "topology"
+  | "validation"
+  | "measurements"
+  | "precision";
 
-export type FileMode = "open" | "save";
+export type FileMode = "open" | "save" | "clear";
+
+/** File formats built into the open/save tools */
+export type BuiltInFileFormat =
+  | "geojson"
+  | "shapefile"
+  | "kml"
+  | "kmz"
+  | "gpx"
+  | "csv"
+  | "wkt";
+
+/** Id of a registered file format (built-in or added via `registerFormat`) */
+export type FileFormat = BuiltInFileFormat | (string & {});
 
 export type ToolbarPosition =
   | "top-left"
@@ -83,12 +108,36 @@ export interface GeoEditorOptions {
   showLabels?: boolean;
   /** Default tolerance for line simplification */
   simplifyTolerance?: number;
-  /** Enable snapping by default */
+  /** What split mode draws: a cut line, a point on a line or a polygon (default: 'line') */
+  splitTool?: SplitTool;
+  /** Snap the cursor to existing features from the start (default: true) */
   snappingEnabled?: boolean;
-  /** Reuse polygon boundaries and propagate edits across shared vertices */
+  /** Snap distance in pixels (default: 12) */
+  snappingTolerance?: number;
+  /** What the cursor snaps to (default: vertices, intersections, midpoints and edges) */
+  snapTo?: SnapType[];
+  /** Reuse polygon boundaries, keep line networks connected and propagate edits across shared vertices */
   topologyEnabled?: boolean;
+  /** Split drawn lines, and the lines they meet, at junctions and crossings (default: false) */
+  splitLinesAtIntersections?: boolean;
+  /** Thresholds used by `validateTopology` and the topology check panel */
+  topologyValidation?: TopologyValidationOptions;
   /** Enable measurements by default */
   measurementsEnabled?: boolean;
+  /** Unit system of the measurement labels (default: 'metric') */
+  measurementUnits?: MeasurementUnits;
+  /** Show a box next to the cursor for typing vertices while drawing lines and polygons (default: false) */
+  precisionInputEnabled?: boolean;
+  /** Holding Shift while drawing or editing vertices constrains segments to multiples of this angle in degrees (default: 45) */
+  angleConstraintStep?: number;
+  /** Measure constrained angles from the previous segment or from true north (default: 'segment') */
+  angleConstraintReference?: AngleReference;
+  /** Corners within this many degrees of 90° are squared by orthogonalize (default: 13) */
+  orthogonalizeThreshold?: number;
+  /** Line ends closer than this many meters are snapped together when lines are merged (default: 1) */
+  lineMergeTolerance?: number;
+  /** Distance, units, segments and cap/join style used by buffer mode */
+  bufferOptions?: BufferOptions;
   /** Hide the geoman control (use GeoEditor toolbar instead) */
   hideGeomanControl?: boolean;
   /** Property written by the massing draw mode (default: 'height') */
@@ -109,6 +158,32 @@ export interface GeoEditorOptions {
   fileModes?: FileMode[];
   /** Default filename for saving GeoJSON (default: 'features.geojson') */
   saveFilename?: string;
+  /** Formats offered by the save button; more than one shows a format menu (default: every writable registered format) */
+  saveFormats?: FileFormat[];
+  /** How loaded files combine with existing features (default: 'replace') */
+  importMode?: ImportMode;
+  /** Property matching features in 'merge-by-id' imports (default: the feature id, then an `id` property) */
+  importIdProperty?: string;
+  /** Repair invalid imported features where possible instead of rejecting them (default: false) */
+  repairOnImport?: boolean;
+  /** Add the typed fields of imported files (e.g. Shapefile DBF columns) to the attribute schema; undoing the import does not remove them (default: false) */
+  importAttributeFields?: boolean;
+  /** CRS assumed for GeoJSON without a `crs` member: EPSG code, proj4 string or WKT (default: WGS84) */
+  importCrs?: string;
+  /** CRS GeoJSON is saved in: EPSG code, proj4 string or WKT (default: WGS84) */
+  saveCrs?: string;
+  /** Where Ctrl+V puts pasted features (default: 'offset'); text from other applications pastes in place unless this is 'cursor' */
+  pasteMode?: PasteMode;
+  /** Offset in [east, north] meters for 'offset' pastes (default: a small fixed offset in degrees) */
+  pasteOffsetMeters?: [number, number];
+  /** Text format copied features are also put on the system clipboard in, e.g. 'geojson' or 'wkt'; false keeps copies internal (default: 'geojson') */
+  clipboardFormat?: FileFormat | false;
+  /** Import files dropped onto the map (default: true) */
+  enableFileDrop?: boolean;
+  /** GeoJSON files of at least this many bytes are read in chunks and imported in batches (default: 10 MiB) */
+  streamingImportThreshold?: number;
+  /** Features per batch in chunked imports (default: 1000) */
+  importBatchSize?: number;
   /** Callback when GeoJSON is loaded */
   onGeoJsonLoad?: (result: GeoJsonLoadResult) => void;
   /** Callback when GeoJSON is saved */
@@ -147,9 +222,22 @@ export interface GeoEditorOptions {
 
 // Make all options required except attributeSchema which can remain undefined
 export type GeoEditorOptionsRequired = Required<
-  Omit<GeoEditorOptions, "attributeSchema">
+  Omit<
+    GeoEditorOptions,
+    | "attributeSchema"
+    | "saveFormats"
+    | "pasteOffsetMeters"
+    | "importIdProperty"
+    | "importCrs"
+    | "saveCrs"
+  >
 > & {
   attributeSchema: AttributeSchema | undefined;
+  saveFormats: FileFormat[] | undefined;
+  pasteOffsetMeters: [number, number] | undefined;
+  importIdProperty: string | undefined;
+  importCrs: string | undefined;
+  saveCrs: string | undefined;
 };
 
 // ============================================================================
@@ -220,16 +308,143 @@ export interface SimplifyOptions {
   mutate?: boolean;
 }
 
+/**
+ * Sees the mouse events fired on the map. The editor wraps `map.fire` once
+ * and runs its adjusters in order on a copy of each mouse event, so they can
+ * change its position before geoman or our own modes see it.
+ */
+export interface MapEventAdjuster {
+  /** Called before any listener; may change the event in place */
+  beforeFire?(event: unknown): void;
+  /** Called once every listener has handled the event */
+  afterFire?(event: unknown): void;
+}
+
+/** Parts of existing features the cursor can snap to */
+export type SnapType = "vertex" | "intersection" | "midpoint" | "edge";
+
+export interface SnapTarget {
+  /** Snapped [lng, lat] position */
+  lngLat: [number, number];
+  /** What was snapped to */
+  type: SnapType;
+  /** Screen distance from the cursor in pixels */
+  distance: number;
+  /** Id of the feature snapped to */
+  featureId?: string | number;
+}
+
+/**
+ * Which line or ring of a geometry a vertex is on: [] for a LineString or
+ * Point, [line] for a MultiLineString, [ring] for a Polygon (0 is the outer
+ * ring) and [polygon, ring] for a MultiPolygon
+ */
+export type VertexPath = number[];
+
+/** How a vertex was changed through the vertex editing API */
+export type VertexEditAction = "insert" | "remove" | "move";
+
+/** What Shift-constrained segment angles are measured from */
+export type AngleReference = "segment" | "north";
+
+/** Unit system for measurement labels */
+export type MeasurementUnits = "metric" | "imperial" | "nautical";
+
+export interface SegmentMeasurement {
+  /** [lng, lat] where the segment starts */
+  start: [number, number];
+  /** [lng, lat] where the segment ends */
+  end: [number, number];
+  /** Geodesic length in meters */
+  length: number;
+}
+
+/** Live measurement of a line or polygon being drawn or edited */
+export interface Measurement {
+  /** Id of the measured feature, when it has one */
+  featureId?: string | number;
+  /** Segments in drawing order; for polygons every ring is included */
+  segments: SegmentMeasurement[];
+  /** Total length of all segments in meters */
+  length: number;
+  /** Area in square meters (polygons only) */
+  area?: number;
+  /** Perimeter in meters (polygons only) */
+  perimeter?: number;
+}
+
 export interface CopyOptions {
   /** Offset in [lng, lat] degrees for pasted features */
   offset?: [number, number];
+  /** Offset in [east, north] meters for pasted features; replaces `offset` when set */
+  offsetMeters?: [number, number];
   /** Generate new IDs for copied features */
   generateNewIds?: boolean;
 }
 
+/**
+ * Where pasted features go:
+ * - 'offset': next to the copied features (see `pasteOffsetMeters`)
+ * - 'in-place': exactly where the copied features are
+ * - 'cursor': a preview follows the mouse until a click places the features
+ */
+export type PasteMode = "offset" | "in-place" | "cursor";
+
+export interface PasteOptions {
+  /** Paste mode (default: the `pasteMode` option) */
+  mode?: PasteMode;
+  /** Center the pasted features on this [lng, lat] position; overrides `mode` */
+  at?: [number, number];
+}
+
+/**
+ * What is drawn to split features: a cut line, a point on a line, or a polygon
+ * separating the inside and outside pieces
+ */
+export type SplitTool = "line" | "point" | "polygon";
+
 export interface SplitOptions {
   /** Keep the original feature after splitting */
   keepOriginal?: boolean;
+  /** What split mode draws (default: 'line') */
+  tool?: SplitTool;
+}
+
+/** How the ends of buffered lines are shaped */
+export type BufferCapStyle = "round" | "flat" | "square";
+
+/** How buffer outlines turn around the corners of lines and polygons */
+export type BufferJoinStyle = "round" | "mitre" | "bevel";
+
+/**
+ * Which side of a line is buffered: both sides give a polygon, one side gives
+ * an offset curve (a line running parallel to the original)
+ */
+export type BufferSide = "both" | "left" | "right";
+
+/** Units a buffer distance is given in */
+export type BufferUnits =
+  | "meters"
+  | "kilometers"
+  | "feet"
+  | "miles"
+  | "nauticalmiles";
+
+export interface BufferOptions {
+  /** Buffer distance; negative distances inset polygons and flip the side of offset curves (default: 10) */
+  distance?: number;
+  /** Units of `distance` (default: 'meters') */
+  units?: BufferUnits;
+  /** Segments per quarter circle of round caps and joins (default: 8) */
+  steps?: number;
+  /** Shape of line ends (default: 'round') */
+  cap?: BufferCapStyle;
+  /** Shape of corners (default: 'round') */
+  join?: BufferJoinStyle;
+  /** Mitre joins longer than this many times the distance are cut off (default: 5) */
+  mitreLimit?: number;
+  /** Buffer both sides of lines, or offset them to one side (default: 'both') */
+  side?: BufferSide;
 }
 
 export interface UnionOptions {
@@ -242,18 +457,72 @@ export interface DifferenceOptions {
   properties?: GeoJsonProperties;
 }
 
+export interface LineMergeOptions {
+  /** Line ends closer than this many meters are snapped together and joined (default: 0) */
+  tolerance?: number;
+  /** Properties to use for the merged feature */
+  properties?: GeoJsonProperties;
+}
+
+export interface IntersectOptions {
+  /** Properties to use for the result feature */
+  properties?: GeoJsonProperties;
+}
+
+export interface XorOptions {
+  /** Properties to use for the result feature */
+  properties?: GeoJsonProperties;
+}
+
 export interface LassoOptions {
   /** Selection mode: 'contains' or 'intersects' */
   mode?: "contains" | "intersects";
 }
 
+/** Problems found by `validateTopology` */
+export type TopologyIssueType =
+  | "overlap"
+  | "gap"
+  | "sliver"
+  | "dangle"
+  | "self-intersection";
+
+export interface TopologyValidationOptions {
+  /** Holes between polygons up to this area in square meters are gaps (default: 1000) */
+  gapMaxArea?: number;
+  /** Polygons whose thinness 4πA/P² is below this are slivers (default: 0.05) */
+  sliverThinness?: number;
+  /** Line ends this close to another line in meters are connected (default: 0.01) */
+  dangleTolerance?: number;
+  /** Dangling line ends within this many meters of another line can be snapped onto it (default: 10) */
+  dangleSnapDistance?: number;
+}
+
+export interface TopologyIssue {
+  /** Identifier, unique within one validation */
+  id: string;
+  type: TopologyIssueType;
+  /** Human-readable description */
+  message: string;
+  /** Ids of the features involved; a fix changes the first one unless noted */
+  featureIds: Array<string | number>;
+  /** The overlap, gap or sliver area, the dangling end or the crossing points */
+  geometry: Polygon | MultiPolygon | Point | MultiPoint;
+  /** [west, south, east, north] of `geometry` */
+  bbox: [number, number, number, number];
+  /** Area in square meters of overlaps, gaps and slivers */
+  area?: number;
+  /** Whether a one-click fix is available */
+  fixable: boolean;
+}
+
 // ============================================================================
 // Operation Results
 // ============================================================================
 
 export interface SplitResult {
   /** Original feature that was split */
-  original: Feature<Polygon | LineString>;
+  original: Feature<Polygon | MultiPolygon | LineString | MultiLineString>;
   /** Resulting parts after splitting */
   parts: Feature[];
   /** Whether the operation was successful */
@@ -262,6 +531,21 @@ export interface SplitResult {
   error?: string;
 }
 
+export interface BufferResult {
+  /** Feature that was buffered */
+  original: Feature;
+  /** Buffer polygon, or offset curve for one-sided line buffers */
+  result: Feature<Polygon | MultiPolygon | LineString | MultiLineString> | null;
+  /** Distance the feature was buffered by, in `units` */
+  distance: number;
+  /** Units of `distance` */
+  units: BufferUnits;
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Error message if operation failed */
+  error?: string;
+}
+
 export interface UnionResult {
   /** Resulting merged feature */
   result: Feature<Polygon | MultiPolygon> | null;
@@ -286,6 +570,66 @@ export interface DifferenceResult {
   error?: string;
 }
 
+export interface LineMergeResult {
+  /** One LineString, or a MultiLineString when the lines do not all connect */
+  result: Feature<LineString | MultiLineString> | null;
+  /** Original features that were merged */
+  originals: Feature<LineString | MultiLineString>[];
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Error message if operation failed */
+  error?: string;
+}
+
+export interface ExplodeResult {
+  /** Multi-part feature that was exploded */
+  original: Feature<MultiPoint | MultiLineString | MultiPolygon>;
+  /** One single-part feature per part */
+  parts: Feature<Point | LineString | Polygon>[];
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Error message if operation failed */
+  error?: string;
+}
+
+export interface IntersectResult {
+  /** Area shared by all the original polygons */
+  result: Feature<Polygon | MultiPolygon> | null;
+  /** Original features that were intersected */
+  originals: Feature<Polygon | MultiPolygon>[];
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Error message if operation failed */
+  error?: string;
+}
+
+export interface XorResult {
+  /** Area covered by an odd number of the original polygons */
+  result: Feature<Polygon | MultiPolygon> | null;
+  /** Original features that were combined */
+  originals: Feature<Polygon | MultiPolygon>[];
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Error message if operation failed */
+  error?: string;
+}
+
+export interface ClipResult {
+  /** Polygon the features were clipped to */
+  mask: Feature<Polygon | MultiPolygon>;
+  /** Features that were clipped */
+  originals: Feature[];
+  /**
+   * The part of each original inside the mask, in the same order: the
+   * original itself when it lies entirely inside, null when entirely outside
+   */
+  results: (Feature | null)[];
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Error message if operation failed */
+  error?: string;
+}
+
 export interface SimplifyResult {
   /** Simplified feature */
   result: Feature;
@@ -306,6 +650,72 @@ export interface LassoResult {
   lasso: Feature<Polygon>;
 }
 
+/**
+ * How imported features combine with the features already in the editor:
+ * - `replace`: remove every existing feature first
+ * - `append`: add the imported features alongside the existing ones
+ * - `merge-by-id`: update existing features whose id (or `idProperty`) matches
+ *   an imported feature in place, and add the rest
+ */
+export type ImportMode = "replace" | "append" | "merge-by-id";
+
+export interface ImportOptions {
+  /** Import mode (default: the `importMode` option) */
+  mode?: ImportMode;
+  /** Property matching features in 'merge-by-id' mode (default: the `importIdProperty` option) */
+  idProperty?: string;
+  /** Repair invalid features where possible (default: the `repairOnImport` option) */
+  repair?: boolean;
+  /** CRS of the GeoJSON, overriding a `crs` member in the file (default: the `crs` member, then the `importCrs` option) */
+  crs?: string;
+  /** Cancels the import; features loaded so far are removed again */
+  signal?: AbortSignal;
+}
+
+export interface SaveOptions {
+  /** CRS to write GeoJSON in (default: the `saveCrs` option) */
+  crs?: string;
+}
+
+/** Problems found while validating imported features */
+export type ImportIssueCode =
+  | "invalid-feature"
+  | "missing-geometry"
+  | "geometry-collection"
+  | "unsupported-geometry"
+  | "invalid-coordinates"
+  | "out-of-range"
+  | "too-few-positions"
+  | "unclosed-ring"
+  | "self-intersection";
+
+export interface ImportIssue {
+  code: ImportIssueCode;
+  /** Human-readable description */
+  message: string;
+}
+
+export interface ImportFeatureReport {
+  /** Index of the feature in the imported collection */
+  index: number;
+  /** The feature as imported (repaired), or as found in the file (rejected) */
+  feature: Feature;
+  /** Problems found; empty for accepted features */
+  issues: ImportIssue[];
+  /** Issue messages joined into one sentence; empty for accepted features */
+  reason: string;
+}
+
+/**
+ * Per-feature outcome of validating an import. A repaired GeometryCollection
+ * or MultiPoint produces one entry per resulting feature.
+ */
+export interface ImportValidationReport {
+  accepted: ImportFeatureReport[];
+  repaired: ImportFeatureReport[];
+  rejected: ImportFeatureReport[];
+}
+
 export interface GeoJsonLoadResult {
   /** Successfully loaded features */
   features: Feature[];
@@ -313,6 +723,38 @@ export interface GeoJsonLoadResult {
   count: number;
   /** Original filename */
   filename: string;
+  /** Format the file was read as */
+  format: FileFormat;
+  /** How the features were combined with the existing ones */
+  mode: ImportMode;
+  /** Number of features added */
+  added: number;
+  /** Number of existing features updated in place ('merge-by-id') */
+  updated: number;
+  /** Number of existing features removed ('replace') */
+  removed: number;
+  /** Validation outcome for every feature in the file */
+  validation: ImportValidationReport;
+  /** CRS the GeoJSON declared (or was assumed to be in) and was converted from */
+  crs?: string;
+}
+
+export interface GeoJsonLoadProgress {
+  /** Original filename */
+  filename: string;
+  /** Number of features read from the file so far */
+  featuresProcessed: number;
+  /** Bytes read from the file so far */
+  bytesRead: number;
+  /** Size of the file in bytes */
+  totalBytes: number;
+}
+
+export interface GeoJsonLoadCancel {
+  /** Original filename */
+  filename: string;
+  /** Number of features read before the import was cancelled */
+  featuresProcessed: number;
 }
 
 export interface GeoJsonSaveResult {
@@ -322,8 +764,74 @@ export interface GeoJsonSaveResult {
   count: number;
   /** Filename used for download */
   filename: string;
+  /** Format the file was written as */
+  format: FileFormat;
+  /** CRS the GeoJSON was written in, when a target CRS was given */
+  crs?: string;
+  /** MIME type of the downloaded file */
+  mimeType: string;
+}
+
+// ============================================================================
+// File Format Types
+// ============================================================================
+
+/** Parsed contents returned by a file format's `read` function */
+export interface FileFormatReadResult {
+  /** The features read from the file */
+  featureCollection: FeatureCollection;
+  /** Typed attribute fields declared by the file; added to the attribute schema */
+  fields?: AttributeFieldDefinition[];
+  /** Non-fatal problems encountered while reading */
+  warnings?: string[];
 }
 
+/**
+ * A file format for the open/save tools, registered with
+ * `GeoEditor.registerFormat()`.
+ */
+export interface FileFormatDefinition {
+  /**
+   * Unique id; registering an existing id replaces that format. Defaults to
+   * the first extension without its dot when registering.
+   */
+  id: FileFormat;
+  /** Name shown in the save-format menu (default: the id) */
+  label?: string;
+  /** File extensions including the dot; the first is used when saving */
+  extensions: string[];
+  /** MIME types; the first is used for downloads (default: application/octet-stream) */
+  mimeTypes?: string[];
+  /** Pass raw bytes to `read` instead of UTF-8 text (default: false) */
+  binary?: boolean;
+  /**
+   * Recognize the format from file contents. Content matches take precedence
+   * over the filename extension, so files with a wrong extension still load.
+   */
+  detect?: (content: Uint8Array) => boolean;
+  /** Parse file contents (text, or bytes when `binary` is set); omit for save-only formats */
+  read?: (
+    content: string | Uint8Array,
+    filename: string,
+  ) =>
+    | FeatureCollection
+    | FileFormatReadResult
+    | Promise<FeatureCollection | FileFormatReadResult>;
+  /** Serialize features, synchronously or not; omit for open-only formats */
+  write?: (
+    featureCollection: FeatureCollection,
+    name: string,
+  ) => FileFormatWriteData | Promise<FileFormatWriteData>;
+}
+
+/** Serialized file contents returned by a file format's `write` function */
+export type FileFormatWriteData = string | Uint8Array | Blob;
+
+/** A file format as passed to `registerFormat()`; `id` may be omitted */
+export type FileFormatRegistration = Omit<FileFormatDefinition, "id"> & {
+  id?: FileFormat;
+};
+
 // ============================================================================
 // Scale Handle Types
 // ============================================================================
@@ -356,14 +864,33 @@ export interface GeoEditorEventMap {
   "gm:paste": { features: Feature[] };
   "gm:split": SplitResult;
   "gm:union": UnionResult;
+  "gm:linemerge": LineMergeResult;
+  "gm:explode": ExplodeResult;
   "gm:difference": DifferenceResult;
+  "gm:intersect": IntersectResult;
+  "gm:xor": XorResult;
+  "gm:clip": ClipResult;
   "gm:simplify": SimplifyResult;
   "gm:lassostart": Record<string, never>;
   "gm:lassoend": LassoResult;
   "gm:selectionchange": { features: Feature[] };
   "gm:modechange": { mode: DrawMode | EditMode | null };
   "gm:geojsonload": GeoJsonLoadResult;
+  "gm:geojsonloadprogress": GeoJsonLoadProgress;
+  "gm:geojsonloadcancel": GeoJsonLoadCancel;
   "gm:geojsonsave": GeoJsonSaveResult;
+  "gm:clear": { features: Feature[] };
+  "gm:topologyvalidate": { issues: TopologyIssue[] };
+  "gm:topologyfix": { issue: TopologyIssue; features: Feature[] };
+  "gm:measure": { measurements: Measurement[]; units: MeasurementUnits };
+  "gm:orthogonalize": { features: Feature[] };
+  "gm:buffer": BufferResult;
+  "gm:vertexedit": {
+    feature: Feature;
+    action: VertexEditAction;
+    path: VertexPath;
+    index: number;
+  };
 }
 
 export type GeoEditorEventType = keyof GeoEditorEventMap;
@@ -0,0 +1,147 @@
+import type { Feature, Geometry, Position } from "geojson";
+import type { VertexPath } from "./types";
+
+/**
+ * The vertices a path leads to in a geometry, and whether they form a closed
+ * ring (whose last position repeats the first).
+ */
+interface VertexList {
+  coordinates: Position[];
+  closed: boolean;
+}
+
+/**
+ * Insert a vertex before `index` on the line or ring at `path`. An index equal
+ * to the vertex count appends the vertex (before the closing position of a
+ * ring).
+ *
+ * @returns The edited feature, or null when the path or index does not exist
+ */
+export function insertVertex<T extends Feature>(
+  feature: T,
+  path: VertexPath,
+  index: number,
+  position: Position,
+): T | null {
+  return editVertices(feature, path, ({ coordinates, closed }) => {
+    const vertices = closed ? coordinates.slice(0, -1) : [...coordinates];
+    if (!isIndex(index, vertices.length + 1)) return null;
+    vertices.splice(index, 0, [...position]);
+    return vertices;
+  });
+}
+
+/**
+ * Remove the vertex at `index` from the line or ring at `path`. Lines keep at
+ * least two vertices and rings at least three.
+ *
+ * @returns The edited feature, or null when the path or index does not exist
+ *   or the vertex cannot be removed
+ */
+export function removeVertex<T extends Feature>(
+  feature: T,
+  path: VertexPath,
+  index: number,
+): T | null {
+  return editVertices(feature, path, ({ coordinates, closed }) => {
+    const vertices = closed ? coordinates.slice(0, -1) : [...coordinates];
+    if (!isIndex(index, vertices.length)) return null;
+    if (vertices.length <= (closed ? 3 : 2)) return null;
+    vertices.splice(index, 1);
+    return vertices;
+  });
+}
+
+/**
+ * Move the vertex at `index` on the line or ring at `path` (a point's only
+ * vertex has the empty path and index 0). Moving the first vertex of a ring
+ * moves its closing position too.
+ *
+ * @returns The edited feature, or null when the path or index does not exist
+ */
+export function moveVertex<T extends Feature>(
+  feature: T,
+  path: VertexPath,
+  index: number,
+  position: Position,
+): T | null {
+  return editVertices(feature, path, ({ coordinates, closed }) => {
+    const vertices = closed ? coordinates.slice(0, -1) : [...coordinates];
+    if (!isIndex(index, vertices.length)) return null;
+    vertices[index] = [...position];
+    return vertices;
+  });
+}
+
+/**
+ * Replace the vertices at `path` with the result of `edit`, closing rings
+ * again afterwards.
+ */
+function editVertices<T extends Feature>(
+  feature: T,
+  path: VertexPath,
+  edit: (list: VertexList) => Position[] | null,
+): T | null {
+  const geometry = feature.geometry;
+  if (!geometry) return null;
+
+  const copy = JSON.parse(JSON.stringify(geometry)) as Geometry;
+  const list = resolvePath(copy, path);
+  if (!list) return null;
+
+  const vertices = edit(list);
+  if (!vertices) return null;
+  if (copy.type === "Point") {
+    // A point only has its one vertex to move
+    if (vertices.length !== 1) return null;
+    copy.coordinates = vertices[0];
+  } else {
+    if (list.closed) vertices.push([...vertices[0]]);
+    list.coordinates.splice(0, list.coordinates.length, ...vertices);
+  }
+
+  return { ...feature, geometry: copy };
+}
+
+/**
+ * Find the vertex list at `path`. Except for points, its coordinates array is
+ * part of `geometry`, so it can be edited in place.
+ *
+ * Paths: [] for a LineString or Point, [line] for a MultiLineString, [ring]
+ * for a Polygon and [polygon, ring] for a MultiPolygon.
+ */
+function resolvePath(geometry: Geometry, path: VertexPath): VertexList | null {
+  const [first, second] = path;
+  switch (geometry.type) {
+    case "Point":
+      return path.length === 0
+        ? { coordinates: [geometry.coordinates], closed: false }
+        : null;
+    case "LineString":
+      return path.length === 0
+        ? { coordinates: geometry.coordinates, closed: false }
+        : null;
+    case "MultiLineString":
+      return path.length === 1 && isIndex(first, geometry.coordinates.length)
+        ? { coordinates: geometry.coordinates[first], closed: false }
+        : null;
+    case "Polygon":
+      return path.length === 1 && isIndex(first, geometry.coordinates.length)
+        ? { coordinates: geometry.coordinates[first], closed: true }
+        : null;
+    case "MultiPolygon": {
+      const polygon = isIndex(first, geometry.coordinates.length)
+        ? geometry.coordinates[first]
+        : undefined;
+      return path.length === 2 && polygon && isIndex(second, polygon.length)
+        ? { coordinates: polygon[second], closed: true }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function isIndex(index: number, length: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < length;
+}
@@ -0,0 +1,127 @@
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import type { AngleReference, MapEventAdjuster } from '../core/types';
+import { constrainToAngle, type AngleAnchor } from '../core/orthogonal';
+
+/** Map mouse events whose position is constrained */
+const CONSTRAINED_EVENTS = new Set([
+  'mousedown',
+  'mouseup',
+  'mousemove',
+  'click',
+  'dblclick',
+]);
+
+export interface AngleConstraintFeatureOptions {
+  /** Angle step in degrees (default: 45) */
+  step?: number;
+  /** Measure angles from the previous segment or from north (default: 'segment') */
+  reference?: AngleReference;
+  /** Where the segment being drawn or dragged starts, if any */
+  getAnchor: () => AngleAnchor | null;
+}
+
+interface ConstrainableEvent {
+  type: string;
+  lngLat: { lng: number; lat: number };
+  point: { x: number; y: number };
+  originalEvent?: { shiftKey?: boolean };
+}
+
+/**
+ * Constrains the segment being drawn or dragged to multiples of an angle while
+ * Shift is held.
+ *
+ * Like snapping, map mouse events are adjusted before any listener sees them,
+ * so geoman's draw and change modes place the constrained position.
+ */
+export class AngleConstraintFeature implements MapEventAdjuster {
+  private map: MapLibreMap | null = null;
+  private step: number;
+  private reference: AngleReference;
+  private getAnchor: () => AngleAnchor | null;
+  private constraining: boolean = false;
+
+  constructor(options: AngleConstraintFeatureOptions) {
+    this.step = options.step ?? 45;
+    this.reference = options.reference ?? 'segment';
+    this.getAnchor = options.getAnchor;
+  }
+
+  /**
+   * Initialize with map instance
+   */
+  init(map: MapLibreMap): void {
+    this.map = map;
+  }
+
+  /**
+   * Set the angle step in degrees
+   */
+  setStep(step: number): void {
+    this.step = step;
+  }
+
+  getStep(): number {
+    return this.step;
+  }
+
+  /**
+   * Set what angles are measured from
+   */
+  setReference(reference: AngleReference): void {
+    this.reference = reference;
+  }
+
+  getReference(): AngleReference {
+    return this.reference;
+  }
+
+  /**
+   * Whether the last mouse event was constrained
+   */
+  isConstraining(): boolean {
+    return this.constraining;
+  }
+
+  /**
+   * Constrain a map mouse event in place while Shift is held
+   */
+  beforeFire(event: unknown): void {
+    if (!this.map || !isConstrainableEvent(event)) return;
+
+    this.constraining = false;
+    if (!event.originalEvent?.shiftKey) return;
+    const anchor = this.getAnchor();
+    if (!anchor) return;
+
+    const [lng, lat] = constrainToAngle(
+      anchor,
+      [event.lngLat.lng, event.lngLat.lat],
+      this.step,
+      this.reference
+    );
+    event.lngLat.lng = lng;
+    event.lngLat.lat = lat;
+    event.point = this.map.project([lng, lat]);
+    this.constraining = true;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.constraining = false;
+    this.map = null;
+  }
+}
+
+function isConstrainableEvent(event: unknown): event is ConstrainableEvent {
+  if (!event || typeof event !== 'object') return false;
+  const candidate = event as Partial<ConstrainableEvent>;
+  return (
+    typeof candidate.type === 'string' &&
+    CONSTRAINED_EVENTS.has(candidate.type) &&
+    typeof candidate.lngLat?.lng === 'number' &&
+    typeof candidate.point?.x === 'number'
+  );
+}
@@ -0,0 +1,473 @@
+import type { Feature, Position } from 'geojson';
+import type { GeoJSONSource } from 'maplibre-gl';
+import type { Map as MapLibreMap, MapMouseEvent } from 'maplibre-gl';
+import * as turf from '@turf/turf';
+import type { BufferOptions, BufferResult } from '../core/types';
+import { INTERNAL_IDS, SCALE_HANDLE_DEFAULTS } from '../core/constants';
+import { bufferFeature, resolveBufferOptions } from '../core/buffer';
+import { generateFeatureId } from '../utils/geometryUtils';
+
+/** Screen distance in pixels within which a mousedown grabs the handle */
+const HANDLE_TOLERANCE = 10;
+
+/**
+ * Handles buffering features, and the interactive buffer mode: a live preview
+ * of the buffers with a handle that is dragged to set the distance
+ */
+export class BufferFeature {
+  private map: MapLibreMap | null = null;
+  private options: Required<BufferOptions>;
+  private targetFeatures: Feature[] = [];
+  private distance: number = 0;
+  private handlePosition: Position | null = null;
+  private isDragging: boolean = false;
+  private dragPanEnabled: boolean | null = null;
+  private onCompleteCallback: ((results: BufferResult[]) => void) | null =
+    null;
+
+  // Bound event handlers
+  private handleMouseDown: ((e: MapMouseEvent) => void) | null = null;
+  private handleMouseMove: ((e: MapMouseEvent) => void) | null = null;
+  private handleMouseUp: ((e: MapMouseEvent) => void) | null = null;
+
+  constructor(options: BufferOptions = {}) {
+    this.options = resolveBufferOptions(options);
+  }
+
+  /**
+   * Initialize with map instance
+   */
+  init(map: MapLibreMap): void {
+    this.map = map;
+  }
+
+  /**
+   * Change the buffer options; a running preview is updated
+   */
+  setOptions(options: BufferOptions): void {
+    this.options = resolveBufferOptions({ ...this.options, ...options });
+    if (this.isActive()) {
+      this.distance = this.options.distance;
+      this.handlePosition = this.getInitialHandlePosition();
+      this.updatePreview();
+    }
+  }
+
+  getOptions(): Required<BufferOptions> {
+    return { ...this.options };
+  }
+
+  /**
+   * Buffer a feature; `options` override the current options
+   */
+  buffer(feature: Feature, options: BufferOptions = {}): BufferResult {
+    const settings = resolveBufferOptions({ ...this.options, ...options });
+    const base = {
+      original: feature,
+      distance: settings.distance,
+      units: settings.units,
+    };
+
+    try {
+      const result = bufferFeature(feature, settings);
+      if (!result) {
+        return {
+          ...base,
+          result: null,
+          success: false,
+          error: 'Buffer is empty',
+        };
+      }
+      result.id = generateFeatureId();
+      return { ...base, result, success: true };
+    } catch (error) {
+      return {
+        ...base,
+        result: null,
+        success: false,
+        error: error instanceof Error ? error.message : 'Buffer failed',
+      };
+    }
+  }
+
+  /**
+   * Buffer several features with the same options
+   */
+  bufferFeatures(
+    features: Feature[],
+    options: BufferOptions = {}
+  ): BufferResult[] {
+    return features.map((feature) => this.buffer(feature, options));
+  }
+
+  /**
+   * Start interactive buffering: the buffers are previewed at the current
+   * distance, and dragging the handle changes it. Releasing the handle
+   * buffers the features at the dragged distance.
+   */
+  startBuffer(
+    features: Feature[],
+    onComplete: (results: BufferResult[]) => void
+  ): void {
+    if (!this.map || features.length === 0) return;
+
+    this.cancelBuffer();
+    this.targetFeatures = features;
+    this.onCompleteCallback = onComplete;
+    this.distance = this.options.distance;
+    this.handlePosition = this.getInitialHandlePosition();
+
+    this.setupLayers();
+    this.updatePreview();
+    this.attachEventListeners();
+  }
+
+  /**
+   * Whether buffer mode is showing its preview
+   */
+  isActive(): boolean {
+    return this.targetFeatures.length > 0;
+  }
+
+  /**
+   * Distance of a position from the first buffered feature in the buffer
+   * units: negative inside polygons, and for one-sided line buffers,
+   * negative on the side away from the offset
+   */
+  getDistanceAt(position: Position): number {
+    const feature = this.targetFeatures[0];
+    if (!feature?.geometry) return 0;
+
+    const { units, side } = this.options;
+    const point = turf.point(position);
+    const geometry = feature.geometry;
+
+    if (geometry.type === 'Point' || geometry.type === 'MultiPoint') {
+      const points = turf.coordAll(feature);
+      return Math.min(
+        ...points.map((p) => turf.distance(p, position, { units }))
+      );
+    }
+
+    if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+      const rings = turf.flatten(turf.polygonToLine(feature as never) as never);
+      const distance = Math.min(
+        ...(rings.features as Feature[]).map((ring) =>
+          turf.pointToLineDistance(point, ring as never, { units })
+        )
+      );
+      const inside = turf.booleanPointInPolygon(point, feature as never);
+      return inside ? -distance : distance;
+    }
+
+    if (geometry.type === 'LineString' || geometry.type === 'MultiLineString') {
+      const lines = turf.flatten(feature as never).features as Feature[];
+      let nearest = Infinity;
+      let left = true;
+      lines.forEach((line) => {
+        const coordinates = turf.getCoords(line as never) as Position[];
+        const snapped = turf.nearestPointOnLine(line as never, point, {
+          units,
+        });
+        const distance = snapped.properties.dist ?? Infinity;
+        if (distance >= nearest) return;
+        nearest = distance;
+        const index = Math.min(
+          snapped.properties.index ?? 0,
+          coordinates.length - 2
+        );
+        const [a, b] = [coordinates[index], coordinates[index + 1]];
+        left =
+          (b[0] - a[0]) * (position[1] - a[1]) -
+            (b[1] - a[1]) * (position[0] - a[0]) >=
+          0;
+      });
+      if (side === 'both' || !Number.isFinite(nearest)) return nearest;
+      return left === (side === 'left') ? nearest : -nearest;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Cancel interactive buffering without buffering anything
+   */
+  cancelBuffer(): void {
+    this.removeEventListeners();
+    this.restoreDragPan();
+    this.removeLayers();
+    this.targetFeatures = [];
+    this.handlePosition = null;
+    this.isDragging = false;
+    this.onCompleteCallback = null;
+  }
+
+  /**
+   * Buffer the features at the distance the handle was dragged to
+   */
+  private completeBuffer(): void {
+    const callback = this.onCompleteCallback;
+    const results = this.bufferFeatures(this.targetFeatures, {
+      distance: this.distance,
+    });
+    // The next buffer starts from the distance used here
+    this.options.distance = this.distance;
+    this.cancelBuffer();
+    callback?.(results);
+  }
+
+  /**
+   * The handle starts on the outline of the first feature's buffer, beside
+   * the middle of its first segment (or east of a point)
+   */
+  private getInitialHandlePosition(): Position | null {
+    const feature = this.targetFeatures[0];
+    if (!feature?.geometry) return null;
+
+    const { units, side } = this.options;
+    const distance = Math.abs(this.distance);
+    const geometry = feature.geometry;
+    if (geometry.type === 'Point' || geometry.type === 'MultiPoint') {
+      const [point] = turf.coordAll(feature);
+      return turf.destination(point, distance, 90, { units }).geometry
+        .coordinates;
+    }
+
+    let ring: Position[];
+    let outward: number;
+    if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+      ring =
+        geometry.type === 'Polygon'
+          ? geometry.coordinates[0]
+          : geometry.coordinates[0][0];
+      // Outside is on the left of a clockwise ring
+      outward = turf.booleanClockwise(ring) ? -90 : 90;
+    } else if (
+      geometry.type === 'LineString' ||
+      geometry.type === 'MultiLineString'
+    ) {
+      ring =
+        geometry.type === 'LineString'
+          ? geometry.coordinates
+          : geometry.coordinates[0];
+      outward = side === 'right' ? 90 : -90;
+    } else {
+      return null;
+    }
+    if (!ring || ring.length < 2) return null;
+
+    const middle = turf.midpoint(ring[0], ring[1]);
+    const bearing =
+      turf.bearing(ring[0], ring[1]) + (this.distance < 0 ? -outward : outward);
+    return turf.destination(middle, distance, bearing, { units }).geometry
+      .coordinates;
+  }
+
+  /**
+   * Setup map layers for the preview and the handle
+   */
+  private setupLayers(): void {
+    if (!this.map) return;
+
+    if (!this.map.getSource(INTERNAL_IDS.BUFFER_PREVIEW_SOURCE)) {
+      this.map.addSource(INTERNAL_IDS.BUFFER_PREVIEW_SOURCE, {
+        type: 'geojson',
+        data: turf.featureCollection([]),
+      });
+    }
+    if (!this.map.getLayer(INTERNAL_IDS.BUFFER_PREVIEW_FILL_LAYER)) {
+      this.map.addLayer({
+        id: INTERNAL_IDS.BUFFER_PREVIEW_FILL_LAYER,
+        type: 'fill',
+        source: INTERNAL_IDS.BUFFER_PREVIEW_SOURCE,
+        paint: {
+          'fill-color': '#3388ff',
+          'fill-opacity': 0.2,
+        },
+      });
+    }
+    if (!this.map.getLayer(INTERNAL_IDS.BUFFER_PREVIEW_LINE_LAYER)) {
+      this.map.addLayer({
+        id: INTERNAL_IDS.BUFFER_PREVIEW_LINE_LAYER,
+        type: 'line',
+        source: INTERNAL_IDS.BUFFER_PREVIEW_SOURCE,
+        paint: {
+          'line-color': '#3388ff',
+          'line-width': 2,
+          'line-dasharray': [2, 2],
+        },
+      });
+    }
+
+    if (!this.map.getSource(INTERNAL_IDS.BUFFER_HANDLE_SOURCE)) {
+      this.map.addSource(INTERNAL_IDS.BUFFER_HANDLE_SOURCE, {
+        type: 'geojson',
+        data: turf.featureCollection([]),
+      });
+    }
+    if (!this.map.getLayer(INTERNAL_IDS.BUFFER_HANDLE_LAYER)) {
+      this.map.addLayer({
+        id: INTERNAL_IDS.BUFFER_HANDLE_LAYER,
+        type: 'circle',
+        source: INTERNAL_IDS.BUFFER_HANDLE_SOURCE,
+        paint: {
+          'circle-radius': SCALE_HANDLE_DEFAULTS.handleSize / 2,
+          'circle-color': SCALE_HANDLE_DEFAULTS.handleColor,
+          'circle-stroke-color': SCALE_HANDLE_DEFAULTS.handleBorderColor,
+          'circle-stroke-width': SCALE_HANDLE_DEFAULTS.handleBorderWidth,
+        },
+      });
+    }
+  }
+
+  /**
+   * Show the buffers at the current distance and the handle
+   */
+  private updatePreview(): void {
+    if (!this.map) return;
+
+    const buffers = this.bufferFeatures(this.targetFeatures, {
+      distance: this.distance,
+    })
+      .map((result) => result.result)
+      .filter((result): result is NonNullable<typeof result> => !!result);
+
+    const preview = this.map.getSource(INTERNAL_IDS.BUFFER_PREVIEW_SOURCE) as
+      | GeoJSONSource
+      | undefined;
+    preview?.setData(turf.featureCollection(buffers as Feature[]));
+
+    const handle = this.map.getSource(INTERNAL_IDS.BUFFER_HANDLE_SOURCE) as
+      | GeoJSONSource
+      | undefined;
+    handle?.setData(
+      turf.featureCollection(
+        this.handlePosition
+          ? [turf.point(this.handlePosition, { distance: this.distance })]
+          : []
+      )
+    );
+  }
+
+  /**
+   * Attach mouse event listeners
+   */
+  private attachEventListeners(): void {
+    if (!this.map) return;
+
+    this.handleMouseDown = (e: MapMouseEvent) => {
+      if (!this.isNearHandle(e)) return;
+
+      e.preventDefault();
+      this.isDragging = true;
+      this.disableDragPan();
+    };
+
+    this.handleMouseMove = (e: MapMouseEvent) => {
+      if (!this.isDragging) {
+        if (this.map) {
+          this.map.getCanvas().style.cursor = this.isNearHandle(e)
+            ? 'pointer'
+            : '';
+        }
+        return;
+      }
+
+      const position: Position = [e.lngLat.lng, e.lngLat.lat];
+      this.distance = this.getDistanceAt(position);
+      this.handlePosition = position;
+      this.updatePreview();
+    };
+
+    this.handleMouseUp = () => {
+      if (!this.isDragging) return;
+
+      this.isDragging = false;
+      this.completeBuffer();
+    };
+
+    this.map.on('mousedown', this.handleMouseDown);
+    this.map.on('mousemove', this.handleMouseMove);
+    this.map.on('mouseup', this.handleMouseUp);
+  }
+
+  /**
+   * Remove event listeners
+   */
+  private removeEventListeners(): void {
+    if (!this.map) return;
+
+    if (this.handleMouseDown) {
+      this.map.off('mousedown', this.handleMouseDown);
+    }
+    if (this.handleMouseMove) {
+      this.map.off('mousemove', this.handleMouseMove);
+    }
+    if (this.handleMouseUp) {
+      this.map.off('mouseup', this.handleMouseUp);
+    }
+
+    this.handleMouseDown = null;
+    this.handleMouseMove = null;
+    this.handleMouseUp = null;
+  }
+
+  private isNearHandle(e: MapMouseEvent): boolean {
+    if (!this.map || !this.handlePosition) return false;
+
+    const handle = this.map.project(this.handlePosition as [number, number]);
+    return (
+      Math.hypot(handle.x - e.point.x, handle.y - e.point.y) <=
+      HANDLE_TOLERANCE
+    );
+  }
+
+  private disableDragPan(): void {
+    if (!this.map) return;
+
+    this.dragPanEnabled = this.map.dragPan.isEnabled();
+    if (this.dragPanEnabled) {
+      this.map.dragPan.disable();
+    }
+  }
+
+  private restoreDragPan(): void {
+    if (this.map && this.dragPanEnabled) {
+      this.map.dragPan.enable();
+    }
+    this.dragPanEnabled = null;
+  }
+
+  /**
+   * Remove buffer preview layers from the map
+   */
+  removeLayers(): void {
+    if (!this.map) return;
+
+    [
+      INTERNAL_IDS.BUFFER_HANDLE_LAYER,
+      INTERNAL_IDS.BUFFER_PREVIEW_LINE_LAYER,
+      INTERNAL_IDS.BUFFER_PREVIEW_FILL_LAYER,
+    ].forEach((layer) => {
+      if (this.map?.getLayer(layer)) {
+        this.map.removeLayer(layer);
+      }
+    });
+    [
+      INTERNAL_IDS.BUFFER_HANDLE_SOURCE,
+      INTERNAL_IDS.BUFFER_PREVIEW_SOURCE,
+    ].forEach((source) => {
+      if (this.map?.getSource(source)) {
+        this.map.removeSource(source);
+      }
+    });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.cancelBuffer();
+    this.map = null;
+  }
+}
@@ -1,26 +1,66 @@
 import type { Feature } from 'geojson';
+import type {
+  GeoJSONSource,
+  Map as MapLibreMap,
+  MapMouseEvent,
+} from 'maplibre-gl';
 import * as turf from '@turf/turf';
 import type { CopyOptions } from '../core/types';
-import { COPY_DEFAULTS } from '../core/constants';
+import { COPY_DEFAULTS, INTERNAL_IDS } from '../core/constants';
 import { generateFeatureId } from '../utils/geometryUtils';
 
 /**
  * Handles copy/paste operations for features
  */
 export class CopyFeature {
-  private options: Required<CopyOptions>;
+  private options: Required<Omit<CopyOptions, 'offsetMeters'>>;
+  private offsetMeters: [number, number] | null;
+
+  // Interactive placement (ghost preview that follows the mouse)
+  private map: MapLibreMap | null = null;
+  private placementFeatures: Feature[] = [];
+  private onPlaceCallback: ((placed: Feature[]) => void) | null = null;
+  private handleMouseMove: ((e: MapMouseEvent) => void) | null = null;
+  private handleClick: ((e: MapMouseEvent) => void) | null = null;
+  private handleContextMenu: ((e: MapMouseEvent) => void) | null = null;
 
   constructor(options: CopyOptions = {}) {
     this.options = {
       offset: options.offset ?? COPY_DEFAULTS.offset,
       generateNewIds: options.generateNewIds ?? COPY_DEFAULTS.generateNewIds,
     };
+    this.offsetMeters = options.offsetMeters ?? null;
+  }
+
+  /**
+   * Initialize with map instance (needed for interactive placement)
+   */
+  init(map: MapLibreMap): void {
+    this.map = map;
   }
 
   /**
-   * Copy a single feature with optional offset
+   * Copy a single feature with optional offset.
+   *
+   * Without an explicit offset the metric offset is used when one is set,
+   * otherwise the default degree offset.
    */
   copy(feature: Feature, offset?: [number, number]): Feature {
+    if (!offset && this.offsetMeters) {
+      const [east, north] = this.offsetMeters;
+      const center = turf.centroid(feature);
+      const target = turf.rhumbDestination(
+        center,
+        Math.hypot(east, north),
+        (Math.atan2(east, north) * 180) / Math.PI,
+        { units: 'meters' }
+      );
+      return this.copyToLocation(
+        [feature],
+        target.geometry.coordinates as [number, number]
+      )[0];
+    }
+
     const cloned = turf.clone(feature);
     const actualOffset = offset ?? this.options.offset;
 
@@ -64,13 +104,15 @@ export class CopyFeature {
     // Calculate current center of all features
     const collection = turf.featureCollection(features);
     const currentCenter = turf.centroid(collection);
-    const currentCoords = currentCenter.geometry.coordinates;
 
-    // Calculate offset needed
-    const offsetLng = targetCenter[0] - currentCoords[0];
-    const offsetLat = targetCenter[1] - currentCoords[1];
+    // Move every position along the same rhumb line, which keeps sizes on
+    // the ground
+    const distance = turf.rhumbDistance(currentCenter, targetCenter, {
+      units: 'kilometers',
+    });
+    const bearing = turf.rhumbBearing(currentCenter, targetCenter);
 
-    return features.map((feature) => {
+    const moved = features.map((feature) => {
       const cloned = turf.clone(feature);
 
       if (this.options.generateNewIds) {
@@ -81,13 +123,23 @@ export class CopyFeature {
       }
 
       // Translate to new location
-      const distance = Math.sqrt(offsetLng ** 2 + offsetLat ** 2) * 111;
-      const bearing = (Math.atan2(offsetLng, offsetLat) * 180) / Math.PI;
-
       return turf.transformTranslate(cloned, distance, bearing, {
         units: 'kilometers',
+        mutate: true,
       });
     });
+
+    // Positions at other latitudes drift a little along the rhumb line; shift
+    // the result so its center lands exactly on the target
+    const [lng, lat] = turf.centroid(turf.featureCollection(moved)).geometry
+      .coordinates;
+    const [dLng, dLat] = [targetCenter[0] - lng, targetCenter[1] - lat];
+    turf.coordEach(turf.featureCollection(moved), (coord) => {
+      coord[0] += dLng;
+      coord[1] += dLat;
+    });
+
+    return moved;
   }
 
   /**
@@ -103,4 +155,163 @@ export class CopyFeature {
   getOffset(): [number, number] {
     return this.options.offset;
   }
+
+  /**
+   * Set an [east, north] offset in meters that replaces the degree offset,
+   * or null to go back to the degree offset
+   */
+  setOffsetMeters(offset: [number, number] | null): void {
+    this.offsetMeters = offset;
+  }
+
+  /**
+   * Get the metric offset, if one is set
+   */
+  getOffsetMeters(): [number, number] | null {
+    return this.offsetMeters;
+  }
+
+  /**
+   * Let the user place copies of features with the mouse.
+   *
+   * A ghost of the features, centered on the cursor, follows the mouse until
+   * a click places them; a right-click or `cancelPlacement` cancels. The
+   * copies are made with `copyToLocation` at the clicked position.
+   *
+   * @param features - Features to place
+   * @param onPlace - Receives the copies at the clicked position
+   * @param start - Where to show the ghost before the mouse moves
+   */
+  startPlacement(
+    features: Feature[],
+    onPlace: (placed: Feature[]) => void,
+    start?: [number, number]
+  ): void {
+    this.cancelPlacement();
+    if (!this.map || features.length === 0) return;
+
+    this.placementFeatures = features;
+    this.onPlaceCallback = onPlace;
+    this.setupPlacementLayers();
+    if (start) this.updatePlacementPreview(start);
+
+    this.handleMouseMove = (e) =>
+      this.updatePlacementPreview([e.lngLat.lng, e.lngLat.lat]);
+    this.handleClick = (e) => {
+      const placed = this.copyToLocation(this.placementFeatures, [
+        e.lngLat.lng,
+        e.lngLat.lat,
+      ]);
+      const callback = this.onPlaceCallback;
+      this.cancelPlacement();
+      callback?.(placed);
+    };
+    this.handleContextMenu = (e) => {
+      e.preventDefault();
+      this.cancelPlacement();
+    };
+
+    this.map.on('mousemove', this.handleMouseMove);
+    this.map.on('click', this.handleClick);
+    this.map.on('contextmenu', this.handleContextMenu);
+    this.map.getCanvas().style.cursor = 'copy';
+  }
+
+  /**
+   * Stop an interactive placement without placing anything
+   */
+  cancelPlacement(): void {
+    if (!this.isPlacing()) return;
+
+    if (this.map) {
+      if (this.handleMouseMove) this.map.off('mousemove', this.handleMouseMove);
+      if (this.handleClick) this.map.off('click', this.handleClick);
+      if (this.handleContextMenu) {
+        this.map.off('contextmenu', this.handleContextMenu);
+      }
+      this.map.getCanvas().style.cursor = '';
+      this.setPlacementData([]);
+    }
+
+    this.handleMouseMove = null;
+    this.handleClick = null;
+    this.handleContextMenu = null;
+    this.placementFeatures = [];
+    this.onPlaceCallback = null;
+  }
+
+  /**
+   * Check if an interactive placement is in progress
+   */
+  isPlacing(): boolean {
+    return this.onPlaceCallback !== null;
+  }
+
+  private updatePlacementPreview(center: [number, number]): void {
+    this.setPlacementData(this.copyToLocation(this.placementFeatures, center));
+  }
+
+  private setPlacementData(features: Feature[]): void {
+    const source = this.map?.getSource(INTERNAL_IDS.PASTE_PREVIEW_SOURCE) as
+      | GeoJSONSource
+      | undefined;
+    source?.setData(turf.featureCollection(features));
+  }
+
+  /**
+   * Setup map layers for the placement ghost
+   */
+  private setupPlacementLayers(): void {
+    if (!this.map) return;
+
+    if (!this.map.getSource(INTERNAL_IDS.PASTE_PREVIEW_SOURCE)) {
+      this.map.addSource(INTERNAL_IDS.PASTE_PREVIEW_SOURCE, {
+        type: 'geojson',
+        data: turf.featureCollection([]),
+      });
+    }
+
+    if (!this.map.getLayer(INTERNAL_IDS.PASTE_PREVIEW_FILL_LAYER)) {
+      this.map.addLayer({
+        id: INTERNAL_IDS.PASTE_PREVIEW_FILL_LAYER,
+        type: 'fill',
+        source: INTERNAL_IDS.PASTE_PREVIEW_SOURCE,
+        filter: ['match', ['geometry-type'], ['Polygon', 'MultiPolygon'], true, false],
+        paint: {
+          'fill-color': '#3388ff',
+          'fill-opacity': 0.15,
+        },
+      });
+    }
+
+    if (!this.map.getLayer(INTERNAL_IDS.PASTE_PREVIEW_LINE_LAYER)) {
+      this.map.addLayer({
+        id: INTERNAL_IDS.PASTE_PREVIEW_LINE_LAYER,
+        type: 'line',
+        source: INTERNAL_IDS.PASTE_PREVIEW_SOURCE,
+        filter: ['!=', ['geometry-type'], 'Point'],
+        paint: {
+          'line-color': '#3388ff',
+          'line-width': 2,
+          'line-dasharray': [2, 2],
+        },
+      });
+    }
+
+    if (!this.map.getLayer(INTERNAL_IDS.PASTE_PREVIEW_CIRCLE_LAYER)) {
+      this.map.addLayer({
+        id: INTERNAL_IDS.PASTE_PREVIEW_CIRCLE_LAYER,
+        type: 'circle',
+        source: INTERNAL_IDS.PASTE_PREVIEW_SOURCE,
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: {
+          'circle-radius': 6,
+          'circle-color': '#3388ff',
+          'circle-opacity': 0.4,
+          'circle-stroke-color': '#3388ff',
+          'circle-stroke-width': 2,
+        },
+      });
+    }
+  }
 }
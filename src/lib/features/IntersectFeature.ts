@@ -0,0 +1,213 @@
+import type {
+  Feature,
+  LineString,
+  MultiPolygon,
+  Polygon,
+  Position,
+} from 'geojson';
+import * as turf from '@turf/turf';
+import type {
+  ClipResult,
+  IntersectOptions,
+  IntersectResult,
+} from '../core/types';
+import { generateFeatureId } from '../utils/geometryUtils';
+
+/**
+ * Handles polygon intersection, and clipping features to a mask polygon
+ */
+export class IntersectFeature {
+  /**
+   * Intersect polygons: the area they all share
+   */
+  intersect(
+    features: Feature<Polygon | MultiPolygon>[],
+    options?: IntersectOptions
+  ): IntersectResult {
+    if (features.length < 2) {
+      return {
+        result: null,
+        originals: features,
+        success: false,
+        error: 'Need at least 2 polygons to intersect',
+      };
+    }
+
+    try {
+      let result: Feature<Polygon | MultiPolygon> | null = turf.clone(
+        features[0]
+      );
+      for (const poly of features.slice(1)) {
+        if (!result) break;
+
+        const collection = turf.featureCollection([result, poly]);
+        result = turf.intersect(collection, {
+          properties: result.properties,
+        }) as Feature<Polygon | MultiPolygon> | null;
+      }
+
+      if (result) {
+        result.id = generateFeatureId();
+        if (options?.properties) {
+          result.properties = { ...result.properties, ...options.properties };
+        }
+      }
+
+      return {
+        result,
+        originals: features,
+        success: result !== null,
+        error: result === null ? 'Polygons do not overlap' : undefined,
+      };
+    } catch (error) {
+      return {
+        result: null,
+        originals: features,
+        success: false,
+        error: `Intersect operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Clip polygons, lines and points to a mask polygon, keeping the parts
+   * inside it. Features entirely inside the mask are returned as they are.
+   */
+  clip(
+    features: Feature[],
+    mask: Feature<Polygon | MultiPolygon>
+  ): ClipResult {
+    if (features.length === 0) {
+      return {
+        mask,
+        originals: [],
+        results: [],
+        success: false,
+        error: 'No features provided',
+      };
+    }
+
+    try {
+      const results = features.map((feature) =>
+        this.clipFeature(feature, mask)
+      );
+      return {
+        mask,
+        originals: features,
+        results,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        mask,
+        originals: features,
+        results: [],
+        success: false,
+        error: `Clip operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * The part of one feature inside the mask
+   */
+  private clipFeature(
+    feature: Feature,
+    mask: Feature<Polygon | MultiPolygon>
+  ): Feature | null {
+    const geometry = feature.geometry;
+    if (!geometry) return null;
+
+    switch (geometry.type) {
+      case 'Point':
+      case 'MultiPoint': {
+        const points = turf
+          .coordAll(feature)
+          .filter((point) => turf.booleanPointInPolygon(point, mask));
+        if (points.length === 0) return null;
+        if (points.length === turf.coordAll(feature).length) return feature;
+        return this.clipped(
+          feature,
+          points.length === 1
+            ? turf.point(points[0])
+            : turf.multiPoint(points)
+        );
+      }
+      case 'LineString':
+      case 'MultiLineString': {
+        const parts =
+          geometry.type === 'LineString'
+            ? [geometry.coordinates]
+            : geometry.coordinates;
+        const inside = parts.flatMap((part) => this.clipLine(part, mask));
+        if (inside.length === 0) return null;
+        if (
+          inside.length === parts.length &&
+          inside.every((part, index) => this.sameLine(part, parts[index]))
+        ) {
+          return feature;
+        }
+        return this.clipped(
+          feature,
+          inside.length === 1
+            ? turf.lineString(inside[0])
+            : turf.multiLineString(inside)
+        );
+      }
+      case 'Polygon':
+      case 'MultiPolygon': {
+        const polygon = feature as Feature<Polygon | MultiPolygon>;
+        if (turf.booleanWithin(polygon, mask)) return feature;
+        const result = turf.intersect(turf.featureCollection([polygon, mask]));
+        return result ? this.clipped(feature, result) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Pieces of a line inside the mask; a line that does not leave the mask is
+   * returned as it is
+   */
+  private clipLine(
+    coordinates: Position[],
+    mask: Feature<Polygon | MultiPolygon>
+  ): Position[][] {
+    const line = turf.lineString(coordinates);
+    const pieces = turf.lineSplit(line, mask).features;
+    if (pieces.length === 0) {
+      return turf.booleanPointInPolygon(coordinates[0], mask)
+        ? [coordinates]
+        : [];
+    }
+
+    const inside = pieces.filter((piece: Feature<LineString>) => {
+      const middle = turf.along(piece, turf.length(piece) / 2);
+      return turf.booleanPointInPolygon(middle, mask);
+    });
+    // A line that only touches the boundary from inside stays whole
+    if (inside.length === pieces.length) return [coordinates];
+    return inside.map(
+      (piece: Feature<LineString>) => piece.geometry.coordinates
+    );
+  }
+
+  private sameLine(a: Position[], b: Position[]): boolean {
+    return (
+      a.length === b.length &&
+      a.every((position, index) =>
+        position.every((value, axis) => value === b[index][axis])
+      )
+    );
+  }
+
+  private clipped(original: Feature, clipped: Feature): Feature {
+    return {
+      type: 'Feature',
+      id: generateFeatureId(),
+      properties: { ...original.properties },
+      geometry: clipped.geometry,
+    };
+  }
+}
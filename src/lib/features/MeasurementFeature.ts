@@ -0,0 +1,232 @@
+import type { Feature } from 'geojson';
+import type { GeoJSONSource, Map as MapLibreMap } from 'maplibre-gl';
+import * as turf from '@turf/turf';
+import type {
+  MapEventAdjuster,
+  Measurement,
+  MeasurementUnits,
+} from '../core/types';
+import { INTERNAL_IDS } from '../core/constants';
+import { buildMeasurementLabels, measureFeature } from '../core/measurements';
+
+/** Map events after which the shapes being drawn or edited may have changed */
+const REFRESH_EVENTS = new Set([
+  'mousedown',
+  'mouseup',
+  'mousemove',
+  'click',
+  'dblclick',
+  'contextmenu',
+]);
+
+export interface MeasurementFeatureOptions {
+  /** Unit system of the labels (default: 'metric') */
+  units?: MeasurementUnits;
+  /** Lines and polygons currently being drawn or edited */
+  getFeatures: () => Feature[];
+  /** Called with the new measurements whenever they change */
+  onChange?: (measurements: Measurement[]) => void;
+}
+
+/**
+ * Shows segment lengths, total length, and polygon area and perimeter of the
+ * shapes being drawn or edited.
+ *
+ * Measurements are refreshed after each map mouse event has been handled and
+ * after geoman's draw and edit events, so the labels follow geoman's draw and
+ * vertex edit modes without hooking into them. Nothing is measured while the
+ * overlay is off.
+ */
+export class MeasurementFeature implements MapEventAdjuster {
+  private map: MapLibreMap | null = null;
+  private enabled: boolean = false;
+  private units: MeasurementUnits;
+  private getFeatures: () => Feature[];
+  private onChange?: (measurements: Measurement[]) => void;
+  private measurements: Measurement[] = [];
+  private measured: Feature[] = [];
+
+  constructor(options: MeasurementFeatureOptions) {
+    this.units = options.units ?? 'metric';
+    this.getFeatures = options.getFeatures;
+    this.onChange = options.onChange;
+  }
+
+  /**
+   * Initialize with map instance
+   */
+  init(map: MapLibreMap): void {
+    this.map = map;
+  }
+
+  /**
+   * Measure once a map event has been handled, when geoman has updated the
+   * shapes
+   */
+  afterFire(event: unknown): void {
+    if (this.enabled && isRefreshEvent(event)) this.refresh();
+  }
+
+  /**
+   * Measure after a geoman draw or edit event, which may have started,
+   * finished or cancelled a shape
+   */
+  afterGeomanEvent(event: unknown): void {
+    if (this.enabled && isShapeEvent(event)) this.refresh();
+  }
+
+  /**
+   * Turn the measurement overlay on or off
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.refresh();
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Set the unit system of the labels
+   */
+  setUnits(units: MeasurementUnits): void {
+    this.units = units;
+    this.render();
+  }
+
+  getUnits(): MeasurementUnits {
+    return this.units;
+  }
+
+  /**
+   * The current measurements, one per shape being drawn or edited
+   */
+  getMeasurements(): Measurement[] {
+    return this.measurements;
+  }
+
+  /**
+   * Measure the shapes being drawn or edited again
+   */
+  refresh(): void {
+    const measured: Feature[] = [];
+    const measurements: Measurement[] = [];
+    if (this.enabled) {
+      this.getFeatures().forEach((feature) => {
+        const measurement = measureFeature(feature);
+        if (!measurement) return;
+        measured.push(feature);
+        measurements.push(measurement);
+      });
+    }
+
+    const changed =
+      JSON.stringify(measurements) !== JSON.stringify(this.measurements);
+    this.measured = measured;
+    this.measurements = measurements;
+    if (!changed) return;
+
+    this.render();
+    this.onChange?.(measurements);
+  }
+
+  /**
+   * Draw the labels of the current measurements
+   */
+  private render(): void {
+    if (!this.map) return;
+
+    if (this.measurements.length > 0) this.setupLabelLayer();
+    const source = this.map.getSource(INTERNAL_IDS.MEASUREMENT_SOURCE) as
+      | GeoJSONSource
+      | undefined;
+    source?.setData(
+      turf.featureCollection(
+        this.measurements.flatMap((measurement, index) =>
+          buildMeasurementLabels(this.measured[index], measurement, this.units)
+        )
+      )
+    );
+  }
+
+  /**
+   * Setup map layer for the measurement labels
+   */
+  private setupLabelLayer(): void {
+    if (!this.map) return;
+
+    if (!this.map.getSource(INTERNAL_IDS.MEASUREMENT_SOURCE)) {
+      this.map.addSource(INTERNAL_IDS.MEASUREMENT_SOURCE, {
+        type: 'geojson',
+        data: turf.featureCollection([]),
+      });
+    }
+
+    if (!this.map.getLayer(INTERNAL_IDS.MEASUREMENT_LAYER)) {
+      this.map.addLayer({
+        id: INTERNAL_IDS.MEASUREMENT_LAYER,
+        type: 'symbol',
+        source: INTERNAL_IDS.MEASUREMENT_SOURCE,
+        layout: {
+          'text-field': ['get', 'label'],
+          'text-size': ['match', ['get', 'kind'], 'total', 13, 11],
+          'text-offset': [
+            'match',
+            ['get', 'kind'],
+            'total',
+            ['literal', [0, 0]],
+            ['literal', [0, -1]],
+          ],
+          'text-allow-overlap': true,
+          'text-ignore-placement': true,
+        },
+        paint: {
+          'text-color': '#1f2937',
+          'text-halo-color': '#ffffff',
+          'text-halo-width': 2,
+        },
+      });
+    }
+  }
+
+  /**
+   * Remove the measurement labels from the map
+   */
+  removeLayers(): void {
+    if (!this.map) return;
+
+    if (this.map.getLayer(INTERNAL_IDS.MEASUREMENT_LAYER)) {
+      this.map.removeLayer(INTERNAL_IDS.MEASUREMENT_LAYER);
+    }
+    if (this.map.getSource(INTERNAL_IDS.MEASUREMENT_SOURCE)) {
+      this.map.removeSource(INTERNAL_IDS.MEASUREMENT_SOURCE);
+    }
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.removeLayers();
+    this.measurements = [];
+    this.measured = [];
+    this.map = null;
+  }
+}
+
+function isRefreshEvent(event: unknown): boolean {
+  return (
+    !!event &&
+    typeof event === 'object' &&
+    REFRESH_EVENTS.has((event as { type?: string }).type ?? '')
+  );
+}
+
+function isShapeEvent(event: unknown): boolean {
+  const actionType =
+    !!event && typeof event === 'object'
+      ? (event as { actionType?: string }).actionType
+      : undefined;
+  return actionType === 'draw' || actionType === 'edit';
+}
@@ -0,0 +1,295 @@
+import type { Feature } from 'geojson';
+import type { GeoJSONSource, Map as MapLibreMap } from 'maplibre-gl';
+import * as turf from '@turf/turf';
+import type { MapEventAdjuster, SnapTarget, SnapType } from '../core/types';
+import { INTERNAL_IDS } from '../core/constants';
+import {
+  buildSnapCandidates,
+  findSnapTarget,
+  type SnapCandidate,
+  type SnapProjection,
+  SNAP_TYPES,
+} from '../core/snapping';
+
+/** Map mouse events whose position is snapped */
+const SNAPPED_EVENTS = new Set([
+  'mousedown',
+  'mouseup',
+  'mousemove',
+  'click',
+  'dblclick',
+  'contextmenu',
+]);
+
+export interface SnappingFeatureOptions {
+  /** Snap distance in pixels (default: 12) */
+  tolerance?: number;
+  /** What to snap to (default: all snap types) */
+  types?: SnapType[];
+  /** Features that can be snapped to */
+  getFeatures: () => Feature[];
+  /** Whether a mode that takes positions from the mouse is active */
+  isActive: () => boolean;
+}
+
+interface SnappableEvent {
+  type: string;
+  lngLat: { lng: number; lat: number };
+  point: { x: number; y: number };
+}
+
+/**
+ * Snaps the mouse to vertices, intersections, midpoints and edges of existing
+ * features.
+ *
+ * Map mouse events are adjusted before any listener sees them (the editor
+ * calls `beforeFire` from its `map.fire` hook), so geoman's draw, change and
+ * drag modes and our own split and freehand modes all get snapped positions
+ * without knowing about snapping. A marker on the map shows the current snap
+ * target.
+ */
+export class SnappingFeature implements MapEventAdjuster {
+  private map: MapLibreMap | null = null;
+  private enabled: boolean = false;
+  private tolerance: number;
+  private types: SnapType[];
+  private getFeatures: () => Feature[];
+  private isActive: () => boolean;
+  private candidates: SnapCandidate[] | null = null;
+  private excludedIds = new Set<string>();
+  private currentTarget: SnapTarget | null = null;
+
+  constructor(options: SnappingFeatureOptions) {
+    this.tolerance = options.tolerance ?? 12;
+    this.types = options.types ?? SNAP_TYPES;
+    this.getFeatures = options.getFeatures;
+    this.isActive = options.isActive;
+  }
+
+  /**
+   * Initialize with map instance
+   */
+  init(map: MapLibreMap): void {
+    this.map = map;
+  }
+
+  /**
+   * Turn snapping on or off
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) this.showTarget(null);
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Set the snap distance in pixels
+   */
+  setTolerance(tolerance: number): void {
+    this.tolerance = tolerance;
+  }
+
+  getTolerance(): number {
+    return this.tolerance;
+  }
+
+  /**
+   * Set what to snap to
+   */
+  setTypes(types: SnapType[]): void {
+    this.types = types;
+  }
+
+  getTypes(): SnapType[] {
+    return this.types;
+  }
+
+  /**
+   * Forget the cached features; call after features change
+   */
+  invalidate(): void {
+    this.candidates = null;
+  }
+
+  /**
+   * Stop snapping to a feature, e.g. the one being edited, or to no feature
+   * any more when `id` is null
+   */
+  exclude(id: string | number | null): void {
+    if (id === null) {
+      this.excludedIds.clear();
+    } else {
+      this.excludedIds.add(String(id));
+    }
+  }
+
+  /**
+   * The snap target under the cursor, if any
+   */
+  getCurrentTarget(): SnapTarget | null {
+    return this.currentTarget;
+  }
+
+  /**
+   * Find the snap target for a map position, regardless of the active mode
+   */
+  snap(lngLat: [number, number]): SnapTarget | null {
+    const projection = this.getProjection();
+    if (!projection) return null;
+
+    const candidates = this.getCandidates().filter(
+      (candidate) =>
+        candidate.featureId === undefined ||
+        !this.excludedIds.has(String(candidate.featureId))
+    );
+    return findSnapTarget(
+      candidates,
+      projection.project(lngLat),
+      projection,
+      this.tolerance,
+      this.types
+    );
+  }
+
+  /**
+   * Snap a map mouse event in place
+   */
+  beforeFire(event: unknown): void {
+    if (!this.enabled || !this.map || !isSnappableEvent(event)) return;
+
+    if (!this.isActive()) {
+      this.showTarget(null);
+      return;
+    }
+
+    // A gesture ending may have changed the features
+    if (event.type === 'mousedown') this.invalidate();
+
+    const target = this.snap([event.lngLat.lng, event.lngLat.lat]);
+    if (target) {
+      event.lngLat.lng = target.lngLat[0];
+      event.lngLat.lat = target.lngLat[1];
+      event.point = this.map.project(target.lngLat);
+    }
+    if (event.type === 'mousemove' || event.type === 'mousedown') {
+      this.showTarget(target);
+    }
+  }
+
+  private getCandidates(): SnapCandidate[] {
+    if (!this.candidates) {
+      this.candidates = buildSnapCandidates(this.getFeatures());
+    }
+    return this.candidates;
+  }
+
+  private getProjection(): SnapProjection | null {
+    const map = this.map;
+    if (!map) return null;
+    return {
+      project: (lngLat) => {
+        const point = map.project(lngLat);
+        return [point.x, point.y];
+      },
+      unproject: (point) => {
+        const lngLat = map.unproject(point);
+        return [lngLat.lng, lngLat.lat];
+      },
+    };
+  }
+
+  /**
+   * Show the snap indicator at a target, or hide it
+   */
+  private showTarget(target: SnapTarget | null): void {
+    if (!this.map || this.currentTarget === target) return;
+    this.currentTarget = target;
+
+    if (target) this.setupIndicatorLayer();
+    const source = this.map.getSource(INTERNAL_IDS.SNAP_INDICATOR_SOURCE) as
+      | GeoJSONSource
+      | undefined;
+    source?.setData(
+      turf.featureCollection(
+        target ? [turf.point(target.lngLat, { type: target.type })] : []
+      )
+    );
+  }
+
+  /**
+   * Setup map layer for the snap indicator
+   */
+  private setupIndicatorLayer(): void {
+    if (!this.map) return;
+
+    if (!this.map.getSource(INTERNAL_IDS.SNAP_INDICATOR_SOURCE)) {
+      this.map.addSource(INTERNAL_IDS.SNAP_INDICATOR_SOURCE, {
+        type: 'geojson',
+        data: turf.featureCollection([]),
+      });
+    }
+
+    if (!this.map.getLayer(INTERNAL_IDS.SNAP_INDICATOR_LAYER)) {
+      this.map.addLayer({
+        id: INTERNAL_IDS.SNAP_INDICATOR_LAYER,
+        type: 'circle',
+        source: INTERNAL_IDS.SNAP_INDICATOR_SOURCE,
+        paint: {
+          'circle-radius': ['match', ['get', 'type'], 'vertex', 6, 5],
+          'circle-color': '#ffffff',
+          'circle-opacity': 0.8,
+          'circle-stroke-width': 2,
+          'circle-stroke-color': [
+            'match',
+            ['get', 'type'],
+            'vertex',
+            '#ff00ff',
+            'intersection',
+            '#ff6600',
+            'midpoint',
+            '#00aaff',
+            '#00cc66',
+          ],
+        },
+      });
+    }
+  }
+
+  /**
+   * Remove the snap indicator from the map
+   */
+  removeLayers(): void {
+    if (!this.map) return;
+
+    if (this.map.getLayer(INTERNAL_IDS.SNAP_INDICATOR_LAYER)) {
+      this.map.removeLayer(INTERNAL_IDS.SNAP_INDICATOR_LAYER);
+    }
+    if (this.map.getSource(INTERNAL_IDS.SNAP_INDICATOR_SOURCE)) {
+      this.map.removeSource(INTERNAL_IDS.SNAP_INDICATOR_SOURCE);
+    }
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.removeLayers();
+    this.currentTarget = null;
+    this.candidates = null;
+    this.map = null;
+  }
+}
+
+function isSnappableEvent(event: unknown): event is SnappableEvent {
+  if (!event || typeof event !== 'object') return false;
+  const candidate = event as Partial<SnappableEvent>;
+  return (
+    typeof candidate.type === 'string' &&
+    SNAPPED_EVENTS.has(candidate.type) &&
+    typeof candidate.lngLat?.lng === 'number' &&
+    typeof candidate.point?.x === 'number'
+  );
+}
@@ -1,31 +1,47 @@
 import type {
   Feature,
   Polygon,
+  MultiPolygon,
   LineString,
+  MultiLineString,
+  Point,
   Position,
 } from 'geojson';
 import type { Map as MapLibreMap, MapMouseEvent, GeoJSONSource } from 'maplibre-gl';
 import * as turf from '@turf/turf';
-import type { SplitOptions, SplitResult } from '../core/types';
+import type { SplitOptions, SplitResult, SplitTool } from '../core/types';
 import { INTERNAL_IDS } from '../core/constants';
 import { generateFeatureId } from '../utils/geometryUtils';
 
+type SplitPolygon = Feature<Polygon | MultiPolygon>;
+type SplitLine = Feature<LineString | MultiLineString>;
+type SplitTarget = Feature<Polygon | MultiPolygon | LineString | MultiLineString>;
+
+/** Intersections closer than this (in degrees) to a vertex snap onto it */
+const NODE_TOLERANCE = 1e-12;
+
+/** How close, in pixels, a click must be to a line to split it there */
+const POINT_TOLERANCE = 12;
+
 /**
  * Handles splitting of polygons and lines
  */
 export class SplitFeature {
   private map: MapLibreMap | null = null;
   private isDrawing: boolean = false;
+  private tool: SplitTool;
   private splitLinePoints: Position[] = [];
-  private targetFeature: Feature<Polygon | LineString> | null = null;
-  private onCompleteCallback: ((result: SplitResult) => void) | null = null;
+  private targetFeatures: SplitTarget[] = [];
+  private onCompleteCallback: ((results: SplitResult[]) => void) | null = null;
 
   // Bound event handlers
   private handleClick: ((e: MapMouseEvent) => void) | null = null;
   private handleMouseMove: ((e: MapMouseEvent) => void) | null = null;
   private handleDblClick: ((e: MapMouseEvent) => void) | null = null;
 
-  constructor() {}
+  constructor(options: SplitOptions = {}) {
+    this.tool = options.tool ?? 'line';
+  }
 
   /**
    * Initialize with map instance
@@ -35,58 +51,39 @@ export class SplitFeature {
   }
 
   /**
-   * Split a polygon with a line
+   * Split a polygon or multipolygon with a line into every face the line
+   * cuts it into. The line may cross the polygon any number of times, cross
+   * itself, and run through holes; holes that are not cut are kept.
    */
   splitPolygon(
-    polygon: Feature<Polygon>,
-    splitter: Feature<LineString>,
+    polygon: SplitPolygon,
+    splitter: SplitLine,
     _options?: SplitOptions
   ): SplitResult {
     try {
-      // Get intersection points
-      const polygonLine = turf.polygonToLine(polygon);
-      const intersections = turf.lineIntersect(
-        polygonLine as Feature<LineString>,
-        splitter
+      const polygons =
+        polygon.geometry.type === 'Polygon'
+          ? [polygon.geometry.coordinates]
+          : polygon.geometry.coordinates;
+      const faces = this.buildFaces([
+        ...polygons.flat(),
+        ...this.linesOf(splitter),
+      ]).filter((face) =>
+        turf.booleanPointInPolygon(this.interiorPoint(face), polygon)
       );
 
-      if (intersections.features.length < 2) {
-        return {
-          original: polygon,
-          parts: [],
-          success: false,
-          error: 'Splitting line must intersect polygon at least twice',
-        };
-      }
-
-      // Clip splitter to polygon
-      const clipped = this.clipLineToBbox(splitter, turf.bbox(polygon) as [number, number, number, number]);
-      if (!clipped) {
+      if (faces.length <= polygons.length) {
         return {
           original: polygon,
           parts: [],
           success: false,
-          error: 'Could not clip splitting line to polygon',
+          error: 'Splitting line must cross the polygon',
         };
       }
 
-      // Perform the split using a different approach
-      const parts = this.performPolygonSplit(polygon, splitter);
-
-      if (parts.length === 0) {
-        return {
-          original: polygon,
-          parts: [],
-          success: false,
-          error: 'Split operation produced no valid parts',
-        };
-      }
-
-      // Assign new IDs to parts
-      parts.forEach((part) => {
-        part.id = generateFeatureId();
-        part.properties = { ...polygon.properties };
-      });
+      const parts = faces.map((face) =>
+        turf.polygon(face, { ...polygon.properties }, { id: generateFeatureId() })
+      );
 
       return {
         original: polygon,
@@ -104,16 +101,19 @@ export class SplitFeature {
   }
 
   /**
-   * Split a line with a point or another line
+   * Split a line or multiline with a line, at every point where they cross
    */
   splitLine(
-    line: Feature<LineString>,
-    splitter: Feature<LineString>
+    line: SplitLine,
+    splitter: SplitLine
   ): SplitResult {
     try {
-      const result = turf.lineSplit(line, splitter as Parameters<typeof turf.lineSplit>[1]);
+      const lines = this.linesOf(line);
+      const pieces = lines.flatMap((coordinates) =>
+        turf.lineSplit(turf.lineString(coordinates), splitter).features
+      );
 
-      if (result.features.length <= 1) {
+      if (pieces.length <= lines.length) {
         return {
           original: line,
           parts: [],
@@ -122,7 +122,7 @@ export class SplitFeature {
         };
       }
 
-      const parts = result.features.map((f) => {
+      const parts = pieces.map((f) => {
         const feature = f as Feature<LineString>;
         feature.id = generateFeatureId();
         feature.properties = { ...line.properties };
@@ -145,16 +145,312 @@ export class SplitFeature {
   }
 
   /**
-   * Start interactive split mode
+   * Split a line or multiline at the point on it nearest to `position`. The
+   * new vertex lies on the straight segment, so the line keeps its shape.
+   */
+  splitLineAtPoint(line: SplitLine, position: Position): SplitResult {
+    const lines = this.linesOf(line);
+    let split: { part: number; index: number; point: Position } | null = null;
+    let nearest = Infinity;
+    for (const [part, coordinates] of lines.entries()) {
+      for (let index = 0; index < coordinates.length - 1; index++) {
+        const point = this.nearestOnSegment(
+          position,
+          coordinates[index],
+          coordinates[index + 1]
+        );
+        const distance = Math.hypot(
+          point[0] - position[0],
+          point[1] - position[1]
+        );
+        if (distance < nearest) {
+          nearest = distance;
+          split = { part, index, point };
+        }
+      }
+    }
+
+    if (!split) {
+      return {
+        original: line,
+        parts: [],
+        success: false,
+        error: 'Line has no vertices',
+      };
+    }
+
+    const coordinates = lines[split.part];
+    // A point that only misses a vertex by rounding splits at the vertex
+    const point =
+      coordinates
+        .slice(split.index, split.index + 2)
+        .find((vertex) => this.nearPosition(vertex, split.point)) ??
+      split.point;
+    const before = [...coordinates.slice(0, split.index + 1), point];
+    const after = [point, ...coordinates.slice(split.index + 1)];
+    const pieces = [before, after]
+      .map((piece) =>
+        piece.filter(
+          (position, index) =>
+            index === 0 || !this.samePosition(position, piece[index - 1])
+        )
+      )
+      .filter((piece) => piece.length >= 2);
+    if (pieces.length < 2) {
+      return {
+        original: line,
+        parts: [],
+        success: false,
+        error: 'Cannot split a line at its end',
+      };
+    }
+
+    const parts = [
+      ...lines.slice(0, split.part),
+      ...pieces,
+      ...lines.slice(split.part + 1),
+    ].map((coordinates) =>
+      turf.lineString(coordinates, { ...line.properties }, { id: generateFeatureId() })
+    );
+
+    return {
+      original: line,
+      parts,
+      success: true,
+    };
+  }
+
+  /**
+   * Split a polygon with another polygon into the piece inside it and the
+   * piece outside it
+   */
+  splitPolygonByPolygon(
+    polygon: SplitPolygon,
+    cutter: SplitPolygon
+  ): SplitResult {
+    try {
+      const inside = turf.intersect(turf.featureCollection([polygon, cutter]));
+      const outside = turf.difference(turf.featureCollection([polygon, cutter]));
+
+      if (!inside || !outside) {
+        return {
+          original: polygon,
+          parts: [],
+          success: false,
+          error: 'Cutting polygon must partly overlap the polygon',
+        };
+      }
+
+      const parts = [inside, outside].map((piece) => {
+        piece.id = generateFeatureId();
+        piece.properties = { ...polygon.properties };
+        return piece;
+      });
+
+      return {
+        original: polygon,
+        parts,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        original: polygon,
+        parts: [],
+        success: false,
+        error: `Split operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Divide a polygon into `count` parts of equal area with parallel cuts
+   * running along `bearing` (degrees clockwise from north). A part the cuts
+   * leave in several pieces becomes a MultiPolygon.
+   */
+  splitPolygonEqually(
+    polygon: SplitPolygon,
+    count: number,
+    bearing: number = 0
+  ): SplitResult {
+    if (!Number.isInteger(count) || count < 2) {
+      return {
+        original: polygon,
+        parts: [],
+        success: false,
+        error: 'Number of parts must be a whole number of at least 2',
+      };
+    }
+
+    // Local frame in which the cuts are vertical: x runs across them
+    const [lng0, lat0] = turf.centroid(polygon).geometry.coordinates;
+    const scale = Math.cos((lat0 * Math.PI) / 180);
+    const angle = (bearing * Math.PI) / 180;
+    const [sin, cos] = [Math.sin(angle), Math.cos(angle)];
+    const toLocal = ([lng, lat]: Position): Position => {
+      const x = (lng - lng0) * scale;
+      const y = lat - lat0;
+      return [x * cos - y * sin, x * sin + y * cos];
+    };
+    const fromLocal = ([u, v]: Position): Position => [
+      lng0 + (u * cos + v * sin) / scale,
+      lat0 - u * sin + v * cos,
+    ];
+
+    const polygons =
+      polygon.geometry.type === 'Polygon'
+        ? [polygon.geometry.coordinates]
+        : polygon.geometry.coordinates;
+    const local = turf.multiPolygon(
+      polygons.map((rings) => rings.map((ring) => ring.map(toLocal)))
+    );
+    const [minX, minY, maxX, maxY] = turf.bbox(local);
+    const areaLeftOf = (x: number) =>
+      this.planarArea(
+        turf.bboxClip(local, [minX, minY, x, maxY]).geometry as Polygon | MultiPolygon
+      );
+    const total = this.planarArea(local.geometry);
+
+    // Bisect for the cut positions leaving k / count of the area on the left
+    const cuts: number[] = [];
+    for (let k = 1; k < count; k++) {
+      let [low, high] = [cuts[k - 2] ?? minX, maxX];
+      for (let i = 0; i < 60; i++) {
+        const middle = (low + high) / 2;
+        if (areaLeftOf(middle) < (total * k) / count) low = middle;
+        else high = middle;
+      }
+      cuts.push((low + high) / 2);
+    }
+
+    const margin = (maxY - minY) / 2 + 1e-9;
+    const splitter = turf.multiLineString(
+      cuts.map((x) => [fromLocal([x, minY - margin]), fromLocal([x, maxY + margin])])
+    );
+    const faces = this.buildFaces([
+      ...polygons.flat(),
+      ...this.linesOf(splitter),
+    ]).filter((face) =>
+      turf.booleanPointInPolygon(this.interiorPoint(face), polygon)
+    );
+
+    const strips: Position[][][][] = cuts.map(() => []).concat([[]]);
+    faces.forEach((face) => {
+      const [x] = toLocal(this.interiorPoint(face));
+      strips[cuts.filter((cut) => cut < x).length].push(face);
+    });
+    if (strips.some((strip) => strip.length === 0)) {
+      return {
+        original: polygon,
+        parts: [],
+        success: false,
+        error: 'Could not divide the polygon into equal parts',
+      };
+    }
+
+    const parts = strips.map((strip) =>
+      strip.length === 1
+        ? turf.polygon(strip[0], { ...polygon.properties }, { id: generateFeatureId() })
+        : turf.multiPolygon(strip, { ...polygon.properties }, { id: generateFeatureId() })
+    );
+
+    return {
+      original: polygon,
+      parts,
+      success: true,
+    };
+  }
+
+  /**
+   * Split several polygons and lines with one cut line, cutting polygon or
+   * point. Polygons cannot be split at a point.
+   *
+   * @returns One result per feature, in the same order
+   */
+  splitFeatures(
+    features: SplitTarget[],
+    splitter: Feature<LineString | MultiLineString | Polygon | MultiPolygon | Point>,
+    options?: SplitOptions
+  ): SplitResult[] {
+    return features.map((feature) => {
+      const isPolygon =
+        feature.geometry.type === 'Polygon' ||
+        feature.geometry.type === 'MultiPolygon';
+
+      switch (splitter.geometry.type) {
+        case 'Point':
+          return isPolygon
+            ? {
+                original: feature,
+                parts: [],
+                success: false,
+                error: 'Only lines can be split at a point',
+              }
+            : this.splitLineAtPoint(
+                feature as SplitLine,
+                splitter.geometry.coordinates
+              );
+        case 'Polygon':
+        case 'MultiPolygon':
+          return isPolygon
+            ? this.splitPolygonByPolygon(
+                feature as SplitPolygon,
+                splitter as SplitPolygon
+              )
+            : this.splitLine(
+                feature as SplitLine,
+                turf.polygonToLine(splitter as SplitPolygon) as SplitLine
+              );
+        default:
+          return isPolygon
+            ? this.splitPolygon(
+                feature as SplitPolygon,
+                splitter as SplitLine,
+                options
+              )
+            : this.splitLine(feature as SplitLine, splitter as SplitLine);
+      }
+    });
+  }
+
+  /**
+   * Set what the interactive split mode draws
+   */
+  setTool(tool: SplitTool): void {
+    this.tool = tool;
+  }
+
+  getTool(): SplitTool {
+    return this.tool;
+  }
+
+  /**
+   * Start interactive split mode: the line drawn next splits the feature, or
+   * every one of the features
    */
   startSplit(
-    feature: Feature<Polygon | LineString>,
+    feature: SplitTarget,
     onComplete: (result: SplitResult) => void
+  ): void;
+  startSplit(
+    features: SplitTarget[],
+    onComplete: (results: SplitResult[]) => void
+  ): void;
+  startSplit(
+    features: SplitTarget | SplitTarget[],
+    onComplete:
+      | ((result: SplitResult) => void)
+      | ((results: SplitResult[]) => void)
   ): void {
     if (!this.map) return;
 
-    this.targetFeature = feature;
-    this.onCompleteCallback = onComplete;
+    if (Array.isArray(features)) {
+      this.targetFeatures = features;
+      this.onCompleteCallback = onComplete as (results: SplitResult[]) => void;
+    } else {
+      const callback = onComplete as (result: SplitResult) => void;
+      this.targetFeatures = [features];
+      this.onCompleteCallback = ([result]) => callback(result);
+    }
     this.splitLinePoints = [];
     this.isDrawing = true;
 
@@ -169,7 +465,7 @@ export class SplitFeature {
    */
   cancelSplit(): void {
     this.cleanup();
-    this.targetFeature = null;
+    this.targetFeatures = [];
     this.onCompleteCallback = null;
   }
 
@@ -181,59 +477,267 @@ export class SplitFeature {
   }
 
   /**
-   * Perform the actual polygon split
+   * Faces of the planar graph formed by the given rings and lines, as polygon
+   * rings (outer ring first). Lines are noded at every crossing, including
+   * their own, and parts that bound no face are dropped.
    */
-  private performPolygonSplit(
-    polygon: Feature<Polygon>,
-    splitter: Feature<LineString>
-  ): Feature<Polygon>[] {
-    try {
-      // Use a cutting approach
-      // 1. Buffer the splitting line slightly
-      // 2. Compute difference to create two parts
-
-      const bufferedLine = turf.buffer(splitter, 0.00001, { units: 'degrees' });
-      if (!bufferedLine) return [];
-
-      // Get the difference (this creates a hole along the split line)
-      const collection = turf.featureCollection([polygon, bufferedLine]);
-      const withCut = turf.difference(collection);
-
-      if (!withCut) return [];
-
-      // If the result is a MultiPolygon, extract the parts
-      if (withCut.geometry.type === 'MultiPolygon') {
-        return withCut.geometry.coordinates.map((coords) => {
-          return turf.polygon(coords) as Feature<Polygon>;
-        });
+  private buildFaces(lines: Position[][]): Position[][][] {
+    // Node every segment at its intersections with every other segment
+    const segments: Array<[Position, Position]> = [];
+    lines.forEach((line) => {
+      for (let i = 1; i < line.length; i++) {
+        if (!this.samePosition(line[i - 1], line[i])) {
+          segments.push([line[i - 1], line[i]]);
+        }
+      }
+    });
+    const cuts: Array<Array<{ t: number; position: Position }>> = segments.map(
+      ([start, end]) => [
+        { t: 0, position: start },
+        { t: 1, position: end },
+      ]
+    );
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        this.intersectSegments(segments[i], segments[j]).forEach(
+          ({ position, t, u }) => {
+            cuts[i].push({ t, position });
+            cuts[j].push({ t: u, position });
+          }
+        );
       }
+    }
 
-      // If still a single polygon, try an alternative approach
-      // Use the unkink function to handle self-intersections
-      const unkinked = turf.unkinkPolygon(withCut as Feature<Polygon>);
-      if (unkinked.features.length > 1) {
-        return unkinked.features as Feature<Polygon>[];
+    // Graph of unique edges between the nodes
+    const nodes = new Map<string, { position: Position; edges: string[] }>();
+    const edges = new Set<string>();
+    const nodeFor = (position: Position) => {
+      const key = this.positionKey(position);
+      if (!nodes.has(key)) nodes.set(key, { position, edges: [] });
+      return key;
+    };
+    cuts.forEach((points) => {
+      points.sort((a, b) => a.t - b.t);
+      for (let i = 1; i < points.length; i++) {
+        const from = nodeFor(points[i - 1].position);
+        const to = nodeFor(points[i].position);
+        const key = from < to ? `${from}|${to}` : `${to}|${from}`;
+        if (from === to || edges.has(key)) continue;
+        edges.add(key);
+        nodes.get(from)!.edges.push(to);
+        nodes.get(to)!.edges.push(from);
       }
+    });
+
+    // Drop dangling ends, which bound no face
+    const dangling = [...nodes.keys()].filter(
+      (key) => nodes.get(key)!.edges.length < 2
+    );
+    while (dangling.length > 0) {
+      const key = dangling.pop()!;
+      const node = nodes.get(key);
+      if (!node) continue;
+      node.edges.forEach((neighbourKey) => {
+        const neighbour = nodes.get(neighbourKey)!;
+        neighbour.edges = neighbour.edges.filter((edge) => edge !== key);
+        if (neighbour.edges.length < 2) dangling.push(neighbourKey);
+      });
+      nodes.delete(key);
+    }
+
+    // Sort the edges around every node counterclockwise
+    const angle = (from: string, to: string) => {
+      const [x1, y1] = nodes.get(from)!.position;
+      const [x2, y2] = nodes.get(to)!.position;
+      return Math.atan2(y2 - y1, x2 - x1);
+    };
+    nodes.forEach((node, key) =>
+      node.edges.sort((a, b) => angle(key, a) - angle(key, b))
+    );
+
+    // Walk every face with the face on the left; bounded faces come out
+    // counterclockwise, the outsides of connected parts clockwise
+    const shells: Position[][] = [];
+    const holes: Position[][] = [];
+    const visited = new Set<string>();
+    nodes.forEach((node, start) =>
+      node.edges.forEach((first) => {
+        if (visited.has(`${start}>${first}`)) return;
+        const ring: Position[] = [];
+        let from = start;
+        let to = first;
+        while (!visited.has(`${from}>${to}`)) {
+          visited.add(`${from}>${to}`);
+          ring.push(nodes.get(from)!.position);
+          const around = nodes.get(to)!.edges;
+          const back = around.indexOf(from);
+          [from, to] = [to, around[(back - 1 + around.length) % around.length]];
+        }
+        ring.push(ring[0]);
+        (this.signedArea(ring) > 0 ? shells : holes).push(ring);
+      })
+    );
+
+    // A hole belongs to the smallest face around it
+    const faces = shells.map((shell) => [shell]);
+    holes.forEach((hole) => {
+      let owner: Position[][] | null = null;
+      faces.forEach((face) => {
+        if (
+          turf.booleanPointInPolygon(hole[0], turf.polygon([face[0]]), {
+            ignoreBoundary: true,
+          }) &&
+          (!owner || this.signedArea(face[0]) < this.signedArea(owner[0]))
+        ) {
+          owner = face;
+        }
+      });
+      (owner as Position[][] | null)?.push(hole);
+    });
+    return faces;
+  }
 
-      return [withCut as Feature<Polygon>];
-    } catch {
-      return [];
+  /**
+   * Where two segments meet: one position where they cross or touch, or the
+   * ends of the stretch they share. Positions near a segment end snap to it.
+   */
+  private intersectSegments(
+    [a, b]: [Position, Position],
+    [c, d]: [Position, Position]
+  ): Array<{ position: Position; t: number; u: number }> {
+    const r = [b[0] - a[0], b[1] - a[1]];
+    const q = [d[0] - c[0], d[1] - c[1]];
+    const denominator = r[0] * q[1] - r[1] * q[0];
+    const ac = [c[0] - a[0], c[1] - a[1]];
+    const along = (point: Position, [start, end]: [Position, Position]) => {
+      const dx = end[0] - start[0];
+      const dy = end[1] - start[1];
+      return (
+        ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) /
+        (dx * dx + dy * dy)
+      );
+    };
+
+    if (Math.abs(denominator) <= NODE_TOLERANCE * NODE_TOLERANCE) {
+      // Parallel: only collinear overlaps meet
+      if (Math.abs(ac[0] * r[1] - ac[1] * r[0]) > NODE_TOLERANCE) return [];
+      return [a, b, c, d]
+        .map((position) => ({
+          position,
+          t: along(position, [a, b]),
+          u: along(position, [c, d]),
+        }))
+        .filter(({ t, u }) => t >= 0 && t <= 1 && u >= 0 && u <= 1);
     }
+
+    const t = (ac[0] * q[1] - ac[1] * q[0]) / denominator;
+    const u = (ac[0] * r[1] - ac[1] * r[0]) / denominator;
+    if (t < -NODE_TOLERANCE || t > 1 + NODE_TOLERANCE) return [];
+    if (u < -NODE_TOLERANCE || u > 1 + NODE_TOLERANCE) return [];
+
+    const crossing: Position = [a[0] + t * r[0], a[1] + t * r[1]];
+    const position =
+      [a, b, c, d].find((end) => this.nearPosition(end, crossing)) ??
+      crossing;
+    return [
+      {
+        position,
+        t: Math.min(1, Math.max(0, t)),
+        u: Math.min(1, Math.max(0, u)),
+      },
+    ];
   }
 
   /**
-   * Clip a line to a bounding box
+   * A point strictly inside a polygon: the middle of the widest span of a
+   * horizontal line through it that lies between its rings
    */
-  private clipLineToBbox(
-    line: Feature<LineString>,
-    bbox: [number, number, number, number]
-  ): Feature<LineString> | null {
-    try {
-      const clipped = turf.bboxClip(line, bbox);
-      return clipped as Feature<LineString>;
-    } catch {
-      return null;
+  private interiorPoint(rings: Position[][]): Position {
+    const ys = [...new Set(rings[0].map((position) => position[1]))].sort(
+      (a, b) => a - b
+    );
+    const middle = (ys[0] + ys[ys.length - 1]) / 2;
+    const below = ys.filter((y) => y <= middle).pop()!;
+    const above = ys.find((y) => y > middle) ?? below;
+    const y = (below + above) / 2;
+
+    const xs: number[] = [];
+    rings.forEach((ring) => {
+      for (let i = 1; i < ring.length; i++) {
+        const [x1, y1] = ring[i - 1];
+        const [x2, y2] = ring[i];
+        if (y1 > y !== y2 > y) {
+          xs.push(x1 + ((y - y1) / (y2 - y1)) * (x2 - x1));
+        }
+      }
+    });
+    xs.sort((a, b) => a - b);
+
+    let best: Position = rings[0][0];
+    let widest = -1;
+    for (let i = 0; i + 1 < xs.length; i += 2) {
+      if (xs[i + 1] - xs[i] > widest) {
+        widest = xs[i + 1] - xs[i];
+        best = [(xs[i] + xs[i + 1]) / 2, y];
+      }
+    }
+    return best;
+  }
+
+  private linesOf(feature: SplitLine): Position[][] {
+    return feature.geometry.type === 'LineString'
+      ? [feature.geometry.coordinates]
+      : feature.geometry.coordinates;
+  }
+
+  /** Area of polygons in the units of their coordinates */
+  private planarArea(geometry: Polygon | MultiPolygon): number {
+    const polygons =
+      geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    return polygons.reduce(
+      (sum, [outer, ...holes]) =>
+        sum +
+        Math.abs(this.signedArea(outer ?? [])) / 2 -
+        holes.reduce((holeSum, hole) => holeSum + Math.abs(this.signedArea(hole)) / 2, 0),
+      0
+    );
+  }
+
+  /** Twice the signed area of a closed ring; positive when counterclockwise */
+  private signedArea(ring: Position[]): number {
+    let area = 0;
+    for (let i = 1; i < ring.length; i++) {
+      area += ring[i - 1][0] * ring[i][1] - ring[i][0] * ring[i - 1][1];
     }
+    return area;
+  }
+
+  private samePosition(a: Position, b: Position): boolean {
+    return a[0] === b[0] && a[1] === b[1];
+  }
+
+  private nearPosition(a: Position, b: Position): boolean {
+    return (
+      Math.abs(a[0] - b[0]) <= NODE_TOLERANCE &&
+      Math.abs(a[1] - b[1]) <= NODE_TOLERANCE
+    );
+  }
+
+  /** The point on segment a-b nearest to `position`, in the plane */
+  private nearestOnSegment(position: Position, a: Position, b: Position): Position {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) return a;
+    const t = Math.max(
+      0,
+      Math.min(1, ((position[0] - a[0]) * dx + (position[1] - a[1]) * dy) / lengthSquared)
+    );
+    return [a[0] + t * dx, a[1] + t * dy];
+  }
+
+  private positionKey(position: Position): string {
+    return `${position[0]},${position[1]}`;
   }
 
   /**
@@ -270,7 +774,15 @@ export class SplitFeature {
     if (!this.map) return;
 
     this.handleClick = (e: MapMouseEvent) => {
-      this.splitLinePoints.push([e.lngLat.lng, e.lngLat.lat]);
+      const position: Position = [e.lngLat.lng, e.lngLat.lat];
+      if (this.tool === 'point') {
+        if (this.linesNear(position).length > 0) {
+          this.splitLinePoints = [position];
+          this.completeSplit();
+        }
+        return;
+      }
+      this.splitLinePoints.push(position);
       this.updateSplitLineVisualization();
     };
 
@@ -331,7 +843,12 @@ export class SplitFeature {
       return;
     }
 
-    const line = turf.lineString(linePoints);
+    // A cutting polygon is previewed closed
+    const line = turf.lineString(
+      this.tool === 'polygon' && linePoints.length > 2
+        ? [...linePoints, linePoints[0]]
+        : linePoints
+    );
     source.setData(turf.featureCollection([line]));
   }
 
@@ -339,34 +856,59 @@ export class SplitFeature {
    * Complete the split operation
    */
   private completeSplit(): void {
+    const minimum = { line: 2, point: 1, polygon: 3 }[this.tool];
     if (
-      !this.targetFeature ||
+      this.targetFeatures.length === 0 ||
       !this.onCompleteCallback ||
-      this.splitLinePoints.length < 2
+      this.splitLinePoints.length < minimum
     ) {
       this.cleanup();
       return;
     }
 
-    const splitter = turf.lineString(this.splitLinePoints);
-    let result: SplitResult;
-
-    if (this.targetFeature.geometry.type === 'Polygon') {
-      result = this.splitPolygon(
-        this.targetFeature as Feature<Polygon>,
-        splitter
-      );
-    } else {
-      result = this.splitLine(
-        this.targetFeature as Feature<LineString>,
-        splitter
-      );
-    }
-
-    this.onCompleteCallback(result);
+    const points = this.splitLinePoints;
+    // A click splits only the lines under it
+    const targets =
+      this.tool === 'point' ? this.linesNear(points[0]) : this.targetFeatures;
+    const splitter =
+      this.tool === 'point'
+        ? turf.point(points[0])
+        : this.tool === 'polygon'
+          ? turf.polygon([[...points, points[0]]])
+          : turf.lineString(points);
+    this.onCompleteCallback(this.splitFeatures(targets, splitter));
     this.cleanup();
   }
 
+  /**
+   * The target lines a clicked position is close enough to, on screen, to
+   * split them there
+   */
+  private linesNear(position: Position): SplitLine[] {
+    const map = this.map;
+    if (!map) return [];
+    const toScreen = (coordinates: Position): Position => {
+      const point = map.project(coordinates as [number, number]);
+      return [point.x, point.y];
+    };
+    const clicked = toScreen(position);
+    return this.targetFeatures.filter(
+      (feature): feature is SplitLine =>
+        (feature.geometry.type === 'LineString' ||
+          feature.geometry.type === 'MultiLineString') &&
+        this.linesOf(feature as SplitLine).some((coordinates) => {
+          const screen = coordinates.map(toScreen);
+          return screen.slice(1).some((end, index) => {
+            const nearest = this.nearestOnSegment(clicked, screen[index], end);
+            return (
+              Math.hypot(nearest[0] - clicked[0], nearest[1] - clicked[1]) <=
+              POINT_TOLERANCE
+            );
+          });
+        })
+    );
+  }
+
   /**
    * Cleanup after split operation
    */
@@ -1,10 +1,24 @@
-import type { Feature, Polygon, MultiPolygon } from 'geojson';
+import type {
+  Feature,
+  LineString,
+  MultiLineString,
+  MultiPolygon,
+  Point,
+  Polygon,
+  Position,
+} from 'geojson';
 import * as turf from '@turf/turf';
-import type { UnionOptions, UnionResult } from '../core/types';
+import type {
+  ExplodeResult,
+  LineMergeOptions,
+  LineMergeResult,
+  UnionOptions,
+  UnionResult,
+} from '../core/types';
 import { generateFeatureId } from '../utils/geometryUtils';
 
 /**
- * Handles polygon union/merge operations
+ * Handles polygon union, line merge and explode operations
  */
 export class UnionFeature {
   /**
@@ -65,6 +79,161 @@ export class UnionFeature {
     }
   }
 
+  /**
+   * Join lines end to end into one LineString. Ends closer than the
+   * tolerance are snapped together; lines that do not connect are kept as
+   * separate parts of a MultiLineString.
+   */
+  mergeLines(
+    features: Feature<LineString | MultiLineString>[],
+    options?: LineMergeOptions
+  ): LineMergeResult {
+    const parts = features
+      .flatMap((feature) =>
+        feature.geometry.type === 'LineString'
+          ? [feature.geometry.coordinates]
+          : feature.geometry.coordinates
+      )
+      .filter((part) => part.length >= 2);
+
+    if (parts.length < 2) {
+      return {
+        result: null,
+        originals: features,
+        success: false,
+        error: 'Need at least 2 lines to merge',
+      };
+    }
+
+    try {
+      const chains = this.chainLines(parts, options?.tolerance ?? 0);
+      const geometry: LineString | MultiLineString =
+        chains.length === 1
+          ? { type: 'LineString', coordinates: chains[0] }
+          : { type: 'MultiLineString', coordinates: chains };
+
+      return {
+        result: {
+          type: 'Feature',
+          id: generateFeatureId(),
+          properties: { ...features[0].properties, ...options?.properties },
+          geometry,
+        },
+        originals: features,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        result: null,
+        originals: features,
+        success: false,
+        error: `Line merge failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Split a MultiPoint, MultiLineString or MultiPolygon into one feature per
+   * part, each keeping the original properties
+   */
+  explode(feature: Feature): ExplodeResult {
+    const geometry = feature.geometry;
+    const original = feature as ExplodeResult['original'];
+    let parts: (Point | LineString | Polygon)[];
+
+    switch (geometry?.type) {
+      case 'MultiPoint':
+        parts = geometry.coordinates.map((coordinates) => ({
+          type: 'Point',
+          coordinates,
+        }));
+        break;
+      case 'MultiLineString':
+        parts = geometry.coordinates.map((coordinates) => ({
+          type: 'LineString',
+          coordinates,
+        }));
+        break;
+      case 'MultiPolygon':
+        parts = geometry.coordinates.map((coordinates) => ({
+          type: 'Polygon',
+          coordinates,
+        }));
+        break;
+      default:
+        return {
+          original,
+          parts: [],
+          success: false,
+          error: 'Feature is not a multi-part geometry',
+        };
+    }
+
+    return {
+      original,
+      parts: parts.map((part) => ({
+        type: 'Feature',
+        id: generateFeatureId(),
+        properties: { ...feature.properties },
+        geometry: part,
+      })),
+      success: true,
+    };
+  }
+
+  /**
+   * Greedily grow chains of lines, attaching whichever remaining line has an
+   * end nearest to either end of the chain
+   */
+  private chainLines(parts: Position[][], tolerance: number): Position[][] {
+    const remaining = parts.map((part) => [...part]);
+    const chains: Position[][] = [];
+    const distance = (a: Position, b: Position) =>
+      turf.distance(a, b, { units: 'meters' });
+
+    while (remaining.length > 0) {
+      let chain = remaining.shift()!;
+
+      for (;;) {
+        const start = chain[0];
+        const end = chain[chain.length - 1];
+        let best: { index: number; atEnd: boolean; reverse: boolean } | null =
+          null;
+        let bestGap = tolerance;
+
+        for (let index = 0; index < remaining.length; index++) {
+          const first = remaining[index][0];
+          const last = remaining[index][remaining[index].length - 1];
+          const candidates = [
+            { atEnd: true, reverse: false, gap: distance(end, first) },
+            { atEnd: true, reverse: true, gap: distance(end, last) },
+            { atEnd: false, reverse: false, gap: distance(start, last) },
+            { atEnd: false, reverse: true, gap: distance(start, first) },
+          ];
+          for (const { atEnd, reverse, gap } of candidates) {
+            if (gap <= bestGap) {
+              best = { index, atEnd, reverse };
+              bestGap = gap;
+            }
+          }
+        }
+
+        if (!best) break;
+        const [part] = remaining.splice(best.index, 1);
+        if (best.reverse) part.reverse();
+
+        // The chain end stays put; the line's own end snaps onto it
+        chain = best.atEnd
+          ? [...chain, ...part.slice(1)]
+          : [...part.slice(0, -1), ...chain];
+      }
+
+      chains.push(chain);
+    }
+
+    return chains;
+  }
+
   /**
    * Check if polygons can be merged
    */
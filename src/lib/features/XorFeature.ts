@@ -0,0 +1,74 @@
+import type { Feature, Polygon, MultiPolygon } from 'geojson';
+import * as turf from '@turf/turf';
+import type { XorOptions, XorResult } from '../core/types';
+import { generateFeatureId } from '../utils/geometryUtils';
+
+/**
+ * Handles polygon symmetric difference (XOR) operations
+ */
+export class XorFeature {
+  /**
+   * Combine polygons into the area covered by exactly one of two polygons,
+   * or with more polygons, by an odd number of them
+   */
+  xor(
+    features: Feature<Polygon | MultiPolygon>[],
+    options?: XorOptions
+  ): XorResult {
+    if (features.length < 2) {
+      return {
+        result: null,
+        originals: features,
+        success: false,
+        error: 'Need at least 2 polygons for a symmetric difference',
+      };
+    }
+
+    try {
+      let result: Feature<Polygon | MultiPolygon> | null = turf.clone(
+        features[0]
+      );
+      for (const poly of features.slice(1)) {
+        result = result ? this.xorPair(result, poly) : turf.clone(poly);
+      }
+
+      if (result) {
+        result.id = generateFeatureId();
+        result.properties = {
+          ...features[0].properties,
+          ...options?.properties,
+        };
+      }
+
+      return {
+        result,
+        originals: features,
+        success: result !== null,
+        error: result === null ? 'Polygons cancel each other out' : undefined,
+      };
+    } catch (error) {
+      return {
+        result: null,
+        originals: features,
+        success: false,
+        error: `Symmetric difference failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * (a - b) ∪ (b - a)
+   */
+  private xorPair(
+    a: Feature<Polygon | MultiPolygon>,
+    b: Feature<Polygon | MultiPolygon>
+  ): Feature<Polygon | MultiPolygon> | null {
+    const parts = [
+      turf.difference(turf.featureCollection([a, b])),
+      turf.difference(turf.featureCollection([b, a])),
+    ].filter((part): part is Feature<Polygon | MultiPolygon> => part !== null);
+
+    if (parts.length < 2) return parts[0] ?? null;
+    return turf.union(turf.featureCollection(parts));
+  }
+}
@@ -2,8 +2,14 @@ export { CopyFeature } from "./CopyFeature";
 export { SimplifyFeature } from "./SimplifyFeature";
 export { UnionFeature } from "./UnionFeature";
 export { DifferenceFeature } from "./DifferenceFeature";
+export { IntersectFeature } from "./IntersectFeature";
+export { XorFeature } from "./XorFeature";
 export { ScaleFeature } from "./ScaleFeature";
 export { RotateFeature } from "./RotateFeature";
 export { LassoFeature } from "./LassoFeature";
 export { SplitFeature } from "./SplitFeature";
+export { BufferFeature } from "./BufferFeature";
 export { FreehandFeature } from "./FreehandFeature";
+export { SnappingFeature } from "./SnappingFeature";
+export { MeasurementFeature } from "./MeasurementFeature";
+export { AngleConstraintFeature } from "./AngleConstraintFeature";
@@ -0,0 +1,319 @@
+import type {
+  Feature,
+  FeatureCollection,
+  GeoJsonProperties,
+  Geometry,
+} from "geojson";
+import type { AttributeFieldDefinition } from "../core/types";
+import { geometryToWkt, isWktGeometry, parseWktGeometry } from "./wkt";
+
+/**
+ * CSV attribute tables with a geometry column.
+ *
+ * Reading finds the geometry in a WKT column (`wkt`, `geometry`, `the_geom`,
+ * ...) or in a pair of latitude/longitude columns (`lat`/`lon`, `latitude`/
+ * `longitude`, `y`/`x`, ...), matched case-insensitively. Without a known
+ * header, a column whose first value is WKT is used. The delimiter (comma,
+ * semicolon or tab) is taken from the header line. Numeric and boolean
+ * columns are typed; every other column stays text.
+ *
+ * Writing puts each property in its own column, followed by `longitude` and
+ * `latitude` columns when every feature is a point and a `WKT` column
+ * otherwise.
+ */
+
+/** Geometry column layout for {@link writeCsv} */
+export type CsvGeometryColumns = "wkt" | "latlon";
+
+export interface CsvReadResult {
+  featureCollection: FeatureCollection;
+  /** Attribute fields for the non-geometry columns */
+  fields: AttributeFieldDefinition[];
+  warnings: string[];
+}
+
+export interface CsvWriteOptions {
+  /** Geometry columns (default: lat/lon for all-point data, WKT otherwise) */
+  geometry?: CsvGeometryColumns;
+  /** Field delimiter (default: ',') */
+  delimiter?: string;
+}
+
+const WKT_COLUMNS = [
+  "wkt",
+  "geometry",
+  "geom",
+  "the_geom",
+  "wkt_geom",
+  "shape",
+];
+const LAT_COLUMNS = ["lat", "latitude", "y", "lat_dd", "point_y"];
+const LON_COLUMNS = [
+  "lon",
+  "lng",
+  "long",
+  "longitude",
+  "x",
+  "lon_dd",
+  "point_x",
+];
+
+const NUMBER_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting).
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.length > 1 || r[0].trim() !== "");
+}
+
+/**
+ * Read a CSV table into point or WKT features.
+ *
+ * Rows whose geometry is missing or unreadable become features without a
+ * geometry so import validation reports them.
+ *
+ * @throws When the table has no recognizable geometry column
+ */
+export function readCsv(text: string): CsvReadResult {
+  const content = text.replace(/^\uFEFF/, "");
+  const rows = parseCsv(content, detectDelimiter(content));
+  if (rows.length === 0) throw new Error("Invalid CSV: the file is empty");
+
+  const header = rows[0].map((name) => name.trim());
+  const records = rows.slice(1);
+  const geometry = findGeometryColumns(header, records);
+  if (!geometry) {
+    throw new Error("Invalid CSV: no WKT or latitude/longitude columns found");
+  }
+
+  const geometryIndexes =
+    "wkt" in geometry ? [geometry.wkt] : [geometry.lat, geometry.lon];
+  const columns = header
+    .map((name, index) => ({ name, index }))
+    .filter(({ index }) => !geometryIndexes.includes(index));
+  const types = columns.map(({ index }) =>
+    columnType(records.map((record) => record[index] ?? "")),
+  );
+
+  const warnings: string[] = [];
+  let unreadable = 0;
+  const features: Feature[] = records.map((record) => {
+    const properties: GeoJsonProperties = {};
+    columns.forEach(({ name, index }, i) => {
+      properties[name] = convertValue(record[index] ?? "", types[i]);
+    });
+
+    let shape: Geometry | null = null;
+    try {
+      shape = readRowGeometry(record, geometry);
+    } catch {
+      unreadable++;
+    }
+    return {
+      type: "Feature",
+      properties,
+      geometry: shape as Geometry,
+    };
+  });
+  if (unreadable > 0) {
+    warnings.push(`${unreadable} CSV rows have an unreadable geometry`);
+  }
+
+  return {
+    featureCollection: { type: "FeatureCollection", features },
+    fields: columns.map(({ name }, i) => ({ name, type: types[i] })),
+    warnings,
+  };
+}
+
+type GeometryColumns = { wkt: number } | { lat: number; lon: number };
+
+function findGeometryColumns(
+  header: string[],
+  records: string[][],
+): GeometryColumns | null {
+  const find = (names: string[]) => {
+    for (const name of names) {
+      const index = header.findIndex((h) => h.toLowerCase() === name);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+
+  const wkt = find(WKT_COLUMNS);
+  if (wkt >= 0) return { wkt };
+
+  const lat = find(LAT_COLUMNS);
+  const lon = find(LON_COLUMNS);
+  if (lat >= 0 && lon >= 0) return { lat, lon };
+
+  // Fall back to a column holding WKT under another name
+  const sample = records.find((record) => record.some((v) => v.trim()));
+  const index = sample?.findIndex((value) => isWktGeometry(value)) ?? -1;
+  return index >= 0 ? { wkt: index } : null;
+}
+
+function readRowGeometry(
+  record: string[],
+  columns: GeometryColumns,
+): Geometry | null {
+  if ("wkt" in columns) {
+    const text = record[columns.wkt]?.trim();
+    return text ? parseWktGeometry(text) : null;
+  }
+
+  const lat = record[columns.lat]?.trim();
+  const lon = record[columns.lon]?.trim();
+  if (!lat && !lon) return null;
+  if (!NUMBER_PATTERN.test(lat ?? "") || !NUMBER_PATTERN.test(lon ?? "")) {
+    throw new Error("Invalid coordinates");
+  }
+  return { type: "Point", coordinates: [Number(lon), Number(lat)] };
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map(
+    (d) => [d, firstLine.split(d).length] as const,
+  );
+  return counts.reduce((best, next) => (next[1] > best[1] ? next : best))[0];
+}
+
+function columnType(values: string[]): "number" | "boolean" | "string" {
+  const filled = values.map((v) => v.trim()).filter((v) => v !== "");
+  if (filled.length === 0) return "string";
+  // Leading zeros (codes, zip codes) are identifiers, not numbers
+  if (filled.every((v) => NUMBER_PATTERN.test(v) && !/^[-+]?0\d/.test(v))) {
+    return "number";
+  }
+  if (filled.every((v) => /^(true|false)$/i.test(v))) return "boolean";
+  return "string";
+}
+
+function convertValue(
+  value: string,
+  type: "number" | "boolean" | "string",
+): string | number | boolean | null {
+  if (type === "string") return value;
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+  return type === "number" ? Number(trimmed) : trimmed.toLowerCase() === "true";
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Write features as a CSV table.
+ *
+ * Object and array property values are written as JSON.
+ *
+ * @throws When lat/lon columns are requested for non-point features
+ */
+export function writeCsv(
+  collection: FeatureCollection,
+  options: CsvWriteOptions = {},
+): string {
+  const delimiter = options.delimiter ?? ",";
+  const features = collection.features;
+  const allPoints =
+    features.length > 0 && features.every((f) => f.geometry?.type === "Point");
+  const layout = options.geometry ?? (allPoints ? "latlon" : "wkt");
+  if (layout === "latlon" && !features.every((f) => isPointOrEmpty(f))) {
+    throw new Error("Latitude/longitude columns can only hold points");
+  }
+
+  const geometryColumns =
+    layout === "latlon" ? ["longitude", "latitude"] : ["WKT"];
+  const reserved = new Set(geometryColumns.map((c) => c.toLowerCase()));
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  features.forEach((feature) =>
+    Object.keys(feature.properties ?? {}).forEach((key) => {
+      if (!seen.has(key) && !reserved.has(key.toLowerCase())) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }),
+  );
+
+  const lines = [[...columns, ...geometryColumns]];
+  features.forEach((feature) => {
+    const values = columns.map((column) =>
+      formatValue(feature.properties?.[column]),
+    );
+    if (layout === "latlon") {
+      const position =
+        feature.geometry?.type === "Point" ? feature.geometry.coordinates : [];
+      values.push(formatValue(position[0]), formatValue(position[1]));
+    } else {
+      values.push(feature.geometry ? geometryToWkt(feature.geometry) : "");
+    }
+    lines.push(values);
+  });
+
+  return (
+    lines
+      .map((line) => line.map((v) => quote(v, delimiter)).join(delimiter))
+      .join("\r\n") + "\r\n"
+  );
+}
+
+function isPointOrEmpty(feature: Feature): boolean {
+  return !feature.geometry || feature.geometry.type === "Point";
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function quote(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
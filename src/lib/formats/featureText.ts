@@ -0,0 +1,79 @@
+import type { Feature, FeatureCollection, Geometry } from "geojson";
+import { readCsv } from "./csv";
+import { isWktGeometry, readWkt } from "./wkt";
+
+/**
+ * Recognize features in text copied from another application.
+ *
+ * Accepts GeoJSON (a FeatureCollection, Feature, bare geometry or an array of
+ * features or geometries), WKT with one geometry per line, and tables with a
+ * WKT or latitude/longitude column, such as the tab-separated text QGIS puts
+ * on the clipboard.
+ *
+ * @returns The features, or null when the text holds none of these
+ */
+export function parseFeatureText(text: string): FeatureCollection | null {
+  const trimmed = text.trim();
+  if (trimmed === "") return null;
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return toFeatureCollection(JSON.parse(trimmed));
+    } catch {
+      return null;
+    }
+  }
+
+  if (isWktGeometry(trimmed)) {
+    try {
+      return readWkt(trimmed);
+    } catch {
+      return null;
+    }
+  }
+
+  try {
+    const { featureCollection } = readCsv(trimmed);
+    return featureCollection.features.some((f) => f.geometry)
+      ? featureCollection
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+const GEOMETRY_TYPES = new Set([
+  "Point",
+  "MultiPoint",
+  "LineString",
+  "MultiLineString",
+  "Polygon",
+  "MultiPolygon",
+  "GeometryCollection",
+]);
+
+function toFeatureCollection(value: unknown): FeatureCollection | null {
+  const items = Array.isArray(value) ? value : [value];
+  const features: Feature[] = [];
+
+  for (const item of items) {
+    const type = (item as { type?: unknown } | null)?.type;
+    if (type === "FeatureCollection") {
+      const nested = (item as FeatureCollection).features;
+      if (!Array.isArray(nested)) return null;
+      features.push(...nested);
+    } else if (type === "Feature") {
+      features.push(item as Feature);
+    } else if (typeof type === "string" && GEOMETRY_TYPES.has(type)) {
+      features.push({
+        type: "Feature",
+        properties: {},
+        geometry: item as Geometry,
+      });
+    } else {
+      return null;
+    }
+  }
+
+  return features.length > 0 ? { type: "FeatureCollection", features } : null;
+}
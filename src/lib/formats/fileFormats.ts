@@ -0,0 +1,203 @@
+import type { Feature, FeatureCollection } from "geojson";
+import type { FileFormat, FileFormatDefinition } from "../core/types";
+import { readCsv, writeCsv } from "./csv";
+import { readGpx, writeGpx } from "./gpx";
+import { readKml, readKmz, writeKml, writeKmz } from "./kml";
+import {
+  FormatRegistry,
+  type FeatureFileReadResult,
+  type FeatureFileWriteResult,
+} from "./registry";
+import {
+  dbfFieldsToAttributeFields,
+  readShapefileZip,
+  writeShapefileZip,
+} from "./shapefile";
+import { readWkt, writeWkt } from "./wkt";
+import { isZip, listZipEntries } from "./zip";
+
+/**
+ * The file formats built into the editor's open/save tools.
+ */
+
+/** GeoJSON (`.geojson`, `.json`) */
+export const GEOJSON_FORMAT: FileFormatDefinition = {
+  id: "geojson",
+  label: "GeoJSON",
+  extensions: [".geojson", ".json"],
+  mimeTypes: ["application/geo+json", "application/json"],
+  detect: (content) => sniffText(content).startsWith("{"),
+  read: (content) => parseGeoJson(content as string),
+  write: (collection) => JSON.stringify(collection, null, 2),
+};
+
+/** Zipped ESRI Shapefile (`.zip`) */
+export const SHAPEFILE_FORMAT: FileFormatDefinition = {
+  id: "shapefile",
+  label: "Shapefile",
+  extensions: [".zip"],
+  mimeTypes: ["application/zip"],
+  binary: true,
+  detect: (content) => zipContains(content, ".shp"),
+  read: async (content) => {
+    const shapefile = await readShapefileZip(content as Uint8Array);
+    return {
+      featureCollection: shapefile.featureCollection,
+      fields: dbfFieldsToAttributeFields(shapefile.fields),
+      warnings: shapefile.warnings,
+    };
+  },
+  write: (collection, name) => writeShapefileZip(collection, name),
+};
+
+/** KML (`.kml`) */
+export const KML_FORMAT: FileFormatDefinition = {
+  id: "kml",
+  label: "KML",
+  extensions: [".kml"],
+  mimeTypes: ["application/vnd.google-earth.kml+xml"],
+  detect: (content) => xmlRoot(content) === "kml",
+  read: (content) => readKml(content as string),
+  write: (collection, name) => writeKml(collection, name),
+};
+
+/** Zipped KML (`.kmz`) */
+export const KMZ_FORMAT: FileFormatDefinition = {
+  id: "kmz",
+  label: "KMZ",
+  extensions: [".kmz"],
+  mimeTypes: ["application/vnd.google-earth.kmz"],
+  binary: true,
+  detect: (content) => zipContains(content, ".kml"),
+  read: (content) => readKmz(content as Uint8Array),
+  write: (collection, name) => writeKmz(collection, name),
+};
+
+/** GPX 1.1 (`.gpx`) */
+export const GPX_FORMAT: FileFormatDefinition = {
+  id: "gpx",
+  label: "GPX",
+  extensions: [".gpx"],
+  mimeTypes: ["application/gpx+xml"],
+  detect: (content) => xmlRoot(content) === "gpx",
+  read: (content) => readGpx(content as string),
+  write: (collection, name) => writeGpx(collection, name),
+};
+
+/** CSV table with WKT or latitude/longitude geometry columns (`.csv`) */
+export const CSV_FORMAT: FileFormatDefinition = {
+  id: "csv",
+  label: "CSV",
+  extensions: [".csv", ".tsv"],
+  mimeTypes: ["text/csv"],
+  read: (content) => readCsv(content as string),
+  write: (collection) => writeCsv(collection),
+};
+
+/** Well-Known Text, one geometry per line (`.wkt`) */
+export const WKT_FORMAT: FileFormatDefinition = {
+  id: "wkt",
+  label: "WKT",
+  extensions: [".wkt"],
+  mimeTypes: ["text/plain"],
+  read: (content) => readWkt(content as string),
+  write: (collection) => writeWkt(collection),
+};
+
+/** Built-in formats, in the order they appear in the save menu */
+export const BUILTIN_FILE_FORMATS: FileFormatDefinition[] = [
+  GEOJSON_FORMAT,
+  SHAPEFILE_FORMAT,
+  KML_FORMAT,
+  KMZ_FORMAT,
+  GPX_FORMAT,
+  CSV_FORMAT,
+  WKT_FORMAT,
+];
+
+const builtinRegistry = new FormatRegistry(BUILTIN_FILE_FORMATS);
+
+/**
+ * Find the built-in format whose extension matches a filename.
+ */
+export function formatFromFilename(filename: string): FileFormat | null {
+  return builtinRegistry.formatFromFilename(filename)?.id ?? null;
+}
+
+/**
+ * Detect the built-in format of file contents. The contents are sniffed first
+ * (zip entries, JSON, KML or GPX root element); the filename extension is only
+ * used when the contents are inconclusive.
+ */
+export function detectFileFormat(
+  content: string | ArrayBuffer | Uint8Array,
+  filename?: string,
+): FileFormat | null {
+  return builtinRegistry.detect(content, filename)?.id ?? null;
+}
+
+/**
+ * Read file contents of any built-in format into a feature collection.
+ *
+ * @param content - File text or raw bytes.
+ * @param filename - Original filename, used when sniffing is inconclusive.
+ */
+export function readFeatureFile(
+  content: string | ArrayBuffer | Uint8Array,
+  filename?: string,
+): Promise<FeatureFileReadResult> {
+  return builtinRegistry.read(content, filename);
+}
+
+/**
+ * Serialize a feature collection in a built-in format.
+ *
+ * @param collection - Features to write.
+ * @param format - Output format.
+ * @param name - Layer/document name embedded in the output where supported.
+ */
+export function writeFeatureFile(
+  collection: FeatureCollection,
+  format: FileFormat,
+  name = "features",
+): FeatureFileWriteResult["data"] {
+  return builtinRegistry.write(collection, format, name).data;
+}
+
+function parseGeoJson(text: string): FeatureCollection {
+  const geoJson = JSON.parse(text) as Feature | FeatureCollection;
+  if (geoJson?.type === "Feature") {
+    // Keep a legacy `crs` member so the editor can reproject the feature
+    const { crs } = geoJson as { crs?: unknown };
+    return {
+      type: "FeatureCollection",
+      features: [geoJson],
+      ...(crs ? { crs } : {}),
+    } as FeatureCollection;
+  }
+  if (geoJson?.type === "FeatureCollection") {
+    return geoJson;
+  }
+  throw new Error("Invalid GeoJSON: expected Feature or FeatureCollection");
+}
+
+/** The first few KB of the contents as text, without leading whitespace */
+function sniffText(content: Uint8Array): string {
+  return new TextDecoder().decode(content.subarray(0, 4096)).trimStart();
+}
+
+function xmlRoot(content: Uint8Array): string | null {
+  const head = sniffText(content);
+  if (!head.startsWith("<")) return null;
+  const root = /<(?:[\w-]+:)?(kml|gpx)[\s>]/i.exec(head);
+  return root ? root[1].toLowerCase() : null;
+}
+
+function zipContains(content: Uint8Array, extension: string): boolean {
+  return (
+    isZip(content) &&
+    listZipEntries(content).some((name) =>
+      name.toLowerCase().endsWith(extension),
+    )
+  );
+}
@@ -0,0 +1,322 @@
+/**
+ * Incremental GeoJSON reading for files too large to `JSON.parse` at once.
+ *
+ * The parser scans text as it arrives and hands back each element of the root
+ * `features` array as soon as it is complete, so only one feature (plus the
+ * unread tail of the current chunk) is held as text at a time. It uses no DOM
+ * APIs and can run in a worker as well as on the main thread.
+ */
+
+const QUOTE = 0x22; // "
+const BACKSLASH = 0x5c; // \
+const COLON = 0x3a; // :
+const COMMA = 0x2c; // ,
+const OPEN_BRACE = 0x7b; // {
+const CLOSE_BRACE = 0x7d; // }
+const OPEN_BRACKET = 0x5b; // [
+const CLOSE_BRACKET = 0x5d; // ]
+
+/**
+ * Push parser for a GeoJSON FeatureCollection (or a single Feature).
+ *
+ * Root members other than `features` (`type`, `crs`, `bbox`, ...) are
+ * collected in `members`; for a single Feature root every member ends up
+ * there. With `skipFeatures` the features are scanned past without being
+ * parsed, for reading just the root members.
+ */
+export class GeoJsonStreamParser {
+  private skipFeatures: boolean;
+  private buffer = "";
+  private pos = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private expectKey = false;
+  private key: string | null = null;
+  private valueStart = -1;
+  private inFeatures = false;
+  private featureStart = -1;
+  private done = false;
+  private rootMembers: Record<string, unknown> = {};
+
+  constructor(options: { skipFeatures?: boolean } = {}) {
+    this.skipFeatures = options.skipFeatures ?? false;
+  }
+
+  /** Root members parsed so far, excluding `features` */
+  get members(): Record<string, unknown> {
+    return this.rootMembers;
+  }
+
+  /**
+   * Feed the next piece of text.
+   *
+   * @returns Features completed by this piece, in file order
+   */
+  write(text: string): unknown[] {
+    const features: unknown[] = [];
+    this.buffer += text;
+    const buffer = this.buffer;
+
+    for (let i = this.pos; i < buffer.length; i++) {
+      const c = buffer.charCodeAt(i);
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (c === BACKSLASH) {
+          this.escaped = true;
+        } else if (c === QUOTE) {
+          this.inString = false;
+          if (this.depth === 1 && this.expectKey) {
+            this.key = JSON.parse(buffer.slice(this.stringStart, i + 1));
+            this.expectKey = false;
+          }
+        }
+        continue;
+      }
+
+      if (this.done) {
+        if (c > 0x20) throw new Error("Unexpected content after GeoJSON");
+        continue;
+      }
+
+      switch (c) {
+        case QUOTE:
+          this.inString = true;
+          this.stringStart = i;
+          break;
+        case OPEN_BRACE:
+        case OPEN_BRACKET:
+          if (this.depth === 0) {
+            if (c !== OPEN_BRACE) throw new Error("Expected a GeoJSON object");
+            this.expectKey = true;
+          } else if (
+            this.depth === 1 &&
+            this.key === "features" &&
+            c === OPEN_BRACKET
+          ) {
+            this.inFeatures = true;
+            this.valueStart = -1;
+          } else if (
+            this.inFeatures &&
+            this.depth === 2 &&
+            !this.skipFeatures
+          ) {
+            this.featureStart = i;
+          }
+          this.depth++;
+          break;
+        case CLOSE_BRACE:
+        case CLOSE_BRACKET:
+          this.depth--;
+          if (this.inFeatures && this.depth === 2 && this.featureStart >= 0) {
+            features.push(JSON.parse(buffer.slice(this.featureStart, i + 1)));
+            this.featureStart = -1;
+          } else if (this.inFeatures && this.depth === 1) {
+            this.inFeatures = false;
+            this.key = null;
+          } else if (this.depth === 0) {
+            this.endMember(buffer, i);
+            this.done = true;
+          } else if (this.depth < 0) {
+            throw new Error("Unbalanced brackets in GeoJSON");
+          }
+          break;
+        case COLON:
+          if (this.depth === 1) this.valueStart = i + 1;
+          break;
+        case COMMA:
+          if (this.depth === 1) {
+            this.endMember(buffer, i);
+            this.expectKey = true;
+          }
+          break;
+        default:
+          if (this.depth === 0 && c > 0x20) {
+            throw new Error("Expected a GeoJSON object");
+          }
+      }
+    }
+
+    this.trimBuffer();
+    return features;
+  }
+
+  /**
+   * Signal the end of input.
+   *
+   * @returns The root members, excluding `features`
+   * @throws When the text ended before the root object was closed
+   */
+  end(): Record<string, unknown> {
+    if (!this.done) throw new Error("Unexpected end of GeoJSON");
+    return this.rootMembers;
+  }
+
+  private endMember(buffer: string, end: number): void {
+    if (this.key !== null && this.valueStart >= 0) {
+      this.rootMembers[this.key] = JSON.parse(
+        buffer.slice(this.valueStart, end),
+      );
+    }
+    this.key = null;
+    this.valueStart = -1;
+  }
+
+  /**
+   * Drop text that no pending value needs any more
+   */
+  private trimBuffer(): void {
+    let keep = this.buffer.length;
+    if (this.featureStart >= 0) keep = Math.min(keep, this.featureStart);
+    if (this.valueStart >= 0) keep = Math.min(keep, this.valueStart);
+    if (this.inString && this.depth === 1) {
+      keep = Math.min(keep, this.stringStart);
+    }
+
+    this.buffer = this.buffer.slice(keep);
+    this.pos = this.buffer.length;
+    if (this.featureStart >= 0) this.featureStart -= keep;
+    if (this.valueStart >= 0) this.valueStart -= keep;
+    if (this.stringStart >= 0) this.stringStart -= keep;
+  }
+}
+
+/**
+ * Progress of a streamed read.
+ */
+export interface GeoJsonStreamProgress {
+  /** Bytes read from the source so far */
+  bytesRead: number;
+  /** Size of the source in bytes */
+  totalBytes: number;
+  /** Root members parsed so far, excluding `features` */
+  members: Record<string, unknown>;
+}
+
+/**
+ * Options for {@link streamGeoJson}.
+ */
+export interface GeoJsonStreamOptions {
+  /** Bytes read per chunk (default: 1 MiB) */
+  chunkSize?: number;
+  /** Features handed to `onBatch` at a time (default: 1000) */
+  batchSize?: number;
+  /** Aborts the read; the returned promise rejects with an `AbortError` */
+  signal?: AbortSignal;
+  /** Receives features in batches; awaited before reading on */
+  onBatch: (
+    features: unknown[],
+    progress: GeoJsonStreamProgress,
+  ) => void | Promise<void>;
+}
+
+/**
+ * Read a GeoJSON file in chunks, handing its features over in batches.
+ *
+ * The event loop gets a turn between batches so the page stays responsive
+ * while a large file loads.
+ *
+ * @param blob - The file to read
+ * @param options - Chunk and batch sizes, abort signal and batch callback
+ * @returns The root members, excluding `features`
+ */
+export async function streamGeoJson(
+  blob: Blob,
+  options: GeoJsonStreamOptions,
+): Promise<Record<string, unknown>> {
+  const chunkSize = options.chunkSize ?? 1024 * 1024;
+  const batchSize = Math.max(1, options.batchSize ?? 1000);
+  const parser = new GeoJsonStreamParser();
+  const decoder = new TextDecoder();
+  let pending: unknown[] = [];
+  let bytesRead = 0;
+
+  const flush = async (all: boolean) => {
+    while (pending.length >= batchSize || (all && pending.length > 0)) {
+      throwIfAborted(options.signal);
+      const batch = pending.slice(0, batchSize);
+      pending = pending.slice(batch.length);
+      await options.onBatch(batch, {
+        bytesRead,
+        totalBytes: blob.size,
+        members: parser.members,
+      });
+      await yieldToEventLoop();
+    }
+  };
+
+  while (bytesRead < blob.size) {
+    throwIfAborted(options.signal);
+    const bytes = await readBlob(blob.slice(bytesRead, bytesRead + chunkSize));
+    bytesRead += bytes.byteLength;
+    const text = decoder.decode(bytes, { stream: bytesRead < blob.size });
+    pending.push(...parser.write(text));
+    await flush(false);
+  }
+
+  const members = parser.end();
+  await flush(true);
+  return members;
+}
+
+/**
+ * Read the root members of a GeoJSON file (`type`, `crs`, `bbox`, ...)
+ * without parsing its features, e.g. to find a `crs` member that follows the
+ * `features` array before any feature is imported.
+ *
+ * @param blob - The file to read
+ * @param options - Chunk size, abort signal, and `until` to stop reading as
+ *   soon as the members read so far are enough
+ * @returns The root members, excluding `features`
+ */
+export async function readGeoJsonMembers(
+  blob: Blob,
+  options: {
+    chunkSize?: number;
+    signal?: AbortSignal;
+    until?: (members: Record<string, unknown>) => boolean;
+  } = {},
+): Promise<Record<string, unknown>> {
+  const chunkSize = options.chunkSize ?? 1024 * 1024;
+  const parser = new GeoJsonStreamParser({ skipFeatures: true });
+  const decoder = new TextDecoder();
+  let bytesRead = 0;
+
+  while (bytesRead < blob.size) {
+    throwIfAborted(options.signal);
+    const bytes = await readBlob(blob.slice(bytesRead, bytesRead + chunkSize));
+    bytesRead += bytes.byteLength;
+    parser.write(decoder.decode(bytes, { stream: bytesRead < blob.size }));
+    if (options.until?.(parser.members)) return parser.members;
+    await yieldToEventLoop();
+  }
+
+  return parser.end();
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new DOMException("The import was cancelled", "AbortError");
+  }
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Read a blob's bytes; FileReader keeps this working where `Blob.arrayBuffer`
+ * is missing
+ */
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Failed to read file"));
+    reader.readAsArrayBuffer(blob);
+  });
+}
@@ -0,0 +1,245 @@
+import type {
+  Feature,
+  FeatureCollection,
+  GeoJsonProperties,
+  Geometry,
+  Position,
+} from "geojson";
+import { childElements, escapeXml, parseXml } from "./xml";
+
+/**
+ * GPX 1.1 reading and writing.
+ *
+ * Waypoints become Point features, routes become LineStrings and tracks become
+ * LineStrings (or MultiLineStrings for multi-segment tracks). Elevation is kept
+ * as the third coordinate; the simple text fields of each element (`name`,
+ * `desc`, `time`, `sym`, ...) become properties.
+ *
+ * Writing maps points to waypoints and lines to tracks. GPX has no polygon
+ * type, so polygon rings are written as closed track segments. Only the
+ * standard GPX fields are written; other properties are dropped.
+ */
+
+/** Waypoint child elements in GPX 1.1 schema order (after `ele`) */
+const WAYPOINT_FIELDS = ["time", "name", "cmt", "desc", "src", "sym", "type"];
+
+/** Track child elements in GPX 1.1 schema order (before `trkseg`) */
+const TRACK_FIELDS = ["name", "cmt", "desc", "src", "type"];
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Read a GPX document into a feature collection.
+ */
+export function readGpx(text: string): FeatureCollection {
+  const doc = parseXml(text);
+  const root = doc.documentElement;
+  if (root.localName !== "gpx") {
+    throw new Error("Invalid GPX: missing <gpx> root element");
+  }
+
+  const features: Feature[] = [];
+
+  for (const wpt of childElements(root, "wpt")) {
+    const position = readPoint(wpt);
+    if (!position) continue;
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: position },
+      properties: simpleFields(wpt),
+    });
+  }
+
+  for (const rte of childElements(root, "rte")) {
+    const coordinates = readPoints(childElements(rte, "rtept"));
+    if (coordinates.length < 2) continue;
+    features.push({
+      type: "Feature",
+      geometry: { type: "LineString", coordinates },
+      properties: simpleFields(rte),
+    });
+  }
+
+  for (const trk of childElements(root, "trk")) {
+    const segments = childElements(trk, "trkseg")
+      .map((seg) => readPoints(childElements(seg, "trkpt")))
+      .filter((segment) => segment.length >= 2);
+    if (segments.length === 0) continue;
+    const geometry: Geometry =
+      segments.length === 1
+        ? { type: "LineString", coordinates: segments[0] }
+        : { type: "MultiLineString", coordinates: segments };
+    features.push({ type: "Feature", geometry, properties: simpleFields(trk) });
+  }
+
+  return { type: "FeatureCollection", features };
+}
+
+function readPoint(el: Element): Position | null {
+  const lat = Number(el.getAttribute("lat"));
+  const lon = Number(el.getAttribute("lon"));
+  if (
+    el.getAttribute("lat") === null ||
+    el.getAttribute("lon") === null ||
+    !Number.isFinite(lat) ||
+    !Number.isFinite(lon)
+  ) {
+    return null;
+  }
+  const eleText = childElements(el, "ele")[0]?.textContent?.trim();
+  const ele = eleText ? Number(eleText) : NaN;
+  return Number.isFinite(ele) ? [lon, lat, ele] : [lon, lat];
+}
+
+function readPoints(elements: Element[]): Position[] {
+  return elements
+    .map(readPoint)
+    .filter((position): position is Position => position !== null);
+}
+
+/** Text-only child elements as properties (`link` keeps its href). */
+function simpleFields(el: Element): GeoJsonProperties {
+  const properties: Record<string, unknown> = {};
+  for (const child of Array.from(el.children)) {
+    const name = child.localName;
+    if (name === "ele") continue;
+    if (name === "link") {
+      const href = child.getAttribute("href");
+      if (href) properties.link = href;
+      continue;
+    }
+    if (child.children.length > 0) continue;
+    const text = child.textContent?.trim();
+    if (text) properties[name] = text;
+  }
+  return properties;
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Write a feature collection as a GPX 1.1 document.
+ *
+ * @param collection - Features to write.
+ * @param name - Name stored in the GPX metadata.
+ */
+export function writeGpx(
+  collection: FeatureCollection,
+  name = "features",
+): string {
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+
+  for (const feature of collection.features) {
+    const geometry = feature.geometry;
+    if (!geometry) continue;
+    const properties = feature.properties ?? {};
+
+    for (const position of pointsOf(geometry)) {
+      waypoints.push(waypointXml(position, properties));
+    }
+    const segments = segmentsOf(geometry);
+    if (segments.length > 0) {
+      tracks.push(trackXml(segments, properties));
+    }
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="maplibre-gl-geo-editor" xmlns="http://www.topografix.com/GPX/1/1">',
+    `<metadata><name>${escapeXml(name)}</name></metadata>`,
+    ...waypoints,
+    ...tracks,
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+function pointsOf(geometry: Geometry): Position[] {
+  switch (geometry.type) {
+    case "Point":
+      return [geometry.coordinates];
+    case "MultiPoint":
+      return geometry.coordinates;
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(pointsOf);
+    default:
+      return [];
+  }
+}
+
+function segmentsOf(geometry: Geometry): Position[][] {
+  switch (geometry.type) {
+    case "LineString":
+      return [geometry.coordinates];
+    case "MultiLineString":
+    case "Polygon":
+      return geometry.coordinates;
+    case "MultiPolygon":
+      return geometry.coordinates.flat();
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(segmentsOf);
+    default:
+      return [];
+  }
+}
+
+function waypointXml(
+  position: Position,
+  properties: Record<string, unknown>,
+): string {
+  return (
+    `<wpt ${pointAttributes(position)}>` +
+    elevationXml(position) +
+    fieldsXml(WAYPOINT_FIELDS, properties) +
+    "</wpt>"
+  );
+}
+
+function trackXml(
+  segments: Position[][],
+  properties: Record<string, unknown>,
+): string {
+  const segmentXml = segments.map(
+    (segment) =>
+      "<trkseg>" +
+      segment
+        .map(
+          (position) =>
+            `<trkpt ${pointAttributes(position)}>${elevationXml(position)}</trkpt>`,
+        )
+        .join("") +
+      "</trkseg>",
+  );
+  return `<trk>${fieldsXml(TRACK_FIELDS, properties)}${segmentXml.join("")}</trk>`;
+}
+
+function pointAttributes(position: Position): string {
+  return `lat="${position[1]}" lon="${position[0]}"`;
+}
+
+function elevationXml(position: Position): string {
+  return position.length > 2 && Number.isFinite(position[2])
+    ? `<ele>${position[2]}</ele>`
+    : "";
+}
+
+function fieldsXml(
+  fields: string[],
+  properties: Record<string, unknown>,
+): string {
+  return fields
+    .map((field): [string, unknown] => [
+      field,
+      // KML and most GeoJSON use `description` for what GPX calls `desc`.
+      properties[field] ??
+        (field === "desc" ? properties.description : undefined),
+    ])
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([field, value]) => `<${field}>${escapeXml(String(value))}</${field}>`)
+    .join("");
+}
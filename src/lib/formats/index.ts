@@ -0,0 +1,72 @@
+export { readZip, writeZip, listZipEntries, isZip, crc32 } from "./zip";
+export type { ZipEntry } from "./zip";
+export {
+  parseWktProjection,
+  parseProj4Projection,
+  epsgProjection,
+  resolveProjection,
+  requireProjection,
+  readGeoJsonCrs,
+  createGeoJsonCrs,
+  reprojectToWgs84,
+  reprojectFromWgs84,
+  mapGeometryPositions,
+  WGS84_WKT,
+} from "./projection";
+export type { Projection, GeoJsonCrs } from "./projection";
+export {
+  readShapefile,
+  readShapefileZip,
+  writeShapefile,
+  writeShapefileZip,
+  dbfFieldsToAttributeFields,
+} from "./shapefile";
+export type {
+  DbfField,
+  ShapefileParts,
+  ShapefileReadResult,
+} from "./shapefile";
+export { readKml, readKmz, writeKml, writeKmz } from "./kml";
+export { readGpx, writeGpx } from "./gpx";
+export { parseCsv, readCsv, writeCsv } from "./csv";
+export type {
+  CsvGeometryColumns,
+  CsvReadResult,
+  CsvWriteOptions,
+} from "./csv";
+export {
+  parseWktGeometry,
+  geometryToWkt,
+  isWktGeometry,
+  readWkt,
+  writeWkt,
+} from "./wkt";
+export {
+  BUILTIN_FILE_FORMATS,
+  GEOJSON_FORMAT,
+  SHAPEFILE_FORMAT,
+  KML_FORMAT,
+  KMZ_FORMAT,
+  GPX_FORMAT,
+  CSV_FORMAT,
+  WKT_FORMAT,
+  detectFileFormat,
+  formatFromFilename,
+  readFeatureFile,
+  writeFeatureFile,
+} from "./fileFormats";
+export { FormatRegistry } from "./registry";
+export type {
+  FeatureFileReadResult,
+  FeatureFileWriteResult,
+} from "./registry";
+export {
+  GeoJsonStreamParser,
+  readGeoJsonMembers,
+  streamGeoJson,
+} from "./geojsonStream";
+export type {
+  GeoJsonStreamOptions,
+  GeoJsonStreamProgress,
+} from "./geojsonStream";
+export { parseFeatureText } from "./featureText";
@@ -0,0 +1,549 @@
+import type {
+  Feature,
+  FeatureCollection,
+  GeoJsonProperties,
+  Geometry,
+  Position,
+} from "geojson";
+import {
+  childElement,
+  childElements,
+  childText,
+  descendantElements,
+  escapeXml,
+  parseXml,
+} from "./xml";
+import { readZip, writeZip } from "./zip";
+
+/**
+ * KML and KMZ (zipped KML) reading and writing.
+ *
+ * Placemark styles are flattened into simplestyle-spec properties (`stroke`,
+ * `stroke-width`, `stroke-opacity`, `fill`, `fill-opacity`, `marker-color`)
+ * plus `icon` for the icon href, and `ExtendedData` entries become ordinary
+ * properties. Writing reverses both, so styles survive a round trip.
+ */
+
+/** Properties written to and read from KML `<Style>` elements */
+const STYLE_PROPERTIES = [
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "fill",
+  "fill-opacity",
+  "marker-color",
+  "icon",
+];
+
+type StyleProperties = Record<string, string | number>;
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Read a KML document into a feature collection.
+ *
+ * Placemarks anywhere in the document (including nested folders) become
+ * features. A MultiGeometry of one geometry type becomes the matching Multi*
+ * geometry; mixed MultiGeometries are split into one feature per member.
+ */
+export function readKml(text: string): FeatureCollection {
+  const doc = parseXml(text);
+  const styles = collectStyles(doc);
+  const schemas = collectSchemas(doc);
+  const features: Feature[] = [];
+
+  for (const placemark of descendantElements(doc, "Placemark")) {
+    const properties = placemarkProperties(placemark, styles, schemas);
+    const geometries = combineGeometries(placemarkGeometries(placemark));
+    for (const geometry of geometries) {
+      features.push({
+        type: "Feature",
+        geometry,
+        properties: { ...properties } as GeoJsonProperties,
+      });
+    }
+  }
+
+  return { type: "FeatureCollection", features };
+}
+
+/**
+ * Read a KMZ archive (the root `doc.kml`, or the first `.kml` entry).
+ */
+export async function readKmz(
+  data: ArrayBuffer | Uint8Array,
+): Promise<FeatureCollection> {
+  const entries = await readZip(data);
+  const kml =
+    entries.find((entry) => entry.name.toLowerCase() === "doc.kml") ??
+    entries.find((entry) => /\.kml$/i.test(entry.name));
+  if (!kml) {
+    throw new Error("No .kml file found in KMZ archive");
+  }
+  return readKml(new TextDecoder().decode(kml.data));
+}
+
+function placemarkProperties(
+  placemark: Element,
+  styles: Map<string, StyleProperties>,
+  schemas: Map<string, Record<string, string>>,
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+
+  const name = childText(placemark, "name");
+  if (name !== null) properties.name = name;
+  const description = childText(placemark, "description");
+  if (description !== null) properties.description = description;
+
+  const styleUrl = childText(placemark, "styleUrl");
+  if (styleUrl) {
+    Object.assign(properties, styles.get(styleId(styleUrl)) ?? {});
+  }
+  const inlineStyle = childElement(placemark, "Style");
+  if (inlineStyle) {
+    Object.assign(properties, styleProperties(inlineStyle));
+  }
+
+  const extended = childElement(placemark, "ExtendedData");
+  if (extended) {
+    for (const data of childElements(extended, "Data")) {
+      const key = data.getAttribute("name");
+      if (key) properties[key] = childText(data, "value") ?? "";
+    }
+    for (const schemaData of childElements(extended, "SchemaData")) {
+      const types =
+        schemas.get(styleId(schemaData.getAttribute("schemaUrl") ?? "")) ?? {};
+      for (const simple of childElements(schemaData, "SimpleData")) {
+        const key = simple.getAttribute("name");
+        if (!key) continue;
+        properties[key] = typedValue(
+          simple.textContent?.trim() ?? "",
+          types[key],
+        );
+      }
+    }
+  }
+
+  return properties;
+}
+
+function styleId(url: string): string {
+  const hash = url.lastIndexOf("#");
+  return hash >= 0 ? url.slice(hash + 1) : url;
+}
+
+function collectStyles(doc: Document): Map<string, StyleProperties> {
+  const styles = new Map<string, StyleProperties>();
+  for (const style of descendantElements(doc, "Style")) {
+    const id = style.getAttribute("id");
+    if (id) styles.set(id, styleProperties(style));
+  }
+  for (const styleMap of descendantElements(doc, "StyleMap")) {
+    const id = styleMap.getAttribute("id");
+    if (!id) continue;
+    const normal = childElements(styleMap, "Pair").find(
+      (pair) => childText(pair, "key") === "normal",
+    );
+    if (!normal) continue;
+    const inline = childElement(normal, "Style");
+    const url = childText(normal, "styleUrl");
+    const resolved = inline
+      ? styleProperties(inline)
+      : url
+        ? styles.get(styleId(url))
+        : undefined;
+    if (resolved) styles.set(id, resolved);
+  }
+  return styles;
+}
+
+function styleProperties(style: Element): StyleProperties {
+  const properties: StyleProperties = {};
+
+  const line = childElement(style, "LineStyle");
+  if (line) {
+    const color = parseKmlColor(childText(line, "color"));
+    if (color) {
+      properties.stroke = color.hex;
+      properties["stroke-opacity"] = color.opacity;
+    }
+    const width = Number(childText(line, "width"));
+    if (childText(line, "width") !== null && Number.isFinite(width)) {
+      properties["stroke-width"] = width;
+    }
+  }
+
+  const poly = childElement(style, "PolyStyle");
+  if (poly) {
+    const color = parseKmlColor(childText(poly, "color"));
+    if (color) {
+      properties.fill = color.hex;
+      properties["fill-opacity"] = color.opacity;
+    }
+    if (childText(poly, "fill") === "0") {
+      properties["fill-opacity"] = 0;
+    }
+  }
+
+  const icon = childElement(style, "IconStyle");
+  if (icon) {
+    const color = parseKmlColor(childText(icon, "color"));
+    if (color) properties["marker-color"] = color.hex;
+    const iconElement = childElement(icon, "Icon");
+    const href = iconElement ? childText(iconElement, "href") : null;
+    if (href) properties.icon = href;
+  }
+
+  return properties;
+}
+
+function collectSchemas(doc: Document): Map<string, Record<string, string>> {
+  const schemas = new Map<string, Record<string, string>>();
+  for (const schema of descendantElements(doc, "Schema")) {
+    const id = schema.getAttribute("id");
+    if (!id) continue;
+    const fields: Record<string, string> = {};
+    for (const field of childElements(schema, "SimpleField")) {
+      const name = field.getAttribute("name");
+      if (name) fields[name] = field.getAttribute("type") ?? "string";
+    }
+    schemas.set(id, fields);
+  }
+  return schemas;
+}
+
+function typedValue(value: string, type: string | undefined): unknown {
+  switch (type) {
+    case "int":
+    case "uint":
+    case "short":
+    case "ushort":
+    case "float":
+    case "double": {
+      const num = Number(value);
+      return value !== "" && Number.isFinite(num) ? num : value;
+    }
+    case "bool":
+      return value === "1" || value.toLowerCase() === "true";
+    default:
+      return value;
+  }
+}
+
+/** KML colors are `aabbggrr` hex. */
+function parseKmlColor(
+  value: string | null,
+): { hex: string; opacity: number } | null {
+  if (!value || !/^[0-9a-f]{8}$/i.test(value)) return null;
+  const alpha = parseInt(value.slice(0, 2), 16);
+  const b = value.slice(2, 4);
+  const g = value.slice(4, 6);
+  const r = value.slice(6, 8);
+  return {
+    hex: `#${r}${g}${b}`.toLowerCase(),
+    opacity: Math.round((alpha / 255) * 100) / 100,
+  };
+}
+
+function placemarkGeometries(parent: Element): Geometry[] {
+  const geometries: Geometry[] = [];
+  for (const el of Array.from(parent.children)) {
+    switch (el.localName) {
+      case "Point": {
+        const [position] = parseCoordinates(childText(el, "coordinates"));
+        if (position) geometries.push({ type: "Point", coordinates: position });
+        break;
+      }
+      case "LineString": {
+        const coordinates = parseCoordinates(childText(el, "coordinates"));
+        if (coordinates.length >= 2) {
+          geometries.push({ type: "LineString", coordinates });
+        }
+        break;
+      }
+      case "LinearRing": {
+        const ring = parseCoordinates(childText(el, "coordinates"));
+        if (ring.length >= 4) {
+          geometries.push({ type: "Polygon", coordinates: [ring] });
+        }
+        break;
+      }
+      case "Polygon": {
+        const rings = [
+          ...childElements(el, "outerBoundaryIs"),
+          ...childElements(el, "innerBoundaryIs"),
+        ].flatMap((boundary) =>
+          childElements(boundary, "LinearRing").map((ring) =>
+            parseCoordinates(childText(ring, "coordinates")),
+          ),
+        );
+        if (rings.length > 0 && rings[0].length >= 4) {
+          geometries.push({
+            type: "Polygon",
+            coordinates: rings.filter((ring) => ring.length >= 4),
+          });
+        }
+        break;
+      }
+      case "Track": {
+        const coordinates = childElements(el, "coord")
+          .map((coord) =>
+            (coord.textContent ?? "").trim().split(/\s+/).map(Number),
+          )
+          .filter(isValidPosition);
+        if (coordinates.length >= 2) {
+          geometries.push({ type: "LineString", coordinates });
+        }
+        break;
+      }
+      case "MultiGeometry":
+      case "MultiTrack":
+        geometries.push(...placemarkGeometries(el));
+        break;
+    }
+  }
+  return geometries;
+}
+
+function combineGeometries(geometries: Geometry[]): Geometry[] {
+  if (geometries.length <= 1) return geometries;
+  const type = geometries[0].type;
+  if (!geometries.every((geometry) => geometry.type === type)) {
+    return geometries;
+  }
+  const coordinates = geometries.map(
+    (geometry) => (geometry as { coordinates: unknown }).coordinates,
+  );
+  switch (type) {
+    case "Point":
+      return [{ type: "MultiPoint", coordinates: coordinates as Position[] }];
+    case "LineString":
+      return [
+        { type: "MultiLineString", coordinates: coordinates as Position[][] },
+      ];
+    case "Polygon":
+      return [
+        { type: "MultiPolygon", coordinates: coordinates as Position[][][] },
+      ];
+    default:
+      return geometries;
+  }
+}
+
+function parseCoordinates(text: string | null): Position[] {
+  if (!text) return [];
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => tuple.split(",").map(Number))
+    .filter(isValidPosition);
+}
+
+function isValidPosition(position: number[]): boolean {
+  return position.length >= 2 && position.every(Number.isFinite);
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Write a feature collection as a KML document.
+ *
+ * `name` and `description` properties map to the Placemark elements, style
+ * properties to an inline `<Style>`, and every other property to
+ * `ExtendedData`. Internal properties (prefixed `__`) are omitted.
+ *
+ * @param collection - Features to write.
+ * @param name - Document name.
+ */
+export function writeKml(
+  collection: FeatureCollection,
+  name = "features",
+): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    `<name>${escapeXml(name)}</name>`,
+  ];
+
+  for (const feature of collection.features) {
+    if (!feature.geometry) continue;
+    lines.push(placemarkXml(feature));
+  }
+
+  lines.push("</Document>", "</kml>", "");
+  return lines.join("\n");
+}
+
+/**
+ * Write a feature collection as a KMZ archive containing `doc.kml`.
+ */
+export function writeKmz(
+  collection: FeatureCollection,
+  name = "features",
+): Uint8Array {
+  return writeZip([
+    {
+      name: "doc.kml",
+      data: new TextEncoder().encode(writeKml(collection, name)),
+    },
+  ]);
+}
+
+function placemarkXml(feature: Feature): string {
+  const properties = feature.properties ?? {};
+  const parts = ["<Placemark>"];
+
+  if (properties.name !== undefined && properties.name !== null) {
+    parts.push(`<name>${escapeXml(String(properties.name))}</name>`);
+  }
+  if (properties.description !== undefined && properties.description !== null) {
+    parts.push(
+      `<description>${escapeXml(String(properties.description))}</description>`,
+    );
+  }
+
+  const style = styleXml(properties);
+  if (style) parts.push(style);
+
+  const data = Object.entries(properties).filter(
+    ([key, value]) =>
+      !key.startsWith("__") &&
+      key !== "name" &&
+      key !== "description" &&
+      !STYLE_PROPERTIES.includes(key) &&
+      value !== undefined,
+  );
+  if (data.length > 0) {
+    parts.push("<ExtendedData>");
+    for (const [key, value] of data) {
+      const text =
+        value === null
+          ? ""
+          : typeof value === "object"
+            ? JSON.stringify(value)
+            : String(value);
+      parts.push(
+        `<Data name="${escapeXml(key)}"><value>${escapeXml(text)}</value></Data>`,
+      );
+    }
+    parts.push("</ExtendedData>");
+  }
+
+  parts.push(geometryXml(feature.geometry!), "</Placemark>");
+  return parts.join("\n");
+}
+
+function styleXml(properties: Record<string, unknown>): string | null {
+  const parts: string[] = [];
+
+  const stroke = toKmlColor(properties.stroke, properties["stroke-opacity"]);
+  const width = properties["stroke-width"];
+  if (stroke || typeof width === "number") {
+    parts.push(
+      "<LineStyle>" +
+        (stroke ? `<color>${stroke}</color>` : "") +
+        (typeof width === "number" ? `<width>${width}</width>` : "") +
+        "</LineStyle>",
+    );
+  }
+
+  const fill = toKmlColor(properties.fill, properties["fill-opacity"]);
+  if (fill) {
+    parts.push(`<PolyStyle><color>${fill}</color></PolyStyle>`);
+  }
+
+  const marker = toKmlColor(properties["marker-color"], 1);
+  const icon = typeof properties.icon === "string" ? properties.icon : null;
+  if (marker || icon) {
+    parts.push(
+      "<IconStyle>" +
+        (marker ? `<color>${marker}</color>` : "") +
+        (icon ? `<Icon><href>${escapeXml(icon)}</href></Icon>` : "") +
+        "</IconStyle>",
+    );
+  }
+
+  return parts.length > 0 ? `<Style>${parts.join("")}</Style>` : null;
+}
+
+function toKmlColor(color: unknown, opacity: unknown): string | null {
+  if (typeof color !== "string") return null;
+  let hex = color.trim().replace(/^#/, "").toLowerCase();
+  if (/^[0-9a-f]{3}$/.test(hex)) {
+    hex = hex
+      .split("")
+      .map((c) => c + c)
+      .join("");
+  }
+  if (!/^[0-9a-f]{6}$/.test(hex)) return null;
+  const alpha = Math.round(
+    Math.max(0, Math.min(1, typeof opacity === "number" ? opacity : 1)) * 255,
+  );
+  return (
+    alpha.toString(16).padStart(2, "0") +
+    hex.slice(4, 6) +
+    hex.slice(2, 4) +
+    hex.slice(0, 2)
+  );
+}
+
+function geometryXml(geometry: Geometry): string {
+  switch (geometry.type) {
+    case "Point":
+      return `<Point><coordinates>${coordinatesText([geometry.coordinates])}</coordinates></Point>`;
+    case "LineString":
+      return `<LineString><coordinates>${coordinatesText(geometry.coordinates)}</coordinates></LineString>`;
+    case "Polygon":
+      return polygonXml(geometry.coordinates);
+    case "MultiPoint":
+      return multiGeometryXml(
+        geometry.coordinates.map((coordinates) => ({
+          type: "Point",
+          coordinates,
+        })),
+      );
+    case "MultiLineString":
+      return multiGeometryXml(
+        geometry.coordinates.map((coordinates) => ({
+          type: "LineString",
+          coordinates,
+        })),
+      );
+    case "MultiPolygon":
+      return multiGeometryXml(
+        geometry.coordinates.map((coordinates) => ({
+          type: "Polygon",
+          coordinates,
+        })),
+      );
+    case "GeometryCollection":
+      return multiGeometryXml(geometry.geometries);
+  }
+}
+
+function multiGeometryXml(geometries: Geometry[]): string {
+  return `<MultiGeometry>${geometries.map(geometryXml).join("")}</MultiGeometry>`;
+}
+
+function polygonXml(rings: Position[][]): string {
+  const [outer, ...holes] = rings;
+  const ring = (positions: Position[]) =>
+    `<LinearRing><coordinates>${coordinatesText(positions)}</coordinates></LinearRing>`;
+  return (
+    "<Polygon>" +
+    `<outerBoundaryIs>${ring(outer)}</outerBoundaryIs>` +
+    holes
+      .map((hole) => `<innerBoundaryIs>${ring(hole)}</innerBoundaryIs>`)
+      .join("") +
+    "</Polygon>"
+  );
+}
+
+function coordinatesText(positions: Position[]): string {
+  return positions.map((position) => position.join(",")).join(" ");
+}
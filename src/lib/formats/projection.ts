@@ -0,0 +1,1033 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+
+/**
+ * Coordinate reference system support for file import/export.
+ *
+ * The editor itself works in WGS84 longitude/latitude. Files that carry their
+ * own CRS (a shapefile `.prj` or a GeoJSON `crs` member, for example) are
+ * converted with the pure projection math below. CRSs can be given as WKT,
+ * common EPSG codes or proj4 strings.
+ *
+ * Supported methods are geographic, Mercator, Transverse Mercator (UTM,
+ * Gauss-Krüger and most national grids) and Lambert Conformal Conic. Datums
+ * other than WGS84 are shifted with a 7-parameter Helmert transformation
+ * (`+towgs84`, WKT `TOWGS84`, or the known OSGB36 and DHDN datums, good to a
+ * few metres); grid shifts (`+nadgrids`) are not applied, and NAD83, ETRS89,
+ * GDA94 and friends are treated as WGS84, which is accurate to about a metre.
+ * Other methods (oblique Mercator, stereographic, Albers, Lambert azimuthal
+ * equal-area and so on) do not resolve.
+ */
+
+/** Converts positions between a source CRS and WGS84 longitude/latitude. */
+export interface Projection {
+  /** Human-readable CRS name (from the WKT, when known) */
+  name: string;
+  /** Source CRS coordinates to WGS84 longitude/latitude */
+  inverse(position: Position): Position;
+  /** WGS84 longitude/latitude to source CRS coordinates */
+  forward(position: Position): Position;
+}
+
+interface Ellipsoid {
+  a: number;
+  f: number;
+}
+
+const WGS84: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
+const GRS80: Ellipsoid = { a: 6378137, f: 1 / 298.257222101 };
+const DEG = Math.PI / 180;
+
+/** Ellipsoids by proj4 `+ellps` name */
+const ELLIPSOIDS: Record<string, Ellipsoid> = {
+  WGS84,
+  GRS80,
+  intl: { a: 6378388, f: 1 / 297 },
+  clrk66: { a: 6378206.4, f: 1 / 294.978698214 },
+  bessel: { a: 6377397.155, f: 1 / 299.1528128 },
+  airy: { a: 6377563.396, f: 1 / 299.3249646 },
+  krass: { a: 6378245, f: 1 / 298.3 },
+  sphere: { a: 6370997, f: 0 },
+};
+
+/** Ellipsoids by proj4 `+datum` name */
+const DATUM_ELLIPSOIDS: Record<string, Ellipsoid> = {
+  WGS84,
+  NAD83: GRS80,
+  NAD27: ELLIPSOIDS.clrk66,
+  potsdam: ELLIPSOIDS.bessel,
+  OSGB36: ELLIPSOIDS.airy,
+};
+
+/**
+ * Helmert parameters to WGS84 in proj4 `+towgs84` order and units: dx, dy,
+ * dz (metres), rx, ry, rz (arc seconds, position vector convention) and
+ * scale (ppm)
+ */
+type Helmert = number[];
+
+/** Datum shifts by proj4 `+datum` name */
+const DATUM_SHIFTS: Record<string, Helmert> = {
+  OSGB36: [446.448, -125.157, 542.06, 0.15, 0.247, 0.842, -20.489],
+  potsdam: [598.1, 73.7, 418.2, 0.202, 0.045, -2.455, 6.7],
+};
+
+/** Datum shifts by normalized WKT `DATUM` name */
+const WKT_DATUM_SHIFTS: Record<string, Helmert> = {
+  osgb_1936: DATUM_SHIFTS.OSGB36,
+  d_osgb_1936: DATUM_SHIFTS.OSGB36,
+  ordnance_survey_of_great_britain_1936: DATUM_SHIFTS.OSGB36,
+  deutsches_hauptdreiecksnetz: DATUM_SHIFTS.potsdam,
+  d_deutsches_hauptdreiecksnetz: DATUM_SHIFTS.potsdam,
+};
+
+/** Projected EPSG codes outside the UTM families, as proj4 definitions */
+const EPSG_DEFINITIONS: Record<number, string> = {
+  // RGF93 / Lambert-93
+  2154: "+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80",
+  // NZGD2000 / New Zealand Transverse Mercator
+  2193: "+proj=tmerc +lat_0=0 +lon_0=173 +k=0.9996 +x_0=1600000 +y_0=10000000 +ellps=GRS80",
+  // ETRS89 / LCC Europe
+  3034: "+proj=lcc +lat_0=52 +lon_0=10 +lat_1=35 +lat_2=65 +x_0=4000000 +y_0=2800000 +ellps=GRS80",
+  // OSGB36 / British National Grid
+  27700:
+    "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +datum=OSGB36",
+  // DHDN / 3-degree Gauss-Kruger zones 2 to 5
+  31466:
+    "+proj=tmerc +lat_0=0 +lon_0=6 +k=1 +x_0=2500000 +y_0=0 +datum=potsdam",
+  31467:
+    "+proj=tmerc +lat_0=0 +lon_0=9 +k=1 +x_0=3500000 +y_0=0 +datum=potsdam",
+  31468:
+    "+proj=tmerc +lat_0=0 +lon_0=12 +k=1 +x_0=4500000 +y_0=0 +datum=potsdam",
+  31469:
+    "+proj=tmerc +lat_0=0 +lon_0=15 +k=1 +x_0=5500000 +y_0=0 +datum=potsdam",
+};
+
+/** WKT of the WGS84 geographic CRS, as written to shapefile `.prj` files. */
+export const WGS84_WKT =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+// ============================================================================
+// WKT parsing
+// ============================================================================
+
+interface WktNode {
+  keyword: string;
+  values: Array<string | number | WktNode>;
+}
+
+/**
+ * Parse well-known text (WKT1, as found in `.prj` files) into a projection.
+ *
+ * @param wkt - The CRS definition.
+ * @returns The projection, or null when the CRS uses an unsupported method.
+ */
+export function parseWktProjection(wkt: string): Projection | null {
+  let root: WktNode;
+  try {
+    root = parseWkt(wkt);
+  } catch {
+    return null;
+  }
+
+  const name = typeof root.values[0] === "string" ? root.values[0] : "";
+  const keyword = root.keyword.toUpperCase();
+
+  if (keyword === "GEOGCS") {
+    return geographicFromWkt(root, name);
+  }
+  if (keyword !== "PROJCS") {
+    return null;
+  }
+
+  const geogcs = findChild(root, "GEOGCS");
+  const spheroid = geogcs ? findDeep(geogcs, "SPHEROID") : null;
+  const ellipsoid = spheroid ? ellipsoidFromSpheroid(spheroid) : WGS84;
+  const method = findChild(root, "PROJECTION");
+  const methodName =
+    method && typeof method.values[0] === "string"
+      ? normalizeName(method.values[0])
+      : "";
+
+  const params: Record<string, number> = {};
+  for (const child of root.values) {
+    if (
+      typeof child === "object" &&
+      child.keyword.toUpperCase() === "PARAMETER" &&
+      typeof child.values[0] === "string" &&
+      typeof child.values[1] === "number"
+    ) {
+      params[normalizeName(child.values[0])] = child.values[1];
+    }
+  }
+
+  const unit = findChild(root, "UNIT");
+  const toMeters =
+    unit && typeof unit.values[1] === "number" ? unit.values[1] : 1;
+
+  const common: ProjectionParams = {
+    ellipsoid,
+    lon0: (params.central_meridian ?? params.longitude_of_origin ?? 0) * DEG,
+    lat0: (params.latitude_of_origin ?? 0) * DEG,
+    k0: params.scale_factor ?? 1,
+    falseEasting: (params.false_easting ?? 0) * toMeters,
+    falseNorthing: (params.false_northing ?? 0) * toMeters,
+    toMeters,
+  };
+
+  let projection: Projection;
+  switch (methodName) {
+    case "transverse_mercator":
+    case "gauss_kruger":
+      projection = transverseMercator(name, common);
+      break;
+    case "mercator_auxiliary_sphere":
+    case "popular_visualisation_pseudo_mercator":
+      return mercator(name, { ...common, ellipsoid: { a: ellipsoid.a, f: 0 } });
+    case "mercator":
+    case "mercator_1sp":
+      projection = mercator(name, common);
+      break;
+    case "lambert_conformal_conic":
+    case "lambert_conformal_conic_2sp":
+    case "lambert_conformal_conic_1sp": {
+      const lat1 = params.standard_parallel_1 ?? params.latitude_of_origin;
+      projection = lambertConformalConic(name, {
+        ...common,
+        lat1: (lat1 ?? 0) * DEG,
+        lat2: (params.standard_parallel_2 ?? lat1 ?? 0) * DEG,
+      });
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const shift = geogcs ? helmertFromWkt(geogcs) : null;
+  return shift ? withDatumShift(projection, ellipsoid, shift) : projection;
+}
+
+/**
+ * Datum shift of a WKT `GEOGCS`: its `TOWGS84` node, or a known datum name
+ */
+function helmertFromWkt(geogcs: WktNode): Helmert | null {
+  const datum = findChild(geogcs, "DATUM");
+  if (!datum) return null;
+  const towgs84 = findChild(datum, "TOWGS84");
+  if (towgs84) {
+    const values = towgs84.values.filter(
+      (value): value is number => typeof value === "number",
+    );
+    return values.some((value) => value !== 0) ? values : null;
+  }
+  const name = typeof datum.values[0] === "string" ? datum.values[0] : "";
+  return WKT_DATUM_SHIFTS[normalizeName(name)] ?? null;
+}
+
+// ============================================================================
+// EPSG codes and proj4 strings
+// ============================================================================
+
+/**
+ * Resolve a CRS given in any supported form:
+ * - EPSG codes: `3857`, `"EPSG:32633"`, `"urn:ogc:def:crs:EPSG::25832"`,
+ *   `"http://www.opengis.net/def/crs/EPSG/0/4326"`
+ * - `"urn:ogc:def:crs:OGC:1.3:CRS84"` (and `"CRS84"`)
+ * - proj4 strings: `"+proj=utm +zone=33 +datum=WGS84"`
+ * - WKT1
+ *
+ * @returns The projection, or null when the CRS is not supported.
+ */
+export function resolveProjection(
+  definition: string | number,
+): Projection | null {
+  if (typeof definition === "number") {
+    return epsgProjection(definition);
+  }
+
+  const text = definition.trim();
+  if (/^\d+$/.test(text)) {
+    return epsgProjection(Number(text));
+  }
+  if (/CRS:?84$/i.test(text)) {
+    return geographic("CRS84");
+  }
+  if (/EPSG/i.test(text)) {
+    const code = /(\d+)$/.exec(text);
+    return code ? epsgProjection(Number(code[1])) : null;
+  }
+  if (/^\+|\+proj=/.test(text)) {
+    return parseProj4Projection(text);
+  }
+  return parseWktProjection(text);
+}
+
+/**
+ * Resolve a CRS, throwing a descriptive error when it is not supported.
+ *
+ * @param context - Where the CRS came from, e.g. a file name
+ */
+export function requireProjection(
+  definition: string | number,
+  context?: string,
+): Projection {
+  const projection = resolveProjection(definition);
+  if (!projection) {
+    throw new Error(
+      `Unsupported CRS "${definition}"${context ? ` in ${context}` : ""}: ` +
+        "only geographic, Mercator, Transverse Mercator and Lambert " +
+        "Conformal Conic systems can be converted",
+    );
+  }
+  return projection;
+}
+
+/**
+ * Projection for a common EPSG code: geographic WGS84/ETRS89/NAD83/GDA
+ * systems, Web Mercator, World Mercator, the UTM families on WGS84, ETRS89,
+ * NAD83 and GDA94/GDA2020, Lambert-93 (2154), ETRS89 LCC Europe (3034),
+ * NZTM (2193), the British National Grid (27700) and the DHDN Gauss-Krüger
+ * zones (31466-31469).
+ *
+ * @returns The projection, or null for codes not in the list above.
+ */
+export function epsgProjection(code: number): Projection | null {
+  const name = `EPSG:${code}`;
+  if ([4326, 4258, 4269, 4283, 4617, 4167, 7844].includes(code)) {
+    return geographic(name);
+  }
+  if ([3857, 3785, 900913, 102100, 102113].includes(code)) {
+    return mercator(name, originParams({ a: WGS84.a, f: 0 }));
+  }
+  if (code === 3395) {
+    return mercator(name, originParams(WGS84));
+  }
+
+  const utm = utmZoneForEpsg(code);
+  if (utm) {
+    return transverseMercator(
+      name,
+      utmParams(utm.ellipsoid, (utm.zone * 6 - 183) * DEG, utm.south),
+    );
+  }
+  const definition = EPSG_DEFINITIONS[code];
+  const projection = definition ? parseProj4Projection(definition) : null;
+  return projection ? { ...projection, name } : null;
+}
+
+function utmZoneForEpsg(
+  code: number,
+): { zone: number; south: boolean; ellipsoid: Ellipsoid } | null {
+  const ranges: Array<[number, number, boolean, Ellipsoid]> = [
+    [32601, 32660, false, WGS84],
+    [32701, 32760, true, WGS84],
+    [25828, 25838, false, GRS80], // ETRS89 / UTM 28N-38N
+    [26901, 26923, false, GRS80], // NAD83 / UTM 1N-23N
+    [28348, 28358, true, GRS80], // GDA94 / MGA 48-58
+    [7846, 7859, true, GRS80], // GDA2020 / MGA 46-59
+  ];
+  for (const [first, last, south, ellipsoid] of ranges) {
+    if (code >= first && code <= last) {
+      const firstZone = first % 100;
+      return { zone: firstZone + code - first, south, ellipsoid };
+    }
+  }
+  return null;
+}
+
+/** Parameters with the natural origin at 0,0 and unit scale, in metres */
+function originParams(ellipsoid: Ellipsoid): ProjectionParams {
+  return {
+    ellipsoid,
+    lon0: 0,
+    lat0: 0,
+    k0: 1,
+    falseEasting: 0,
+    falseNorthing: 0,
+    toMeters: 1,
+  };
+}
+
+function utmParams(
+  ellipsoid: Ellipsoid,
+  lon0: number,
+  south: boolean,
+): ProjectionParams {
+  return {
+    ...originParams(ellipsoid),
+    lon0,
+    k0: 0.9996,
+    falseEasting: 500000,
+    falseNorthing: south ? 10000000 : 0,
+  };
+}
+
+/**
+ * Parse a proj4 definition string. Supports `longlat`, `merc`, `tmerc`,
+ * `etmerc`, `utm` and `lcc` with the usual ellipsoid, datum, unit, scale and
+ * false origin parameters. `+towgs84` (and the OSGB36 and potsdam datums) are
+ * applied as Helmert shifts; grid shifts (`+nadgrids`) are ignored.
+ *
+ * @returns The projection, or null when the method is not supported.
+ */
+export function parseProj4Projection(definition: string): Projection | null {
+  const params: Record<string, string> = {};
+  for (const token of definition.trim().split(/\s+/)) {
+    const match = /^\+?([A-Za-z_0-9]+)(?:=(.*))?$/.exec(token);
+    if (match) params[match[1].toLowerCase()] = match[2] ?? "";
+  }
+  const num = (key: string): number | undefined => {
+    const value = parseFloat(params[key]);
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  let ellipsoid =
+    ELLIPSOIDS[params.ellps] ?? DATUM_ELLIPSOIDS[params.datum] ?? WGS84;
+  const a = num("a") ?? num("r");
+  if (a !== undefined) {
+    const b = num("b");
+    const rf = num("rf");
+    ellipsoid = {
+      a,
+      f: rf ? 1 / rf : b !== undefined ? (a - b) / a : 0,
+    };
+  }
+
+  const units: Record<string, number> = {
+    m: 1,
+    km: 1000,
+    ft: 0.3048,
+    "us-ft": 1200 / 3937,
+  };
+  const toMeters = num("to_meter") ?? units[params.units] ?? 1;
+  const common: ProjectionParams = {
+    ellipsoid,
+    lon0: (num("lon_0") ?? 0) * DEG,
+    lat0: (num("lat_0") ?? 0) * DEG,
+    k0: num("k_0") ?? num("k") ?? 1,
+    falseEasting: num("x_0") ?? 0,
+    falseNorthing: num("y_0") ?? 0,
+    toMeters,
+  };
+
+  const towgs84 = params.towgs84?.split(",").map(Number);
+  const shift =
+    towgs84 && towgs84.every(Number.isFinite) && towgs84.some((v) => v !== 0)
+      ? towgs84
+      : DATUM_SHIFTS[params.datum];
+  const projection = proj4Method(definition, params, common, num);
+  return projection && shift
+    ? withDatumShift(projection, ellipsoid, shift)
+    : projection;
+}
+
+function proj4Method(
+  definition: string,
+  params: Record<string, string>,
+  common: ProjectionParams,
+  num: (key: string) => number | undefined,
+): Projection | null {
+  const { ellipsoid, toMeters } = common;
+  switch (params.proj) {
+    case "longlat":
+    case "latlong":
+    case "lonlat":
+    case "latlon":
+      return geographic(definition);
+    case "merc": {
+      const latTs = num("lat_ts");
+      if (latTs !== undefined) {
+        // Scale at the true-scale latitude of the ellipsoid
+        const e2 = ellipsoid.f * (2 - ellipsoid.f);
+        const sin = Math.sin(latTs * DEG);
+        common.k0 = Math.cos(latTs * DEG) / Math.sqrt(1 - e2 * sin * sin);
+      }
+      return mercator(definition, common);
+    }
+    case "tmerc":
+    case "etmerc":
+      return transverseMercator(definition, common);
+    case "utm": {
+      const zone = num("zone");
+      if (zone === undefined || zone < 1 || zone > 60) return null;
+      return transverseMercator(definition, {
+        ...utmParams(ellipsoid, (zone * 6 - 183) * DEG, "south" in params),
+        toMeters,
+      });
+    }
+    case "lcc": {
+      const lat1 = num("lat_1") ?? num("lat_0") ?? 0;
+      return lambertConformalConic(definition, {
+        ...common,
+        lat1: lat1 * DEG,
+        lat2: (num("lat_2") ?? lat1) * DEG,
+      });
+    }
+    default:
+      return null;
+  }
+}
+
+function geographic(name: string): Projection {
+  return {
+    name,
+    inverse: (p) => p.slice(),
+    forward: (p) => p.slice(),
+  };
+}
+
+function parseWkt(text: string): WktNode {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseNode = (): WktNode => {
+    skipWhitespace();
+    const start = pos;
+    while (pos < text.length && /[A-Za-z0-9_]/.test(text[pos])) pos++;
+    const keyword = text.slice(start, pos);
+    skipWhitespace();
+    const open = text[pos];
+    if (!keyword || (open !== "[" && open !== "(")) {
+      throw new Error(`Unexpected WKT token at ${pos}`);
+    }
+    const close = open === "[" ? "]" : ")";
+    pos++;
+
+    const values: WktNode["values"] = [];
+    for (;;) {
+      skipWhitespace();
+      const ch = text[pos];
+      if (ch === undefined) throw new Error("Unterminated WKT");
+      if (ch === close) {
+        pos++;
+        break;
+      }
+      if (ch === ",") {
+        pos++;
+        continue;
+      }
+      if (ch === '"') {
+        const end = text.indexOf('"', pos + 1);
+        if (end < 0) throw new Error("Unterminated WKT string");
+        values.push(text.slice(pos + 1, end));
+        pos = end + 1;
+      } else if (/[-+.\d]/.test(ch)) {
+        const match = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(
+          text.slice(pos),
+        );
+        if (!match) throw new Error(`Invalid WKT number at ${pos}`);
+        values.push(parseFloat(match[0]));
+        pos += match[0].length;
+      } else {
+        values.push(parseNode());
+      }
+    }
+    return { keyword, values };
+  };
+
+  return parseNode();
+}
+
+function findChild(node: WktNode, keyword: string): WktNode | null {
+  for (const value of node.values) {
+    if (typeof value === "object" && value.keyword.toUpperCase() === keyword) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function findDeep(node: WktNode, keyword: string): WktNode | null {
+  const direct = findChild(node, keyword);
+  if (direct) return direct;
+  for (const value of node.values) {
+    if (typeof value === "object") {
+      const found = findDeep(value, keyword);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+}
+
+function ellipsoidFromSpheroid(spheroid: WktNode): Ellipsoid {
+  const a = spheroid.values[1];
+  const inverseFlattening = spheroid.values[2];
+  if (typeof a !== "number" || typeof inverseFlattening !== "number") {
+    return WGS84;
+  }
+  return { a, f: inverseFlattening === 0 ? 0 : 1 / inverseFlattening };
+}
+
+function geographicFromWkt(root: WktNode, name: string): Projection {
+  const primem = findChild(root, "PRIMEM");
+  const unit = findChild(root, "UNIT");
+  const meridian =
+    primem && typeof primem.values[1] === "number" ? primem.values[1] : 0;
+  const unitRadians =
+    unit && typeof unit.values[1] === "number" ? unit.values[1] : DEG;
+  // Express everything in degrees (grads and radians do show up in the wild).
+  const scale = unitRadians / DEG;
+
+  if (Math.abs(scale - 1) < 1e-9 && meridian === 0) {
+    return geographic(name);
+  }
+
+  return {
+    name,
+    inverse: ([x, y, ...rest]) => [(x + meridian) * scale, y * scale, ...rest],
+    forward: ([lon, lat, ...rest]) => [
+      lon / scale - meridian,
+      lat / scale,
+      ...rest,
+    ],
+  };
+}
+
+// ============================================================================
+// Projection math
+// ============================================================================
+
+interface ProjectionParams {
+  ellipsoid: Ellipsoid;
+  lon0: number;
+  lat0: number;
+  k0: number;
+  falseEasting: number;
+  falseNorthing: number;
+  /** Size of one projected unit in metres */
+  toMeters: number;
+}
+
+interface ConicParams extends ProjectionParams {
+  /** Standard parallels; equal for a one-parallel (1SP) conic */
+  lat1: number;
+  lat2: number;
+}
+
+/**
+ * Transverse Mercator (UTM, Gauss-Krüger and most national grids), using the
+ * series expansion from Snyder, "Map Projections: A Working Manual", p. 61.
+ */
+function transverseMercator(name: string, p: ProjectionParams): Projection {
+  const { a, f } = p.ellipsoid;
+  const e2 = f * (2 - f);
+  const ep2 = e2 / (1 - e2);
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  const m0 = meridianArc(p.lat0, a, e2);
+
+  return {
+    name,
+    forward([lon, lat, ...rest]) {
+      const phi = lat * DEG;
+      const sin = Math.sin(phi);
+      const cos = Math.cos(phi);
+      const tan = Math.tan(phi);
+      const n = a / Math.sqrt(1 - e2 * sin * sin);
+      const t = tan * tan;
+      const c = ep2 * cos * cos;
+      const A = (lon * DEG - p.lon0) * cos;
+      const m = meridianArc(phi, a, e2);
+
+      const x =
+        p.k0 *
+        n *
+        (A +
+          ((1 - t + c) * A ** 3) / 6 +
+          ((5 - 18 * t + t * t + 72 * c - 58 * ep2) * A ** 5) / 120);
+      const y =
+        p.k0 *
+        (m -
+          m0 +
+          n *
+            tan *
+            ((A * A) / 2 +
+              ((5 - t + 9 * c + 4 * c * c) * A ** 4) / 24 +
+              ((61 - 58 * t + t * t + 600 * c - 330 * ep2) * A ** 6) / 720));
+
+      return [
+        (x + p.falseEasting) / p.toMeters,
+        (y + p.falseNorthing) / p.toMeters,
+        ...rest,
+      ];
+    },
+    inverse([px, py, ...rest]) {
+      const x = px * p.toMeters - p.falseEasting;
+      const y = py * p.toMeters - p.falseNorthing;
+      const m = m0 + y / p.k0;
+      const mu = m / (a * (1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256));
+      const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+      const phi1 =
+        mu +
+        ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+        ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+        ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+        ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+      const sin = Math.sin(phi1);
+      const cos = Math.cos(phi1);
+      const tan = Math.tan(phi1);
+      const c1 = ep2 * cos * cos;
+      const t1 = tan * tan;
+      const n1 = a / Math.sqrt(1 - e2 * sin * sin);
+      const r1 = (a * (1 - e2)) / Math.pow(1 - e2 * sin * sin, 1.5);
+      const d = x / (n1 * p.k0);
+
+      const phi =
+        phi1 -
+        ((n1 * tan) / r1) *
+          ((d * d) / 2 -
+            ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * d ** 4) / 24 +
+            ((61 +
+              90 * t1 +
+              298 * c1 +
+              45 * t1 * t1 -
+              252 * ep2 -
+              3 * c1 * c1) *
+              d ** 6) /
+              720);
+      const lambda =
+        p.lon0 +
+        (d -
+          ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+          ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) *
+            d ** 5) /
+            120) /
+          cos;
+
+      return [lambda / DEG, phi / DEG, ...rest];
+    },
+  };
+}
+
+function meridianArc(phi: number, a: number, e2: number): number {
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  return (
+    a *
+    ((1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+      ((35 * e6) / 3072) * Math.sin(6 * phi))
+  );
+}
+
+/**
+ * Lambert Conformal Conic with one or two standard parallels, from Snyder,
+ * "Map Projections: A Working Manual", p. 107.
+ */
+function lambertConformalConic(name: string, p: ConicParams): Projection {
+  const { a, f } = p.ellipsoid;
+  const e = Math.sqrt(f * (2 - f));
+  const m = (phi: number) =>
+    Math.cos(phi) / Math.sqrt(1 - e * e * Math.sin(phi) ** 2);
+  const t = (phi: number) => {
+    const sin = Math.sin(phi);
+    return (
+      Math.tan(Math.PI / 4 - phi / 2) /
+      Math.pow((1 - e * sin) / (1 + e * sin), e / 2)
+    );
+  };
+
+  const n =
+    Math.abs(p.lat1 - p.lat2) < 1e-10
+      ? Math.sin(p.lat1)
+      : (Math.log(m(p.lat1)) - Math.log(m(p.lat2))) /
+        (Math.log(t(p.lat1)) - Math.log(t(p.lat2)));
+  const F = m(p.lat1) / (n * Math.pow(t(p.lat1), n));
+  const rho = (phi: number) => a * p.k0 * F * Math.pow(t(phi), n);
+  const rho0 = rho(p.lat0);
+
+  return {
+    name,
+    forward([lon, lat, ...rest]) {
+      const r = rho(Math.max(-89.9999, Math.min(89.9999, lat)) * DEG);
+      const theta = n * (lon * DEG - p.lon0);
+      const x = r * Math.sin(theta);
+      const y = rho0 - r * Math.cos(theta);
+      return [
+        (x + p.falseEasting) / p.toMeters,
+        (y + p.falseNorthing) / p.toMeters,
+        ...rest,
+      ];
+    },
+    inverse([px, py, ...rest]) {
+      const x = px * p.toMeters - p.falseEasting;
+      const y = rho0 - (py * p.toMeters - p.falseNorthing);
+      const sign = Math.sign(n);
+      const r = sign * Math.sqrt(x * x + y * y);
+      const theta = Math.atan2(sign * x, sign * y);
+      const ts = Math.pow(r / (a * p.k0 * F), 1 / n);
+
+      let phi = Math.PI / 2 - 2 * Math.atan(ts);
+      for (let i = 0; i < 15; i++) {
+        const sin = Math.sin(phi);
+        const next =
+          Math.PI / 2 -
+          2 * Math.atan(ts * Math.pow((1 - e * sin) / (1 + e * sin), e / 2));
+        if (Math.abs(next - phi) < 1e-12) {
+          phi = next;
+          break;
+        }
+        phi = next;
+      }
+      return [(theta / n + p.lon0) / DEG, phi / DEG, ...rest];
+    },
+  };
+}
+
+/**
+ * Wrap a projection on another datum so it converts to and from WGS84
+ * longitude/latitude, shifting through earth-centred coordinates.
+ */
+function withDatumShift(
+  projection: Projection,
+  ellipsoid: Ellipsoid,
+  helmert: Helmert,
+): Projection {
+  const [dx = 0, dy = 0, dz = 0, rx = 0, ry = 0, rz = 0, ppm = 0] = helmert;
+  const SEC = DEG / 3600;
+  // Applying the negated parameters undoes the (small-angle) shift
+  const toWgs84 = [dx, dy, dz, rx * SEC, ry * SEC, rz * SEC, ppm * 1e-6];
+  const fromWgs84 = toWgs84.map((value) => -value);
+
+  const shift = (
+    [lon, lat, ...rest]: Position,
+    from: Ellipsoid,
+    to: Ellipsoid,
+    [tx, ty, tz, ex, ey, ez, s]: number[],
+  ): Position => {
+    const [x, y, z] = toGeocentric(lon, lat, from);
+    const [shiftedLon, shiftedLat] = fromGeocentric(
+      tx + (1 + s) * (x - ez * y + ey * z),
+      ty + (1 + s) * (ez * x + y - ex * z),
+      tz + (1 + s) * (-ey * x + ex * y + z),
+      to,
+    );
+    return [shiftedLon, shiftedLat, ...rest];
+  };
+
+  return {
+    name: projection.name,
+    inverse: (position) =>
+      shift(projection.inverse(position), ellipsoid, WGS84, toWgs84),
+    forward: (position) =>
+      projection.forward(shift(position, WGS84, ellipsoid, fromWgs84)),
+  };
+}
+
+/** Longitude/latitude in degrees to earth-centred x, y, z in metres */
+function toGeocentric(lon: number, lat: number, { a, f }: Ellipsoid) {
+  const e2 = f * (2 - f);
+  const phi = lat * DEG;
+  const lambda = lon * DEG;
+  const n = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  return [
+    n * Math.cos(phi) * Math.cos(lambda),
+    n * Math.cos(phi) * Math.sin(lambda),
+    n * (1 - e2) * Math.sin(phi),
+  ];
+}
+
+/** Earth-centred x, y, z in metres to longitude/latitude in degrees */
+function fromGeocentric(
+  x: number,
+  y: number,
+  z: number,
+  { a, f }: Ellipsoid,
+): [number, number] {
+  const e2 = f * (2 - f);
+  const p = Math.sqrt(x * x + y * y);
+  let phi = Math.atan2(z, p * (1 - e2));
+  for (let i = 0; i < 10; i++) {
+    const n = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    const next = Math.atan2(z + e2 * n * Math.sin(phi), p);
+    if (Math.abs(next - phi) < 1e-12) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+  return [Math.atan2(y, x) / DEG, phi / DEG];
+}
+
+/**
+ * Mercator on the ellipsoid, or on the sphere when `f` is 0 (Web Mercator).
+ */
+function mercator(name: string, p: ProjectionParams): Projection {
+  const { a, f } = p.ellipsoid;
+  const e = Math.sqrt(f * (2 - f));
+  const k0 = p.k0;
+
+  return {
+    name,
+    forward([lon, lat, ...rest]) {
+      const phi = Math.max(-89.9999, Math.min(89.9999, lat)) * DEG;
+      const sin = Math.sin(phi);
+      const x = a * k0 * (lon * DEG - p.lon0);
+      const y =
+        a *
+        k0 *
+        Math.log(
+          Math.tan(Math.PI / 4 + phi / 2) *
+            Math.pow((1 - e * sin) / (1 + e * sin), e / 2),
+        );
+      return [
+        (x + p.falseEasting) / p.toMeters,
+        (y + p.falseNorthing) / p.toMeters,
+        ...rest,
+      ];
+    },
+    inverse([px, py, ...rest]) {
+      const x = px * p.toMeters - p.falseEasting;
+      const y = py * p.toMeters - p.falseNorthing;
+      const t = Math.exp(-y / (a * k0));
+      let phi = Math.PI / 2 - 2 * Math.atan(t);
+      // Fixed-point iteration converges in a handful of steps for e < 0.1.
+      for (let i = 0; i < 15 && e > 0; i++) {
+        const sin = Math.sin(phi);
+        const next =
+          Math.PI / 2 -
+          2 * Math.atan(t * Math.pow((1 - e * sin) / (1 + e * sin), e / 2));
+        if (Math.abs(next - phi) < 1e-12) {
+          phi = next;
+          break;
+        }
+        phi = next;
+      }
+      return [(x / (a * k0) + p.lon0) / DEG, phi / DEG, ...rest];
+    },
+  };
+}
+
+// ============================================================================
+// GeoJSON helpers
+// ============================================================================
+
+/**
+ * Map every position of a geometry through a function.
+ */
+export function mapGeometryPositions(
+  geometry: Geometry,
+  fn: (position: Position) => Position,
+): Geometry {
+  switch (geometry.type) {
+    case "Point":
+      return { ...geometry, coordinates: fn(geometry.coordinates) };
+    case "MultiPoint":
+    case "LineString":
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map(fn),
+      } as Geometry;
+    case "MultiLineString":
+    case "Polygon":
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((ring) => ring.map(fn)),
+      } as Geometry;
+    case "MultiPolygon":
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((poly) =>
+          poly.map((ring) => ring.map(fn)),
+        ),
+      };
+    case "GeometryCollection":
+      return {
+        ...geometry,
+        geometries: geometry.geometries.map((g) => mapGeometryPositions(g, fn)),
+      };
+  }
+}
+
+/** Legacy (GeoJSON 2008) `crs` member */
+export interface GeoJsonCrs {
+  type: string;
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Read the CRS declared by a legacy `crs` member (`name` or `EPSG` type).
+ *
+ * @returns The CRS name, or null when the object declares none.
+ */
+export function readGeoJsonCrs(geoJson: object): string | null {
+  const crs = (geoJson as { crs?: GeoJsonCrs | null }).crs;
+  if (!crs || typeof crs !== "object") return null;
+
+  const type = String(crs.type).toLowerCase();
+  if (type === "name" && typeof crs.properties?.name === "string") {
+    return crs.properties.name;
+  }
+  if (type === "epsg" && crs.properties?.code !== undefined) {
+    return `EPSG:${String(crs.properties.code)}`;
+  }
+  return null;
+}
+
+/**
+ * Build a legacy `crs` member for an EPSG-coded CRS.
+ *
+ * @returns The member, or null when the CRS is not an EPSG code.
+ */
+export function createGeoJsonCrs(
+  definition: string | number,
+): GeoJsonCrs | null {
+  const code =
+    typeof definition === "number"
+      ? definition
+      : (/^\s*(\d+)\s*$/.exec(definition) ??
+          /EPSG.*?(\d+)\s*$/i.exec(definition))?.[1];
+  if (code === undefined) return null;
+  return {
+    type: "name",
+    properties: { name: `urn:ogc:def:crs:EPSG::${code}` },
+  };
+}
+
+/**
+ * Reproject a feature collection from a source CRS to WGS84.
+ */
+export function reprojectToWgs84(
+  collection: FeatureCollection,
+  projection: Projection,
+): FeatureCollection {
+  return mapCollection(collection, (p) => projection.inverse(p));
+}
+
+/**
+ * Reproject a WGS84 feature collection into a target CRS.
+ */
+export function reprojectFromWgs84(
+  collection: FeatureCollection,
+  projection: Projection,
+): FeatureCollection {
+  return mapCollection(collection, (p) => projection.forward(p));
+}
+
+function mapCollection(
+  collection: FeatureCollection,
+  fn: (position: Position) => Position,
+): FeatureCollection {
+  return {
+    ...collection,
+    features: collection.features.map(
+      (feature): Feature => ({
+        ...feature,
+        geometry: feature.geometry
+          ? mapGeometryPositions(feature.geometry, fn)
+          : feature.geometry,
+      }),
+    ),
+  };
+}
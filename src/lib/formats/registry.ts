@@ -0,0 +1,280 @@
+import type { FeatureCollection } from "geojson";
+import type {
+  AttributeFieldDefinition,
+  FileFormat,
+  FileFormatDefinition,
+  FileFormatReadResult,
+  FileFormatRegistration,
+  FileFormatWriteData,
+} from "../core/types";
+
+/** A format that can be saved */
+type WritableFormat = FileFormatDefinition &
+  Required<Pick<FileFormatDefinition, "write">>;
+
+/** Result of reading a file through the registry. */
+export interface FeatureFileReadResult {
+  featureCollection: FeatureCollection;
+  /** Id of the format the file was read as */
+  format: FileFormat;
+  /** Typed attribute fields declared by the file */
+  fields: AttributeFieldDefinition[];
+  /** Non-fatal problems encountered while reading */
+  warnings: string[];
+}
+
+/** Result of serializing features through the registry. */
+export interface FeatureFileWriteResult {
+  data: FileFormatWriteData;
+  /** MIME type for the download */
+  mimeType: string;
+  /** Extension (with dot) to use for the file */
+  extension: string;
+}
+
+/**
+ * Registry of file formats available to the open/save tools.
+ *
+ * Formats are looked up by id, by filename extension and by content sniffing
+ * (`detect`). Later registrations take precedence over earlier ones when more
+ * than one format claims the same extension or contents.
+ */
+export class FormatRegistry {
+  private formats: FileFormatDefinition[] = [];
+
+  constructor(formats: FileFormatRegistration[] = []) {
+    formats.forEach((format) => this.register(format));
+  }
+
+  /**
+   * Register a format, replacing any format with the same id. Without an id
+   * the format is registered under its first extension (e.g. `"pins"` for
+   * `".pins"`).
+   */
+  register(format: FileFormatRegistration): void {
+    if (!format.extensions?.length) {
+      throw new Error(
+        `File format "${format.id ?? format.label ?? ""}" requires an extension`,
+      );
+    }
+    const extensions = format.extensions.map((ext) =>
+      (ext.startsWith(".") ? ext : `.${ext}`).toLowerCase(),
+    );
+    const id = format.id || extensions[0].slice(1);
+    if (!id) {
+      throw new Error("File format requires an id");
+    }
+    if (!format.read && !format.write) {
+      throw new Error(`File format "${id}" must define read or write`);
+    }
+    this.formats = this.formats.filter((f) => f.id !== id);
+    this.formats.push({ ...format, id, extensions });
+  }
+
+  /**
+   * Remove a format by id. Returns whether a format was removed.
+   */
+  unregister(id: FileFormat): boolean {
+    const before = this.formats.length;
+    this.formats = this.formats.filter((f) => f.id !== id);
+    return this.formats.length !== before;
+  }
+
+  /**
+   * Get a format by id.
+   */
+  get(id: FileFormat): FileFormatDefinition | undefined {
+    return this.formats.find((f) => f.id === id);
+  }
+
+  /**
+   * All registered formats, in registration order.
+   */
+  list(): FileFormatDefinition[] {
+    return [...this.formats];
+  }
+
+  /**
+   * Formats that can be read (opened).
+   */
+  readable(): FileFormatDefinition[] {
+    return this.formats.filter((f) => f.read);
+  }
+
+  /**
+   * Formats that can be written (saved).
+   */
+  writable(): FileFormatDefinition[] {
+    return this.formats.filter((f) => f.write);
+  }
+
+  /**
+   * Value for a file input's `accept` attribute covering all readable formats.
+   */
+  acceptList(): string {
+    const accept = this.readable().flatMap((f) => [
+      ...f.extensions,
+      ...(f.mimeTypes ?? []),
+    ]);
+    return [...new Set(accept)].join(",");
+  }
+
+  /**
+   * Find the format whose extension matches a filename.
+   */
+  formatFromFilename(filename: string): FileFormatDefinition | undefined {
+    return this.matchExtension(this.formats, filename)[0];
+  }
+
+  /**
+   * Work out which readable format a file is in.
+   *
+   * Content sniffing wins over the extension, except that an extension
+   * belonging to a format without `detect` is trusted; that keeps custom
+   * formats from being claimed by a built-in sniffer (e.g. JSON-based formats
+   * by GeoJSON).
+   */
+  detect(
+    content: string | ArrayBuffer | Uint8Array,
+    filename = "",
+  ): FileFormatDefinition | undefined {
+    const bytes = toBytes(content);
+    const candidates = this.readable().reverse();
+    const byExtension = this.matchExtension(candidates, filename);
+    const sniffed = candidates.filter((f) => {
+      try {
+        return f.detect?.(bytes) ?? false;
+      } catch {
+        return false;
+      }
+    });
+
+    return (
+      sniffed.find((f) => byExtension.includes(f)) ??
+      byExtension.find((f) => !f.detect) ??
+      sniffed[0] ??
+      byExtension[0]
+    );
+  }
+
+  /**
+   * Read file contents with the detected format.
+   *
+   * @param content - File text or raw bytes.
+   * @param filename - Original filename, used for extension matching.
+   */
+  async read(
+    content: string | ArrayBuffer | Uint8Array,
+    filename = "",
+  ): Promise<FeatureFileReadResult> {
+    const format = this.detect(content, filename);
+    if (!format?.read) {
+      throw new Error(
+        `Unrecognized file format${filename ? ` for ${filename}` : ""}`,
+      );
+    }
+
+    const input = format.binary ? toBytes(content) : toText(content);
+    const result = await format.read(input, filename);
+    const parsed: FileFormatReadResult =
+      "type" in result && result.type === "FeatureCollection"
+        ? { featureCollection: result }
+        : (result as FileFormatReadResult);
+
+    if (parsed.featureCollection?.type !== "FeatureCollection") {
+      throw new Error(
+        `File format "${format.id}" did not return a FeatureCollection`,
+      );
+    }
+
+    return {
+      featureCollection: parsed.featureCollection,
+      format: format.id,
+      fields: parsed.fields ?? [],
+      warnings: parsed.warnings ?? [],
+    };
+  }
+
+  /**
+   * Serialize features in a registered format. Formats whose `write` is
+   * asynchronous must be written with `writeAsync()`.
+   *
+   * @param collection - Features to write.
+   * @param id - Format id.
+   * @param name - Layer/document name embedded in the output where supported.
+   */
+  write(
+    collection: FeatureCollection,
+    id: FileFormat,
+    name = "features",
+  ): FeatureFileWriteResult {
+    const format = this.writableFormat(id);
+    const data = format.write(collection, name);
+    if (data instanceof Promise) {
+      throw new Error(
+        `File format "${id}" is written asynchronously; use writeAsync()`,
+      );
+    }
+    return this.writeResult(format, data);
+  }
+
+  /**
+   * Serialize features in a registered format, waiting for formats whose
+   * `write` is asynchronous.
+   *
+   * @param collection - Features to write.
+   * @param id - Format id.
+   * @param name - Layer/document name embedded in the output where supported.
+   */
+  async writeAsync(
+    collection: FeatureCollection,
+    id: FileFormat,
+    name = "features",
+  ): Promise<FeatureFileWriteResult> {
+    const format = this.writableFormat(id);
+    return this.writeResult(format, await format.write(collection, name));
+  }
+
+  private writableFormat(id: FileFormat): WritableFormat {
+    const format = this.get(id);
+    if (!format) {
+      throw new Error(`Unknown file format "${id}"`);
+    }
+    if (!format.write) {
+      throw new Error(`File format "${id}" cannot be saved`);
+    }
+    return format as WritableFormat;
+  }
+
+  private writeResult(
+    format: FileFormatDefinition,
+    data: FileFormatWriteData,
+  ): FeatureFileWriteResult {
+    return {
+      data,
+      mimeType: format.mimeTypes?.[0] ?? "application/octet-stream",
+      extension: format.extensions[0],
+    };
+  }
+
+  private matchExtension(
+    formats: FileFormatDefinition[],
+    filename: string,
+  ): FileFormatDefinition[] {
+    const lower = filename.toLowerCase();
+    return formats.filter((f) =>
+      f.extensions.some((ext) => lower.endsWith(ext)),
+    );
+  }
+}
+
+function toBytes(content: string | ArrayBuffer | Uint8Array): Uint8Array {
+  if (typeof content === "string") return new TextEncoder().encode(content);
+  return content instanceof Uint8Array ? content : new Uint8Array(content);
+}
+
+function toText(content: string | ArrayBuffer | Uint8Array): string {
+  return typeof content === "string"
+    ? content
+    : new TextDecoder().decode(toBytes(content));
+}
@@ -0,0 +1,959 @@
+import type {
+  Feature,
+  FeatureCollection,
+  GeoJsonProperties,
+  Geometry,
+  Position,
+} from "geojson";
+import type { AttributeFieldDefinition } from "../core/types";
+import { parseWktProjection, reprojectToWgs84, WGS84_WKT } from "./projection";
+import { concatBytes, readZip, writeZip, type ZipEntry } from "./zip";
+
+/**
+ * ESRI Shapefile reading and writing (SHP/SHX/DBF/PRJ/CPG).
+ *
+ * Shapefiles are always exchanged as a zip bundle because a single `.shp`
+ * carries no attributes or CRS. Reading handles every 2D/Z/M shape type except
+ * MultiPatch and reprojects to WGS84 using the `.prj`. Writing produces one
+ * layer per geometry family (points, lines, polygons), since a shapefile can
+ * only hold a single shape type; Z values are dropped.
+ */
+
+/** A field definition from a dBASE (.dbf) header. */
+export interface DbfField {
+  name: string;
+  /** dBASE type code: C (character), N/F (numeric), L (logical), D (date) */
+  type: string;
+  length: number;
+  decimals: number;
+}
+
+/** The sidecar files of a single shapefile layer. */
+export interface ShapefileParts {
+  shp: ArrayBuffer | Uint8Array;
+  dbf?: ArrayBuffer | Uint8Array;
+  /** Contents of the `.prj` file (WKT) */
+  prj?: string;
+  /** Contents of the `.cpg` file (attribute encoding) */
+  cpg?: string;
+  /** Layer name, used in warnings */
+  name?: string;
+}
+
+/** Result of reading one or more shapefile layers. */
+export interface ShapefileReadResult {
+  featureCollection: FeatureCollection;
+  /** DBF fields across all layers, in first-seen order */
+  fields: DbfField[];
+  /** Name of the source CRS from the `.prj`, if one was present */
+  projection: string | null;
+  /** Whether coordinates were converted to WGS84 */
+  reprojected: boolean;
+  /** Non-fatal problems (unsupported shapes, unknown CRS, ...) */
+  warnings: string[];
+}
+
+const SHP_FILE_CODE = 9994;
+const SHP_VERSION = 1000;
+
+const SHAPE_NULL = 0;
+const SHAPE_POINT = 1;
+const SHAPE_POLYLINE = 3;
+const SHAPE_POLYGON = 5;
+const SHAPE_MULTIPOINT = 8;
+const SHAPE_MULTIPATCH = 31;
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Read a zipped shapefile bundle. Every `.shp` in the archive is read and the
+ * layers are concatenated into one feature collection.
+ *
+ * @param data - The zip archive bytes.
+ */
+export async function readShapefileZip(
+  data: ArrayBuffer | Uint8Array,
+): Promise<ShapefileReadResult> {
+  const entries = await readZip(data);
+  const layers = new Map<
+    string,
+    { name: string; files: Record<string, Uint8Array> }
+  >();
+
+  for (const entry of entries) {
+    const match = /^(.*)\.([^./]+)$/.exec(entry.name);
+    if (!match) continue;
+    const base = match[1];
+    const key = base.toLowerCase();
+    const layer = layers.get(key) ?? {
+      name: base.split("/").pop() ?? base,
+      files: {},
+    };
+    layer.files[match[2].toLowerCase()] = entry.data;
+    layers.set(key, layer);
+  }
+
+  const decoder = new TextDecoder();
+  const results: ShapefileReadResult[] = [];
+  for (const { name, files } of layers.values()) {
+    if (!files.shp) continue;
+    results.push(
+      readShapefile({
+        shp: files.shp,
+        dbf: files.dbf,
+        prj: files.prj ? decoder.decode(files.prj) : undefined,
+        cpg: files.cpg ? decoder.decode(files.cpg) : undefined,
+        name,
+      }),
+    );
+  }
+
+  if (results.length === 0) {
+    throw new Error("No .shp file found in archive");
+  }
+
+  return mergeReadResults(results);
+}
+
+/**
+ * Read a single shapefile layer from its sidecar files.
+ *
+ * Deleted DBF records are skipped together with their shapes. Coordinates are
+ * reprojected to WGS84 when a supported `.prj` is supplied.
+ */
+export function readShapefile(parts: ShapefileParts): ShapefileReadResult {
+  const layerName = parts.name ?? "shapefile";
+  const warnings: string[] = [];
+  const shapes = readShp(toBytes(parts.shp), layerName, warnings);
+  const dbf = parts.dbf
+    ? readDbf(toBytes(parts.dbf), parts.cpg)
+    : { fields: [], records: [] };
+
+  const features: Feature[] = [];
+  shapes.forEach((geometry, index) => {
+    const record = dbf.records[index];
+    if (record === null) return;
+    if (!geometry) return;
+    features.push({
+      type: "Feature",
+      geometry,
+      properties: (record ?? {}) as GeoJsonProperties,
+    });
+  });
+
+  let featureCollection: FeatureCollection = {
+    type: "FeatureCollection",
+    features,
+  };
+  let projection: string | null = null;
+  let reprojected = false;
+
+  if (parts.prj && parts.prj.trim()) {
+    const parsed = parseWktProjection(parts.prj);
+    if (parsed) {
+      projection = parsed.name || null;
+      featureCollection = reprojectToWgs84(featureCollection, parsed);
+      reprojected = true;
+    } else {
+      warnings.push(
+        `Unsupported coordinate system in ${layerName}.prj; coordinates were imported unchanged`,
+      );
+    }
+  }
+
+  return {
+    featureCollection,
+    fields: dbf.fields,
+    projection,
+    reprojected,
+    warnings,
+  };
+}
+
+/**
+ * Convert DBF field definitions into attribute panel fields, so imported
+ * attributes get matching inputs (number, checkbox, date, text).
+ */
+export function dbfFieldsToAttributeFields(
+  fields: DbfField[],
+): AttributeFieldDefinition[] {
+  return fields.map((field): AttributeFieldDefinition => {
+    switch (field.type) {
+      case "N":
+      case "F":
+      case "I":
+      case "O":
+        return {
+          name: field.name,
+          type: "number",
+          step: field.decimals > 0 ? Math.pow(10, -field.decimals) : 1,
+        };
+      case "L":
+        return { name: field.name, type: "boolean" };
+      case "D":
+        return { name: field.name, type: "date" };
+      default:
+        return {
+          name: field.name,
+          type: field.length > 254 ? "textarea" : "string",
+        };
+    }
+  });
+}
+
+function mergeReadResults(results: ShapefileReadResult[]): ShapefileReadResult {
+  if (results.length === 1) return results[0];
+
+  const fields: DbfField[] = [];
+  const seen = new Set<string>();
+  for (const result of results) {
+    for (const field of result.fields) {
+      if (seen.has(field.name)) continue;
+      seen.add(field.name);
+      fields.push(field);
+    }
+  }
+
+  return {
+    featureCollection: {
+      type: "FeatureCollection",
+      features: results.flatMap((r) => r.featureCollection.features),
+    },
+    fields,
+    projection: results.find((r) => r.projection)?.projection ?? null,
+    reprojected: results.some((r) => r.reprojected),
+    warnings: results.flatMap((r) => r.warnings),
+  };
+}
+
+function readShp(
+  bytes: Uint8Array,
+  layerName: string,
+  warnings: string[],
+): Array<Geometry | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 100 || view.getInt32(0, false) !== SHP_FILE_CODE) {
+    throw new Error(`Invalid shapefile: ${layerName}.shp has a bad header`);
+  }
+
+  const end = Math.min(view.getInt32(24, false) * 2, bytes.length);
+  const shapes: Array<Geometry | null> = [];
+  let offset = 100;
+  let multipatchCount = 0;
+
+  while (offset + 12 <= end) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    const start = offset + 8;
+    const shapeType = view.getInt32(start, true);
+    if (shapeType === SHAPE_MULTIPATCH) multipatchCount++;
+    shapes.push(readShape(view, start, shapeType));
+    offset = start + contentLength;
+  }
+
+  if (multipatchCount > 0) {
+    warnings.push(
+      `${multipatchCount} MultiPatch shape(s) in ${layerName}.shp are not supported and were skipped`,
+    );
+  }
+  return shapes;
+}
+
+function readShape(
+  view: DataView,
+  start: number,
+  shapeType: number,
+): Geometry | null {
+  const baseType = shapeType % 10;
+  const hasZ = shapeType > 10 && shapeType < 20;
+
+  if (shapeType === SHAPE_NULL || shapeType === SHAPE_MULTIPATCH) return null;
+
+  if (baseType === SHAPE_POINT) {
+    const point = [
+      view.getFloat64(start + 4, true),
+      view.getFloat64(start + 12, true),
+    ];
+    if (hasZ) point.push(view.getFloat64(start + 20, true));
+    return { type: "Point", coordinates: point };
+  }
+
+  if (baseType === SHAPE_MULTIPOINT) {
+    const numPoints = view.getInt32(start + 36, true);
+    const points = readPoints(view, start + 40, numPoints, hasZ);
+    return { type: "MultiPoint", coordinates: points };
+  }
+
+  if (baseType === SHAPE_POLYLINE || baseType === SHAPE_POLYGON) {
+    const numParts = view.getInt32(start + 36, true);
+    const numPoints = view.getInt32(start + 40, true);
+    const partStarts: number[] = [];
+    for (let i = 0; i < numParts; i++) {
+      partStarts.push(view.getInt32(start + 44 + i * 4, true));
+    }
+    const points = readPoints(view, start + 44 + numParts * 4, numPoints, hasZ);
+    const parts = partStarts.map((from, i) =>
+      points.slice(from, i + 1 < numParts ? partStarts[i + 1] : numPoints),
+    );
+    if (parts.length === 0) return null;
+
+    if (baseType === SHAPE_POLYLINE) {
+      return parts.length === 1
+        ? { type: "LineString", coordinates: parts[0] }
+        : { type: "MultiLineString", coordinates: parts };
+    }
+    return ringsToPolygonGeometry(parts);
+  }
+
+  return null;
+}
+
+function readPoints(
+  view: DataView,
+  offset: number,
+  count: number,
+  hasZ: boolean,
+): Position[] {
+  const points: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push([
+      view.getFloat64(offset + i * 16, true),
+      view.getFloat64(offset + i * 16 + 8, true),
+    ]);
+  }
+  if (hasZ) {
+    // Z block: range (two doubles) followed by one double per point.
+    const zStart = offset + count * 16 + 16;
+    for (let i = 0; i < count; i++) {
+      points[i].push(view.getFloat64(zStart + i * 8, true));
+    }
+  }
+  return points;
+}
+
+/**
+ * Shapefile polygons are a flat list of rings: clockwise outer rings followed
+ * by the counter-clockwise holes they contain. GeoJSON wants the opposite
+ * winding and explicit nesting.
+ */
+function ringsToPolygonGeometry(rings: Position[][]): Geometry {
+  const outers: Position[][][] = [];
+  const holes: Position[][] = [];
+
+  for (const ring of rings) {
+    if (ringArea(ring) <= 0) {
+      outers.push([ring.slice().reverse()]);
+    } else {
+      holes.push(ring);
+    }
+  }
+
+  if (outers.length === 0) {
+    // Wrongly wound file: treat every ring as an outer boundary.
+    for (const ring of holes) outers.push([ring]);
+  } else {
+    for (const hole of holes) {
+      const owner = outers.find((polygon) => pointInRing(hole[0], polygon[0]));
+      if (owner) {
+        owner.push(hole.slice().reverse());
+      } else {
+        outers.push([hole]);
+      }
+    }
+  }
+
+  return outers.length === 1
+    ? { type: "Polygon", coordinates: outers[0] }
+    : { type: "MultiPolygon", coordinates: outers };
+}
+
+/** Signed area; positive for counter-clockwise rings. */
+function ringArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return area / 2;
+}
+
+function pointInRing(point: Position, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (
+      yi > point[1] !== yj > point[1] &&
+      point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function readDbf(
+  bytes: Uint8Array,
+  cpg: string | undefined,
+): { fields: DbfField[]; records: Array<Record<string, unknown> | null> } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const numRecords = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+  const decoder = createDecoder(cpg);
+  const ascii = new TextDecoder("latin1");
+
+  const fields: DbfField[] = [];
+  for (
+    let pos = 32;
+    pos + 32 <= headerLength && bytes[pos] !== 0x0d;
+    pos += 32
+  ) {
+    const nameBytes = bytes.subarray(pos, pos + 11);
+    const nul = nameBytes.indexOf(0);
+    fields.push({
+      name: ascii
+        .decode(nul >= 0 ? nameBytes.subarray(0, nul) : nameBytes)
+        .trim(),
+      type: String.fromCharCode(bytes[pos + 11]).toUpperCase(),
+      length: bytes[pos + 16],
+      decimals: bytes[pos + 17],
+    });
+  }
+
+  const records: Array<Record<string, unknown> | null> = [];
+  for (let i = 0; i < numRecords; i++) {
+    const start = headerLength + i * recordLength;
+    if (start + recordLength > bytes.length) break;
+    if (bytes[start] === 0x2a) {
+      records.push(null);
+      continue;
+    }
+    const record: Record<string, unknown> = {};
+    let offset = start + 1;
+    for (const field of fields) {
+      const raw = bytes.subarray(offset, offset + field.length);
+      record[field.name] = parseDbfValue(field, raw, view, offset, decoder);
+      offset += field.length;
+    }
+    records.push(record);
+  }
+
+  return { fields, records };
+}
+
+function parseDbfValue(
+  field: DbfField,
+  raw: Uint8Array,
+  view: DataView,
+  offset: number,
+  decoder: TextDecoder,
+): unknown {
+  switch (field.type) {
+    case "N":
+    case "F": {
+      const text = decoder.decode(raw).trim();
+      if (!text || /^\*+$/.test(text)) return null;
+      const value = parseFloat(text);
+      return Number.isFinite(value) ? value : null;
+    }
+    case "I":
+      return view.getInt32(offset, true);
+    case "O":
+      return view.getFloat64(offset, true);
+    case "L": {
+      const ch = String.fromCharCode(raw[0]).toUpperCase();
+      if (ch === "Y" || ch === "T") return true;
+      if (ch === "N" || ch === "F") return false;
+      return null;
+    }
+    case "D": {
+      const text = decoder.decode(raw).trim();
+      return /^\d{8}$/.test(text)
+        ? `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6, 8)}`
+        : null;
+    }
+    default:
+      return decoder.decode(raw).replace(/\0+$/, "").trim();
+  }
+}
+
+function createDecoder(cpg: string | undefined): TextDecoder {
+  let label = (cpg ?? "utf-8").trim().toLowerCase();
+  const codePage = /(\d+)$/.exec(label);
+  if (codePage && !label.startsWith("iso") && !label.startsWith("utf")) {
+    label = codePage[1] === "65001" ? "utf-8" : `windows-${codePage[1]}`;
+  }
+  try {
+    return new TextDecoder(label);
+  } catch {
+    return new TextDecoder();
+  }
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+type LayerKind = "points" | "lines" | "polygons";
+
+/**
+ * Write a feature collection as shapefile sidecar files (WGS84, UTF-8).
+ *
+ * Features are grouped into one layer per geometry family. When more than one
+ * family is present, layer files are suffixed `_points`, `_lines` and
+ * `_polygons`. GeometryCollections and features without geometry are skipped.
+ * Property names are truncated to the 10 characters dBASE allows.
+ *
+ * @param collection - Features to write.
+ * @param name - Base filename (without extension) for the layer files.
+ */
+export function writeShapefile(
+  collection: FeatureCollection,
+  name = "features",
+): ZipEntry[] {
+  const groups: Record<LayerKind, Feature[]> = {
+    points: [],
+    lines: [],
+    polygons: [],
+  };
+  for (const feature of collection.features) {
+    const kind = layerKindOf(feature.geometry);
+    if (kind) groups[kind].push(feature);
+  }
+
+  const kinds = (Object.keys(groups) as LayerKind[]).filter(
+    (kind) => groups[kind].length > 0,
+  );
+  const encoder = new TextEncoder();
+  const files: ZipEntry[] = [];
+
+  for (const kind of kinds) {
+    const features = groups[kind];
+    const base = kinds.length > 1 ? `${name}_${kind}` : name;
+    const { shp, shx } = writeShpAndShx(kind, features);
+    files.push(
+      { name: `${base}.shp`, data: shp },
+      { name: `${base}.shx`, data: shx },
+      { name: `${base}.dbf`, data: writeDbf(features) },
+      { name: `${base}.prj`, data: encoder.encode(WGS84_WKT) },
+      { name: `${base}.cpg`, data: encoder.encode("UTF-8") },
+    );
+  }
+
+  return files;
+}
+
+/**
+ * Write a feature collection as a zipped shapefile bundle.
+ *
+ * @param collection - Features to write.
+ * @param name - Base filename (without extension) for the layer files.
+ * @returns The zip archive bytes.
+ */
+export function writeShapefileZip(
+  collection: FeatureCollection,
+  name = "features",
+): Uint8Array {
+  return writeZip(writeShapefile(collection, name));
+}
+
+function layerKindOf(geometry: Geometry | null): LayerKind | null {
+  switch (geometry?.type) {
+    case "Point":
+    case "MultiPoint":
+      return "points";
+    case "LineString":
+    case "MultiLineString":
+      return "lines";
+    case "Polygon":
+    case "MultiPolygon":
+      return "polygons";
+    default:
+      return null;
+  }
+}
+
+function writeShpAndShx(
+  kind: LayerKind,
+  features: Feature[],
+): { shp: Uint8Array; shx: Uint8Array } {
+  const shapeType =
+    kind === "points"
+      ? features.some((f) => f.geometry?.type === "MultiPoint")
+        ? SHAPE_MULTIPOINT
+        : SHAPE_POINT
+      : kind === "lines"
+        ? SHAPE_POLYLINE
+        : SHAPE_POLYGON;
+
+  const records = features.map((f) => encodeShape(shapeType, f.geometry!));
+  const bbox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const feature of features) {
+    forEachPosition(feature.geometry!, ([x, y]) => {
+      bbox[0] = Math.min(bbox[0], x);
+      bbox[1] = Math.min(bbox[1], y);
+      bbox[2] = Math.max(bbox[2], x);
+      bbox[3] = Math.max(bbox[3], y);
+    });
+  }
+  if (!Number.isFinite(bbox[0])) bbox.fill(0);
+
+  const shpLength =
+    100 + records.reduce((sum, record) => sum + 8 + record.length, 0);
+  const shxLength = 100 + records.length * 8;
+  const shpHeader = shapefileHeader(shpLength, shapeType, bbox);
+  const shxHeader = shapefileHeader(shxLength, shapeType, bbox);
+
+  const shpChunks: Uint8Array[] = [shpHeader];
+  const shx = new Uint8Array(shxLength);
+  shx.set(shxHeader, 0);
+  const shxView = new DataView(shx.buffer);
+
+  let offset = 100;
+  records.forEach((record, i) => {
+    const header = new Uint8Array(8);
+    const hv = new DataView(header.buffer);
+    hv.setInt32(0, i + 1, false);
+    hv.setInt32(4, record.length / 2, false);
+    shpChunks.push(header, record);
+
+    shxView.setInt32(100 + i * 8, offset / 2, false);
+    shxView.setInt32(104 + i * 8, record.length / 2, false);
+    offset += 8 + record.length;
+  });
+
+  return { shp: concatBytes(shpChunks), shx };
+}
+
+function shapefileHeader(
+  byteLength: number,
+  shapeType: number,
+  bbox: number[],
+): Uint8Array {
+  const header = new Uint8Array(100);
+  const view = new DataView(header.buffer);
+  view.setInt32(0, SHP_FILE_CODE, false);
+  view.setInt32(24, byteLength / 2, false);
+  view.setInt32(28, SHP_VERSION, true);
+  view.setInt32(32, shapeType, true);
+  bbox.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+  return header;
+}
+
+function encodeShape(shapeType: number, geometry: Geometry): Uint8Array {
+  if (shapeType === SHAPE_POINT) {
+    const [x, y] = (geometry as { coordinates: Position }).coordinates;
+    const out = new Uint8Array(20);
+    const view = new DataView(out.buffer);
+    view.setInt32(0, shapeType, true);
+    view.setFloat64(4, x, true);
+    view.setFloat64(12, y, true);
+    return out;
+  }
+
+  if (shapeType === SHAPE_MULTIPOINT) {
+    const points =
+      geometry.type === "Point"
+        ? [geometry.coordinates]
+        : (geometry as { coordinates: Position[] }).coordinates;
+    const out = new Uint8Array(40 + points.length * 16);
+    const view = new DataView(out.buffer);
+    view.setInt32(0, shapeType, true);
+    writeBbox(view, 4, points);
+    view.setInt32(36, points.length, true);
+    points.forEach(([x, y], i) => {
+      view.setFloat64(40 + i * 16, x, true);
+      view.setFloat64(48 + i * 16, y, true);
+    });
+    return out;
+  }
+
+  const parts =
+    shapeType === SHAPE_POLYGON
+      ? polygonRingsForShapefile(geometry)
+      : geometry.type === "LineString"
+        ? [geometry.coordinates]
+        : (geometry as { coordinates: Position[][] }).coordinates;
+  const points = parts.flat();
+  const out = new Uint8Array(44 + parts.length * 4 + points.length * 16);
+  const view = new DataView(out.buffer);
+  view.setInt32(0, shapeType, true);
+  writeBbox(view, 4, points);
+  view.setInt32(36, parts.length, true);
+  view.setInt32(40, points.length, true);
+
+  let index = 0;
+  parts.forEach((part, i) => {
+    view.setInt32(44 + i * 4, index, true);
+    index += part.length;
+  });
+  const pointsStart = 44 + parts.length * 4;
+  points.forEach(([x, y], i) => {
+    view.setFloat64(pointsStart + i * 16, x, true);
+    view.setFloat64(pointsStart + i * 16 + 8, y, true);
+  });
+  return out;
+}
+
+/** Closed rings with shapefile winding: outer clockwise, holes counter-clockwise. */
+function polygonRingsForShapefile(geometry: Geometry): Position[][] {
+  const polygons =
+    geometry.type === "Polygon"
+      ? [geometry.coordinates]
+      : (geometry as { coordinates: Position[][][] }).coordinates;
+  const rings: Position[][] = [];
+  for (const polygon of polygons) {
+    polygon.forEach((input, i) => {
+      const ring = input.slice();
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+        ring.push(first);
+      }
+      const clockwise = ringArea(ring) < 0;
+      if ((i === 0) !== clockwise) ring.reverse();
+      rings.push(ring);
+    });
+  }
+  return rings;
+}
+
+function writeBbox(view: DataView, offset: number, points: Position[]): void {
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  if (!Number.isFinite(minX)) minX = minY = maxX = maxY = 0;
+  view.setFloat64(offset, minX, true);
+  view.setFloat64(offset + 8, minY, true);
+  view.setFloat64(offset + 16, maxX, true);
+  view.setFloat64(offset + 24, maxY, true);
+}
+
+function forEachPosition(
+  geometry: Geometry,
+  fn: (position: Position) => void,
+): void {
+  switch (geometry.type) {
+    case "Point":
+      fn(geometry.coordinates);
+      break;
+    case "MultiPoint":
+    case "LineString":
+      geometry.coordinates.forEach(fn);
+      break;
+    case "MultiLineString":
+    case "Polygon":
+      geometry.coordinates.forEach((ring) => ring.forEach(fn));
+      break;
+    case "MultiPolygon":
+      geometry.coordinates.forEach((poly) =>
+        poly.forEach((ring) => ring.forEach(fn)),
+      );
+      break;
+    case "GeometryCollection":
+      geometry.geometries.forEach((g) => forEachPosition(g, fn));
+      break;
+  }
+}
+
+interface DbfColumn extends DbfField {
+  /** The GeoJSON property the column is written from */
+  key: string;
+}
+
+const DBF_MAX_CHAR_LENGTH = 254;
+const DBF_MAX_NUMERIC_LENGTH = 19;
+
+function writeDbf(features: Feature[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const columns = inferDbfColumns(features, encoder);
+  const recordLength = 1 + columns.reduce((sum, c) => sum + c.length, 0);
+  const headerLength = 32 + columns.length * 32 + 1;
+  const out = new Uint8Array(headerLength + features.length * recordLength + 1);
+  const view = new DataView(out.buffer);
+  const now = new Date();
+
+  out[0] = 0x03;
+  out[1] = now.getFullYear() - 1900;
+  out[2] = now.getMonth() + 1;
+  out[3] = now.getDate();
+  view.setUint32(4, features.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  columns.forEach((column, i) => {
+    const pos = 32 + i * 32;
+    out.set(encoder.encode(column.name), pos);
+    out[pos + 11] = column.type.charCodeAt(0);
+    out[pos + 16] = column.length;
+    out[pos + 17] = column.decimals;
+  });
+  out[headerLength - 1] = 0x0d;
+
+  features.forEach((feature, row) => {
+    let pos = headerLength + row * recordLength;
+    out[pos++] = 0x20;
+    for (const column of columns) {
+      const value =
+        column.key === "" ? row + 1 : feature.properties?.[column.key];
+      out.set(encodeDbfValue(column, value, encoder), pos);
+      pos += column.length;
+    }
+  });
+  out[out.length - 1] = 0x1a;
+
+  return out;
+}
+
+function inferDbfColumns(
+  features: Feature[],
+  encoder: TextEncoder,
+): DbfColumn[] {
+  const keys: string[] = [];
+  const seenKeys = new Set<string>();
+  for (const feature of features) {
+    for (const key of Object.keys(feature.properties ?? {})) {
+      if (key.startsWith("__") || seenKeys.has(key)) continue;
+      seenKeys.add(key);
+      keys.push(key);
+    }
+  }
+
+  const usedNames = new Set<string>();
+  const columns: DbfColumn[] = keys.map((key) => {
+    const values = features
+      .map((f) => f.properties?.[key])
+      .filter((v) => v !== null && v !== undefined);
+    return {
+      key,
+      name: uniqueFieldName(key, usedNames),
+      ...inferType(values, encoder),
+    };
+  });
+
+  if (columns.length === 0) {
+    // dBASE readers reject tables without fields; write a sequential id.
+    columns.push({ key: "", name: "id", type: "N", length: 10, decimals: 0 });
+  }
+  return columns;
+}
+
+function inferType(
+  values: unknown[],
+  encoder: TextEncoder,
+): Pick<DbfField, "type" | "length" | "decimals"> {
+  if (values.length > 0 && values.every((v) => typeof v === "boolean")) {
+    return { type: "L", length: 1, decimals: 0 };
+  }
+
+  if (
+    values.length > 0 &&
+    values.every((v) => typeof v === "number" && Number.isFinite(v))
+  ) {
+    const decimals = Math.min(
+      15,
+      Math.max(0, ...values.map((v) => decimalPlaces(v as number))),
+    );
+    const length = Math.max(
+      1,
+      ...values.map((v) => (v as number).toFixed(decimals).length),
+    );
+    if (length <= DBF_MAX_NUMERIC_LENGTH) {
+      return { type: "N", length, decimals };
+    }
+  }
+
+  if (
+    values.length > 0 &&
+    values.every((v) => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v))
+  ) {
+    return { type: "D", length: 8, decimals: 0 };
+  }
+
+  const length = Math.max(
+    1,
+    ...values.map((v) => encoder.encode(stringifyValue(v)).length),
+  );
+  return {
+    type: "C",
+    length: Math.min(length, DBF_MAX_CHAR_LENGTH),
+    decimals: 0,
+  };
+}
+
+function decimalPlaces(value: number): number {
+  if (Number.isInteger(value)) return 0;
+  const text = String(value);
+  const exponent = /e-(\d+)$/.exec(text);
+  if (exponent) return Number(exponent[1]) + 1;
+  const dot = text.indexOf(".");
+  return dot < 0 ? 0 : text.length - dot - 1;
+}
+
+function uniqueFieldName(key: string, used: Set<string>): string {
+  const base = key.replace(/[^A-Za-z0-9_]/g, "_").slice(0, 10) || "field";
+  let name = base;
+  for (let i = 1; used.has(name.toLowerCase()); i++) {
+    const suffix = String(i);
+    name = base.slice(0, 10 - suffix.length) + suffix;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function encodeDbfValue(
+  column: DbfColumn,
+  value: unknown,
+  encoder: TextEncoder,
+): Uint8Array {
+  const out = new Uint8Array(column.length).fill(0x20);
+  const missing = value === null || value === undefined;
+
+  switch (column.type) {
+    case "L":
+      out[0] = missing ? 0x3f : value ? 0x54 : 0x46;
+      return out;
+    case "N": {
+      if (missing || typeof value !== "number") return out;
+      const text = value.toFixed(column.decimals);
+      out.set(encoder.encode(text), column.length - text.length);
+      return out;
+    }
+    case "D":
+      if (!missing) out.set(encoder.encode(String(value).replace(/-/g, "")));
+      return out;
+    default:
+      out.set(truncateUtf8(stringifyValue(value), column.length, encoder));
+      return out;
+  }
+}
+
+/** Encode a string, dropping whole characters until it fits the byte budget. */
+function truncateUtf8(
+  text: string,
+  maxBytes: number,
+  encoder: TextEncoder,
+): Uint8Array {
+  let bytes = encoder.encode(text);
+  if (bytes.length <= maxBytes) return bytes;
+  const chars = Array.from(text);
+  while (chars.length > 0 && bytes.length > maxBytes) {
+    chars.pop();
+    bytes = encoder.encode(chars.join(""));
+  }
+  return bytes;
+}
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
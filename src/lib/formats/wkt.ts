@@ -0,0 +1,281 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+
+/**
+ * Well-Known Text geometry reading and writing.
+ *
+ * Covers the seven OGC simple feature types with optional `Z`, `M` and `ZM`
+ * tags and `EMPTY` geometries. PostGIS EWKT input (`SRID=4326;POINT(...)`) is
+ * accepted and the SRID ignored. M values have no GeoJSON counterpart and are
+ * dropped.
+ *
+ * A `.wkt` file holds one geometry per line; properties are not kept.
+ */
+
+type Token = string | number;
+
+const GEOMETRY_TYPES: Record<string, Geometry["type"]> = {
+  POINT: "Point",
+  LINESTRING: "LineString",
+  POLYGON: "Polygon",
+  MULTIPOINT: "MultiPoint",
+  MULTILINESTRING: "MultiLineString",
+  MULTIPOLYGON: "MultiPolygon",
+  GEOMETRYCOLLECTION: "GeometryCollection",
+};
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Parse a WKT (or EWKT) geometry.
+ *
+ * @throws When the text is not a valid WKT geometry
+ */
+export function parseWktGeometry(text: string): Geometry {
+  const parser = new WktParser(tokenize(text.replace(/^\s*SRID=\d+;/i, "")));
+  const geometry = parser.geometry();
+  parser.expectEnd();
+  return geometry;
+}
+
+/**
+ * Whether text looks like a WKT geometry (checks the leading keyword only).
+ */
+export function isWktGeometry(text: string): boolean {
+  const match = /^\s*(?:SRID=\d+;)?\s*([A-Za-z]+)/.exec(text);
+  return (
+    match !== null &&
+    match[1].toUpperCase().replace(/(ZM|Z|M)$/, "") in GEOMETRY_TYPES
+  );
+}
+
+/**
+ * Read a `.wkt` file with one geometry per line into a feature collection.
+ */
+export function readWkt(text: string): FeatureCollection {
+  const features: Feature[] = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "")
+    .map((line, index) => {
+      try {
+        return {
+          type: "Feature",
+          properties: {},
+          geometry: parseWktGeometry(line),
+        };
+      } catch (error) {
+        throw new Error(
+          `Invalid WKT on line ${index + 1}: ${(error as Error).message}`,
+        );
+      }
+    });
+
+  return { type: "FeatureCollection", features };
+}
+
+function tokenize(text: string): Token[] {
+  const pattern =
+    /[(),]|[A-Za-z]+|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|\S/g;
+  return Array.from(text.matchAll(pattern), ([token]) => {
+    if (/^[(),]$/.test(token)) return token;
+    if (/^[A-Za-z]+$/.test(token)) return token.toUpperCase();
+    const value = Number(token);
+    if (Number.isNaN(value)) throw new Error(`Unexpected character "${token}"`);
+    return value;
+  });
+}
+
+class WktParser {
+  private index = 0;
+  // Number of ordinates to keep (2 or 3) and to read (2, 3 or 4)
+  private keep = 2;
+  private read = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  geometry(): Geometry {
+    const keyword = this.next();
+    if (typeof keyword !== "string") {
+      throw new Error("Expected a geometry type");
+    }
+
+    let name = keyword;
+    let dims = "";
+    const suffix = /^(.+?)(ZM|Z|M)$/.exec(keyword);
+    if (!(keyword in GEOMETRY_TYPES) && suffix && suffix[1] in GEOMETRY_TYPES) {
+      name = suffix[1];
+      dims = suffix[2];
+    } else if (["Z", "M", "ZM"].includes(this.peek() as string)) {
+      dims = this.next() as string;
+    }
+
+    const type = GEOMETRY_TYPES[name];
+    if (!type) throw new Error(`Unknown geometry type "${keyword}"`);
+
+    this.keep = dims === "Z" || dims === "ZM" ? 3 : 2;
+    this.read = dims === "ZM" ? 4 : dims ? 3 : 0;
+
+    const empty = this.peek() === "EMPTY";
+    if (empty) this.next();
+
+    switch (type) {
+      case "Point":
+        return { type, coordinates: empty ? [] : this.wrapped(this.position) };
+      case "LineString":
+        return { type, coordinates: empty ? [] : this.positions() };
+      case "Polygon":
+        return { type, coordinates: empty ? [] : this.rings() };
+      case "MultiPoint":
+        return {
+          type,
+          coordinates: empty
+            ? []
+            : this.list(() =>
+                this.peek() === "("
+                  ? this.wrapped(this.position)
+                  : this.position(),
+              ),
+        };
+      case "MultiLineString":
+        return { type, coordinates: empty ? [] : this.rings() };
+      case "MultiPolygon":
+        return {
+          type,
+          coordinates: empty ? [] : this.list(() => this.rings()),
+        };
+      case "GeometryCollection":
+        return {
+          type,
+          geometries: empty ? [] : this.list(() => this.geometry()),
+        };
+    }
+  }
+
+  expectEnd(): void {
+    if (this.index < this.tokens.length) {
+      throw new Error(`Unexpected "${this.tokens[this.index]}"`);
+    }
+  }
+
+  private position = (): Position => {
+    const values: number[] = [];
+    while (typeof this.peek() === "number") {
+      values.push(this.next() as number);
+    }
+    if (values.length < 2 || values.length > 4) {
+      throw new Error("Expected a position with 2 to 4 ordinates");
+    }
+    if (this.read && values.length !== this.read) {
+      throw new Error(`Expected ${this.read} ordinates per position`);
+    }
+    // Untagged 4D positions are XYZM
+    const keep = this.read ? this.keep : Math.min(values.length, 3);
+    return values.slice(0, keep);
+  };
+
+  private positions(): Position[] {
+    return this.list(this.position);
+  }
+
+  private rings(): Position[][] {
+    return this.list(() => this.positions());
+  }
+
+  private list<T>(item: () => T): T[] {
+    this.expect("(");
+    const items = [item()];
+    while (this.peek() === ",") {
+      this.next();
+      items.push(item());
+    }
+    this.expect(")");
+    return items;
+  }
+
+  private wrapped<T>(item: () => T): T {
+    this.expect("(");
+    const value = item();
+    this.expect(")");
+    return value;
+  }
+
+  private expect(token: string): void {
+    const next = this.next();
+    if (next !== token) {
+      throw new Error(
+        `Expected "${token}" but found ${next === undefined ? "end of text" : `"${next}"`}`,
+      );
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Write a geometry as WKT, tagging it `Z` when its positions have elevation.
+ */
+export function geometryToWkt(geometry: Geometry): string {
+  if (geometry.type === "GeometryCollection") {
+    return geometry.geometries.length === 0
+      ? "GEOMETRYCOLLECTION EMPTY"
+      : `GEOMETRYCOLLECTION (${geometry.geometries.map(geometryToWkt).join(", ")})`;
+  }
+
+  const keyword = geometry.type.toUpperCase();
+  const first = firstPosition(geometry.coordinates);
+  if (!first) return `${keyword} EMPTY`;
+
+  const z = first.length > 2;
+  const position = (p: Position) =>
+    (z ? [p[0], p[1], p[2] ?? 0] : [p[0], p[1]]).join(" ");
+  const positions = (ps: Position[]) => `(${ps.map(position).join(", ")})`;
+  const rings = (rs: Position[][]) => `(${rs.map(positions).join(", ")})`;
+
+  let body: string;
+  switch (geometry.type) {
+    case "Point":
+      body = `(${position(geometry.coordinates)})`;
+      break;
+    case "LineString":
+    case "MultiPoint":
+      body = positions(geometry.coordinates);
+      break;
+    case "Polygon":
+    case "MultiLineString":
+      body = rings(geometry.coordinates);
+      break;
+    case "MultiPolygon":
+      body = `(${geometry.coordinates.map(rings).join(", ")})`;
+      break;
+  }
+
+  return `${keyword}${z ? " Z" : ""} ${body}`;
+}
+
+/**
+ * Write features as a `.wkt` file with one geometry per line.
+ */
+export function writeWkt(collection: FeatureCollection): string {
+  return collection.features
+    .filter((feature) => feature.geometry)
+    .map((feature) => geometryToWkt(feature.geometry))
+    .join("\n");
+}
+
+function firstPosition(coordinates: unknown): Position | null {
+  let value = coordinates;
+  while (Array.isArray(value) && Array.isArray(value[0])) value = value[0];
+  return Array.isArray(value) && value.length >= 2 ? (value as Position) : null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Small DOM helpers shared by the XML-based formats (KML, GPX).
+ */
+
+/**
+ * Parse an XML document, throwing when the parser reports an error.
+ */
+export function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const error = doc.getElementsByTagName("parsererror")[0];
+  if (error) {
+    throw new Error(
+      `Invalid XML: ${error.textContent?.trim() ?? "parse error"}`,
+    );
+  }
+  return doc;
+}
+
+/**
+ * Direct child elements with the given local name (namespace-agnostic).
+ */
+export function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.localName === localName);
+}
+
+/**
+ * First direct child element with the given local name.
+ */
+export function childElement(
+  parent: Element,
+  localName: string,
+): Element | null {
+  return childElements(parent, localName)[0] ?? null;
+}
+
+/**
+ * All descendant elements with the given local name (namespace-agnostic).
+ */
+export function descendantElements(
+  parent: Element | Document,
+  localName: string,
+): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", localName));
+}
+
+/**
+ * Trimmed text of the first direct child with the given local name.
+ */
+export function childText(parent: Element, localName: string): string | null {
+  const el = childElement(parent, localName);
+  const text = el?.textContent?.trim();
+  return text ? text : null;
+}
+
+/**
+ * Escape text for use in XML content and attribute values.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
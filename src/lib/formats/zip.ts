@@ -0,0 +1,272 @@
+/**
+ * Minimal ZIP archive support for the file tools.
+ *
+ * Reading understands stored and deflated entries (the two methods every zip
+ * tool produces for shapefile bundles); deflate is decoded with the platform's
+ * `DecompressionStream`, so no third-party inflater is bundled. Writing always
+ * uses the stored method, which keeps it synchronous and dependency-free at the
+ * cost of larger downloads. ZIP64 archives are rejected.
+ */
+
+export interface ZipEntry {
+  /** Path of the entry inside the archive */
+  name: string;
+  /** Uncompressed entry contents */
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Compute the CRC-32 checksum used by ZIP entries.
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Check whether a buffer starts with a ZIP local file header.
+ */
+export function isZip(data: ArrayBuffer | Uint8Array): boolean {
+  const bytes = toBytes(data);
+  if (bytes.length < 4) return false;
+  return (
+    new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) ===
+    LOCAL_HEADER_SIGNATURE
+  );
+}
+
+interface CentralDirectoryEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+/**
+ * List the file names in a ZIP archive without decompressing anything.
+ * Directory entries and macOS resource forks (`__MACOSX/`) are skipped.
+ */
+export function listZipEntries(data: ArrayBuffer | Uint8Array): string[] {
+  return readCentralDirectory(toBytes(data)).map((entry) => entry.name);
+}
+
+/**
+ * Read every file entry of a ZIP archive. Directory entries and macOS resource
+ * forks (`__MACOSX/`) are skipped.
+ *
+ * @param data - The raw archive bytes.
+ * @returns The decompressed entries in central-directory order.
+ */
+export async function readZip(
+  data: ArrayBuffer | Uint8Array,
+): Promise<ZipEntry[]> {
+  const bytes = toBytes(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries: ZipEntry[] = [];
+
+  for (const entry of readCentralDirectory(bytes)) {
+    const { name, method, compressedSize, localOffset } = entry;
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid ZIP archive: corrupt entry "${name}"`);
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.push({ name, data: raw.slice() });
+    } else if (method === 8) {
+      entries.push({ name, data: await inflateRaw(raw) });
+    } else {
+      throw new Error(
+        `Unsupported ZIP compression method ${method} for "${name}"`,
+      );
+    }
+  }
+
+  return entries;
+}
+
+function readCentralDirectory(bytes: Uint8Array): CentralDirectoryEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) {
+    throw new Error("Invalid ZIP archive: end of central directory not found");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: CentralDirectoryEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Invalid ZIP archive: corrupt central directory");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+    entries.push({ name, method, compressedSize, localOffset });
+  }
+
+  return entries;
+}
+
+/**
+ * Build a ZIP archive containing the given entries (stored, uncompressed).
+ *
+ * @param entries - Files to place in the archive.
+ * @returns The archive bytes.
+ */
+export function writeZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, entry.data);
+    centrals.push(central);
+    offset += local.length + size;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return concatBytes([...locals, ...centrals, eocd]);
+}
+
+/**
+ * Concatenate byte arrays into one buffer.
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes followed by an optional comment of up to 64 KiB.
+  const min = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= min; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("Deflated ZIP entries require DecompressionStream support");
+  }
+  const stream = new Response(data as BlobPart).body!.pipeThrough(
+    new DecompressionStream("deflate-raw"),
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function dosDateTime(now: Date): { time: number; date: number } {
+  return {
+    time:
+      (now.getHours() << 11) |
+      (now.getMinutes() << 5) |
+      Math.floor(now.getSeconds() / 2),
+    date:
+      ((Math.max(now.getFullYear(), 1980) - 1980) << 9) |
+      ((now.getMonth() + 1) << 5) |
+      now.getDate(),
+  };
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it, vi } from "vitest";
+import * as turf from "@turf/turf";
+import type { Feature } from "geojson";
+import { makeEditor } from "./fakeEditor";
+
+const square = (id: string, x: number, y: number, size: number) =>
+  turf.polygon(
+    [
+      [
+        [x, y],
+        [x + size, y],
+        [x + size, y + size],
+        [x, y + size],
+        [x, y],
+      ],
+    ],
+    { name: id },
+    { id },
+  );
+
+function setup(features: Feature[], selected: Feature[]) {
+  const mapContainer = document.createElement("div");
+  const { editor, names } = makeEditor(features, mapContainer);
+  const events: Record<string, unknown[]> = {};
+  [
+    "gm:intersect",
+    "gm:xor",
+    "gm:clip",
+    "gm:linemerge",
+    "gm:explode",
+  ].forEach((type) => {
+    events[type] = [];
+    mapContainer.addEventListener(type, (event) =>
+      events[type].push((event as CustomEvent).detail),
+    );
+  });
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const internals = editor as any;
+  internals.disableAllModes = async () => {};
+  internals.state.selectedFeatures = selected.map((feature) => ({
+    id: feature.id,
+    feature,
+  }));
+  return { editor, names, events, internals };
+}
+
+describe("GeoEditor intersect and xor", () => {
+  it("runs the pending operation on the selected polygons", () => {
+    const a = square("a", 0, 0, 0.002);
+    const b = square("b", 0.001, 0.001, 0.002);
+    const { editor, names, events, internals } = setup([a, b], [a, b]);
+
+    internals.pendingOperation = "intersect";
+    editor.executePendingOperation();
+
+    expect(names()).toEqual(["a"]);
+    expect(turf.bbox(editor.getFeatures().features[0])).toEqual([
+      0.001, 0.001, 0.002, 0.002,
+    ]);
+    expect(events["gm:intersect"]).toHaveLength(1);
+    expect(internals.pendingOperation).toBeNull();
+
+    editor.undo();
+    expect(names()).toEqual(["a", "b"]);
+
+    internals.state.selectedFeatures = [
+      { id: "a", feature: a },
+      { id: "b", feature: b },
+    ];
+    internals.pendingOperation = "xor";
+    editor.executePendingOperation();
+
+    expect(editor.getFeatures().features.map((f) => f.geometry.type)).toEqual([
+      "MultiPolygon",
+    ]);
+    expect(events["gm:xor"]).toHaveLength(1);
+  });
+});
+
+describe("GeoEditor clip", () => {
+  it("clips the selection to a mask as one undoable operation", () => {
+    const mask = square("mask", 0, 0, 0.002);
+    const inside = square("inside", 0.0005, 0.0005, 0.0005);
+    const across = square("across", 0.0015, 0.0015, 0.001);
+    const outside = square("outside", 0.01, 0.01, 0.001);
+    const { editor, names, events } = setup(
+      [mask, inside, across, outside],
+      [inside, across, outside, mask],
+    );
+
+    const result = editor.clipSelected(mask);
+
+    expect(result.success).toBe(true);
+    expect(result.originals.map((f) => f.id)).toEqual([
+      "inside",
+      "across",
+      "outside",
+    ]);
+    expect(names()).toEqual(["across", "inside", "mask"]);
+    const clipped = editor
+      .getFeatures()
+      .features.find((f) => f.properties?.name === "across")!;
+    expect(turf.bbox(clipped)).toEqual([0.0015, 0.0015, 0.002, 0.002]);
+    expect(events["gm:clip"]).toHaveLength(1);
+
+    editor.undo();
+    expect(names()).toEqual(["across", "inside", "mask", "outside"]);
+    editor.redo();
+    expect(names()).toEqual(["across", "inside", "mask"]);
+  });
+});
+
+describe("GeoEditor merge and explode", () => {
+  it("merges nearly touching lines into one undoable line", () => {
+    const a = turf.lineString(
+      [
+        [0, 0],
+        [0.001, 0],
+      ],
+      { name: "a" },
+      { id: "a" },
+    );
+    // About 0.5 m past the end of a, and drawn the other way round
+    const b = turf.lineString(
+      [
+        [0.002, 0],
+        [0.001, 0.000005],
+      ],
+      { name: "b" },
+      { id: "b" },
+    );
+    const { editor, names, events, internals } = setup([a, b], [a, b]);
+
+    internals.pendingOperation = "union";
+    editor.executePendingOperation();
+
+    const merged = editor.getFeatures().features;
+    expect(names()).toEqual(["a"]);
+    expect(merged[0].geometry).toEqual({
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [0.001, 0],
+        [0.002, 0],
+      ],
+    });
+    expect(events["gm:linemerge"]).toHaveLength(1);
+
+    editor.undo();
+    expect(names()).toEqual(["a", "b"]);
+
+    internals.state.selectedFeatures = [
+      { id: "a", feature: a },
+      { id: "b", feature: b },
+    ];
+    expect(editor.mergeSelectedLines(0.1).result?.geometry.type).toBe(
+      "MultiLineString",
+    );
+  });
+
+  it("puts the originals back when geoman refuses a result", () => {
+    const lines = turf.multiLineString(
+      [
+        [
+          [0, 0],
+          [0.001, 0],
+        ],
+        [
+          [0, 0.001],
+          [0.001, 0.001],
+        ],
+      ],
+      { name: "m" },
+      { id: "m" },
+    );
+    const { editor, names, events, internals } = setup([lines], [lines]);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const features = internals.geoman.features;
+    const importFeature = features.importGeoJsonFeature;
+    let imports = 0;
+    features.importGeoJsonFeature = (feature: Feature) =>
+      ++imports === 2 ? null : importFeature(feature);
+
+    const [exploded] = editor.explodeSelected();
+    expect(exploded.success).toBe(false);
+    expect(names()).toEqual(["m"]);
+    expect(events["gm:explode"]).toHaveLength(0);
+    expect(editor.getHistoryState()?.undoCount).toBe(0);
+
+    features.importGeoJsonFeature = importFeature;
+    internals.state.selectedFeatures = [{ id: "m", feature: lines }];
+    expect(editor.explodeSelected()[0].parts).toHaveLength(2);
+    expect(names()).toEqual(["m", "m"]);
+    expect(events["gm:explode"]).toHaveLength(1);
+    editor.undo();
+    expect(editor.getFeatures().features.map((f) => f.geometry.type)).toEqual([
+      "MultiLineString",
+    ]);
+    warn.mockRestore();
+  });
+});
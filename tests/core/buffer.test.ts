@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import * as turf from "@turf/turf";
+import type { LineString, Position } from "geojson";
+import { bufferFeature } from "../../src/lib/core/buffer";
+import { BufferFeature } from "../../src/lib/features/BufferFeature";
+import { makeEditor } from "./fakeEditor";
+
+// A square of about 111 m by 111 m
+const SIDE = 0.001;
+const square = turf.polygon(
+  [
+    [
+      [0, 0],
+      [SIDE, 0],
+      [SIDE, SIDE],
+      [0, SIDE],
+      [0, 0],
+    ],
+  ],
+  { name: "square" },
+  { id: "square" },
+);
+const corner = turf.lineString([
+  [0, 0],
+  [SIDE, 0],
+  [SIDE, SIDE],
+]);
+const sideLength = turf.distance([0, 0], [SIDE, 0], { units: "meters" });
+
+describe("bufferFeature", () => {
+  it("grows polygons with round or mitred corners and insets them", () => {
+    const area = sideLength * sideLength;
+    const round = bufferFeature(square, { distance: 10 })!;
+    expect(round.geometry.type).toBe("Polygon");
+    expect(round.properties).toEqual({ name: "square" });
+    // Four sides pushed out by 10 m plus a quarter circle at each corner
+    expect(
+      turf.area(round) / (area + 4 * sideLength * 10 + Math.PI * 100),
+    ).toBeCloseTo(1, 2);
+
+    const mitre = bufferFeature(square, { distance: 10, join: "mitre" })!;
+    expect(turf.area(mitre) / (sideLength + 20) ** 2).toBeCloseTo(1, 2);
+
+    const inset = bufferFeature(square, { distance: -10 })!;
+    expect(turf.area(inset) / (sideLength - 20) ** 2).toBeCloseTo(1, 2);
+
+    expect(bufferFeature(square, { distance: -100 })).toBeNull();
+    expect(bufferFeature(square, { distance: 0 })).toBeNull();
+  });
+
+  it("shapes line ends and corners with the cap and join styles", () => {
+    const areaOf = (options: Parameters<typeof bufferFeature>[1]) =>
+      turf.area(bufferFeature(corner, { distance: 10, ...options })!);
+    // Two 20 m wide strips overlapping in a 10 m square inside the corner
+    const band = 2 * sideLength * 20 - 100;
+
+    // The outer corner adds a quarter circle, a triangle or a square
+    expect(areaOf({ cap: "flat", join: "bevel" }) / (band + 50)).toBeCloseTo(
+      1,
+      2,
+    );
+    expect(areaOf({ cap: "flat", join: "mitre" }) / (band + 100)).toBeCloseTo(
+      1,
+      2,
+    );
+    expect(areaOf({ cap: "flat" }) / (band + 25 * Math.PI)).toBeCloseTo(1, 2);
+    // Square caps reach 10 m past both ends, round caps a half circle
+    expect(areaOf({ cap: "square", join: "mitre" }) / (band + 500)).toBeCloseTo(
+      1,
+      2,
+    );
+    expect(areaOf({}) / (band + 125 * Math.PI)).toBeCloseTo(1, 2);
+
+    const point = turf.point([0, 0]);
+    expect(
+      turf.area(bufferFeature(point, { distance: 1, units: "kilometers" })!) /
+        1e6,
+    ).toBeCloseTo(Math.PI, 1);
+    expect(bufferFeature(point, { cap: "flat" })).toBeNull();
+  });
+
+  it("offsets lines to one side", () => {
+    const offset = (options: Parameters<typeof bufferFeature>[1]) =>
+      (
+        bufferFeature(corner, { distance: 10, ...options }) as ReturnType<
+          typeof turf.lineString
+        >
+      ).geometry.coordinates;
+    const meters = ([lng, lat]: Position) =>
+      [lng, lat].map((value) => Math.round(value * (sideLength / SIDE)));
+
+    // Inside the corner the offset segments are trimmed where they meet
+    expect(offset({ side: "left" }).map(meters)).toEqual([
+      [0, 10],
+      [sideLength - 10, 10].map(Math.round),
+      [sideLength - 10, sideLength].map(Math.round),
+    ]);
+    expect(offset({ side: "right", join: "bevel" }).map(meters)).toEqual([
+      [0, -10],
+      [sideLength, -10].map(Math.round),
+      [sideLength + 10, 0].map(Math.round),
+      [sideLength + 10, sideLength].map(Math.round),
+    ]);
+    // A negative distance offsets to the other side
+    expect(offset({ side: "left", distance: -10 })[0][1]).toBeLessThan(0);
+    expect(offset({ side: "right" }).length).toBeGreaterThan(4);
+  });
+
+  it("buffers points and both sides of lines to nothing at a negative distance", () => {
+    expect(bufferFeature(corner, { distance: -10 })).toBeNull();
+    expect(bufferFeature(turf.point([0, 0]), { distance: -10 })).toBeNull();
+  });
+});
+
+describe("BufferFeature", () => {
+  it("measures the handle distance from the feature", () => {
+    const buffer = new BufferFeature({ side: "left" });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (buffer as any).targetFeatures = [square];
+    expect(buffer.getDistanceAt([SIDE / 2, -SIDE / 10])).toBeCloseTo(
+      sideLength / 10,
+      3,
+    );
+    expect(buffer.getDistanceAt([SIDE / 2, SIDE / 10])).toBeCloseTo(
+      -sideLength / 10,
+      3,
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (buffer as any).targetFeatures = [corner];
+    expect(buffer.getDistanceAt([SIDE / 2, SIDE / 10])).toBeCloseTo(
+      sideLength / 10,
+      3,
+    );
+    expect(buffer.getDistanceAt([SIDE / 2, -SIDE / 10])).toBeCloseTo(
+      -sideLength / 10,
+      3,
+    );
+  });
+
+  it("reports features that buffer to nothing", () => {
+    const result = new BufferFeature({ distance: -100 }).buffer(square);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Buffer is empty");
+  });
+});
+
+describe("GeoEditor buffer", () => {
+  it("adds buffers of the selection with one undoable operation", () => {
+    const mapContainer = document.createElement("div");
+    const line = turf.lineString(
+      corner.geometry.coordinates,
+      {},
+      { id: "line" },
+    );
+    const { editor } = makeEditor([square, line], mapContainer);
+    const buffers: unknown[] = [];
+    mapContainer.addEventListener("gm:buffer", (event) =>
+      buffers.push((event as CustomEvent).detail),
+    );
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = editor as any;
+    internals.disableAllModes = async () => {};
+    internals.state.selectedFeatures = [
+      { id: "square", feature: square },
+      { id: "line", feature: line },
+    ];
+
+    const results = editor.bufferSelected({ distance: 5, side: "right" });
+
+    expect(results.map((result) => result.result?.geometry.type)).toEqual([
+      "Polygon",
+      "LineString",
+    ]);
+    expect(buffers).toHaveLength(2);
+    const types = () =>
+      editor.getFeatures().features.map((f) => f.geometry.type);
+    expect(types()).toEqual(["Polygon", "LineString", "Polygon", "LineString"]);
+    expect(
+      (results[1].result!.geometry as LineString).coordinates[0][1],
+    ).toBeLessThan(0);
+
+    editor.undo();
+    expect(types()).toEqual(["Polygon", "LineString"]);
+    editor.redo();
+    expect(types()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { GeoEditor } from "../../src/lib/core/GeoEditor";
+import { makeEditor, point } from "./fakeEditor";
+
+const GEOJSON_TEXT = JSON.stringify({
+  type: "Feature",
+  id: "a",
+  properties: { name: "from QGIS" },
+  geometry: { type: "Point", coordinates: [10, 20] },
+});
+
+/** Dispatch a paste event; jsdom has no DataTransfer */
+function paste(text: string) {
+  const event = new Event("paste", { bubbles: true, cancelable: true });
+  Object.defineProperty(event, "clipboardData", {
+    value: { getData: () => text },
+  });
+  document.body.dispatchEvent(event);
+  return event;
+}
+
+function stubClipboard() {
+  const writeText = vi.fn(async (_text: string) => {});
+  Object.defineProperty(navigator, "clipboard", {
+    configurable: true,
+    value: { writeText },
+  });
+  return writeText;
+}
+
+function selectFeatures(
+  editor: GeoEditor,
+  ...features: ReturnType<typeof point>[]
+) {
+  features.forEach((feature) => editor.addToSelection(feature));
+}
+
+describe("copying to the system clipboard", () => {
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, "clipboard");
+  });
+
+  it("writes the selection as GeoJSON text by default", async () => {
+    const writeText = stubClipboard();
+    const { editor } = makeEditor([]);
+    selectFeatures(editor, point("a", "A"));
+
+    await editor.copySelectedFeatures();
+
+    expect(JSON.parse(writeText.mock.calls[0][0])).toEqual({
+      type: "FeatureCollection",
+      features: [point("a", "A")],
+    });
+    expect(editor.getState().clipboard).toHaveLength(1);
+  });
+
+  it("writes WKT or skips the system clipboard on request", async () => {
+    const writeText = stubClipboard();
+    const { editor } = makeEditor([]);
+    selectFeatures(editor, point("a", "A"), point("b", "B"));
+
+    await editor.copySelectedFeatures("wkt");
+    expect(writeText).toHaveBeenLastCalledWith("POINT (0 0)\nPOINT (0 0)");
+
+    await editor.copySelectedFeatures(false);
+    expect(writeText).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the in-memory copy when the system clipboard fails", async () => {
+    const writeText = stubClipboard();
+    writeText.mockRejectedValueOnce(new Error("denied"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { editor } = makeEditor([]);
+    selectFeatures(editor, point("a", "A"));
+
+    await editor.copySelectedFeatures("shapefile");
+    await editor.copySelectedFeatures();
+
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(editor.getState().clipboard).toHaveLength(1);
+    warn.mockRestore();
+  });
+});
+
+describe("pasting from the system clipboard", () => {
+  function setup() {
+    const fake = makeEditor([point("a", "existing")]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const anyEditor = fake.editor as any;
+    anyEditor.setupKeyboardShortcuts();
+    const coordinates = () =>
+      [...anyEditor.geoman.features.getAll().features]
+        .filter((f) => f.properties.name !== "existing")
+        .map((f) => f.geometry.coordinates);
+    return { ...fake, anyEditor, coordinates };
+  }
+
+  it("pastes GeoJSON text at its own coordinates as one undoable step", () => {
+    const { editor, anyEditor, names, coordinates } = setup();
+
+    expect(paste(GEOJSON_TEXT).defaultPrevented).toBe(true);
+    expect(names()).toEqual(["existing", "from QGIS"]);
+    expect(coordinates()).toEqual([[10, 20]]);
+
+    editor.undo();
+    expect(names()).toEqual(["existing"]);
+    anyEditor.removeKeyboardShortcuts();
+  });
+
+  it("pastes at the cursor when Shift is held", () => {
+    const { anyEditor, coordinates } = setup();
+    anyEditor.cursorLngLat = [11, 21];
+
+    document.dispatchEvent(
+      new KeyboardEvent("keydown", { key: "V", ctrlKey: true, shiftKey: true }),
+    );
+    paste("POINT (10 20)");
+
+    const [[lng, lat]] = coordinates();
+    expect(lng).toBeCloseTo(11, 9);
+    expect(lat).toBeCloseTo(21, 9);
+    anyEditor.removeKeyboardShortcuts();
+  });
+
+  it("falls back to the editor's clipboard for other text", async () => {
+    const writeText = stubClipboard();
+    const { editor, anyEditor, names } = setup();
+    selectFeatures(editor, point("a", "existing"));
+    await editor.copySelectedFeatures();
+
+    // Our own copy pastes offset like an in-editor copy
+    paste(writeText.mock.calls[0][0]);
+    paste("just some notes");
+    expect(names()).toEqual(["existing", "existing", "existing"]);
+
+    const input = document.createElement("input");
+    document.body.appendChild(input);
+    const event = new Event("paste", { bubbles: true, cancelable: true });
+    input.dispatchEvent(event);
+    expect(event.defaultPrevented).toBe(false);
+    input.remove();
+
+    expect(() => editor.pasteText("hello")).toThrow("No GeoJSON or WKT");
+    anyEditor.removeKeyboardShortcuts();
+    Reflect.deleteProperty(navigator, "clipboard");
+  });
+});
+
+describe("paste modes", () => {
+  it("pastes on top of the copies in place", async () => {
+    const { editor } = makeEditor([point("a", "A")]);
+    selectFeatures(editor, point("a", "A"));
+    await editor.copySelectedFeatures(false);
+
+    const [pasted] = editor.pasteFeatures({ mode: "in-place" });
+    expect(pasted.geometry).toEqual(point("a", "A").geometry);
+    expect(pasted.id).not.toBe("a");
+  });
+
+  it("follows the mouse with a preview until a click places the paste", async () => {
+    const fake = makeEditor([point("a", "A")]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const anyEditor = fake.editor as any;
+    const handlers = new Map<string, (e: unknown) => void>();
+    const preview = vi.fn();
+    anyEditor.map = {
+      ...anyEditor.map,
+      getCanvas: () => document.createElement("canvas"),
+      getCenter: () => ({ lng: 0, lat: 0 }),
+      getSource: () => ({ setData: preview }),
+      getLayer: () => ({}),
+      on: (type: string, handler: (e: unknown) => void) =>
+        handlers.set(type, handler),
+      off: (type: string) => handlers.delete(type),
+    };
+    anyEditor.geoman.disableAllModes = () => {};
+    anyEditor.copyFeature.init(anyEditor.map);
+    const onPaste = vi.fn();
+    anyEditor.map.getContainer().addEventListener("gm:paste", onPaste);
+
+    selectFeatures(fake.editor, point("a", "A"));
+    await fake.editor.copySelectedFeatures(false);
+    expect(fake.editor.pasteFeatures({ mode: "cursor" })).toEqual([]);
+
+    const at = (lng: number, lat: number) => ({ lngLat: { lng, lat } });
+    handlers.get("mousemove")!(at(5, 5));
+    expect(
+      preview.mock.lastCall![0].features[0].geometry.coordinates[0],
+    ).toBeCloseTo(5, 9);
+    expect(onPaste).not.toHaveBeenCalled();
+
+    handlers.get("click")!(at(3, 4));
+    expect(onPaste).toHaveBeenCalledTimes(1);
+    expect(handlers.has("click")).toBe(false);
+    expect(fake.names()).toEqual(["A", "A"]);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import * as turf from "@turf/turf";
+import {
+  parseAngle,
+  parseCogoInput,
+  resolveCogoInput,
+} from "../../src/lib/core/cogo";
+import { makeEditor } from "./fakeEditor";
+
+describe("parseCogoInput", () => {
+  it("parses decimal and DMS angles", () => {
+    expect(parseAngle("45.5")).toBe(45.5);
+    expect(parseAngle("45°30'")).toBe(45.5);
+    expect(parseAngle("45d30m36s")).toBeCloseTo(45.51, 9);
+    expect(parseAngle(`-10°15'00"`)).toBe(-10.25);
+    expect(parseAngle("45 30 15")).toBeCloseTo(45.504167, 6);
+    expect(parseAngle("45 30")).toBe(45.5);
+    expect(parseAngle("45°75'")).toBeNull();
+    expect(parseAngle("45 75")).toBeNull();
+    expect(parseAngle("north")).toBeNull();
+  });
+
+  it("parses distances with bearings, azimuths and turned angles", () => {
+    expect(parseCogoInput("100 N45E")).toEqual({
+      type: "bearing",
+      distance: 100,
+      bearing: 45,
+    });
+    expect(parseCogoInput("100 S 30°30' W")).toMatchObject({ bearing: 210.5 });
+    expect(parseCogoInput("100 S10E")).toMatchObject({ bearing: 170 });
+    expect(parseCogoInput("100 N10W")).toMatchObject({ bearing: 350 });
+    expect(parseCogoInput("2 km @90")).toEqual({
+      type: "bearing",
+      distance: 2000,
+      bearing: 90,
+    });
+    expect(parseCogoInput("100ft az 12.5")).toMatchObject({
+      distance: 30.48,
+      bearing: 12.5,
+    });
+    expect(parseCogoInput("50 <90")).toEqual({
+      type: "angle",
+      distance: 50,
+      angle: 90,
+    });
+    expect(parseCogoInput("50 <90L")).toMatchObject({ angle: -90 });
+    expect(parseCogoInput("100 N95E")).toBeNull();
+    expect(parseCogoInput("100 45 30 15")).toMatchObject({
+      distance: 100,
+      bearing: expect.closeTo(45.504167, 6),
+    });
+  });
+
+  it("parses the direction before the distance", () => {
+    expect(parseCogoInput("S 45 W 100")).toEqual({
+      type: "bearing",
+      distance: 100,
+      bearing: 225,
+    });
+    expect(parseCogoInput("N45°30'E 2 km")).toMatchObject({
+      distance: 2000,
+      bearing: 45.5,
+    });
+    expect(parseCogoInput("@90 50")).toMatchObject({ bearing: 90 });
+    expect(parseCogoInput("<90L 50")).toEqual({
+      type: "angle",
+      distance: 50,
+      angle: -90,
+    });
+  });
+
+  it("rejects azimuths outside a full turn", () => {
+    expect(parseCogoInput("100 @400")).toBeNull();
+    expect(parseCogoInput("100 400")).toBeNull();
+    expect(parseCogoInput("100 @-10")).toBeNull();
+    expect(parseCogoInput("100 @360")).toMatchObject({ bearing: 0 });
+  });
+
+  it("reads distances without a unit in the measurement unit system", () => {
+    expect(parseCogoInput("10 @0", "imperial")).toMatchObject({
+      distance: 3.048,
+    });
+    expect(parseCogoInput("1 @0", "nautical")).toMatchObject({
+      distance: 1852,
+    });
+    expect(parseCogoInput("1 m @0", "imperial")).toMatchObject({
+      distance: 1,
+    });
+  });
+
+  it("parses decimal and DMS coordinates", () => {
+    expect(parseCogoInput("13.4, 52.5")).toEqual({
+      type: "coordinate",
+      lngLat: [13.4, 52.5],
+    });
+    expect(parseCogoInput("52°30'N, 13°24'E")).toEqual({
+      type: "coordinate",
+      lngLat: [13.4, 52.5],
+    });
+    expect(parseCogoInput("33.5S 70.5W")).toEqual({
+      type: "coordinate",
+      lngLat: [-70.5, -33.5],
+    });
+    expect(parseCogoInput("W70.5, 33.5S")).toMatchObject({
+      lngLat: [-70.5, -33.5],
+    });
+    expect(parseCogoInput("52N, 13N")).toBeNull();
+    expect(parseCogoInput("200, 10")).toBeNull();
+    expect(parseCogoInput("")).toBeNull();
+  });
+
+  it("resolves typed vertices against the vertices drawn so far", () => {
+    const bearing = parseCogoInput("1000 @90")!;
+    expect(resolveCogoInput(bearing, [])).toBeNull();
+
+    const east = resolveCogoInput(bearing, [[0, 0]])!;
+    expect(turf.distance([0, 0], east, { units: "meters" })).toBeCloseTo(
+      1000,
+      6,
+    );
+    expect(east[1]).toBeCloseTo(0, 9);
+
+    const turn = parseCogoInput("1000 <-90")!;
+    expect(resolveCogoInput(turn, [east])).toBeNull();
+    const north = resolveCogoInput(turn, [[0, 0], east])!;
+    expect(north[0]).toBeCloseTo(east[0], 9);
+    expect(north[1]).toBeGreaterThan(0);
+
+    expect(resolveCogoInput(parseCogoInput("1, 2")!, [])).toEqual([1, 2]);
+  });
+});
+
+describe("GeoEditor precision input", () => {
+  function makeDrawingEditor() {
+    const mapContainer = document.createElement("div");
+    const { editor } = makeEditor([], mapContainer);
+    const drawer = {
+      featureData: null as object | null,
+      shapeLngLats: [] as [number, number][],
+      startShape(lngLat: [number, number]) {
+        this.featureData = {};
+        this.shapeLngLats = [lngLat];
+      },
+      addPoint(lngLat: [number, number]) {
+        this.shapeLngLats.push(lngLat);
+      },
+    };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = editor as any;
+    internals.geoman.actionInstances = { draw__line: { lineDrawer: drawer } };
+    internals.state.activeDrawMode = "line";
+    return { editor, drawer, mapContainer };
+  }
+
+  it("adds typed vertices to the line being drawn", () => {
+    const { editor, drawer } = makeDrawingEditor();
+
+    expect(editor.addPrecisionVertex("100 @0")).toBe(false);
+    expect(editor.addPrecisionVertex("0, 0")).toBe(true);
+    expect(editor.addPrecisionVertex("100 @0")).toBe(true);
+    expect(editor.addPrecisionVertex("100 <90")).toBe(true);
+    expect(editor.addPrecisionVertex("up and away")).toBe(false);
+
+    expect(drawer.shapeLngLats).toHaveLength(3);
+    const [, north, east] = drawer.shapeLngLats;
+    expect(turf.distance([0, 0], north, { units: "meters" })).toBeCloseTo(
+      100,
+      6,
+    );
+    expect(turf.bearing(north, east)).toBeCloseTo(90, 3);
+  });
+
+  it("shows a box for typing vertices while drawing", () => {
+    const { editor, drawer, mapContainer } = makeDrawingEditor();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (editor as any).updatePrecisionInput();
+    expect(
+      mapContainer.querySelector(".geo-editor-precision-input"),
+    ).toBeNull();
+
+    editor.setPrecisionInput(true);
+    const input = mapContainer.querySelector<HTMLInputElement>(
+      ".geo-editor-precision-input input",
+    )!;
+    const enter = () =>
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+
+    input.value = "52°N 13°E";
+    enter();
+    expect(drawer.shapeLngLats).toEqual([[13, 52]]);
+    expect(input.value).toBe("");
+
+    input.value = "100 sideways";
+    enter();
+    expect(
+      mapContainer.querySelector(".geo-editor-precision-input--invalid")
+        ?.textContent,
+    ).toContain("Not understood");
+
+    editor.setPrecisionInput(false);
+    expect(
+      mapContainer.querySelector(".geo-editor-precision-input"),
+    ).toBeNull();
+  });
+});
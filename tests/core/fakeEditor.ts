@@ -0,0 +1,96 @@
+import type { Feature, FeatureCollection } from "geojson";
+import { GeoEditor } from "../../src/lib/core/GeoEditor";
+
+/*
+ * Shared fixtures for tests that drive GeoEditor's load pipeline without a
+ * map or a real geoman instance.
+ */
+
+/** Geometry types geoman has shapes for; it refuses the others */
+const GEOMAN_GEOMETRIES = [
+  "Point",
+  "LineString",
+  "MultiLineString",
+  "Polygon",
+  "MultiPolygon",
+];
+
+/**
+ * In-memory stand-in for geoman's `features` API: features are stored by id
+ * and imported features without an id get a generated one.
+ */
+export function makeFeatureStore(initial: Feature[]) {
+  const store = new Map<string, Feature>();
+  let nextId = 1;
+
+  const makeData = (id: string) => ({
+    id,
+    getGeoJson: () => store.get(id)!,
+    updateGeometry: (geometry: Feature["geometry"]) =>
+      store.set(id, { ...store.get(id)!, geometry }),
+    delete: () => store.delete(id),
+  });
+  const importFeature = (feature: Feature) => {
+    if (!GEOMAN_GEOMETRIES.includes(feature.geometry?.type)) return null;
+    const id = String(feature.id ?? `gm-${nextId++}`);
+    if (store.has(id)) return null;
+    store.set(id, { ...feature, id });
+    return makeData(id);
+  };
+  initial.forEach(importFeature);
+
+  return {
+    store,
+    api: {
+      getAll: (): FeatureCollection => ({
+        type: "FeatureCollection",
+        features: [...store.values()],
+      }),
+      forEach: (callback: (fd: ReturnType<typeof makeData>) => void) =>
+        [...store.keys()].forEach((id) => callback(makeData(id))),
+      delete: (fd: { id: string }) => store.delete(fd.id),
+      deleteAll: async () => store.clear(),
+      importGeoJsonFeature: importFeature,
+      importGeoJson: async (collection: FeatureCollection) => {
+        const addedFeatures = collection.features
+          .map(importFeature)
+          .filter(Boolean);
+        return { stats: { success: addedFeatures.length }, addedFeatures };
+      },
+    },
+  };
+}
+
+export const point = (id: string | undefined, name: string): Feature => ({
+  type: "Feature",
+  ...(id !== undefined ? { id } : {}),
+  properties: { name },
+  geometry: { type: "Point", coordinates: [0, 0] },
+});
+
+export function makeEditor(
+  initial: Feature[],
+  mapContainer: HTMLElement = document.createElement("div"),
+) {
+  const { store, api } = makeFeatureStore(initial);
+  const editor = new GeoEditor({ fitBoundsOnLoad: false });
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (editor as any).geoman = { features: api };
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (editor as any).container = document.createElement("div");
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (editor as any).map = {
+    getContainer: () => mapContainer,
+    getSource: () => ({ setData: () => {} }),
+    on: () => {},
+    off: () => {},
+  };
+  const names = () =>
+    [...store.values()].map((f) => f.properties?.name as string).sort();
+  return { editor, names };
+}
+
+export const collection = (...features: Feature[]): FeatureCollection => ({
+  type: "FeatureCollection",
+  features,
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest";
+import { collection, makeEditor, point } from "./fakeEditor";
+
+const geoJsonFile = (name: string, featureName: string) =>
+  new File([JSON.stringify(collection(point(undefined, featureName)))], name);
+
+/** Dispatch a drag event carrying files; jsdom has no DataTransfer */
+function drag(target: HTMLElement, type: string, files: File[] = []) {
+  const event = new Event(type, { bubbles: true, cancelable: true });
+  Object.defineProperty(event, "dataTransfer", {
+    value: { types: ["Files"], files, dropEffect: "none" },
+  });
+  target.dispatchEvent(event);
+  return event;
+}
+
+describe("file drop", () => {
+  it("shows the overlay while files are dragged over the map", () => {
+    const mapContainer = document.createElement("div");
+    const { editor } = makeEditor([], mapContainer);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (editor as any).setupFileDrop();
+    const overlay = mapContainer.querySelector(".geo-editor-drop-overlay")!;
+    const active = () =>
+      overlay.classList.contains("geo-editor-drop-overlay--active");
+
+    expect(drag(mapContainer, "dragenter").defaultPrevented).toBe(true);
+    drag(overlay as HTMLElement, "dragenter");
+    drag(overlay as HTMLElement, "dragleave");
+    expect(active()).toBe(true);
+    drag(mapContainer, "dragleave");
+    expect(active()).toBe(false);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (editor as any).removeFileDrop();
+    expect(mapContainer.querySelector(".geo-editor-drop-overlay")).toBeNull();
+  });
+
+  it("loads each dropped file as a separate undoable import", async () => {
+    const mapContainer = document.createElement("div");
+    const { editor, names } = makeEditor([point("a", "old")], mapContainer);
+    const onLoad = vi.fn();
+    const onError = vi.fn();
+    mapContainer.addEventListener("gm:geojsonload", onLoad);
+    mapContainer.addEventListener("gm:geojsonloaderror", (e) =>
+      onError((e as CustomEvent).detail),
+    );
+
+    const results = await editor.loadFiles([
+      geoJsonFile("one.geojson", "one"),
+      new File(["not a feature file"], "notes.txt"),
+      geoJsonFile("two.geojson", "two"),
+    ]);
+
+    expect(results.map((r) => [r.filename, r.mode])).toEqual([
+      ["one.geojson", "replace"],
+      ["two.geojson", "append"],
+    ]);
+    expect(onLoad).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ filename: "notes.txt" }),
+    );
+    expect(names()).toEqual(["one", "two"]);
+
+    editor.undo();
+    expect(names()).toEqual(["one"]);
+    editor.undo();
+    expect(names()).toEqual(["old"]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { Feature } from "geojson";
+import {
+  ImportIndex,
+  getImportKey,
+  planImport,
+} from "../../src/lib/core/importMerge";
+
+const point = (
+  id: string | undefined,
+  properties: Record<string, unknown> = {},
+): Feature => ({
+  type: "Feature",
+  ...(id !== undefined ? { id } : {}),
+  properties,
+  geometry: { type: "Point", coordinates: [0, 0] },
+});
+
+describe("getImportKey", () => {
+  it("reads the feature id, then an id property", () => {
+    expect(getImportKey(point("a"))).toBe("a");
+    expect(getImportKey(point(undefined, { id: 7 }))).toBe("7");
+    expect(getImportKey(point(undefined))).toBeNull();
+  });
+
+  it("reads a configured key property instead of the id", () => {
+    expect(getImportKey(point("a", { parcel: "P-1" }), "parcel")).toBe("P-1");
+    expect(getImportKey(point("a"), "parcel")).toBeNull();
+  });
+});
+
+describe("planImport", () => {
+  const existing = [point("gm-1", { parcel: "P-1" }), point("gm-2")];
+
+  it("removes every existing feature in replace mode", () => {
+    const incoming = [point("x")];
+    const plan = planImport(existing, incoming, "replace");
+
+    expect(plan.removed).toEqual(existing);
+    expect(plan.added).toEqual(incoming);
+    expect(plan.updated).toEqual([]);
+  });
+
+  it("keeps existing features and drops clashing ids in append mode", () => {
+    const plan = planImport(
+      existing,
+      [point("gm-1", { name: "copy" }), point("new")],
+      "append",
+    );
+
+    expect(plan.removed).toEqual([]);
+    expect(plan.updated).toEqual([]);
+    expect(plan.added.map((f) => f.id)).toEqual([undefined, "new"]);
+    expect(plan.added[0].properties).toEqual({ name: "copy" });
+  });
+
+  it("updates matching features in place in merge-by-id mode", () => {
+    const plan = planImport(
+      existing,
+      [
+        point("9", { parcel: "P-1", owner: "A" }),
+        point("10", { parcel: "P-1", owner: "B" }),
+        point("11", { parcel: "P-2" }),
+      ],
+      "merge-by-id",
+      "parcel",
+    );
+
+    expect(plan.updated).toHaveLength(1);
+    expect(plan.updated[0].oldFeature).toBe(existing[0]);
+    expect(plan.updated[0].newFeature.id).toBe("gm-1");
+    expect(plan.updated[0].newFeature.properties).toEqual({
+      parcel: "P-1",
+      owner: "B",
+    });
+    expect(plan.added.map((f) => f.id)).toEqual(["11"]);
+  });
+});
+
+describe("ImportIndex", () => {
+  it("plans later batches against the features earlier ones added", () => {
+    const index = new ImportIndex([point("gm-1", { parcel: "P-1" })], "parcel");
+
+    const first = index.plan([point("a", { parcel: "P-2" })], "merge-by-id");
+    expect(first.added.map((f) => f.id)).toEqual(["a"]);
+    index.add(first.added);
+
+    const updated = point("gm-1", { parcel: "P-1", owner: "A" });
+    const second = index.plan(
+      [
+        point("a", { parcel: "P-2", owner: "B" }),
+        point("b", { parcel: "P-1", owner: "A" }),
+      ],
+      "merge-by-id",
+    );
+    expect(second.updated.map((u) => u.newFeature.id)).toEqual(["a", "gm-1"]);
+    index.replace(second.updated[1].oldFeature, updated);
+
+    const third = index.plan([point("c", { parcel: "P-1" })], "merge-by-id");
+    expect(third.updated[0].oldFeature).toBe(updated);
+    expect(index.features.get("gm-1")).toBe(updated);
+  });
+});
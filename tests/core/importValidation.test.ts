@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import type { Feature, Geometry } from "geojson";
+import { validateImportFeatures } from "../../src/lib/core/importValidation";
+
+const feature = (geometry: Geometry | null, id?: string): Feature => ({
+  type: "Feature",
+  ...(id ? { id } : {}),
+  properties: { name: "f" },
+  geometry: geometry as Geometry,
+});
+
+const square = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [0, 0],
+];
+
+// A bow-tie whose edges cross at (0.5, 0.5)
+const bowTie = [
+  [0, 0],
+  [1, 1],
+  [1, 0],
+  [0, 1],
+  [0, 0],
+];
+
+const codes = (entry: { issues: { code: string }[] }) =>
+  entry.issues.map((i) => i.code);
+
+describe("validateImportFeatures", () => {
+  it("accepts valid features unchanged", () => {
+    const valid = feature({ type: "Polygon", coordinates: [square] });
+    const { features, report } = validateImportFeatures([valid]);
+
+    expect(features).toEqual([valid]);
+    expect(report.accepted).toHaveLength(1);
+    expect(report.accepted[0]).toMatchObject({ index: 0, reason: "" });
+    expect(report.repaired).toEqual([]);
+    expect(report.rejected).toEqual([]);
+  });
+
+  it("rejects invalid features with a reason when not repairing", () => {
+    const { features, report } = validateImportFeatures([
+      { type: "Point" },
+      feature(null),
+      feature({ type: "Point", coordinates: [NaN, 1] }),
+      feature({ type: "Point", coordinates: [500000, 4000000] }),
+      feature({ type: "Polygon", coordinates: [square.slice(0, 4)] }),
+      feature({ type: "Polygon", coordinates: [bowTie] }),
+      feature({ type: "MultiPoint", coordinates: [[0, 0]] }),
+      feature({
+        type: "GeometryCollection",
+        geometries: [{ type: "Point", coordinates: [0, 0] }],
+      }),
+    ]);
+
+    expect(features).toEqual([]);
+    expect(report.rejected.map(codes)).toEqual([
+      ["invalid-feature"],
+      ["missing-geometry"],
+      ["invalid-coordinates"],
+      ["out-of-range"],
+      ["unclosed-ring"],
+      ["self-intersection"],
+      ["unsupported-geometry"],
+      ["geometry-collection"],
+    ]);
+    expect(report.rejected[3].reason).toContain("projected CRS");
+  });
+
+  it("repairs rings, coordinates and self-intersections", () => {
+    const { features, report } = validateImportFeatures(
+      [
+        feature({ type: "Polygon", coordinates: [square.slice(0, 4)] }),
+        feature({
+          type: "LineString",
+          coordinates: [
+            [0, 0],
+            [NaN, 0],
+            [2, 2],
+          ],
+        }),
+        feature({ type: "Polygon", coordinates: [bowTie] }),
+        feature({ type: "Point", coordinates: [200, 0] }),
+      ],
+      { repair: true },
+    );
+
+    expect(report.repaired.map(codes)).toEqual([
+      ["unclosed-ring"],
+      ["invalid-coordinates"],
+      ["self-intersection"],
+    ]);
+    expect(report.rejected.map(codes)).toEqual([["out-of-range"]]);
+    expect(features[0].geometry).toEqual({
+      type: "Polygon",
+      coordinates: [square],
+    });
+    expect(features[1].geometry).toEqual({
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [2, 2],
+      ],
+    });
+    expect(features[2].geometry.type).toBe("MultiPolygon");
+    expect(
+      (features[2].geometry as { coordinates: unknown[] }).coordinates,
+    ).toHaveLength(2);
+  });
+
+  it("splits GeometryCollections and MultiPoints when repairing", () => {
+    const { features, report } = validateImportFeatures(
+      [
+        feature(
+          {
+            type: "GeometryCollection",
+            geometries: [
+              { type: "Point", coordinates: [0, 0] },
+              {
+                type: "MultiPoint",
+                coordinates: [
+                  [1, 1],
+                  [2, 2],
+                ],
+              },
+              { type: "LineString", coordinates: [[0, 0]] },
+            ],
+          },
+          "gc",
+        ),
+      ],
+      { repair: true },
+    );
+
+    expect(features.map((f) => f.geometry.type)).toEqual([
+      "Point",
+      "Point",
+      "Point",
+    ]);
+    expect(features.every((f) => f.id === undefined)).toBe(true);
+    expect(report.repaired.map((entry) => entry.index)).toEqual([0, 0, 0]);
+    expect(report.rejected.map(codes)).toEqual([
+      ["geometry-collection", "too-few-positions"],
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+import { writeShapefileZip } from "../../src/lib/formats";
+import { collection, makeEditor, point } from "./fakeEditor";
+
+describe("undoable file load", () => {
+  it("restores the previous features when a replacing load is undone", async () => {
+    const { editor, names } = makeEditor([
+      point("a", "old A"),
+      point("b", "old B"),
+    ]);
+
+    const result = await editor.loadGeoJson(
+      collection(point("a", "new A"), point(undefined, "new C")),
+      "new.geojson",
+    );
+    expect(result).toMatchObject({ mode: "replace", added: 2, removed: 2 });
+    expect(names()).toEqual(["new A", "new C"]);
+    expect(editor.getHistoryState()?.undoCount).toBe(1);
+
+    expect(editor.undo()).toBe(true);
+    expect(names()).toEqual(["old A", "old B"]);
+
+    expect(editor.redo()).toBe(true);
+    expect(names()).toEqual(["new A", "new C"]);
+  });
+
+  it("puts the features back when a replacing load fails", async () => {
+    const { editor, names } = makeEditor([
+      point("a", "old A"),
+      point("b", "old B"),
+    ]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const features = (editor as any).geoman.features;
+    features.importGeoJson = async () => {
+      features.importGeoJsonFeature(point("c", "half imported"));
+      throw new Error("Missing source for feature creation");
+    };
+
+    await expect(
+      editor.loadGeoJson(collection(point("c", "new C")), "new.geojson"),
+    ).rejects.toThrow("Missing source");
+    expect(names()).toEqual(["old A", "old B"]);
+    expect(editor.getHistoryState()?.undoCount).toBe(0);
+  });
+
+  it("puts the features back when geoman refuses a merged feature", async () => {
+    const { editor, names } = makeEditor([
+      point("a", "old A"),
+      point("b", "B"),
+    ]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const features = (editor as any).geoman.features;
+    const importFeature = features.importGeoJsonFeature;
+    features.importGeoJsonFeature = (feature: {
+      properties: { name: string };
+    }) =>
+      feature.properties.name === "merged A" ? null : importFeature(feature);
+
+    await expect(
+      editor.loadGeoJson(
+        collection(point("a", "merged A"), point("z", "Z")),
+        "y.geojson",
+        { mode: "merge-by-id" },
+      ),
+    ).rejects.toThrow("Failed to import merged feature");
+    expect(names()).toEqual(["B", "old A"]);
+    expect(editor.getHistoryState()?.undoCount).toBe(0);
+  });
+
+  it("rolls back a load when geoman adds fewer features than planned", async () => {
+    const { editor, names } = makeEditor([point("a", "A")]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const features = (editor as any).geoman.features;
+    features.importGeoJson = async () => {
+      const added = features.importGeoJsonFeature(point("y", "Y"));
+      return { stats: { success: 1 }, addedFeatures: [added] };
+    };
+
+    await expect(
+      editor.loadGeoJson(
+        collection(point("y", "Y"), point("z", "Z")),
+        "y.geojson",
+        { mode: "append" },
+      ),
+    ).rejects.toThrow("Imported 1 of 2 features");
+    expect(names()).toEqual(["A"]);
+    expect(editor.getHistoryState()?.undoCount).toBe(0);
+  });
+
+  it("undoes an append and a merge as single entries", async () => {
+    const { editor, names } = makeEditor([point("a", "old A")]);
+
+    await editor.loadGeoJson(collection(point("a", "copy")), "x.geojson", {
+      mode: "append",
+    });
+    expect(names()).toEqual(["copy", "old A"]);
+
+    const merged = await editor.loadGeoJson(
+      collection(point("a", "merged A"), point("z", "Z")),
+      "y.geojson",
+      { mode: "merge-by-id" },
+    );
+    expect(merged).toMatchObject({ added: 1, updated: 1, removed: 0 });
+    expect(names()).toEqual(["Z", "copy", "merged A"]);
+
+    expect(editor.getHistoryState()?.undoCount).toBe(2);
+    editor.undo();
+    expect(names()).toEqual(["copy", "old A"]);
+    editor.undo();
+    expect(names()).toEqual(["old A"]);
+  });
+
+  it("undoes clearing all features", async () => {
+    const { editor, names } = makeEditor([point("a", "A"), point("b", "B")]);
+
+    expect(await editor.clearAllFeatures()).toHaveLength(2);
+    expect(names()).toEqual([]);
+
+    editor.undo();
+    expect(names()).toEqual(["A", "B"]);
+  });
+
+  it("clears all features from the Clear all button as one undoable step", async () => {
+    const { editor, names } = makeEditor([point("a", "A"), point("b", "B")]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = editor as any;
+    internals.options.fileModes = ["open", "save", "clear"];
+    const group: HTMLElement = internals.createFileToolsGroup();
+    const clearBtn = group.querySelector<HTMLButtonElement>(
+      '[data-file="clear"]',
+    );
+
+    clearBtn!.click();
+    await vi.waitFor(() => expect(editor.getHistoryState()?.undoCount).toBe(1));
+    expect(names()).toEqual([]);
+
+    editor.undo();
+    expect(names()).toEqual(["A", "B"]);
+  });
+
+  it("keeps features when the toolbar reset is clicked", () => {
+    const { editor, names } = makeEditor([point("a", "A"), point("b", "B")]);
+    vi.spyOn(editor, "disableAllModes").mockResolvedValue();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const group: HTMLElement = (editor as any).createResetToolsGroup();
+
+    group.querySelector("button")!.click();
+    expect(names()).toEqual(["A", "B"]);
+    expect(editor.getHistoryState()?.undoCount).toBe(0);
+  });
+
+  it("adds imported fields to the attribute schema only when asked", async () => {
+    const zip = writeShapefileZip(
+      collection({ ...point(undefined, "A"), properties: { height: 3 } }),
+    );
+    const { editor } = makeEditor([]);
+
+    await editor.loadGeoJson(zip, "parcels.zip");
+    expect(editor.getAttributeSchema()).toBeUndefined();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (editor as any).options.importAttributeFields = true;
+    await editor.loadGeoJson(zip, "parcels.zip");
+    expect(editor.getAttributeSchema()?.common?.map((f) => f.name)).toEqual([
+      "height",
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Feature } from "geojson";
+import * as turf from "@turf/turf";
+import {
+  buildMeasurementLabels,
+  formatArea,
+  formatLength,
+  measureFeature,
+} from "../../src/lib/core/measurements";
+import { MeasurementFeature } from "../../src/lib/features/MeasurementFeature";
+
+// 0.001 degrees of longitude at the equator, in meters
+const STEP = 111.19;
+
+const line = turf.lineString([
+  [0, 0],
+  [0.001, 0],
+  [0.001, 0],
+  [0.001, 0.002],
+]);
+const square = turf.polygon(
+  [
+    [
+      [0, 0],
+      [0.001, 0],
+      [0.001, 0.001],
+      [0, 0.001],
+      [0, 0],
+    ],
+  ],
+  {},
+  { id: "square" },
+);
+
+describe("measureFeature", () => {
+  it("measures segments and the total length of a line", () => {
+    const measurement = measureFeature(line)!;
+
+    expect(measurement.segments).toHaveLength(2);
+    expect(measurement.segments[0].length).toBeCloseTo(STEP, 0);
+    expect(measurement.segments[1].end).toEqual([0.001, 0.002]);
+    expect(measurement.length).toBeCloseTo(3 * STEP, 0);
+    expect(measurement.area).toBeUndefined();
+  });
+
+  it("measures the area and perimeter of a polygon", () => {
+    const measurement = measureFeature(square)!;
+
+    expect(measurement.featureId).toBe("square");
+    expect(measurement.segments).toHaveLength(4);
+    expect(measurement.perimeter).toBeCloseTo(4 * STEP, 0);
+    expect(measurement.area).toBeCloseTo(turf.area(square), 6);
+  });
+
+  it("does not measure points", () => {
+    expect(measureFeature(turf.point([0, 0]))).toBeNull();
+  });
+});
+
+describe("measurement formatting", () => {
+  it("formats lengths in metric, imperial and nautical units", () => {
+    expect(formatLength(5.123)).toBe("5.12 m");
+    expect(formatLength(250)).toBe("250 m");
+    expect(formatLength(12_345)).toBe("12.3 km");
+    expect(formatLength(100, "imperial")).toBe("328 ft");
+    expect(formatLength(3218.688, "imperial")).toBe("2.00 mi");
+    expect(formatLength(926, "nautical")).toBe("0.50 NM");
+  });
+
+  it("formats areas in metric, imperial and nautical units", () => {
+    expect(formatArea(500)).toBe("500 m²");
+    expect(formatArea(25_000)).toBe("2.50 ha");
+    expect(formatArea(3_000_000)).toBe("3.00 km²");
+    expect(formatArea(100, "imperial")).toBe("1076 ft²");
+    expect(formatArea(40_468.564224, "imperial")).toBe("10.0 ac");
+    expect(formatArea(1852 * 1852, "nautical")).toBe("1.00 NM²");
+  });
+
+  it("labels segments, and the total of lines or area of polygons", () => {
+    const lineLabels = buildMeasurementLabels(line, measureFeature(line)!);
+    expect(lineLabels.map((label) => label.properties)).toEqual([
+      { label: "111 m", kind: "segment" },
+      { label: "222 m", kind: "segment" },
+      { label: "334 m", kind: "total" },
+    ]);
+    expect(lineLabels[2].geometry.coordinates).toEqual([0.001, 0.002]);
+
+    const polygonLabels = buildMeasurementLabels(
+      square,
+      measureFeature(square)!,
+      "imperial",
+    );
+    expect(polygonLabels).toHaveLength(5);
+    expect(polygonLabels[4].properties).toEqual({
+      label: "3.06 ac\n1459 ft",
+      kind: "total",
+    });
+  });
+});
+
+describe("MeasurementFeature", () => {
+  function makeMap() {
+    const data: unknown[] = [];
+    const layers = new Set<string>();
+    const map = {
+      getSource: (id: string) =>
+        layers.has(id) ? { setData: (d: unknown) => data.push(d) } : undefined,
+      getLayer: (id: string) => (layers.has(id) ? {} : undefined),
+      addSource: (id: string) => layers.add(id),
+      addLayer: (layer: { id: string }) => layers.add(layer.id),
+      removeLayer: (id: string) => layers.delete(id),
+      removeSource: (id: string) => layers.delete(id),
+    };
+    return { map, data, layers };
+  }
+
+  it("measures the shapes being drawn after each mouse event", () => {
+    const { map, data, layers } = makeMap();
+    let drawing: Feature[] = [];
+    const changes: unknown[][] = [];
+    const measurement = new MeasurementFeature({
+      getFeatures: () => drawing,
+      onChange: (measurements) => changes.push(measurements),
+    });
+    measurement.init(map as any);
+
+    drawing = [line];
+    measurement.afterFire({ type: "mousemove" });
+    expect(changes).toHaveLength(0);
+
+    measurement.setEnabled(true);
+    expect(changes).toHaveLength(1);
+    expect(layers.size).toBe(2);
+    expect(data).toHaveLength(1);
+
+    measurement.afterFire({ type: "mousemove" });
+    expect(changes).toHaveLength(1);
+
+    drawing = [square];
+    measurement.afterFire({ type: "render" });
+    expect(changes).toHaveLength(1);
+    measurement.afterFire({ type: "click" });
+    expect(changes).toHaveLength(2);
+    expect(measurement.getMeasurements()[0].featureId).toBe("square");
+
+    measurement.setUnits("nautical");
+    expect(JSON.stringify(data[data.length - 1])).toContain("NM");
+
+    drawing = [];
+    measurement.afterFire({ type: "mouseup" });
+    expect(changes[2]).toEqual([]);
+
+    measurement.destroy();
+    expect(layers.size).toBe(0);
+  });
+
+  it("measures again only after geoman draw and edit events", () => {
+    const getFeatures = vi.fn(() => [line]);
+    const measurement = new MeasurementFeature({ getFeatures });
+
+    measurement.afterGeomanEvent({ actionType: "draw", action: "finish" });
+    expect(getFeatures).not.toHaveBeenCalled();
+
+    measurement.setEnabled(true);
+    getFeatures.mockClear();
+    measurement.afterGeomanEvent({
+      actionType: "helper",
+      action: "mode_start",
+    });
+    measurement.afterGeomanEvent({ actionType: "control", action: "loaded" });
+    expect(getFeatures).not.toHaveBeenCalled();
+
+    measurement.afterGeomanEvent({ actionType: "draw", action: "cancel" });
+    measurement.afterGeomanEvent({ actionType: "edit", action: "marker_move" });
+    expect(getFeatures).toHaveBeenCalledTimes(2);
+  });
+});
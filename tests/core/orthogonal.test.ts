@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { Feature, Polygon, Position } from "geojson";
+import * as turf from "@turf/turf";
+import {
+  constrainToAngle,
+  findVertexAnchor,
+  orthogonalize,
+} from "../../src/lib/core/orthogonal";
+import { makeEditor } from "./fakeEditor";
+
+// A quadrilateral whose corners are a few degrees off square, with a nearly
+// straight vertex on its top edge
+const skewed = turf.polygon(
+  [
+    [
+      [0, 0],
+      [0.001, 0.00005],
+      [0.00105, 0.001],
+      [0.0005, 0.00102],
+      [0.00002, 0.00098],
+      [0, 0],
+    ],
+  ],
+  {},
+  { id: "skewed" },
+);
+
+/** Corner angles of a polygon's outer ring, in degrees */
+function cornerAngles(feature: Feature<Polygon>): number[] {
+  const ring = feature.geometry.coordinates[0].slice(0, -1);
+  return ring.map((vertex, i) => {
+    const before = ring[(i - 1 + ring.length) % ring.length];
+    const after = ring[(i + 1) % ring.length];
+    const turn =
+      turf.bearing(vertex, after) - turf.bearing(vertex, before) + 360;
+    const angle = turn % 360;
+    return angle > 180 ? 360 - angle : angle;
+  });
+}
+
+describe("constrainToAngle", () => {
+  const origin: Position = [0, 0];
+
+  it("locks directions to multiples of the step from north", () => {
+    const constrained = constrainToAngle(
+      { origin },
+      [0.001, 0.0009],
+      45,
+      "north",
+    );
+    expect(turf.bearing(origin, constrained)).toBeCloseTo(45, 6);
+    expect(constrainToAngle({ origin }, [0.0001, 0.001], 90, "north")[0]).toBe(
+      0,
+    );
+  });
+
+  it("measures angles from the previous segment", () => {
+    const previous: Position = [-0.001, -0.001];
+    const constrained = constrainToAngle(
+      { origin, previous },
+      [0.0012, -0.0009],
+      90,
+    );
+    expect(turf.bearing(origin, constrained)).toBeCloseTo(135, 3);
+    expect(constrainToAngle({ origin }, origin, 45)).toEqual([0, 0]);
+  });
+
+  it("anchors dragged vertices at the vertex before them", () => {
+    expect(findVertexAnchor(skewed, [0.001, 0.00004])).toEqual({
+      origin: [0, 0],
+      previous: [0.00002, 0.00098],
+    });
+    expect(findVertexAnchor(skewed, [0, 0])).toEqual({
+      origin: [0.00002, 0.00098],
+      previous: [0.0005, 0.00102],
+    });
+
+    const line = turf.lineString([
+      [0, 0],
+      [1, 0],
+      [1, 1],
+    ]);
+    expect(findVertexAnchor(line, [0.1, 0])).toEqual({
+      origin: [1, 0],
+      previous: [1, 1],
+    });
+    expect(findVertexAnchor(turf.point([0, 0]), [0, 0])).toBeNull();
+  });
+});
+
+describe("orthogonalize", () => {
+  it("squares corners and straightens vertices between them", () => {
+    const squared = orthogonalize(skewed)!;
+
+    expect(squared.id).toBe("skewed");
+    const angles = cornerAngles(squared);
+    [0, 1, 2, 4].forEach((corner) => expect(angles[corner]).toBeCloseTo(90, 1));
+    expect(angles[3]).toBeCloseTo(180, 1);
+    expect(turf.area(squared)).toBeCloseTo(turf.area(skewed), -3);
+  });
+
+  it("leaves shapes that cannot or need not be squared", () => {
+    const triangle = turf.polygon([
+      [
+        [0, 0],
+        [0.001, 0],
+        [0, 0.001],
+        [0, 0],
+      ],
+    ]);
+    expect(orthogonalize(triangle)).toBeNull();
+    expect(orthogonalize(skewed, { threshold: 1 })).toBeNull();
+    expect(orthogonalize(orthogonalize(skewed)!)).toBeNull();
+    expect(
+      orthogonalize(
+        turf.lineString([
+          [0, 0],
+          [1, 1],
+        ]),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("GeoEditor orthogonalize", () => {
+  it("squares the selected polygons as one undoable edit", () => {
+    const mapContainer = document.createElement("div");
+    const { editor } = makeEditor([skewed], mapContainer);
+    const events: unknown[] = [];
+    mapContainer.addEventListener("gm:orthogonalize", (event) =>
+      events.push((event as CustomEvent).detail),
+    );
+    const current = () => editor.getFeatures().features[0] as Feature<Polygon>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (editor as any).state.selectedFeatures = [
+      { id: "skewed", feature: current() },
+    ];
+
+    expect(editor.orthogonalizeSelected()).toHaveLength(1);
+    expect(cornerAngles(current())[0]).toBeCloseTo(90, 1);
+    expect(events).toHaveLength(1);
+    expect(editor.getSelectedFeatures()[0]).toEqual(current());
+
+    expect(editor.undo()).toBe(true);
+    expect(current().geometry).toEqual(skewed.geometry);
+
+    editor.setAngleConstraintStep(15);
+    editor.setAngleConstraintReference("north");
+    expect(editor.getAngleConstraintStep()).toBe(15);
+    expect(editor.getAngleConstraintReference()).toBe("north");
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GeoEditor } from "../../src/lib/core/GeoEditor";
+import { makeEditor, point } from "./fakeEditor";
+
+const saveFormatIds = (editor: GeoEditor): string[] =>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (editor as any).getSaveFormats().map((format: { id: string }) => format.id);
+
+describe("save button formats", () => {
+  it("offers every writable registered format by default", () => {
+    const editor = new GeoEditor();
+    editor.registerFormat({
+      extensions: [".txt"],
+      read: () => ({ type: "FeatureCollection", features: [] }),
+      write: () => "",
+    });
+    editor.registerFormat({
+      id: "readonly",
+      extensions: [".ro"],
+      read: () => ({ type: "FeatureCollection", features: [] }),
+    });
+
+    const ids = saveFormatIds(editor);
+    expect(ids).toContain("geojson");
+    expect(ids).toContain("txt");
+    expect(ids).not.toContain("readonly");
+  });
+
+  it("offers zipped Shapefile export in the default menu", () => {
+    expect(saveFormatIds(new GeoEditor())).toContain("shapefile");
+  });
+
+  it("limits the menu to the listed formats", () => {
+    expect(
+      saveFormatIds(
+        new GeoEditor({ saveFormats: ["kml", "geojson", "unknown"] }),
+      ),
+    ).toEqual(["kml", "geojson"]);
+  });
+});
+
+describe("saving", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubDownloads() {
+    vi.stubGlobal("URL", {
+      createObjectURL: () => "blob:save",
+      revokeObjectURL: () => {},
+    });
+  }
+
+  it("saves synchronous formats without waiting", () => {
+    stubDownloads();
+    const { editor } = makeEditor([point("a", "A")]);
+
+    const result = editor.saveGeoJson("parcels.kml");
+    expect(result).toMatchObject({ count: 1, filename: "parcels.kml" });
+  });
+
+  it("saves asynchronous formats through saveFile", async () => {
+    stubDownloads();
+    const { editor } = makeEditor([]);
+    editor.registerFormat({
+      extensions: [".dxf"],
+      write: async () => "0\nEOF",
+    });
+
+    expect(() => editor.saveGeoJson("plan.dxf")).toThrow("writeAsync");
+    await expect(editor.saveFile("plan.dxf")).resolves.toMatchObject({
+      format: "dxf",
+      filename: "plan.dxf",
+    });
+  });
+});
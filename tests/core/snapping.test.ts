@@ -0,0 +1,257 @@
+import { describe, expect, it } from "vitest";
+import type { Feature } from "geojson";
+import {
+  buildSnapCandidates,
+  findSnapTarget,
+  type SnapProjection,
+} from "../../src/lib/core/snapping";
+import { SnappingFeature } from "../../src/lib/features/SnappingFeature";
+import { makeEditor } from "./fakeEditor";
+
+// One degree is 100 pixels; screen y grows southwards
+const projection: SnapProjection = {
+  project: ([lng, lat]) => [lng * 100, -lat * 100],
+  unproject: ([x, y]) => [x / 100, -y / 100],
+};
+
+const line = (id: string, ...coordinates: [number, number][]): Feature => ({
+  type: "Feature",
+  id,
+  properties: {},
+  geometry: { type: "LineString", coordinates },
+});
+
+const features = [
+  line("a", [0, 0], [2, 0]),
+  line("b", [1, -1], [1, 1]),
+  {
+    type: "Feature",
+    id: "p",
+    properties: {},
+    geometry: { type: "Point", coordinates: [3, 3] },
+  } as Feature,
+];
+
+const snapAt = (
+  lng: number,
+  lat: number,
+  types?: Parameters<typeof findSnapTarget>[4],
+) =>
+  findSnapTarget(
+    buildSnapCandidates(features),
+    projection.project([lng, lat]),
+    projection,
+    10,
+    types,
+  );
+
+const mouse = (type: string, lng: number, lat: number) => ({
+  type,
+  lngLat: { lng, lat },
+  point: { x: lng * 100, y: -lat * 100 },
+});
+
+describe("findSnapTarget", () => {
+  it("prefers vertices, then intersections, midpoints and edges", () => {
+    expect(snapAt(2.05, 0.05)).toMatchObject({
+      type: "vertex",
+      lngLat: [2, 0],
+      featureId: "a",
+    });
+    expect(snapAt(3.02, 2.95)).toMatchObject({
+      type: "vertex",
+      lngLat: [3, 3],
+    });
+
+    const crossing = snapAt(1.05, 0.05)!;
+    expect(crossing.type).toBe("intersection");
+    expect(crossing.lngLat[0]).toBeCloseTo(1, 9);
+    expect(crossing.lngLat[1]).toBeCloseTo(0, 9);
+
+    expect(snapAt(1.05, -0.95)).toMatchObject({ lngLat: [1, -1] });
+    expect(snapAt(1.04, -0.5)).toMatchObject({ type: "edge" });
+    expect(snapAt(1.04, 0.5)).toMatchObject({ type: "edge" });
+    expect(snapAt(1.04, 0.5)!.lngLat[0]).toBeCloseTo(1, 9);
+  });
+
+  it("snaps to segment midpoints and honors the enabled types", () => {
+    const feature = [line("c", [10, 10], [12, 10])];
+    const at = (lng: number, types?: Parameters<typeof findSnapTarget>[4]) =>
+      findSnapTarget(
+        buildSnapCandidates(feature),
+        projection.project([lng, 10.05]),
+        projection,
+        10,
+        types,
+      );
+
+    expect(at(11.03)).toMatchObject({ type: "midpoint" });
+    expect(at(11.03)!.lngLat[0]).toBeCloseTo(11, 9);
+    expect(at(11.03, ["edge"])!.lngLat[0]).toBeCloseTo(11.03, 9);
+    expect(at(11.5)).toMatchObject({ type: "edge" });
+    expect(at(11.5, ["vertex"])).toBeNull();
+    expect(snapAt(5, 5)).toBeNull();
+  });
+});
+
+describe("SnappingFeature", () => {
+  function makeMap() {
+    const map = {
+      project: ([lng, lat]: [number, number]) => {
+        const [x, y] = projection.project([lng, lat]);
+        return { x, y };
+      },
+      unproject: ([x, y]: [number, number]) => {
+        const [lng, lat] = projection.unproject([x, y]);
+        return { lng, lat };
+      },
+      getSource: () => undefined,
+      getLayer: () => undefined,
+      addSource: () => {},
+      addLayer: () => {},
+    };
+    return { map };
+  }
+
+  it("snaps mouse events in place while a mode is active", () => {
+    const { map } = makeMap();
+    let active = true;
+    const snapping = new SnappingFeature({
+      getFeatures: () => features,
+      isActive: () => active,
+    });
+    snapping.init(map as any);
+    snapping.setEnabled(true);
+
+    const event = mouse("mousemove", 2.05, 0.05);
+    snapping.beforeFire(event);
+    expect(event.lngLat).toEqual({ lng: 2, lat: 0 });
+    expect(event.point).toEqual({ x: 200, y: -0 });
+    expect(snapping.getCurrentTarget()).toMatchObject({ type: "vertex" });
+
+    active = false;
+    const inactive = mouse("click", 2.05, 0.05);
+    snapping.beforeFire(inactive);
+    expect(inactive.lngLat).toEqual({ lng: 2.05, lat: 0.05 });
+    expect(snapping.getCurrentTarget()).toBeNull();
+
+    active = true;
+    snapping.exclude("a");
+    expect(snapping.snap([2.05, 0.05])).toBeNull();
+    snapping.exclude(null);
+
+    snapping.destroy();
+    const after = mouse("click", 2.05, 0.05);
+    snapping.beforeFire(after);
+    expect(after.lngLat).toEqual({ lng: 2.05, lat: 0.05 });
+  });
+
+  it("stops snapping to features removed by a load or an undo", async () => {
+    const { editor } = makeEditor([line("a", [0, 0], [2, 0])]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (editor as any).snappingFeature.init(makeMap().map);
+    expect(editor.getSnapTarget([2.05, 0.05])).toMatchObject({
+      type: "vertex",
+    });
+
+    await editor.loadGeoJson(
+      { type: "FeatureCollection", features: [line("b", [5, 5], [6, 5])] },
+      "new.geojson",
+    );
+    expect(editor.getSnapTarget([2.05, 0.05])).toBeNull();
+    expect(editor.getSnapTarget([6.05, 5.05])).not.toBeNull();
+
+    editor.undo();
+    expect(editor.getSnapTarget([6.05, 5.05])).toBeNull();
+    expect(editor.getSnapTarget([2.05, 0.05])).not.toBeNull();
+  });
+});
+
+describe("GeoEditor map event hook", () => {
+  it("wraps map.fire once and keeps later wrappers when unhooked", () => {
+    const calls: string[] = [];
+    const map = {
+      fire(event: { type: string }) {
+        calls.push(`fire ${event.type}`);
+        return map;
+      },
+    };
+    const originalFire = map.fire;
+    const { editor } = makeEditor([]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = editor as any;
+    internals.map = map;
+    internals.mapEventAdjusters = [
+      { beforeFire: () => calls.push("first") },
+      {
+        beforeFire: () => calls.push("second"),
+        afterFire: () => calls.push("after"),
+      },
+    ];
+    internals.hookMapEvents();
+
+    map.fire(mouse("click", 0, 0));
+    expect(calls).toEqual(["first", "second", "fire click", "after"]);
+
+    // Other events pass straight through
+    calls.length = 0;
+    map.fire({ type: "render" });
+    expect(calls).toEqual(["fire render"]);
+
+    // Another plugin wraps fire() after the editor
+    const hooked = map.fire;
+    const pluginFire = (event: { type: string }) => {
+      calls.push("plugin");
+      return hooked.call(map, event);
+    };
+    map.fire = pluginFire;
+
+    internals.unhookMapEvents();
+    calls.length = 0;
+    map.fire(mouse("click", 0, 0));
+    expect(map.fire).toBe(pluginFire);
+    expect(calls).toEqual(["plugin", "fire click"]);
+
+    // Without a later wrapper the original fire() is restored
+    map.fire = originalFire;
+    internals.hookMapEvents();
+    internals.unhookMapEvents();
+    expect(map.fire).toBe(originalFire);
+  });
+
+  it("adjusts a copy of the event and passes preventDefault on", () => {
+    let seen: { lngLat: { lng: number }; preventDefault(): void } | null = null;
+    const map = {
+      fire(event: typeof seen) {
+        seen = event;
+        event!.preventDefault();
+        return map;
+      },
+    };
+    const { editor } = makeEditor([]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = editor as any;
+    internals.map = map;
+    internals.mapEventAdjusters = [
+      {
+        beforeFire: (event: { lngLat: { lng: number } }) => {
+          event.lngLat.lng = 5;
+        },
+      },
+    ];
+    internals.hookMapEvents();
+
+    let prevented = false;
+    const event = {
+      ...mouse("click", 1, 1),
+      preventDefault: () => {
+        prevented = true;
+      },
+    };
+    map.fire(event);
+    expect(seen!.lngLat.lng).toBe(5);
+    expect(event.lngLat.lng).toBe(1);
+    expect(prevented).toBe(true);
+    internals.unhookMapEvents();
+  });
+});
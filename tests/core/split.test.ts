@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import * as turf from "@turf/turf";
+import { makeEditor } from "./fakeEditor";
+
+describe("GeoEditor split", () => {
+  it("splits the selection with one undoable operation", () => {
+    const mapContainer = document.createElement("div");
+    const parcel = turf.polygon(
+      [
+        [
+          [0, 0],
+          [0.002, 0],
+          [0.002, 0.001],
+          [0, 0.001],
+          [0, 0],
+        ],
+      ],
+      { name: "parcel" },
+      { id: "parcel" },
+    );
+    const { editor, names } = makeEditor([parcel], mapContainer);
+    const splits: unknown[] = [];
+    mapContainer.addEventListener("gm:split", (event) =>
+      splits.push((event as CustomEvent).detail),
+    );
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = editor as any;
+    internals.disableAllModes = async () => {};
+    internals.state.selectedFeatures = [{ id: "parcel", feature: parcel }];
+
+    const [result] = editor.splitSelectedEqually(4, 0);
+
+    expect(result.success).toBe(true);
+    expect(names()).toEqual(["parcel", "parcel", "parcel", "parcel"]);
+    expect(splits).toHaveLength(1);
+
+    editor.undo();
+    expect(editor.getFeatures().features.map((f) => f.id)).toEqual(["parcel"]);
+    editor.redo();
+    expect(names()).toHaveLength(4);
+  });
+});
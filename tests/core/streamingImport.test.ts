@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { Point } from "geojson";
+import { collection, makeEditor, point } from "./fakeEditor";
+
+const bigFile = (...names: string[]) =>
+  new File(
+    [
+      JSON.stringify(
+        collection(...names.map((name) => point(undefined, name))),
+      ),
+    ],
+    "parcels.geojson",
+  );
+
+function makeStreamingEditor(initial = [point("a", "old")]) {
+  const mapContainer = document.createElement("div");
+  const fake = makeEditor(initial, mapContainer);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const options = (fake.editor as any).options;
+  options.streamingImportThreshold = 0;
+  options.importBatchSize = 1;
+  const events = (type: string) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const details: any[] = [];
+    mapContainer.addEventListener(type, (e) =>
+      details.push((e as CustomEvent).detail),
+    );
+    return details;
+  };
+  return { ...fake, events };
+}
+
+describe("streaming import", () => {
+  it("imports large GeoJSON in batches with progress events", async () => {
+    const { editor, names, events } = makeStreamingEditor();
+    const progress = events("gm:geojsonloadprogress");
+    const file = bigFile("one", "two", "three");
+
+    const [result] = await editor.loadFiles([file]);
+
+    expect(names()).toEqual(["one", "three", "two"]);
+    expect(result).toMatchObject({ count: 3, added: 3, removed: 1 });
+    expect(result.validation.accepted.map((entry) => entry.index)).toEqual([
+      0, 1, 2,
+    ]);
+    expect(progress.map((p) => p.featuresProcessed)).toEqual([1, 2, 3]);
+    expect(progress[2]).toMatchObject({
+      filename: "parcels.geojson",
+      bytesRead: file.size,
+      totalBytes: file.size,
+    });
+
+    // The whole file is one history entry
+    editor.undo();
+    expect(names()).toEqual(["old"]);
+  });
+
+  it("merges features repeated across batches into one entry", async () => {
+    const { editor, names } = makeStreamingEditor();
+    const file = new File(
+      [
+        JSON.stringify(
+          collection(
+            point("a", "first"),
+            point("b", "new"),
+            point("a", "last"),
+            point("b", "newer"),
+          ),
+        ),
+      ],
+      "parcels.geojson",
+    );
+
+    await editor.loadFiles([file], { mode: "merge-by-id" });
+    expect(names()).toEqual(["last", "newer"]);
+
+    editor.undo();
+    expect(names()).toEqual(["old"]);
+    editor.redo();
+    expect(names()).toEqual(["last", "newer"]);
+  });
+
+  it("reprojects with a crs member that follows the features", async () => {
+    const { editor } = makeStreamingEditor();
+    const file = new File(
+      [
+        JSON.stringify({
+          type: "FeatureCollection",
+          features: [
+            {
+              ...point(undefined, "one"),
+              geometry: { type: "Point", coordinates: [111319.49, 0] },
+            },
+          ],
+          crs: { type: "name", properties: { name: "EPSG:3857" } },
+        }),
+      ],
+      "mercator.geojson",
+    );
+
+    const [result] = await editor.loadFiles([file]);
+
+    expect(result.crs).toBe("EPSG:3857");
+    const [lng, lat] = (editor.getFeatures().features[0].geometry as Point)
+      .coordinates;
+    expect(lng).toBeCloseTo(1, 6);
+    expect(lat).toBeCloseTo(0, 6);
+  });
+
+  it("rolls back a cancelled import", async () => {
+    const { editor, names, events } = makeStreamingEditor();
+    const cancelled = events("gm:geojsonloadcancel");
+    const errors = events("gm:geojsonloaderror");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (editor as any).map
+      .getContainer()
+      .addEventListener("gm:geojsonloadprogress", () => editor.cancelImport());
+
+    const results = await editor.loadFiles([
+      bigFile("one", "two", "three"),
+      bigFile("four"),
+    ]);
+
+    expect(results).toEqual([]);
+    expect(cancelled).toEqual([
+      { filename: "parcels.geojson", featuresProcessed: 1 },
+    ]);
+    expect(errors).toEqual([]);
+    expect(names()).toEqual(["old"]);
+    expect(editor.getHistoryState().canUndo).toBe(false);
+  });
+});
@@ -1,14 +1,15 @@
 import { describe, expect, it } from "vitest";
-import type { Feature, Polygon } from "geojson";
+import type { Feature, LineString, Point, Polygon } from "geojson";
 import {
-  propagateSharedVertexMoves,
+  buildTopology,
+  connectLineNetwork,
+  propagateNetworkVertexMoves,
+  propagateSharedEdgeEdits,
   removePolygonOverlaps,
+  repairCoverageSeams,
 } from "../../src/lib/core/topology";
 
-const polygon = (
-  coordinates: number[][],
-  id: string,
-): Feature<Polygon> => ({
+const polygon = (coordinates: number[][], id: string): Feature<Polygon> => ({
   type: "Feature",
   id,
   properties: { name: id },
@@ -113,7 +114,7 @@ describe("topological polygon helpers", () => {
       "right",
     );
 
-    const [updated] = propagateSharedVertexMoves(before, after, [adjacent]);
+    const [updated] = propagateSharedEdgeEdits(before, after, [adjacent]);
 
     expect(updated.id).toBe("right");
     expect(updated.geometry.coordinates[0][0]).toEqual([1.25, 0]);
@@ -121,27 +122,286 @@ describe("topological polygon helpers", () => {
     expect(updated.geometry.coordinates[0][3]).toEqual([1, 1]);
   });
 
-  it("ignores edits that change the polygon vertex structure", () => {
-    const before = polygon(
+  it("ignores edits that change the number of rings", () => {
+    const before = square(0, "before");
+    const after: Feature<Polygon> = {
+      ...before,
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          ...before.geometry.coordinates,
+          [
+            [0.2, 0.2],
+            [0.4, 0.2],
+            [0.4, 0.4],
+            [0.2, 0.2],
+          ],
+        ],
+      },
+    };
+
+    expect(
+      propagateSharedEdgeEdits(before, after, [square(1, "right")]),
+    ).toEqual([]);
+  });
+});
+
+/** Unit square with its lower left corner at (x, 0) */
+const square = (x: number, id: string) =>
+  polygon(
+    [
+      [x, 0],
+      [x + 1, 0],
+      [x + 1, 1],
+      [x, 1],
+      [x, 0],
+    ],
+    id,
+  );
+
+describe("planar topology", () => {
+  it("stores a shared boundary once as an edge between two nodes", () => {
+    const topology = buildTopology([square(0, "left"), square(1, "right")]);
+
+    const shared = topology.edges.filter((edge) => edge.faces.length === 2);
+    expect(shared).toHaveLength(1);
+    expect(shared[0].faces).toEqual(["left", "right"]);
+    expect(
+      [shared[0].start, shared[0].end]
+        .map((id) => topology.nodes[id].position)
+        .sort(),
+    ).toEqual([
+      [1, 0],
+      [1, 1],
+    ]);
+    expect(topology.faces.map((face) => face.polygons[0][0].length)).toEqual([
+      2, 2,
+    ]);
+  });
+
+  it("inserts a vertex added on a shared edge into the neighbour", () => {
+    const left = square(0, "left");
+    const edited = polygon(
       [
         [0, 0],
         [1, 0],
+        [1.2, 0.5],
+        [1, 1],
         [0, 1],
         [0, 0],
       ],
-      "before",
+      "left",
     );
-    const after = polygon(
+
+    const [right] = propagateSharedEdgeEdits(left, edited, [
+      square(1, "right"),
+    ]);
+
+    expect(right.geometry.coordinates).toEqual([
+      [
+        [1, 0],
+        [2, 0],
+        [2, 1],
+        [1, 1],
+        [1.2, 0.5],
+        [1, 0],
+      ],
+    ]);
+  });
+
+  it("removes a vertex deleted from a shared edge in the neighbour", () => {
+    const left = polygon(
       [
         [0, 0],
         [1, 0],
+        [1, 0.5],
         [1, 1],
         [0, 1],
         [0, 0],
       ],
-      "after",
+      "left",
     );
+    const right = polygon(
+      [
+        [1, 0],
+        [2, 0],
+        [2, 1],
+        [1, 1],
+        [1, 0.5],
+        [1, 0],
+      ],
+      "right",
+    );
+
+    const [updated] = propagateSharedEdgeEdits(left, square(0, "left"), [
+      right,
+    ]);
+
+    expect(updated.geometry).toEqual(square(1, "right").geometry);
+  });
+});
+
+describe("coverage repair", () => {
+  it("snaps near-coincident vertices and inserts missing nodes on both sides", () => {
+    // Split parts of a polygon whose cut ends on the right neighbour's edge
+    const parts = [
+      polygon(
+        [
+          [0, 0],
+          [1, 0],
+          [1 + 1e-12, 0.5],
+          [0, 0.5],
+          [0, 0],
+        ],
+        "bottom",
+      ),
+      polygon(
+        [
+          [0, 0.5],
+          [1, 0.5],
+          [1, 1],
+          [0, 1],
+          [0, 0.5],
+        ],
+        "top",
+      ),
+    ];
+    const right = square(1, "right");
+
+    const { features, neighbours } = repairCoverageSeams(parts, [right]);
+
+    expect(features[0].geometry.coordinates[0][2]).toEqual([1, 0.5]);
+    expect(neighbours).toHaveLength(1);
+    expect(neighbours[0].oldFeature).toBe(right);
+    expect(neighbours[0].newFeature.geometry.coordinates).toEqual([
+      [
+        [1, 0],
+        [2, 0],
+        [2, 1],
+        [1, 1],
+        [1, 0.5],
+        [1, 0],
+      ],
+    ]);
+    expect(
+      repairCoverageSeams(features, [neighbours[0].newFeature]).neighbours,
+    ).toEqual([]);
+  });
+});
+
+const line = (id: string, ...coordinates: number[][]): Feature<LineString> => ({
+  type: "Feature",
+  id,
+  properties: { name: id },
+  geometry: { type: "LineString", coordinates },
+});
+
+describe("line networks", () => {
+  it("moves shared endpoints and junctions with the edited line", () => {
+    const road = line("road", [0, 0], [1, 0]);
+    const branch = line("branch", [1, 0], [1, 1]);
+    const through = line("through", [0.5, 1], [1, 0], [1.5, 1]);
+    const valve: Feature<Point> = {
+      type: "Feature",
+      id: "valve",
+      properties: {},
+      geometry: { type: "Point", coordinates: [1, 0] },
+    };
+    const other = line("other", [5, 5], [6, 6]);
+
+    const changed = propagateNetworkVertexMoves(
+      road,
+      line("road", [0, 0], [2, 0]),
+      [branch, through, valve, other],
+    );
+
+    expect(changed.map((feature) => feature.id)).toEqual([
+      "branch",
+      "through",
+      "valve",
+    ]);
+    expect(changed[0].geometry).toEqual({
+      type: "LineString",
+      coordinates: [
+        [2, 0],
+        [1, 1],
+      ],
+    });
+    expect((changed[1].geometry as LineString).coordinates[1]).toEqual([2, 0]);
+    expect((changed[2].geometry as Point).coordinates).toEqual([2, 0]);
+  });
+
+  it("adds a shared node where a new line ends on another line", () => {
+    const road = line("road", [0, 0], [1, 0]);
+
+    const network = connectLineNetwork(line("new", [0.5, -1], [0.5, 0]), [
+      road,
+    ]);
+
+    expect(network.splits).toEqual([]);
+    expect(network.features[0].geometry).toEqual(
+      line("new", [0.5, -1], [0.5, 0]).geometry,
+    );
+    expect(network.edits).toHaveLength(1);
+    expect(network.edits[0].newFeature.geometry).toEqual({
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [0.5, 0],
+        [1, 0],
+      ],
+    });
+  });
+
+  it("splits the new and existing lines at junctions and crossings", () => {
+    const road = line("road", [0, 0], [2, 0]);
+    const lane = line("lane", [0, 2], [2, 2]);
+
+    const network = connectLineNetwork(
+      line("new", [1, -1], [1, 2]),
+      [road, lane],
+      { split: true },
+    );
+
+    expect(
+      network.features.map((feature) => feature.geometry.coordinates),
+    ).toEqual([
+      [
+        [1, -1],
+        [1, 0],
+      ],
+      [
+        [1, 0],
+        [1, 2],
+      ],
+    ]);
+    expect(network.features[0].properties).toEqual({ name: "new" });
+    expect(network.features[0].id).not.toBe("new");
+    expect(network.splits.map(({ original }) => original.id)).toEqual([
+      "road",
+      "lane",
+    ]);
+    expect(
+      network.splits[0].parts.map((part) => part.geometry.coordinates),
+    ).toEqual([
+      [
+        [0, 0],
+        [1, 0],
+      ],
+      [
+        [1, 0],
+        [2, 0],
+      ],
+    ]);
+    expect(network.edits).toEqual([]);
+  });
+
+  it("leaves crossings unnoded unless splitting", () => {
+    const road = line("road", [0, 0], [2, 0]);
+
+    const network = connectLineNetwork(line("bridge", [1, -1], [1, 1]), [road]);
 
-    expect(propagateSharedVertexMoves(before, after, [before])).toEqual([]);
+    expect(network.edits).toEqual([]);
+    expect(network.features[0].geometry.coordinates).toHaveLength(2);
   });
 });
@@ -0,0 +1,261 @@
+import { describe, expect, it } from "vitest";
+import type { Feature, LineString, Polygon } from "geojson";
+import * as turf from "@turf/turf";
+import {
+  fixTopologyIssue,
+  validateTopology,
+} from "../../src/lib/core/topologyValidation";
+import { makeEditor } from "./fakeEditor";
+
+// One unit is 1e-4 degrees, about 11 m at the equator
+const UNIT = 1e-4;
+
+const rect = (
+  id: string,
+  west: number,
+  south: number,
+  east: number,
+  north: number,
+): Feature<Polygon> =>
+  turf.polygon(
+    [
+      [
+        [west * UNIT, south * UNIT],
+        [east * UNIT, south * UNIT],
+        [east * UNIT, north * UNIT],
+        [west * UNIT, north * UNIT],
+        [west * UNIT, south * UNIT],
+      ],
+    ],
+    {},
+    { id },
+  );
+
+const line = (id: string, ...coordinates: number[][]): Feature<LineString> =>
+  turf.lineString(
+    coordinates.map(([x, y]) => [x * UNIT, y * UNIT]),
+    {},
+    { id },
+  );
+
+/** Apply a fix to the features it was computed from */
+const applyFix = (
+  features: Feature[],
+  fix: NonNullable<ReturnType<typeof fixTopologyIssue>>,
+): Feature[] =>
+  features
+    .filter((feature) => !fix.deleted.includes(feature))
+    .map(
+      (feature) =>
+        fix.edits.find((edit) => edit.oldFeature.id === feature.id)
+          ?.newFeature ?? feature,
+    );
+
+describe("validateTopology", () => {
+  it("finds overlapping polygons and trims one of them", () => {
+    const features = [rect("a", 0, 0, 2, 2), rect("b", 1, 0, 3, 2)];
+
+    const issues = validateTopology(features);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      id: "overlap-1",
+      type: "overlap",
+      featureIds: ["b", "a"],
+      fixable: true,
+    });
+    expect(issues[0].bbox[0]).toBeCloseTo(UNIT, 12);
+    expect(issues[0].bbox[2]).toBeCloseTo(2 * UNIT, 12);
+
+    const fix = fixTopologyIssue(issues[0], features)!;
+    expect(fix.deleted).toEqual([]);
+    expect(fix.edits[0].oldFeature).toBe(features[1]);
+    expect(validateTopology(applyFix(features, fix))).toEqual([]);
+  });
+
+  it("finds small gaps between polygons and fills them", () => {
+    // A hole of 0.2 x 1 units ringed by four polygons
+    const features = [
+      rect("left", 0, 0, 1, 3),
+      rect("right", 1.2, 0, 2.2, 3),
+      rect("bottom", 1, 0, 1.2, 1),
+      rect("top", 1, 2, 1.2, 3),
+    ];
+
+    const [gap] = validateTopology(features);
+
+    expect(gap.type).toBe("gap");
+    expect(gap.featureIds).toHaveLength(4);
+    expect(gap.area).toBeGreaterThan(20);
+    expect(validateTopology(features, { gapMaxArea: 10 })).toEqual([]);
+
+    const fix = fixTopologyIssue(gap, features)!;
+    expect(fix.edits).toHaveLength(1);
+    expect(["left", "right"]).toContain(fix.edits[0].newFeature.id);
+    expect(validateTopology(applyFix(features, fix))).toEqual([]);
+  });
+
+  it("ignores holes that belong to a single polygon", () => {
+    const donut = turf.polygon(
+      [
+        [
+          [0, 0],
+          [3 * UNIT, 0],
+          [3 * UNIT, 3 * UNIT],
+          [0, 3 * UNIT],
+          [0, 0],
+        ],
+        [
+          [UNIT, UNIT],
+          [UNIT, 2 * UNIT],
+          [2 * UNIT, 2 * UNIT],
+          [2 * UNIT, UNIT],
+          [UNIT, UNIT],
+        ],
+      ],
+      {},
+      { id: "donut" },
+    );
+
+    expect(validateTopology([donut, rect("next", 3, 0, 4, 3)])).toEqual([]);
+  });
+
+  it("merges slivers into the neighbour they share most boundary with", () => {
+    const features = [
+      rect("parcel", 0, 0, 3, 3),
+      rect("sliver", 0, 3, 3, 3.02),
+      rect("corner", 3, 3, 4, 4),
+    ];
+
+    const [sliver] = validateTopology(features);
+
+    expect(sliver).toMatchObject({
+      type: "sliver",
+      featureIds: ["sliver", "parcel", "corner"],
+      fixable: true,
+    });
+
+    const fix = fixTopologyIssue(sliver, features)!;
+    expect(fix.deleted).toEqual([features[1]]);
+    expect(fix.edits[0].newFeature.id).toBe("parcel");
+    expect(turf.area(fix.edits[0].newFeature)).toBeGreaterThan(
+      turf.area(features[0]),
+    );
+  });
+
+  it("finds dangling line ends and snaps nearby ones onto a line", () => {
+    const features = [
+      line("road", [0, 0], [10, 0]),
+      line("lane", [10, 0], [10, 10]),
+      line("track", [5, 0.5], [5, 10]),
+    ];
+
+    const dangles = validateTopology(features);
+
+    expect(dangles.map((issue) => issue.featureIds[0])).toEqual([
+      "road",
+      "lane",
+      "track",
+      "track",
+    ]);
+    expect(dangles.map((issue) => issue.fixable)).toEqual([
+      false,
+      false,
+      true,
+      false,
+    ]);
+
+    const fix = fixTopologyIssue(dangles[2], features)!;
+    const track = fix.edits[0].newFeature.geometry as LineString;
+    expect(track.coordinates[0][0]).toBeCloseTo(5 * UNIT, 12);
+    expect(track.coordinates[0][1]).toBeCloseTo(0, 12);
+    expect(
+      validateTopology(applyFix(features, fix)).filter(
+        (issue) => issue.featureIds[0] === "track",
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("finds self-intersections and splits polygons at them", () => {
+    const bowtie = turf.polygon(
+      [
+        [
+          [0, 0],
+          [2 * UNIT, 2 * UNIT],
+          [2 * UNIT, 0],
+          [0, 2 * UNIT],
+          [0, 0],
+        ],
+      ],
+      {},
+      { id: "bowtie" },
+    );
+    const loop = line("loop", [0, 5], [2, 7], [2, 5], [0, 7]);
+
+    const issues = validateTopology([bowtie, loop]).filter(
+      (issue) => issue.type === "self-intersection",
+    );
+
+    expect(issues.map((issue) => [issue.featureIds[0], issue.fixable])).toEqual(
+      [
+        ["bowtie", true],
+        ["loop", false],
+      ],
+    );
+    expect(fixTopologyIssue(issues[1], [bowtie, loop])).toBeNull();
+
+    const fix = fixTopologyIssue(issues[0], [bowtie, loop])!;
+    expect(fix.edits[0].newFeature.geometry.type).toBe("MultiPolygon");
+  });
+});
+
+describe("GeoEditor topology check", () => {
+  it("lists issues in the panel and fixes them as one undoable step", () => {
+    const mapContainer = document.createElement("div");
+    const { editor } = makeEditor(
+      [rect("a", 0, 0, 2, 2), rect("b", 1, 0, 3, 2)],
+      mapContainer,
+    );
+    const area = (id: string) =>
+      turf.area(
+        editor.getFeatures().features.find((feature) => feature.id === id)!,
+      );
+    const fixed: unknown[] = [];
+    mapContainer.addEventListener("gm:topologyfix", (event) =>
+      fixed.push((event as CustomEvent).detail),
+    );
+
+    editor.showTopologyPanel();
+    const items = mapContainer.querySelectorAll(".geo-editor-topology-issue");
+    expect(items).toHaveLength(1);
+    expect(items[0].textContent).toContain("Features a and b overlap");
+
+    const before = area("b");
+    items[0].querySelector<HTMLButtonElement>("button")!.click();
+    expect(area("b")).toBeCloseTo(before / 2, 0);
+    expect(fixed).toHaveLength(1);
+    expect(
+      mapContainer.querySelector(".geo-editor-topology-summary")!.textContent,
+    ).toBe("No topology issues found");
+
+    editor.undo();
+    expect(area("b")).toBeCloseTo(before, 6);
+    expect(editor.validateTopology()).toHaveLength(1);
+
+    editor.hideTopologyPanel();
+    expect(editor.isTopologyPanelVisible()).toBe(false);
+  });
+
+  it("records no history for edits geoman could not apply", () => {
+    const { editor } = makeEditor([
+      rect("a", 0, 0, 2, 2),
+      rect("b", 1, 0, 3, 2),
+    ]);
+    const [overlap] = editor.validateTopology();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (editor as any).findGeomanDataForFeature = () => null;
+
+    expect(editor.fixTopologyIssue(overlap)).toBe(false);
+    expect(editor.getHistoryState()?.undoCount).toBe(0);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import type { Feature, Polygon } from "geojson";
+import * as turf from "@turf/turf";
+import {
+  insertVertex,
+  moveVertex,
+  removeVertex,
+} from "../../src/lib/core/vertices";
+import { makeEditor } from "./fakeEditor";
+
+const square = (id: string, west: number): Feature<Polygon> =>
+  turf.polygon(
+    [
+      [
+        [west, 0],
+        [west + 1, 0],
+        [west + 1, 1],
+        [west, 1],
+        [west, 0],
+      ],
+    ],
+    {},
+    { id },
+  );
+
+describe("vertex editing", () => {
+  it("inserts, moves and removes vertices of rings, keeping them closed", () => {
+    const ring = (feature: Feature<Polygon> | null) =>
+      feature!.geometry.coordinates[0];
+    const a = square("a", 0);
+
+    expect(ring(insertVertex(a, [0], 1, [0.5, -0.1]))).toEqual([
+      [0, 0],
+      [0.5, -0.1],
+      [1, 0],
+      [1, 1],
+      [0, 1],
+      [0, 0],
+    ]);
+    expect(ring(insertVertex(a, [0], 4, [0, 0.5])).slice(-2)).toEqual([
+      [0, 0.5],
+      [0, 0],
+    ]);
+    expect(ring(moveVertex(a, [0], 0, [-1, -1]))).toEqual([
+      [-1, -1],
+      [1, 0],
+      [1, 1],
+      [0, 1],
+      [-1, -1],
+    ]);
+    expect(ring(removeVertex(a, [0], 0))).toEqual([
+      [1, 0],
+      [1, 1],
+      [0, 1],
+      [1, 0],
+    ]);
+    expect(a.geometry.coordinates[0]).toHaveLength(5);
+  });
+
+  it("addresses lines, multi-geometries and points by path", () => {
+    const line = turf.lineString([
+      [0, 0],
+      [1, 0],
+    ]);
+    expect(insertVertex(line, [], 2, [2, 0])!.geometry.coordinates).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 0],
+    ]);
+    expect(removeVertex(line, [], 0)).toBeNull();
+
+    const multi = turf.multiPolygon([
+      square("", 0).geometry.coordinates,
+      square("", 5).geometry.coordinates,
+    ]);
+    expect(
+      moveVertex(multi, [1, 0], 2, [7, 2])!.geometry.coordinates[1][0][2],
+    ).toEqual([7, 2]);
+    expect(moveVertex(multi, [2, 0], 0, [0, 0])).toBeNull();
+    expect(moveVertex(multi, [0], 0, [0, 0])).toBeNull();
+
+    const point = turf.point([0, 0]);
+    expect(moveVertex(point, [], 0, [3, 4])!.geometry.coordinates).toEqual([
+      3, 4,
+    ]);
+    expect(insertVertex(point, [], 0, [3, 4])).toBeNull();
+  });
+
+  it("rejects indexes that do not exist and rings that would collapse", () => {
+    const a = square("a", 0);
+    expect(insertVertex(a, [0], 5, [0, 0])).toBeNull();
+    expect(moveVertex(a, [0], 4, [0, 0])).toBeNull();
+    expect(moveVertex(a, [0], 1.5, [0, 0])).toBeNull();
+    expect(removeVertex(a, [1], 0)).toBeNull();
+
+    const triangle = removeVertex(a, [0], 3)!;
+    expect(removeVertex(triangle, [0], 0)).toBeNull();
+  });
+});
+
+describe("GeoEditor vertex editing", () => {
+  it("edits vertices as undoable steps and reports them", () => {
+    const mapContainer = document.createElement("div");
+    const { editor } = makeEditor([square("a", 0)], mapContainer);
+    const events: unknown[] = [];
+    mapContainer.addEventListener("gm:vertexedit", (event) =>
+      events.push((event as CustomEvent).detail),
+    );
+    const ring = () =>
+      (editor.getFeatures().features[0] as Feature<Polygon>).geometry
+        .coordinates[0];
+
+    expect(editor.insertVertex("a", [0], 1, [0.5, -0.5])).not.toBeNull();
+    expect(editor.moveVertex("a", [0], 0, [-0.5, 0])).not.toBeNull();
+    expect(editor.removeVertex("a", [0], 3)).not.toBeNull();
+    expect(ring()).toEqual([
+      [-0.5, 0],
+      [0.5, -0.5],
+      [1, 0],
+      [0, 1],
+      [-0.5, 0],
+    ]);
+    expect(events).toHaveLength(3);
+    expect(events[0]).toMatchObject({ action: "insert", path: [0], index: 1 });
+
+    expect(editor.removeVertex("missing", [0], 0)).toBeNull();
+    expect(editor.moveVertex("a", [0], 9, [0, 0])).toBeNull();
+    expect(events).toHaveLength(3);
+
+    editor.undo();
+    editor.undo();
+    expect(ring()).toHaveLength(6);
+    expect(ring()[0]).toEqual([0, 0]);
+  });
+
+  it("moves shared vertices of neighbouring polygons with topology on", () => {
+    const { editor } = makeEditor([square("a", 0), square("b", 1)]);
+    const ringOf = (id: string) =>
+      (
+        editor
+          .getFeatures()
+          .features.find((feature) => feature.id === id) as Feature<Polygon>
+      ).geometry.coordinates[0];
+    editor.setTopology(true);
+
+    editor.moveVertex("a", [0], 1, [1.2, 0]);
+    expect(ringOf("b")[0]).toEqual([1.2, 0]);
+
+    editor.undo();
+    expect(ringOf("a")[1]).toEqual([1, 0]);
+    expect(ringOf("b")[0]).toEqual([1, 0]);
+  });
+});
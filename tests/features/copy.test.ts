@@ -130,6 +130,47 @@ describe('CopyFeature', () => {
       const copied = copyFeature.copyToLocation([], [0, 0]);
       expect(copied).toEqual([]);
     });
+
+    it('moves the center exactly onto the target far from the equator', () => {
+      const features = [turf.point([-120, 60]), turf.point([-118, 62])];
+
+      const copied = copyFeature.copyToLocation(features, [25, -40]);
+      const [lng, lat] = turf.centroid(turf.featureCollection(copied)).geometry
+        .coordinates;
+
+      expect(lng).toBeCloseTo(25, 6);
+      expect(lat).toBeCloseTo(-40, 6);
+    });
+  });
+
+  describe('metric offset', () => {
+    it('offsets copies by meters east and north', () => {
+      const copy = new CopyFeature({ offsetMeters: [100, -50] });
+      const original = turf.point([10, 60]);
+
+      const copied = copy.copy(original);
+
+      const [dx, dy] = [
+        turf.distance(original, turf.point([copied.geometry.coordinates[0], 60]), {
+          units: 'meters',
+        }),
+        turf.distance(original, turf.point([10, copied.geometry.coordinates[1]]), {
+          units: 'meters',
+        }),
+      ];
+      expect(dx).toBeCloseTo(100, 0);
+      expect(dy).toBeCloseTo(50, 0);
+      expect(copied.geometry.coordinates[1]).toBeLessThan(60);
+    });
+
+    it('is ignored when an explicit offset is given', () => {
+      const copy = new CopyFeature({ offsetMeters: [100, 100] });
+      const original = turf.point([10, 60]);
+
+      expect(copy.copy(original, [0, 0]).geometry.coordinates).toEqual([10, 60]);
+      copy.setOffsetMeters(null);
+      expect(copy.getOffsetMeters()).toBeNull();
+    });
   });
 
   describe('setOffset / getOffset', () => {
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import * as turf from '@turf/turf';
+import type { LineString, MultiLineString, Polygon } from 'geojson';
+import { IntersectFeature } from '../../src/lib/features/IntersectFeature';
+
+const square = (x: number, y: number, size: number) =>
+  turf.polygon(
+    [
+      [
+        [x, y],
+        [x + size, y],
+        [x + size, y + size],
+        [x, y + size],
+        [x, y],
+      ],
+    ],
+    { name: `square-${x}-${y}` }
+  );
+
+describe('IntersectFeature', () => {
+  const intersectFeature = new IntersectFeature();
+
+  describe('intersect', () => {
+    it('needs at least 2 polygons', () => {
+      const result = intersectFeature.intersect([square(0, 0, 2)]);
+      expect(result.success).toBe(false);
+      expect(result.result).toBeNull();
+    });
+
+    it('keeps the area shared by all polygons', () => {
+      const result = intersectFeature.intersect([
+        square(0, 0, 4),
+        square(2, 2, 4),
+        square(3, 0, 4),
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(turf.bbox(result.result!)).toEqual([3, 2, 4, 4]);
+      expect(result.result?.properties).toEqual({ name: 'square-0-0' });
+      expect(result.result?.id).toBeDefined();
+    });
+
+    it('fails for polygons that do not overlap', () => {
+      const result = intersectFeature.intersect([
+        square(0, 0, 1),
+        square(5, 5, 1),
+      ]);
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Polygons do not overlap');
+    });
+  });
+
+  describe('clip', () => {
+    const mask = square(0, 0, 4);
+
+    it('clips polygons, lines and points to the mask', () => {
+      const inside = square(1, 1, 1);
+      const across = square(3, 3, 2);
+      const outside = square(10, 10, 1);
+      const line = turf.lineString([
+        [-2, 1],
+        [6, 1],
+      ]);
+      const points = turf.multiPoint([
+        [1, 1],
+        [9, 9],
+      ]);
+
+      const result = intersectFeature.clip(
+        [inside, across, outside, line, points],
+        mask
+      );
+
+      expect(result.success).toBe(true);
+      const [keptInside, clippedAcross, gone, clippedLine, clippedPoints] =
+        result.results;
+      expect(keptInside).toBe(inside);
+      expect(turf.bbox(clippedAcross!)).toEqual([3, 3, 4, 4]);
+      expect((clippedAcross!.geometry as Polygon).type).toBe('Polygon');
+      expect(clippedAcross!.properties).toEqual({ name: 'square-3-3' });
+      expect(gone).toBeNull();
+      expect((clippedLine!.geometry as LineString).coordinates).toEqual([
+        [0, 1],
+        [4, 1],
+      ]);
+      expect(clippedPoints!.geometry).toEqual({
+        type: 'Point',
+        coordinates: [1, 1],
+      });
+    });
+
+    it('keeps every piece of a line that re-enters the mask', () => {
+      const ushape = turf.polygon([
+        [
+          [0, 0],
+          [3, 0],
+          [3, 3],
+          [2, 3],
+          [2, 1],
+          [1, 1],
+          [1, 3],
+          [0, 3],
+          [0, 0],
+        ],
+      ]);
+      const line = turf.lineString([
+        [-1, 2],
+        [4, 2],
+      ]);
+
+      const [clipped] = intersectFeature.clip([line], ushape).results;
+
+      expect(clipped!.geometry.type).toBe('MultiLineString');
+      expect((clipped!.geometry as MultiLineString).coordinates).toHaveLength(2);
+    });
+
+    it('keeps lines that touch the mask boundary from inside', () => {
+      const touching = turf.lineString([
+        [1, 1],
+        [2, 0],
+        [3, 3],
+      ]);
+      const mask = square(0, 0, 4);
+
+      const result = intersectFeature.clip([touching], mask);
+
+      expect(result.results[0]).toBe(touching);
+    });
+  });
+});
@@ -0,0 +1,354 @@
+import { describe, it, expect } from 'vitest';
+import type { Feature, LineString, Polygon } from 'geojson';
+import * as turf from '@turf/turf';
+import { SplitFeature } from '../../src/lib/features/SplitFeature';
+
+const square = (west: number, south: number, size: number) => [
+  [west, south],
+  [west + size, south],
+  [west + size, south + size],
+  [west, south + size],
+  [west, south],
+];
+
+const totalArea = (parts: Feature[]) =>
+  parts.reduce((sum, part) => sum + turf.area(part), 0);
+
+describe('SplitFeature', () => {
+  const splitFeature = new SplitFeature();
+
+  describe('splitPolygon', () => {
+    it('splits along a straight cut without losing area', () => {
+      const polygon = turf.polygon([square(0, 0, 4)], { name: 'parcel' });
+      const cut = turf.lineString([
+        [2, -1],
+        [2, 5],
+      ]);
+
+      const result = splitFeature.splitPolygon(polygon, cut);
+
+      expect(result.success).toBe(true);
+      expect(result.parts).toHaveLength(2);
+      expect(result.parts[0].properties).toEqual({ name: 'parcel' });
+      expect(result.parts[0].id).not.toBe(result.parts[1].id);
+      expect(totalArea(result.parts)).toBeCloseTo(turf.area(polygon), 0);
+    });
+
+    it('splits along a cut through vertices', () => {
+      const polygon = turf.polygon([square(0, 0, 4)]);
+      const diagonal = turf.lineString([
+        [0, 0],
+        [4, 4],
+      ]);
+
+      const result = splitFeature.splitPolygon(polygon, diagonal);
+
+      expect(result.parts).toHaveLength(2);
+      result.parts.forEach((part) =>
+        expect(turf.area(part) / turf.area(polygon)).toBeCloseTo(0.5, 2)
+      );
+    });
+
+    it('cuts a zig-zag line crossing the polygon several times into every face', () => {
+      const polygon = turf.polygon([square(0, 0, 4)]);
+      const zigzag = turf.lineString([
+        [-1, 1],
+        [5, 1],
+        [5, 2],
+        [-1, 2],
+        [-1, 3],
+        [5, 3],
+      ]);
+
+      const result = splitFeature.splitPolygon(polygon, zigzag);
+
+      expect(result.parts).toHaveLength(4);
+      expect(totalArea(result.parts)).toBeCloseTo(turf.area(polygon), 0);
+    });
+
+    it('splits along a cut line that crosses itself', () => {
+      const polygon = turf.polygon([square(0, 0, 4)]);
+      const loop = turf.lineString([
+        [-1, 1],
+        [3, 1],
+        [3, 3],
+        [1, 3],
+        [1, -1],
+      ]);
+
+      const result = splitFeature.splitPolygon(polygon, loop);
+
+      // The loop encloses a face of its own
+      expect(result.parts).toHaveLength(3);
+      expect(totalArea(result.parts)).toBeCloseTo(turf.area(polygon), 0);
+    });
+
+    it('keeps holes in the parts they fall in', () => {
+      const polygon = turf.polygon([square(0, 0, 6), square(1, 1, 1)]);
+      const cut = turf.lineString([
+        [3, -1],
+        [3, 7],
+      ]);
+
+      const result = splitFeature.splitPolygon(polygon, cut);
+
+      expect(result.parts).toHaveLength(2);
+      const withHole = result.parts.find(
+        (part) => (part as Feature<Polygon>).geometry.coordinates.length === 2
+      );
+      expect(withHole).toBeDefined();
+      expect(totalArea(result.parts)).toBeCloseTo(turf.area(polygon), 0);
+    });
+
+    it('splits multipolygons and keeps the parts the line misses', () => {
+      const polygon = turf.multiPolygon([[square(0, 0, 2)], [square(4, 0, 2)]]);
+      const cut = turf.lineString([
+        [1, -1],
+        [1, 3],
+      ]);
+
+      const result = splitFeature.splitPolygon(polygon, cut);
+
+      expect(result.parts).toHaveLength(3);
+      expect(totalArea(result.parts)).toBeCloseTo(turf.area(polygon), 0);
+    });
+
+    it('fails when the line does not cross the polygon', () => {
+      const polygon = turf.polygon([square(0, 0, 4)]);
+      const inside = turf.lineString([
+        [1, 1],
+        [3, 3],
+      ]);
+
+      const result = splitFeature.splitPolygon(polygon, inside);
+
+      expect(result.success).toBe(false);
+      expect(result.parts).toHaveLength(0);
+    });
+  });
+
+  describe('splitLine', () => {
+    it('splits lines and multilines at every crossing', () => {
+      const line = turf.multiLineString([
+        [
+          [0, 0],
+          [10, 0],
+        ],
+        [
+          [0, 5],
+          [10, 5],
+        ],
+      ]);
+      const cut = turf.multiLineString([
+        [
+          [3, -1],
+          [3, 6],
+        ],
+        [
+          [6, -1],
+          [6, 1],
+        ],
+      ]);
+
+      const result = splitFeature.splitLine(line, cut);
+
+      expect(result.success).toBe(true);
+      expect(result.parts).toHaveLength(5);
+      expect(result.parts.every((part) => part.geometry.type === 'LineString')).toBe(true);
+    });
+  });
+
+  describe('splitLineAtPoint', () => {
+    const line = turf.lineString([
+      [0, 0],
+      [2, 0],
+      [2, 2],
+    ]);
+
+    it('splits a line at a vertex', () => {
+      const result = splitFeature.splitLineAtPoint(line, [2, 0]);
+
+      expect(result.parts.map((part) => (part.geometry as LineString).coordinates)).toEqual([
+        [
+          [0, 0],
+          [2, 0],
+        ],
+        [
+          [2, 0],
+          [2, 2],
+        ],
+      ]);
+    });
+
+    it('splits a line at the point on it nearest to a click', () => {
+      const result = splitFeature.splitLineAtPoint(line, [1, 0.001]);
+
+      expect(result.parts).toHaveLength(2);
+      expect((result.parts[0].geometry as LineString).coordinates[1][0]).toBeCloseTo(1, 6);
+      expect(splitFeature.splitLineAtPoint(line, [0, 0]).success).toBe(false);
+    });
+
+    it('splits at a vertex the point only misses by rounding', () => {
+      const result = splitFeature.splitLineAtPoint(line, [2, 1e-16]);
+
+      expect(result.parts.map((part) => (part.geometry as LineString).coordinates)).toEqual([
+        [
+          [0, 0],
+          [2, 0],
+        ],
+        [
+          [2, 0],
+          [2, 2],
+        ],
+      ]);
+      expect(
+        splitFeature.splitLineAtPoint(line, [0.9999999999999999 * 2, 0]).parts[1].geometry
+      ).toEqual({
+        type: 'LineString',
+        coordinates: [
+          [2, 0],
+          [2, 2],
+        ],
+      });
+    });
+  });
+
+  describe('point mode', () => {
+    /** A map stub projecting 1 degree to 1000 pixels */
+    function clickableMap() {
+      const handlers = new Map<string, (e: unknown) => void>();
+      const map = {
+        getSource: () => ({ setData: () => {} }),
+        addSource: () => {},
+        getLayer: () => ({}),
+        getCanvas: () => document.createElement('canvas'),
+        project: ([lng, lat]: [number, number]) => ({ x: lng * 1000, y: -lat * 1000 }),
+        on: (type: string, handler: (e: unknown) => void) => handlers.set(type, handler),
+        off: (type: string) => handlers.delete(type),
+      };
+      const click = (lng: number, lat: number) =>
+        handlers.get('click')?.({ lngLat: { lng, lat } });
+      return { map, click };
+    }
+
+    it('splits only the selected lines under the click', () => {
+      const split = new SplitFeature();
+      const { map, click } = clickableMap();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      split.init(map as any);
+      split.setTool('point');
+      const near = turf.lineString(
+        [
+          [0, 0],
+          [0.1, 0],
+        ],
+        { name: 'near' }
+      );
+      const far = turf.lineString(
+        [
+          [0, 0.1],
+          [0.1, 0.1],
+        ],
+        { name: 'far' }
+      );
+      const results: ReturnType<SplitFeature['splitFeatures']>[] = [];
+      split.startSplit([near, far], (splitResults) => results.push(splitResults));
+
+      click(0.05, 0.05);
+      expect(results).toHaveLength(0);
+      click(0.05, 0.005);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].map((result) => result.original.properties?.name)).toEqual(['near']);
+      expect((results[0][0].parts[0].geometry as LineString).coordinates[1]).toEqual([0.05, 0]);
+    });
+
+    it('puts the new vertex on the straight segment', () => {
+      const line = turf.lineString([
+        [0, 60],
+        [20, 60],
+      ]);
+
+      const result = splitFeature.splitLineAtPoint(line, [10, 60]);
+
+      expect((result.parts[0].geometry as LineString).coordinates[1]).toEqual([10, 60]);
+    });
+  });
+
+  describe('splitPolygonByPolygon', () => {
+    it('splits a polygon into the pieces inside and outside a polygon', () => {
+      const polygon = turf.polygon([square(0, 0, 4)], { name: 'parcel' });
+      const cutter = turf.polygon([square(2, 2, 4)]);
+
+      const result = splitFeature.splitPolygonByPolygon(polygon, cutter);
+
+      expect(result.success).toBe(true);
+      const [inside, outside] = result.parts;
+      expect(turf.area(inside) / turf.area(polygon)).toBeCloseTo(0.25, 1);
+      expect(turf.area(inside) + turf.area(outside)).toBeCloseTo(turf.area(polygon), 0);
+      expect(outside.properties).toEqual({ name: 'parcel' });
+
+      const apart = turf.polygon([square(10, 10, 1)]);
+      expect(splitFeature.splitPolygonByPolygon(polygon, apart).success).toBe(false);
+    });
+  });
+
+  describe('splitPolygonEqually', () => {
+    it('divides a polygon into parts of equal area along a direction', () => {
+      const lShape = turf.polygon([
+        [
+          [0, 0],
+          [0.03, 0],
+          [0.03, 0.01],
+          [0.01, 0.01],
+          [0.01, 0.03],
+          [0, 0.03],
+          [0, 0],
+        ],
+      ]);
+
+      const result = splitFeature.splitPolygonEqually(lShape, 3, 0);
+
+      expect(result.parts).toHaveLength(3);
+      result.parts.forEach((part) =>
+        expect(turf.area(part) / turf.area(lShape)).toBeCloseTo(1 / 3, 2)
+      );
+
+      const rotated = splitFeature.splitPolygonEqually(lShape, 2, 45);
+      expect(rotated.parts).toHaveLength(2);
+      expect(turf.area(rotated.parts[0]) / turf.area(lShape)).toBeCloseTo(0.5, 2);
+      expect(splitFeature.splitPolygonEqually(lShape, 1).success).toBe(false);
+    });
+  });
+
+  describe('splitFeatures', () => {
+    it('splits several features with one line', () => {
+      const left = turf.polygon([square(0, 0, 2)]);
+      const right = turf.polygon([square(3, 0, 2)]);
+      const far = turf.polygon([square(0, 10, 2)]);
+      const cut = turf.lineString([
+        [-1, 1],
+        [6, 1],
+      ]);
+
+      const results = splitFeature.splitFeatures([left, right, far], cut);
+
+      expect(results.map((result) => result.success)).toEqual([true, true, false]);
+      expect(results[1].original).toBe(right);
+    });
+
+    it('splits lines with a polygon and refuses to split polygons at a point', () => {
+      const line = turf.lineString([
+        [0, 1],
+        [6, 1],
+      ]);
+      const polygon = turf.polygon([square(0, 0, 2)]);
+
+      const [lineResult] = splitFeature.splitFeatures([line], turf.polygon([square(2, 0, 2)]));
+      expect(lineResult.parts).toHaveLength(3);
+
+      const [pointResult] = splitFeature.splitFeatures([polygon], turf.point([1, 1]));
+      expect(pointResult.success).toBe(false);
+    });
+  });
+});
@@ -179,4 +179,82 @@ describe('UnionFeature', () => {
       expect(unionFeature.hasOverlap([poly1, poly2])).toBe(false);
     });
   });
+
+  describe('mergeLines', () => {
+    const a = turf.lineString([
+      [0, 0],
+      [1, 0],
+    ]);
+    const b = turf.lineString([
+      [2, 0],
+      [1, 0],
+    ]);
+    const c = turf.lineString([
+      [-1, 1],
+      [0, 0],
+    ]);
+
+    it('joins touching lines end to end, reversing them as needed', () => {
+      const result = unionFeature.mergeLines([a, b, c], {
+        properties: { name: 'road' },
+      });
+      expect(result.success).toBe(true);
+      expect(result.result?.geometry).toEqual({
+        type: 'LineString',
+        coordinates: [
+          [-1, 1],
+          [0, 0],
+          [1, 0],
+          [2, 0],
+        ],
+      });
+      expect(result.result?.properties).toEqual({ name: 'road' });
+    });
+
+    it('snaps ends within the tolerance and keeps others apart', () => {
+      const gap = turf.lineString([
+        [1.000001, 0],
+        [1, 1],
+      ]);
+      expect(unionFeature.mergeLines([a, gap]).result?.geometry.type).toBe(
+        'MultiLineString'
+      );
+      expect(
+        unionFeature.mergeLines([a, gap], { tolerance: 1 }).result?.geometry
+      ).toEqual({
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+        ],
+      });
+    });
+
+    it('needs at least 2 lines', () => {
+      const result = unionFeature.mergeLines([a]);
+      expect(result.success).toBe(false);
+      expect(result.result).toBeNull();
+    });
+  });
+
+  describe('explode', () => {
+    it('splits multi-part features into single parts', () => {
+      const exploded = unionFeature.explode(
+        turf.multiPoint(
+          [
+            [0, 0],
+            [1, 1],
+          ],
+          { name: 'a' }
+        )
+      );
+      expect(exploded.parts.map((part) => part.geometry)).toEqual([
+        { type: 'Point', coordinates: [0, 0] },
+        { type: 'Point', coordinates: [1, 1] },
+      ]);
+      expect(exploded.parts[1].properties).toEqual({ name: 'a' });
+      expect(unionFeature.explode(turf.point([0, 0])).success).toBe(false);
+    });
+  });
 });
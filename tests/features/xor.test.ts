@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import * as turf from '@turf/turf';
+import { XorFeature } from '../../src/lib/features/XorFeature';
+
+const square = (x: number, y: number, size: number) =>
+  turf.polygon([
+    [
+      [x, y],
+      [x + size, y],
+      [x + size, y + size],
+      [x, y + size],
+      [x, y],
+    ],
+  ]);
+
+describe('XorFeature', () => {
+  const xorFeature = new XorFeature();
+
+  it('needs at least 2 polygons', () => {
+    const result = xorFeature.xor([square(0, 0, 1)]);
+    expect(result.success).toBe(false);
+  });
+
+  it('keeps the area covered by exactly one of two polygons', () => {
+    const result = xorFeature.xor([square(0, 0, 2), square(1, 1, 2)], {
+      properties: { kind: 'xor' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.result?.geometry.type).toBe('MultiPolygon');
+    // 4 + 4 minus the shared 1x1 square counted from both sides
+    expect(turf.area(result.result!) / turf.area(square(0, 0, 1))).toBeCloseTo(
+      6,
+      2
+    );
+    expect(result.result?.properties).toEqual({ kind: 'xor' });
+  });
+
+  it('keeps the area covered an odd number of times', () => {
+    const result = xorFeature.xor([
+      square(0, 0, 3),
+      square(1, 0, 1),
+      square(1, 0, 1),
+    ]);
+
+    // The doubly covered square is back in the result
+    expect(turf.area(result.result!) / turf.area(square(0, 0, 1))).toBeCloseTo(
+      9,
+      2
+    );
+  });
+
+  it('fails when the polygons cancel each other out', () => {
+    const result = xorFeature.xor([square(0, 0, 1), square(0, 0, 1)]);
+    expect(result.success).toBe(false);
+    expect(result.result).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { FeatureCollection } from "geojson";
+import { parseCsv, readCsv, writeCsv } from "../../src/lib/formats/csv";
+
+describe("CSV", () => {
+  it("parses quoted fields, escaped quotes and line breaks", () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\n\n1,\n')).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"\nthere'],
+      ["1", ""],
+    ]);
+  });
+
+  it("reads lat/lon columns and types the other columns", () => {
+    const { featureCollection, fields, warnings } = readCsv(
+      "name;Latitude;Longitude;count;open;zip\n" +
+        "Cafe;52.5;13.4;3;true;01067\n" +
+        "Bar;48.1;11.6;;FALSE;80331\n" +
+        "Lost;;;1;true;1\n",
+    );
+
+    expect(featureCollection.features[0]).toEqual({
+      type: "Feature",
+      properties: { name: "Cafe", count: 3, open: true, zip: "01067" },
+      geometry: { type: "Point", coordinates: [13.4, 52.5] },
+    });
+    expect(featureCollection.features[1].properties).toMatchObject({
+      count: null,
+      open: false,
+    });
+    expect(featureCollection.features[2].geometry).toBeNull();
+    expect(fields).toEqual([
+      { name: "name", type: "string" },
+      { name: "count", type: "number" },
+      { name: "open", type: "boolean" },
+      { name: "zip", type: "string" },
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("reads WKT columns by name or by content", () => {
+    const named = readCsv(
+      'id,the_geom\n1,"LINESTRING (0 0, 1 1)"\n2,POINT (oops)\n',
+    );
+    expect(named.featureCollection.features[0].geometry.type).toBe(
+      "LineString",
+    );
+    expect(named.featureCollection.features[1].geometry).toBeNull();
+    expect(named.warnings).toEqual(["1 CSV rows have an unreadable geometry"]);
+
+    const sniffed = readCsv("label\tshape_text\nA\tPOINT (1 2)\n");
+    expect(sniffed.featureCollection.features[0]).toMatchObject({
+      properties: { label: "A" },
+      geometry: { type: "Point", coordinates: [1, 2] },
+    });
+
+    expect(() => readCsv("a,b\n1,2\n")).toThrow("no WKT or latitude/longitude");
+  });
+
+  it("writes points as lat/lon and other geometries as WKT", () => {
+    const points: FeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: { name: 'A "quoted", name', tags: ["x"] },
+          geometry: { type: "Point", coordinates: [13.4, 52.5] },
+        },
+      ],
+    };
+    const csv = writeCsv(points);
+    expect(csv).toBe(
+      'name,tags,longitude,latitude\r\n"A ""quoted"", name","[""x""]",13.4,52.5\r\n',
+    );
+    expect(readCsv(csv).featureCollection.features[0].geometry).toEqual(
+      points.features[0].geometry,
+    );
+
+    const mixed: FeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        ...points.features,
+        {
+          type: "Feature",
+          properties: { id: 7 },
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [0, 0],
+              [1, 1],
+            ],
+          },
+        },
+      ],
+    };
+    expect(writeCsv(mixed).split("\r\n")[2]).toBe(
+      ',,7,"LINESTRING (0 0, 1 1)"',
+    );
+    expect(() => writeCsv(mixed, { geometry: "latlon" })).toThrow(
+      "can only hold points",
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { parseFeatureText } from "../../src/lib/formats/featureText";
+
+const types = (text: string) =>
+  parseFeatureText(text)?.features.map((f) => f.geometry?.type) ?? null;
+
+describe("parseFeatureText", () => {
+  it("recognizes GeoJSON in its usual shapes", () => {
+    expect(
+      types(
+        '{"type":"FeatureCollection","features":[{"type":"Feature","properties":{},"geometry":{"type":"Point","coordinates":[1,2]}}]}',
+      ),
+    ).toEqual(["Point"]);
+    expect(types('{"type":"LineString","coordinates":[[0,0],[1,1]]}')).toEqual([
+      "LineString",
+    ]);
+    expect(
+      types(
+        '[{"type":"Point","coordinates":[1,2]},{"type":"Feature","properties":null,"geometry":{"type":"Polygon","coordinates":[]}}]',
+      ),
+    ).toEqual(["Point", "Polygon"]);
+  });
+
+  it("recognizes WKT lines and QGIS-style tables", () => {
+    expect(types("POINT (1 2)\nLINESTRING (0 0, 1 1)")).toEqual([
+      "Point",
+      "LineString",
+    ]);
+
+    const qgis = parseFeatureText(
+      "wkt_geom\tfid\tname\nPoint (13.4 52.5)\t1\tBerlin\n",
+    );
+    expect(qgis?.features[0]).toEqual({
+      type: "Feature",
+      properties: { fid: 1, name: "Berlin" },
+      geometry: { type: "Point", coordinates: [13.4, 52.5] },
+    });
+  });
+
+  it("returns null for other text", () => {
+    expect(parseFeatureText("")).toBeNull();
+    expect(parseFeatureText("hello world")).toBeNull();
+    expect(parseFeatureText('{"name": "not geojson"}')).toBeNull();
+    expect(parseFeatureText("{broken")).toBeNull();
+    expect(parseFeatureText("a,b\n1,2")).toBeNull();
+  });
+});
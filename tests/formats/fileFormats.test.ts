@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { FeatureCollection } from "geojson";
+import {
+  detectFileFormat,
+  formatFromFilename,
+  readFeatureFile,
+  writeFeatureFile,
+} from "../../src/lib/formats/fileFormats";
+
+const collection: FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { name: "Pin" },
+      geometry: { type: "Point", coordinates: [1, 2] },
+    },
+  ],
+};
+
+describe("file format detection", () => {
+  it("maps filenames to formats", () => {
+    expect(formatFromFilename("a.GeoJSON")).toBe("geojson");
+    expect(formatFromFilename("a.json")).toBe("geojson");
+    expect(formatFromFilename("a.kmz")).toBe("kmz");
+    expect(formatFromFilename("a.zip")).toBe("shapefile");
+    expect(formatFromFilename("a.txt")).toBeNull();
+  });
+
+  it("sniffs contents regardless of the filename", () => {
+    const kml = writeFeatureFile(collection, "kml");
+    const gpx = writeFeatureFile(collection, "gpx");
+    const kmz = writeFeatureFile(collection, "kmz");
+    const shapefile = writeFeatureFile(collection, "shapefile");
+
+    expect(detectFileFormat(kml as string, "upload.bin")).toBe("kml");
+    expect(detectFileFormat(gpx as string)).toBe("gpx");
+    expect(detectFileFormat(kmz as Uint8Array, "upload.zip")).toBe("kmz");
+    expect(detectFileFormat(shapefile as Uint8Array)).toBe("shapefile");
+    expect(detectFileFormat('  {"type":"FeatureCollection"}')).toBe("geojson");
+  });
+
+  it("reads every writable format back into the same features", async () => {
+    for (const format of [
+      "geojson",
+      "kml",
+      "kmz",
+      "gpx",
+      "shapefile",
+    ] as const) {
+      const data = writeFeatureFile(collection, format);
+      const bytes =
+        typeof data === "string"
+          ? new TextEncoder().encode(data)
+          : (data as Uint8Array);
+      const result = await readFeatureFile(bytes);
+
+      expect(result.format).toBe(format);
+      expect(result.featureCollection.features[0].geometry).toEqual({
+        type: "Point",
+        coordinates: [1, 2],
+      });
+      expect(result.featureCollection.features[0].properties?.name).toBe("Pin");
+    }
+  });
+
+  it("rejects unrecognized content", async () => {
+    await expect(readFeatureFile("hello", "notes.txt")).rejects.toThrow(
+      "Unrecognized file format for notes.txt",
+    );
+    await expect(readFeatureFile('{"type":"Point"}')).rejects.toThrow(
+      "Invalid GeoJSON",
+    );
+  });
+});
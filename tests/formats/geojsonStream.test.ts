@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  GeoJsonStreamParser,
+  readGeoJsonMembers,
+  streamGeoJson,
+} from "../../src/lib/formats/geojsonStream";
+
+const feature = (name: string) => ({
+  type: "Feature",
+  properties: { name, note: 'braces } ] and "quotes" \\ inside' },
+  geometry: { type: "Point", coordinates: [1.5, -2] },
+});
+
+const text = JSON.stringify(
+  {
+    type: "FeatureCollection",
+    crs: { type: "name", properties: { name: "EPSG:3857" } },
+    features: [feature("a"), feature("b"), feature("ü")],
+    bbox: [0, 0, 1, 1],
+  },
+  null,
+  2,
+);
+
+describe("GeoJsonStreamParser", () => {
+  it("yields the same features whatever the chunk boundaries", () => {
+    for (const size of [1, 7, 64, text.length]) {
+      const parser = new GeoJsonStreamParser();
+      const features: unknown[] = [];
+      for (let i = 0; i < text.length; i += size) {
+        features.push(...parser.write(text.slice(i, i + size)));
+      }
+
+      expect(features).toEqual([feature("a"), feature("b"), feature("ü")]);
+      expect(parser.end()).toEqual({
+        type: "FeatureCollection",
+        crs: { type: "name", properties: { name: "EPSG:3857" } },
+        bbox: [0, 0, 1, 1],
+      });
+    }
+  });
+
+  it("exposes members read before the features", () => {
+    const parser = new GeoJsonStreamParser();
+    parser.write(text.slice(0, text.indexOf('"b"')));
+    expect(parser.members.crs).toEqual({
+      type: "name",
+      properties: { name: "EPSG:3857" },
+    });
+  });
+
+  it("collects a single Feature root as members", () => {
+    const parser = new GeoJsonStreamParser();
+    expect(parser.write(JSON.stringify(feature("a")))).toEqual([]);
+    expect(parser.end()).toEqual(feature("a"));
+  });
+
+  it("rejects truncated and non-object input", () => {
+    const truncated = new GeoJsonStreamParser();
+    truncated.write(text.slice(0, -10));
+    expect(() => truncated.end()).toThrow("Unexpected end");
+    expect(() => new GeoJsonStreamParser().write("[1, 2]")).toThrow(
+      "Expected a GeoJSON object",
+    );
+  });
+});
+
+describe("streamGeoJson", () => {
+  it("reads a blob in chunks and hands features over in batches", async () => {
+    const blob = new Blob([text]);
+    const batches: number[] = [];
+    const progress: number[] = [];
+
+    const members = await streamGeoJson(blob, {
+      chunkSize: 50,
+      batchSize: 2,
+      onBatch: (features, p) => {
+        batches.push(features.length);
+        progress.push(p.bytesRead);
+        expect(p.totalBytes).toBe(blob.size);
+      },
+    });
+
+    expect(batches).toEqual([2, 1]);
+    expect(progress[progress.length - 1]).toBe(blob.size);
+    expect(members.bbox).toEqual([0, 0, 1, 1]);
+  });
+
+  it("stops with an AbortError when the signal aborts", async () => {
+    const controller = new AbortController();
+    const batches: unknown[][] = [];
+
+    await expect(
+      streamGeoJson(new Blob([text]), {
+        chunkSize: 50,
+        batchSize: 1,
+        signal: controller.signal,
+        onBatch: (features) => {
+          batches.push(features);
+          controller.abort();
+        },
+      }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(batches).toHaveLength(1);
+  });
+});
+
+describe("readGeoJsonMembers", () => {
+  it("finds members that follow the features", async () => {
+    const crsLast = JSON.stringify({
+      type: "FeatureCollection",
+      features: [feature("a"), feature("b")],
+      crs: { type: "name", properties: { name: "EPSG:3857" } },
+    });
+
+    expect(
+      await readGeoJsonMembers(new Blob([crsLast]), { chunkSize: 16 }),
+    ).toEqual({
+      type: "FeatureCollection",
+      crs: { type: "name", properties: { name: "EPSG:3857" } },
+    });
+  });
+
+  it("stops reading once the members are enough", async () => {
+    const members = await readGeoJsonMembers(
+      new Blob([text.slice(0, text.indexOf('"b"'))]),
+      { chunkSize: 16, until: (read) => "crs" in read },
+    );
+    expect(members.crs).toEqual({
+      type: "name",
+      properties: { name: "EPSG:3857" },
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { FeatureCollection } from "geojson";
+import { readGpx, writeGpx } from "../../src/lib/formats/gpx";
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <wpt lat="48.2" lon="16.37"><ele>171</ele><name>Camp</name><sym>Flag</sym></wpt>
+  <rte><name>Route</name><rtept lat="1" lon="2"/><rtept lat="3" lon="4"/></rte>
+  <trk>
+    <name>Hike</name>
+    <trkseg><trkpt lat="0" lon="0"/><trkpt lat="1" lon="1"/></trkseg>
+    <trkseg><trkpt lat="2" lon="2"/><trkpt lat="3" lon="3"/></trkseg>
+  </trk>
+</gpx>`;
+
+describe("GPX format", () => {
+  it("reads waypoints, routes and tracks", () => {
+    const { features } = readGpx(GPX);
+
+    expect(features.map((f) => f.geometry.type)).toEqual([
+      "Point",
+      "LineString",
+      "MultiLineString",
+    ]);
+    expect(features[0].geometry).toEqual({
+      type: "Point",
+      coordinates: [16.37, 48.2, 171],
+    });
+    expect(features[0].properties).toEqual({ name: "Camp", sym: "Flag" });
+    expect(features[1].properties?.name).toBe("Route");
+    expect(features[2].properties?.name).toBe("Hike");
+  });
+
+  it("writes lines as tracks and markers as waypoints", () => {
+    const collection: FeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: { name: "Start", description: "Trailhead" },
+          geometry: { type: "Point", coordinates: [10, 20] },
+        },
+        {
+          type: "Feature",
+          properties: { name: "Trail" },
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [10, 20],
+              [11, 21],
+            ],
+          },
+        },
+      ],
+    };
+
+    const xml = writeGpx(collection);
+    expect(xml).toContain('<wpt lat="20" lon="10">');
+    expect(xml).toContain("<desc>Trailhead</desc>");
+    expect(xml).toContain("<trk><name>Trail</name><trkseg>");
+    expect(xml).not.toContain("<rte>");
+
+    const { features } = readGpx(xml);
+    expect(features[0].properties).toEqual({
+      name: "Start",
+      desc: "Trailhead",
+    });
+    expect(features[1].geometry).toEqual(collection.features[1].geometry);
+  });
+});
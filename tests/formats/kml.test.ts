@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { FeatureCollection } from "geojson";
+import {
+  readKml,
+  readKmz,
+  writeKml,
+  writeKmz,
+} from "../../src/lib/formats/kml";
+
+const KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <Style id="red">
+      <LineStyle><color>ff0000ff</color><width>3</width></LineStyle>
+      <PolyStyle><color>7f00ff00</color></PolyStyle>
+    </Style>
+    <StyleMap id="redMap">
+      <Pair><key>normal</key><styleUrl>#red</styleUrl></Pair>
+      <Pair><key>highlight</key><styleUrl>#other</styleUrl></Pair>
+    </StyleMap>
+    <Schema id="survey">
+      <SimpleField name="count" type="int"/>
+    </Schema>
+    <Folder>
+      <Placemark>
+        <name>Field</name>
+        <styleUrl>#redMap</styleUrl>
+        <ExtendedData>
+          <Data name="owner"><value>Ada</value></Data>
+          <SchemaData schemaUrl="#survey"><SimpleData name="count">7</SimpleData></SchemaData>
+        </ExtendedData>
+        <Polygon>
+          <outerBoundaryIs><LinearRing><coordinates>
+            0,0 4,0 4,4 0,4 0,0
+          </coordinates></LinearRing></outerBoundaryIs>
+          <innerBoundaryIs><LinearRing><coordinates>
+            1,1 1,2 2,2 2,1 1,1
+          </coordinates></LinearRing></innerBoundaryIs>
+        </Polygon>
+      </Placemark>
+      <Placemark>
+        <name>Mixed</name>
+        <MultiGeometry>
+          <Point><coordinates>5,5,10</coordinates></Point>
+          <LineString><coordinates>5,5 6,6</coordinates></LineString>
+        </MultiGeometry>
+      </Placemark>
+      <Placemark>
+        <gx:Track>
+          <gx:coord>7 7 0</gx:coord>
+          <gx:coord>8 8 0</gx:coord>
+        </gx:Track>
+      </Placemark>
+    </Folder>
+  </Document>
+</kml>`;
+
+describe("KML format", () => {
+  it("reads placemarks with styles and extended data as properties", () => {
+    const { features } = readKml(KML);
+    const field = features[0];
+
+    expect(field.geometry.type).toBe("Polygon");
+    expect(
+      (field.geometry as { coordinates: unknown[] }).coordinates,
+    ).toHaveLength(2);
+    expect(field.properties).toMatchObject({
+      name: "Field",
+      owner: "Ada",
+      count: 7,
+      stroke: "#ff0000",
+      "stroke-opacity": 1,
+      "stroke-width": 3,
+      fill: "#00ff00",
+      "fill-opacity": 0.5,
+    });
+  });
+
+  it("splits mixed multi-geometries and reads gx:Track", () => {
+    const { features } = readKml(KML);
+    const types = features.map((f) => f.geometry.type);
+
+    expect(types).toEqual(["Polygon", "Point", "LineString", "LineString"]);
+    expect(features[1].properties?.name).toBe("Mixed");
+    expect(features[2].properties?.name).toBe("Mixed");
+    expect(features[1].geometry).toEqual({
+      type: "Point",
+      coordinates: [5, 5, 10],
+    });
+  });
+
+  it("round-trips styles and properties through KML and KMZ", async () => {
+    const collection: FeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: {
+            name: "A & B",
+            stroke: "#3388ff",
+            "stroke-width": 2,
+            zone: "R1",
+            __gm_id: "internal",
+          },
+          geometry: {
+            type: "MultiLineString",
+            coordinates: [
+              [
+                [0, 0],
+                [1, 1],
+              ],
+              [
+                [2, 2],
+                [3, 3],
+              ],
+            ],
+          },
+        },
+      ],
+    };
+
+    const fromKml = readKml(writeKml(collection));
+    const fromKmz = await readKmz(writeKmz(collection));
+
+    for (const result of [fromKml, fromKmz]) {
+      expect(result.features[0].geometry).toEqual(
+        collection.features[0].geometry,
+      );
+      expect(result.features[0].properties).toEqual({
+        name: "A & B",
+        stroke: "#3388ff",
+        "stroke-opacity": 1,
+        "stroke-width": 2,
+        zone: "R1",
+      });
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import type { FeatureCollection, Point } from "geojson";
+import {
+  createGeoJsonCrs,
+  readGeoJsonCrs,
+  requireProjection,
+  resolveProjection,
+} from "../../src/lib/formats/projection";
+import { makeEditor } from "../core/fakeEditor";
+
+const expectClose = (actual: number[], expected: number[], digits = 6) =>
+  expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value, digits));
+
+describe("CRS resolution", () => {
+  it("resolves EPSG codes in their usual spellings", () => {
+    for (const crs of [
+      "EPSG:3857",
+      "urn:ogc:def:crs:EPSG::3857",
+      "http://www.opengis.net/def/crs/EPSG/0/3857",
+      "3857",
+    ]) {
+      const projection = resolveProjection(crs);
+      expect(projection?.name).toBe("EPSG:3857");
+      expectClose(
+        projection!.inverse([1113194.9079327357, 6446275.841017158]),
+        [10, 50],
+      );
+    }
+    expect(resolveProjection(4326)?.forward([10, 50])).toEqual([10, 50]);
+    expect(resolveProjection("urn:ogc:def:crs:OGC:1.3:CRS84")).not.toBeNull();
+    expect(resolveProjection("EPSG:28992")).toBeNull();
+  });
+
+  it("projects UTM zones from EPSG codes and proj4 strings alike", () => {
+    const fromEpsg = resolveProjection("EPSG:32633")!;
+    const fromProj4 = resolveProjection(
+      "+proj=utm +zone=33 +datum=WGS84 +units=m +no_defs",
+    )!;
+
+    const projected = fromEpsg.forward([15, 52]);
+    expect(projected[0]).toBeCloseTo(500000, 3);
+    expectClose(fromProj4.forward([15, 52]), projected, 3);
+    expectClose(fromEpsg.inverse(fromEpsg.forward([16.5, 48.2])), [16.5, 48.2]);
+
+    const south = resolveProjection("EPSG:32756")!;
+    expect(south.forward([153, -27.5])[1]).toBeGreaterThan(6000000);
+  });
+
+  it("parses spherical Mercator proj4 definitions", () => {
+    const projection = resolveProjection(
+      "+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +no_defs",
+    )!;
+    expectClose(projection.forward([10, 50]), [1113194.9079, 6446275.841], 3);
+    expect(resolveProjection("+proj=somerc +lat_0=46.95")).toBeNull();
+  });
+
+  it("projects Lambert Conformal Conic grids", () => {
+    const lambert93 = resolveProjection("EPSG:2154")!;
+    expectClose(lambert93.forward([3, 46.5]), [700000, 6600000], 3);
+    // Paris
+    expectClose(lambert93.forward([2.3522, 48.8566]), [652469, 6862035], 0);
+    expectClose(
+      lambert93.inverse(lambert93.forward([-1.5, 43.2])),
+      [-1.5, 43.2],
+      9,
+    );
+
+    const esri = resolveProjection(
+      'PROJCS["RGF_1993_Lambert_93",GEOGCS["GCS_RGF_1993",DATUM["D_RGF_1993",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Lambert_Conformal_Conic"],PARAMETER["False_Easting",700000.0],PARAMETER["False_Northing",6600000.0],PARAMETER["Central_Meridian",3.0],PARAMETER["Standard_Parallel_1",49.0],PARAMETER["Standard_Parallel_2",44.0],PARAMETER["Latitude_Of_Origin",46.5],UNIT["Meter",1.0]]',
+    )!;
+    expectClose(esri.forward([2.3522, 48.8566]), [652469, 6862035], 0);
+  });
+
+  it("shifts national grids on other datums to WGS84", () => {
+    // Big Ben on the British National Grid
+    const bng = resolveProjection("EPSG:27700")!;
+    const projected = bng.forward([-0.124625, 51.500729]);
+    expect(Math.abs(projected[0] - 530268)).toBeLessThan(2);
+    expect(Math.abs(projected[1] - 179644)).toBeLessThan(2);
+    expectClose(bng.inverse(projected), [-0.124625, 51.500729], 6);
+
+    // Without the datum shift the position is about 100 m off
+    const airyOnly = resolveProjection(
+      "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy",
+    )!;
+    expect(
+      Math.hypot(
+        airyOnly.forward([-0.124625, 51.500729])[0] - projected[0],
+        airyOnly.forward([-0.124625, 51.500729])[1] - projected[1],
+      ),
+    ).toBeGreaterThan(50);
+    expectClose(
+      resolveProjection(
+        "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489",
+      )!.forward([-0.124625, 51.500729]),
+      projected,
+      3,
+    );
+  });
+
+  it("rejects unsupported systems with a descriptive error", () => {
+    expect(() => requireProjection("EPSG:28992", "rd.geojson")).toThrow(
+      /Unsupported CRS "EPSG:28992" in rd\.geojson: only geographic/,
+    );
+  });
+});
+
+describe("GeoJSON crs member", () => {
+  it("reads named and EPSG-typed members", () => {
+    expect(
+      readGeoJsonCrs({
+        crs: { type: "name", properties: { name: "EPSG:25832" } },
+      }),
+    ).toBe("EPSG:25832");
+    expect(
+      readGeoJsonCrs({ crs: { type: "EPSG", properties: { code: 3857 } } }),
+    ).toBe("EPSG:3857");
+    expect(readGeoJsonCrs({ type: "FeatureCollection" })).toBeNull();
+  });
+
+  it("writes EPSG codes as OGC URNs", () => {
+    expect(createGeoJsonCrs("EPSG:3857")).toEqual({
+      type: "name",
+      properties: { name: "urn:ogc:def:crs:EPSG::3857" },
+    });
+    expect(createGeoJsonCrs("+proj=utm +zone=33")).toBeNull();
+  });
+});
+
+describe("GeoJSON import CRS", () => {
+  it("lets the caller's CRS override the file's crs member", async () => {
+    const { editor } = makeEditor([]);
+    const result = await editor.loadGeoJson(
+      {
+        type: "FeatureCollection",
+        crs: { type: "name", properties: { name: "EPSG:4326" } },
+        features: [
+          {
+            type: "Feature",
+            properties: {},
+            geometry: {
+              type: "Point",
+              coordinates: [1113194.9079327357, 6446275.841017158],
+            },
+          },
+        ],
+      } as FeatureCollection,
+      "wrong-crs.geojson",
+      { crs: "EPSG:3857" },
+    );
+
+    expect(result.crs).toBe("EPSG:3857");
+    expectClose(
+      (editor.getFeatures().features[0].geometry as Point).coordinates,
+      [10, 50],
+    );
+  });
+});
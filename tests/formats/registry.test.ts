@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import type { FeatureCollection } from "geojson";
+import {
+  BUILTIN_FILE_FORMATS,
+  writeFeatureFile,
+} from "../../src/lib/formats/fileFormats";
+import { FormatRegistry } from "../../src/lib/formats/registry";
+import type { FileFormatDefinition } from "../../src/lib/core/types";
+
+const collection: FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { name: "Pin" },
+      geometry: { type: "Point", coordinates: [1, 2] },
+    },
+  ],
+};
+
+/** A JSON-based in-house format without a content sniffer */
+const PINS_FORMAT: FileFormatDefinition = {
+  id: "pins",
+  label: "Pins",
+  extensions: ["PINS"],
+  mimeTypes: ["application/x-pins"],
+  read: (content) => {
+    const pins = JSON.parse(content as string) as [number, number][];
+    return {
+      featureCollection: {
+        type: "FeatureCollection",
+        features: pins.map((coordinates) => ({
+          type: "Feature",
+          properties: {},
+          geometry: { type: "Point", coordinates },
+        })),
+      },
+      fields: [{ name: "label", type: "string" }],
+      warnings: ["pins have no labels"],
+    };
+  },
+  write: (fc) =>
+    JSON.stringify(
+      fc.features.map(
+        (f) => (f.geometry as { coordinates: number[] }).coordinates,
+      ),
+    ),
+};
+
+describe("FormatRegistry", () => {
+  it("normalizes extensions and builds the accept list", () => {
+    const registry = new FormatRegistry(BUILTIN_FILE_FORMATS);
+    registry.register(PINS_FORMAT);
+
+    expect(registry.get("pins")?.extensions).toEqual([".pins"]);
+    expect(registry.acceptList().split(",")).toEqual(
+      expect.arrayContaining([
+        ".geojson",
+        ".zip",
+        ".pins",
+        "application/x-pins",
+      ]),
+    );
+    expect(registry.writable().map((f) => f.id)).toEqual([
+      "geojson",
+      "shapefile",
+      "kml",
+      "kmz",
+      "gpx",
+      "csv",
+      "wkt",
+      "pins",
+    ]);
+  });
+
+  it("replaces a format registered with the same id", () => {
+    const registry = new FormatRegistry(BUILTIN_FILE_FORMATS);
+    registry.register({ ...PINS_FORMAT, id: "geojson", label: "Custom" });
+
+    expect(registry.list()).toHaveLength(BUILTIN_FILE_FORMATS.length);
+    expect(registry.get("geojson")?.label).toBe("Custom");
+  });
+
+  it("trusts the extension of a format without a sniffer", async () => {
+    const registry = new FormatRegistry(BUILTIN_FILE_FORMATS);
+    registry.register(PINS_FORMAT);
+
+    const result = await registry.read("[[3, 4]]", "survey.pins");
+    expect(result.format).toBe("pins");
+    expect(result.featureCollection.features[0].geometry).toEqual({
+      type: "Point",
+      coordinates: [3, 4],
+    });
+    expect(result.fields).toEqual([{ name: "label", type: "string" }]);
+    expect(result.warnings).toEqual(["pins have no labels"]);
+
+    // Sniffed contents still win over a mismatched extension
+    const kmz = writeFeatureFile(collection, "kmz") as Uint8Array;
+    expect(registry.detect(kmz, "upload.zip")?.id).toBe("kmz");
+  });
+
+  it("writes with the format's MIME type and extension", () => {
+    const registry = new FormatRegistry(BUILTIN_FILE_FORMATS);
+    registry.register(PINS_FORMAT);
+
+    expect(registry.write(collection, "pins")).toEqual({
+      data: "[[1,2]]",
+      mimeType: "application/x-pins",
+      extension: ".pins",
+    });
+    expect(() => registry.write(collection, "dxf")).toThrow(
+      'Unknown file format "dxf"',
+    );
+
+    registry.register({ ...PINS_FORMAT, write: undefined });
+    expect(() => registry.write(collection, "pins")).toThrow(
+      'File format "pins" cannot be saved',
+    );
+    expect(() =>
+      registry.register({ id: "empty", extensions: [".x"] }),
+    ).toThrow('File format "empty" must define read or write');
+  });
+
+  it("waits for asynchronous writers and derives missing ids", async () => {
+    const registry = new FormatRegistry();
+    registry.register({
+      label: "Pins archive",
+      extensions: ["PINZ", ".zip"],
+      write: async (fc) => new Blob([JSON.stringify(fc)]),
+    });
+
+    expect(registry.get("pinz")?.label).toBe("Pins archive");
+    expect(() => registry.write(collection, "pinz")).toThrow(
+      'File format "pinz" is written asynchronously; use writeAsync()',
+    );
+    const { data, extension } = await registry.writeAsync(collection, "pinz");
+    expect(data).toBeInstanceOf(Blob);
+    expect(extension).toBe(".pinz");
+  });
+});
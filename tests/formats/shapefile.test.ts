@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import type { FeatureCollection, Polygon } from "geojson";
+import {
+  dbfFieldsToAttributeFields,
+  readShapefileZip,
+  writeShapefile,
+  writeShapefileZip,
+} from "../../src/lib/formats/shapefile";
+import { parseWktProjection } from "../../src/lib/formats/projection";
+import { readZip, writeZip } from "../../src/lib/formats/zip";
+
+const UTM_33N_PRJ =
+  'PROJCS["WGS_1984_UTM_Zone_33N",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",500000.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",15.0],PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]';
+
+const collection: FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { name: "Well", depth: 12.5, active: true },
+      geometry: { type: "Point", coordinates: [10, 20] },
+    },
+    {
+      type: "Feature",
+      properties: { name: "Road", lanes: 2, opened: "2020-05-17" },
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [1, 1],
+          [2, 0],
+        ],
+      },
+    },
+    {
+      type: "Feature",
+      properties: { name: "Parcel with a hole", __gm_id: "internal" },
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+            [0, 10],
+            [0, 0],
+          ],
+          [
+            [2, 2],
+            [2, 4],
+            [4, 4],
+            [4, 2],
+            [2, 2],
+          ],
+        ],
+      },
+    },
+  ],
+};
+
+describe("shapefile format", () => {
+  it("writes one layer per geometry family", () => {
+    const names = writeShapefile(collection, "parcels").map((f) => f.name);
+    expect(names).toContain("parcels_points.shp");
+    expect(names).toContain("parcels_lines.dbf");
+    expect(names).toContain("parcels_polygons.prj");
+    expect(names).toContain("parcels_polygons.cpg");
+  });
+
+  it("round-trips geometry and typed attributes through a zip", async () => {
+    const result = await readShapefileZip(writeShapefileZip(collection));
+    const byName = new Map(
+      result.featureCollection.features.map((f) => [f.properties?.name, f]),
+    );
+
+    expect(result.featureCollection.features).toHaveLength(3);
+    expect(byName.get("Well")?.geometry).toEqual({
+      type: "Point",
+      coordinates: [10, 20],
+    });
+    expect(byName.get("Well")?.properties).toMatchObject({
+      depth: 12.5,
+      active: true,
+    });
+    expect(byName.get("Road")?.properties).toMatchObject({
+      lanes: 2,
+      opened: "2020-05-17",
+    });
+    expect(byName.get("Parcel with a hole")?.properties).not.toHaveProperty(
+      "__gm_id",
+    );
+
+    const polygon = byName.get("Parcel with a hole")?.geometry as Polygon;
+    expect(polygon.coordinates).toHaveLength(2);
+    expect(polygon.coordinates[0]).toContainEqual([10, 10]);
+    expect(polygon.coordinates[1]).toContainEqual([4, 4]);
+  });
+
+  it("maps DBF fields to attribute schema fields", async () => {
+    const result = await readShapefileZip(writeShapefileZip(collection));
+    const fields = dbfFieldsToAttributeFields(result.fields);
+    const types = Object.fromEntries(fields.map((f) => [f.name, f.type]));
+
+    expect(types).toMatchObject({
+      name: "string",
+      depth: "number",
+      active: "boolean",
+      lanes: "number",
+      opened: "date",
+    });
+    expect(fields.find((f) => f.name === "depth")?.step).toBe(0.1);
+  });
+
+  it("reprojects coordinates using the .prj", async () => {
+    const utm = parseWktProjection(UTM_33N_PRJ)!;
+    const [x, y] = utm.forward([15.5, 48.2]);
+    const projected: FeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: { id: 1 },
+          geometry: { type: "Point", coordinates: [x, y] },
+        },
+      ],
+    };
+    const files = writeShapefile(projected, "utm").map((file) =>
+      file.name === "utm.prj"
+        ? { ...file, data: new TextEncoder().encode(UTM_33N_PRJ) }
+        : file,
+    );
+
+    const result = await readShapefileZip(writeZip(files));
+    const [lon, lat] = result.featureCollection.features[0].geometry
+      .coordinates as number[];
+
+    expect(result.reprojected).toBe(true);
+    expect(result.projection).toBe("WGS_1984_UTM_Zone_33N");
+    expect(lon).toBeCloseTo(15.5, 7);
+    expect(lat).toBeCloseTo(48.2, 7);
+  });
+
+  it("reads deflated zip entries", async () => {
+    const text = "deflated shapefile sidecar ".repeat(20);
+    const raw = new TextEncoder().encode(text);
+    const stream = new Response(raw).body!.pipeThrough(
+      new CompressionStream("deflate-raw"),
+    );
+    const deflated = new Uint8Array(await new Response(stream).arrayBuffer());
+
+    // Patch a stored archive into a deflated one: method 8 + compressed data.
+    const stored = writeZip([{ name: "a.txt", data: deflated }]);
+    const view = new DataView(stored.buffer);
+    view.setUint16(8, 8, true);
+    const centralOffset = view.getUint32(stored.length - 6, true);
+    view.setUint16(centralOffset + 10, 8, true);
+
+    const [entry] = await readZip(stored);
+    expect(new TextDecoder().decode(entry.data)).toBe(text);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  geometryToWkt,
+  parseWktGeometry,
+  readWkt,
+} from "../../src/lib/formats/wkt";
+
+describe("WKT", () => {
+  it("parses every simple feature type", () => {
+    expect(parseWktGeometry("POINT (30 10)")).toEqual({
+      type: "Point",
+      coordinates: [30, 10],
+    });
+    expect(parseWktGeometry("linestring(30 10, 10 30, 40 40)")).toEqual({
+      type: "LineString",
+      coordinates: [
+        [30, 10],
+        [10, 30],
+        [40, 40],
+      ],
+    });
+    expect(
+      parseWktGeometry(
+        "POLYGON ((35 10, 45 45, 15 40, 10 20, 35 10), (20 30, 35 35, 30 20, 20 30))",
+      ),
+    ).toMatchObject({
+      type: "Polygon",
+      coordinates: [{ length: 5 }, { length: 4 }],
+    });
+    expect(parseWktGeometry("MULTIPOINT ((10 40), (40 30))")).toEqual(
+      parseWktGeometry("MULTIPOINT (10 40, 40 30)"),
+    );
+    expect(
+      parseWktGeometry(
+        "MULTIPOLYGON (((30 20, 45 40, 10 40, 30 20)), ((15 5, 40 10, 10 20, 5 10, 15 5)))",
+      ),
+    ).toMatchObject({ type: "MultiPolygon", coordinates: { length: 2 } });
+    expect(
+      parseWktGeometry(
+        "GEOMETRYCOLLECTION (POINT (4 6), LINESTRING (4 6, 7 10))",
+      ),
+    ).toMatchObject({
+      type: "GeometryCollection",
+      geometries: [{ type: "Point" }, { type: "LineString" }],
+    });
+  });
+
+  it("handles dimensions, EMPTY and EWKT", () => {
+    expect(parseWktGeometry("POINT Z (1 2 3)").coordinates).toEqual([1, 2, 3]);
+    expect(parseWktGeometry("POINTZM (1 2 3 4)").coordinates).toEqual([
+      1, 2, 3,
+    ]);
+    expect(parseWktGeometry("POINT M (1 2 4)").coordinates).toEqual([1, 2]);
+    expect(parseWktGeometry("SRID=4326;POINT(1 2)").coordinates).toEqual([
+      1, 2,
+    ]);
+    expect(parseWktGeometry("LINESTRING EMPTY")).toEqual({
+      type: "LineString",
+      coordinates: [],
+    });
+  });
+
+  it("rejects malformed text", () => {
+    expect(() => parseWktGeometry("POINT (1)")).toThrow();
+    expect(() => parseWktGeometry("CIRCLE (1 2)")).toThrow(
+      "Unknown geometry type",
+    );
+    expect(() => parseWktGeometry("POINT (1 2) extra")).toThrow("Unexpected");
+    expect(() => parseWktGeometry("LINESTRING (1 2, 3 4")).toThrow(
+      "end of text",
+    );
+  });
+
+  it("round-trips geometries through text", () => {
+    for (const text of [
+      "POINT (30 10)",
+      "POINT Z (1 2 3)",
+      "MULTIPOINT (10 40, 40 30)",
+      "POLYGON ((0 0, 1 0, 1 1, 0 0))",
+      "MULTIPOLYGON (((0 0, 1 0, 1 1, 0 0)), ((5 5, 6 5, 6 6, 5 5)))",
+      "GEOMETRYCOLLECTION (POINT (4 6), LINESTRING (4 6, 7 10))",
+      "POLYGON EMPTY",
+    ]) {
+      expect(geometryToWkt(parseWktGeometry(text))).toBe(text);
+    }
+  });
+
+  it("reads one geometry per line", () => {
+    const collection = readWkt("POINT (1 2)\n\nLINESTRING (0 0, 1 1)\r\n");
+    expect(collection.features.map((f) => f.geometry.type)).toEqual([
+      "Point",
+      "LineString",
+    ]);
+    expect(() => readWkt("POINT (1 2)\nPOINT (x)")).toThrow("line 2");
+  });
+});